@@ -5,6 +5,8 @@ import { ProtectedRoute } from './components/ProtectedRoute';
 import { PublicRoute } from './components/PublicRoute';
 import { LoginPage } from './pages/LoginPage';
 import { RegisterPage } from './pages/RegisterPage';
+import { ForgotPasswordPage } from './pages/ForgotPasswordPage';
+import { ResetPasswordPage } from './pages/ResetPasswordPage';
 import { DashboardPage } from './pages/DashboardPage';
 import { RootRedirect } from './components/RootRedirect';
 
@@ -34,6 +36,18 @@ function App() {
               }
             />
             
+            <Route
+              path="/forgot-password"
+              element={
+                <PublicRoute>
+                  <ForgotPasswordPage />
+                </PublicRoute>
+              }
+            />
+
+            {/* Not a PublicRoute: the link may be opened while signed in */}
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
+            
             <Route
               path="/dashboard/*"
               element={
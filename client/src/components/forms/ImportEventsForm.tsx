@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { apiClient } from '../../services/api';
+import { useToast } from '../../contexts/ToastContext';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import type { ImportPreview, KarmaImportStatus } from '../../types';
+
+interface ImportEventsFormProps {
+  onImported: () => void;
+  onClose: () => void;
+}
+
+// Walks the user through choosing a file, reviewing the dry run and importing
+export const ImportEventsForm: React.FC<ImportEventsFormProps> = ({ onImported, onClose }) => {
+  const { showToast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<KarmaImportStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+    setPreview(null);
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      setPreview(await apiClient.previewKarmaImport(file));
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Import Failed',
+        message: error instanceof Error ? error.message : 'Could not read the file',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const imported = await apiClient.importKarmaEvents(file);
+      setResult(imported);
+      showToast({
+        type: 'success',
+        title: 'Events Imported',
+        message: `${imported.imported_count} events imported. AI scoring will run in the background.`,
+      });
+      onImported();
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Import Failed',
+        message: error instanceof Error ? error.message : 'Failed to import events',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setResult(null);
+  };
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          Imported <strong>{result.imported_count}</strong> of {result.total_rows} rows from {result.file_name}.
+          {result.duplicate_rows.length > 0 && ` ${result.duplicate_rows.length} duplicates were skipped.`}
+          {result.errors.length > 0 && ` ${result.errors.length} invalid rows were skipped.`}
+        </p>
+        <p className="text-sm text-gray-500">
+          Events are scored in batches, so feedback for large imports can take a few minutes to appear.
+        </p>
+        <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+          <button
+            type="button"
+            onClick={reset}
+            className="w-full sm:w-auto px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            Import Another File
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handlePreview} className="space-y-4">
+        <div>
+          <label htmlFor="import-file" className="block text-sm font-medium text-gray-700 mb-1">
+            CSV or JSON file
+          </label>
+          <input
+            type="file"
+            id="import-file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            className="w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Columns: <code>action</code> (required), <code>reflection</code>, <code>occurred_at</code>. JSON files hold an array of objects with the same fields.
+          </p>
+        </div>
+        {!preview && (
+          <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full sm:w-auto px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !file}
+              className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center space-x-2"
+            >
+              {loading && <LoadingSpinner size="sm" />}
+              <span>{loading ? 'Checking...' : 'Preview'}</span>
+            </button>
+          </div>
+        )}
+      </form>
+
+      {preview && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="p-3 bg-green-50 rounded-lg">
+              <p className="text-2xl font-bold text-green-700">{preview.rows.length}</p>
+              <p className="text-xs text-green-700">Ready to import</p>
+            </div>
+            <div className="p-3 bg-yellow-50 rounded-lg">
+              <p className="text-2xl font-bold text-yellow-700">{preview.duplicate_rows.length}</p>
+              <p className="text-xs text-yellow-700">Duplicates</p>
+            </div>
+            <div className="p-3 bg-red-50 rounded-lg">
+              <p className="text-2xl font-bold text-red-700">{preview.errors.length}</p>
+              <p className="text-xs text-red-700">Invalid</p>
+            </div>
+          </div>
+
+          {preview.rows.length > 0 && (
+            <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Action</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Date</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.rows.map((row) => (
+                    <tr key={row.row}>
+                      <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-3 py-2 text-gray-900">{row.action}</td>
+                      <td className="px-3 py-2 text-gray-500">
+                        {row.occurred_at ? new Date(row.occurred_at).toLocaleDateString() : 'Today'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {preview.duplicate_rows.length > 0 && (
+            <p className="text-sm text-yellow-700">
+              Rows {preview.duplicate_rows.join(', ')} match events you already logged and will be skipped.
+            </p>
+          )}
+
+          {preview.errors.length > 0 && (
+            <ul className="text-sm text-red-700 space-y-1">
+              {preview.errors.map((error) => (
+                <li key={error.row}>
+                  Row {error.row}: {error.messages.join('; ')}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+            <button
+              type="button"
+              onClick={reset}
+              className="w-full sm:w-auto px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+            >
+              Choose Another File
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={loading || preview.rows.length === 0}
+              className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center space-x-2"
+            >
+              {loading && <LoadingSpinner size="sm" />}
+              <span>{loading ? 'Importing...' : `Import ${preview.rows.length} Events`}</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
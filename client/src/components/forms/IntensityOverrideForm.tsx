@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { apiClient } from '../../services/api';
+import { useToast } from '../../contexts/ToastContext';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import type { KarmaEvent } from '../../types';
+
+interface IntensityOverrideFormProps {
+  event: KarmaEvent;
+  onSaved: (event: KarmaEvent) => void;
+  onClose: () => void;
+}
+
+const INTENSITY_OPTIONS = Array.from({ length: 12 }, (_, i) => i - 1);
+
+// Lets the user dispute the AI's intensity with their own score and a reason
+export const IntensityOverrideForm: React.FC<IntensityOverrideFormProps> = ({ event, onSaved, onClose }) => {
+  const { showToast } = useToast();
+  const [intensity, setIntensity] = useState(event.user_intensity ?? event.ai_intensity ?? event.intensity);
+  const [reason, setReason] = useState(event.user_intensity_reason ?? '');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason.trim().length < 3) return;
+
+    setLoading(true);
+    try {
+      const updated = await apiClient.overrideIntensity(event.event_id, { intensity, reason: reason.trim() });
+      onSaved(updated);
+      showToast({
+        type: 'success',
+        title: 'Score Updated',
+        message: updated.intensity === intensity
+          ? `Your event now counts as ${updated.intensity}/10.`
+          : `Your score was recorded. This event counts as ${updated.intensity}/10 under the scoring policy.`,
+        duration: 4000
+      });
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Error Updating Score',
+        message: error instanceof Error ? error.message : 'Failed to update the score'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    setLoading(true);
+    try {
+      const updated = await apiClient.clearIntensityOverride(event.event_id);
+      onSaved(updated);
+      showToast({
+        type: 'success',
+        title: 'Score Restored',
+        message: `The AI score of ${updated.intensity}/10 counts again.`,
+        duration: 4000
+      });
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Error Updating Score',
+        message: error instanceof Error ? error.message : 'Failed to restore the AI score'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+      <p className="text-sm text-gray-600">
+        The AI scored this action {event.ai_intensity}/10. If that feels wrong, give your own score and tell us why.
+        Overrides are reviewed, and large changes may only partly count.
+      </p>
+      <div>
+        <label htmlFor={`override-intensity-${event.event_id}`} className="block text-sm font-medium text-gray-700 mb-1">
+          Your score
+        </label>
+        <select
+          id={`override-intensity-${event.event_id}`}
+          value={intensity}
+          onChange={(e) => setIntensity(Number(e.target.value))}
+          className="w-full sm:w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {INTENSITY_OPTIONS.map((value) => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor={`override-reason-${event.event_id}`} className="block text-sm font-medium text-gray-700 mb-1">
+          Reason *
+        </label>
+        <textarea
+          id={`override-reason-${event.event_id}`}
+          required
+          minLength={3}
+          maxLength={500}
+          rows={2}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="What did the AI miss?"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+        {event.user_intensity !== null && (
+          <button
+            type="button"
+            onClick={handleWithdraw}
+            disabled={loading}
+            className="w-full sm:w-auto px-4 py-2 text-red-600 bg-white border border-red-200 rounded-md hover:bg-red-50 disabled:text-gray-400 transition-colors"
+          >
+            Use AI Score
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="w-full sm:w-auto px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={loading || reason.trim().length < 3}
+          className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center space-x-2"
+        >
+          {loading && <LoadingSpinner size="sm" />}
+          <span>{loading ? 'Saving...' : 'Submit Score'}</span>
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../hooks/useAuth';
+import { useToast } from '../../contexts/ToastContext';
 import { PasswordInput } from '../ui/PasswordInput';
 
 interface LoginFormProps {
@@ -14,6 +15,7 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   const { login, error } = useAuth();
+  const { showToast } = useToast();
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -25,7 +27,15 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
     setIsSubmitting(true);
     
     try {
-      await login(formData.email, formData.password);
+      const { deletion_cancelled } = await login(formData.email, formData.password);
+      if (deletion_cancelled) {
+        showToast({
+          type: 'info',
+          title: 'Welcome Back',
+          message: 'Your scheduled account deletion has been cancelled.',
+          duration: 6000
+        });
+      }
       onSuccess?.();
     } catch (err) {
       // Error is handled by AuthContext
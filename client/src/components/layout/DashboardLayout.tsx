@@ -2,21 +2,26 @@ import { useState } from 'react';
 import { Outlet, Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { useBadgeNotifications } from '../../hooks/useBadgeNotifications';
+import { useAIFeedbackNotifications } from '../../hooks/useAIFeedbackNotifications';
 
 export const DashboardLayout = () => {
   const { user, logout } = useAuth();
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
-  // Initialize badge notifications
+  // Toasts for badges and AI feedback pushed by the server
   useBadgeNotifications();
+  useAIFeedbackNotifications();
 
   const navigation = [
     { name: 'Overview', href: '/dashboard', current: location.pathname === '/dashboard' },
     { name: 'Karma Events', href: '/dashboard/events', current: location.pathname === '/dashboard/events' },
     { name: 'Leaderboard', href: '/dashboard/leaderboard', current: location.pathname === '/dashboard/leaderboard' },
+    { name: 'Groups', href: '/dashboard/groups', current: location.pathname.startsWith('/dashboard/groups') },
+    { name: 'Challenges', href: '/dashboard/challenges', current: location.pathname.startsWith('/dashboard/challenges') },
     { name: 'Badges', href: '/dashboard/badges', current: location.pathname === '/dashboard/badges' },
     { name: 'Suggestions', href: '/dashboard/suggestions', current: location.pathname === '/dashboard/suggestions' },
+    { name: 'Profile', href: '/dashboard/profile', current: location.pathname === '/dashboard/profile' },
   ];
 
   const handleLogout = () => {
@@ -41,7 +46,7 @@ export const DashboardLayout = () => {
             {/* Desktop menu */}
             <div className="hidden sm:flex sm:items-center sm:space-x-4">
               <span className="text-sm text-gray-700">
-                Welcome, {user?.username}!
+                Welcome, {user?.display_name || user?.username}!
               </span>
               <button
                 onClick={handleLogout}
@@ -87,7 +92,7 @@ export const DashboardLayout = () => {
         <div className={`${isMobileMenuOpen ? 'block' : 'hidden'} sm:hidden`}>
           <div className="px-2 pt-2 pb-3 space-y-1">
             <div className="px-3 py-2 text-sm text-gray-700">
-              Welcome, {user?.username}!
+              Welcome, {user?.display_name || user?.username}!
             </div>
             {navigation.map((item) => (
               <Link
@@ -0,0 +1,33 @@
+import { CATEGORY_LABELS } from '../../services/categories';
+import type { KarmaCategory, Tag } from '../../types';
+
+interface EventLabelsProps {
+  category: KarmaCategory | null;
+  tags?: Tag[];
+  onTagClick?: (name: string) => void;
+}
+
+export const EventLabels = ({ category, tags = [], onTagClick }: EventLabelsProps) => {
+  if (!category && tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3">
+      {category && (
+        <span className="px-2 py-1 text-xs font-medium rounded-md bg-indigo-100 text-indigo-800">
+          {CATEGORY_LABELS[category]}
+        </span>
+      )}
+      {tags.map((tag) => (
+        <button
+          key={tag.id}
+          type="button"
+          onClick={() => onTagClick?.(tag.name)}
+          disabled={!onTagClick}
+          className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:hover:bg-gray-100"
+        >
+          #{tag.name}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,13 @@
+import type { GroupRole } from '../../types';
+
+const ROLE_BADGES: Record<GroupRole, { text: string; color: string }> = {
+  owner: { text: 'Owner', color: 'bg-purple-100 text-purple-800' },
+  admin: { text: 'Admin', color: 'bg-blue-100 text-blue-800' },
+  member: { text: 'Member', color: 'bg-gray-100 text-gray-800' },
+};
+
+export const GroupRoleBadge = ({ role }: { role: GroupRole }) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-medium ${ROLE_BADGES[role].color}`}>
+    {ROLE_BADGES[role].text}
+  </span>
+);
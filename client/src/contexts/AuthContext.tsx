@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
 import { apiClient } from '../services/api';
-import type { User, AuthContextType, CreateUserDto } from '../types';
+import type { User, AuthContextType, CreateUserDto, UpdateProfileDto } from '../types';
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -16,18 +16,26 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   useEffect(() => {
     const savedToken = localStorage.getItem('auth_token');
-    if (savedToken) {
-      // Check if token is corrupted (contains [object Object])
-      if (savedToken.includes('[object Object]')) {
-        // Clear corrupted token
-        localStorage.removeItem('auth_token');
-        apiClient.clearToken();
-      } else {
-        setToken(savedToken);
-        apiClient.setToken(savedToken);
-      }
+    if (savedToken?.includes('[object Object]')) {
+      // Clear corrupted token
+      apiClient.clearToken();
+      setIsLoading(false);
+    } else if (savedToken) {
+      setToken(savedToken);
+      // Restore the signed-in user; a failed refresh logs out via onAuthExpired
+      apiClient.getMe()
+        .then(setUser)
+        .catch(() => undefined)
+        .finally(() => setIsLoading(false));
+    } else {
+      setIsLoading(false);
     }
-    setIsLoading(false);
+
+    // The refresh token was rejected (expired, revoked or reused)
+    return apiClient.onAuthExpired(() => {
+      setUser(null);
+      setToken(null);
+    });
   }, []);
 
   const login = async (email: string, password: string) => {
@@ -36,7 +44,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setError(null);
       
       const response = await apiClient.login({ email, password });
-      const { access_token } = response;
+      const { access_token, refresh_token } = response;
       
       // Validate token is a string
       if (typeof access_token !== 'string') {
@@ -44,13 +52,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
       
       setToken(access_token);
-      apiClient.setToken(access_token);
-      localStorage.setItem('auth_token', access_token);
+      apiClient.setToken(access_token, refresh_token);
       
       // Get user data after successful login
-      const userData = await apiClient.getUserByEmail(email);
+      const userData = await apiClient.getMe();
       setUser(userData);
-      
+      return response;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Login failed';
       setError(errorMessage);
@@ -67,7 +74,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       const response = await apiClient.register(userData);
       console.log('Registration response:', response);
-      const { access_token, data } = response;
+      const { access_token, refresh_token, data } = response;
       console.log('Access token:', access_token, 'Type:', typeof access_token);
       
       // Validate token is a string
@@ -77,10 +84,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       setToken(access_token);
       setUser(data);
-      apiClient.setToken(access_token);
-      
-      // Ensure token is persisted before proceeding
-      localStorage.setItem('auth_token', access_token);
+      apiClient.setToken(access_token, refresh_token);
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Registration failed';
@@ -91,12 +95,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const logout = () => {
+  const logout = async () => {
+    // Revoke the session server-side, but log out locally even if that fails
+    await apiClient.logout().catch(() => undefined);
     setUser(null);
     setToken(null);
     setError(null);
     apiClient.clearToken();
-    localStorage.removeItem('auth_token');
+  };
+
+  const updateProfile = async (data: UpdateProfileDto) => {
+    const updated = await apiClient.updateMe(data);
+    setUser(updated);
   };
 
   const value: AuthContextType = {
@@ -105,6 +115,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     register,
     logout,
+    updateProfile,
     isLoading,
     error,
   };
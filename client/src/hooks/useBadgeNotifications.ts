@@ -1,50 +1,9 @@
-import { useEffect, useRef } from 'react';
-import { apiClient } from '../services/api';
 import { useToast } from '../contexts/ToastContext';
+import { useRealtime } from './useRealtime';
 
+// Shows a badge toast when the server pushes a newly awarded badge
 export const useBadgeNotifications = () => {
   const { showBadgeToast } = useToast();
-  const lastBadgeCountRef = useRef<number>(0);
-  const isInitialLoadRef = useRef(true);
-
-  const checkForNewBadges = async () => {
-    try {
-      const badges = await apiClient.getMyBadges();
-      const currentBadgeCount = badges.length;
-      
-      if (isInitialLoadRef.current) {
-        // On initial load, just set the count without showing notifications
-        lastBadgeCountRef.current = currentBadgeCount;
-        isInitialLoadRef.current = false;
-        return;
-      }
-
-      if (currentBadgeCount > lastBadgeCountRef.current) {
-        // New badges detected - show notifications for the newest ones
-        const newBadges = badges
-          .sort((a, b) => new Date(b.awarded_at).getTime() - new Date(a.awarded_at).getTime())
-          .slice(0, currentBadgeCount - lastBadgeCountRef.current);
-
-        for (const userBadge of newBadges) {
-          if (userBadge.badge) {
-            const badge = userBadge.badge;
-            const rarity = getBadgeRarity(badge.code);
-            
-            showBadgeToast({
-              icon: getBadgeIcon(badge.icon),
-              name: badge.name,
-              description: badge.description,
-              rarity
-            });
-          }
-        }
-
-        lastBadgeCountRef.current = currentBadgeCount;
-      }
-    } catch (error) {
-      console.error('Error checking for new badges:', error);
-    }
-  };
 
   const getBadgeIcon = (icon: string) => {
     const iconMap: { [key: string]: string } = {
@@ -65,32 +24,12 @@ export const useBadgeNotifications = () => {
     return 'common';
   };
 
-  const triggerBadgeCheck = () => {
-    // Allow manual triggering of badge check (useful after creating events)
-    setTimeout(() => {
-      checkForNewBadges();
-    }, 3000); // Small delay to allow backend processing
-    
-    // Also check again after a longer delay in case the first check was too early
-    setTimeout(() => {
-      checkForNewBadges();
-    }, 10000);
-  };
-
-  useEffect(() => {
-    // Initial check
-    checkForNewBadges();
-
-    // Set up polling for badge updates (every 30 seconds)
-    const interval = setInterval(checkForNewBadges, 30000);
-
-    return () => {
-      clearInterval(interval);
-    };
-  }, []);
-
-  return {
-    checkForNewBadges,
-    triggerBadgeCheck
-  };
-};
\ No newline at end of file
+  useRealtime('badge.awarded', (badge) => {
+    showBadgeToast({
+      icon: getBadgeIcon(badge.icon),
+      name: badge.name,
+      description: badge.description,
+      rarity: getBadgeRarity(badge.code)
+    });
+  });
+};
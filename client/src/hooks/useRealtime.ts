@@ -0,0 +1,19 @@
+import { useEffect, useRef } from 'react';
+import { realtimeClient } from '../services/realtime';
+import type { RealtimeMessages, RealtimeMessageType } from '../types';
+
+// Calls `handler` for every pushed message of `type` while mounted
+export const useRealtime = <K extends RealtimeMessageType>(
+  type: K,
+  handler: (data: RealtimeMessages[K]) => void
+) => {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    return realtimeClient.subscribe(type, (data) => handlerRef.current(data));
+  }, [type]);
+};
@@ -6,6 +6,11 @@ import { EventsPage } from './dashboard/EventsPage';
 import { LeaderboardPage } from './dashboard/LeaderboardPage';
 import { BadgesPage } from './dashboard/BadgesPage';
 import { SuggestionsPage } from './dashboard/SuggestionsPage';
+import { ProfilePage } from './dashboard/ProfilePage';
+import { GroupsPage } from './dashboard/GroupsPage';
+import { GroupDetailPage } from './dashboard/GroupDetailPage';
+import { ChallengesPage } from './dashboard/ChallengesPage';
+import { ChallengeDetailPage } from './dashboard/ChallengeDetailPage';
 
 export const DashboardPage: React.FC = () => {
   return (
@@ -16,6 +21,11 @@ export const DashboardPage: React.FC = () => {
         <Route path="leaderboard" element={<LeaderboardPage />} />
         <Route path="badges" element={<BadgesPage />} />
         <Route path="suggestions" element={<SuggestionsPage />} />
+        <Route path="groups" element={<GroupsPage />} />
+        <Route path="groups/:groupId" element={<GroupDetailPage />} />
+        <Route path="challenges" element={<ChallengesPage />} />
+        <Route path="challenges/:challengeId" element={<ChallengeDetailPage />} />
+        <Route path="profile" element={<ProfilePage />} />
       </Route>
     </Routes>
   );
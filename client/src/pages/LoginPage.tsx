@@ -24,7 +24,13 @@ export const LoginPage: React.FC = () => {
         <div className="mt-8 space-y-6">
           <LoginForm onSuccess={handleLoginSuccess} />
           
-          <div className="text-center">
+          <div className="text-center space-y-2">
+            <Link
+              to="/forgot-password"
+              className="block text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Forgot your password?
+            </Link>
             <span className="text-sm text-gray-600">
               Don't have an account?{' '}
               <Link
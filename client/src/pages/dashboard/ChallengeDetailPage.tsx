@@ -0,0 +1,212 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { apiClient } from '../../services/api';
+import { describeGoal, METRIC_LABELS, progressPercent } from '../../services/challenges';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../../components/ui/ErrorMessage';
+import { useAuth } from '../../hooks/useAuth';
+import { useToast } from '../../contexts/ToastContext';
+import { useRealtime } from '../../hooks/useRealtime';
+import type { ChallengeDetail, ChallengeStatus } from '../../types';
+
+const STATUS_BADGES: Record<ChallengeStatus, { text: string; color: string }> = {
+  upcoming: { text: 'Upcoming', color: 'bg-yellow-100 text-yellow-800' },
+  active: { text: 'Active', color: 'bg-green-100 text-green-800' },
+  ended: { text: 'Ended', color: 'bg-gray-100 text-gray-800' },
+};
+
+export const ChallengeDetailPage = () => {
+  const { challengeId = '' } = useParams();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [challenge, setChallenge] = useState<ChallengeDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    fetchChallenge();
+  }, [challengeId]);
+
+  // Progress moves as events are scored
+  useRealtime('leaderboard.changed', () => {
+    apiClient.getChallenge(challengeId).then(setChallenge).catch(() => undefined);
+  });
+
+  const fetchChallenge = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setChallenge(await apiClient.getChallenge(challengeId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load challenge');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    setJoining(true);
+    try {
+      setChallenge(await apiClient.joinChallenge(challengeId));
+      showToast({
+        type: 'success',
+        title: 'Challenge Joined',
+        message: 'Events you log during the challenge now count towards it.',
+      });
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Could Not Join Challenge',
+        message: err instanceof Error ? err.message : 'Failed to join challenge',
+      });
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !challenge) {
+    return <ErrorMessage message={error ?? 'Challenge not found'} onRetry={fetchChallenge} />;
+  }
+
+  const me = challenge.me;
+  const statusBadge = STATUS_BADGES[challenge.status];
+  const lastDay = new Date(new Date(challenge.ends_at).getTime() - 1);
+  const daysLeft = Math.max(0, Math.ceil((new Date(challenge.ends_at).getTime() - Date.now()) / 86400000));
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link to="/dashboard/challenges" className="text-sm text-blue-600 hover:text-blue-800">
+          ← All challenges
+        </Link>
+        <div className="flex flex-wrap items-center gap-2 mt-1">
+          <h2 className="text-2xl font-bold text-gray-900">{challenge.title}</h2>
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusBadge.color}`}>
+            {statusBadge.text}
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          <Link to={`/dashboard/groups/${challenge.group.id}`} className="hover:text-blue-600">
+            {challenge.group.name}
+          </Link>
+          {' · '}
+          {new Date(challenge.starts_at).toLocaleDateString()} – {lastDay.toLocaleDateString()}
+          {challenge.status === 'active' && ` · ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`}
+        </p>
+        {challenge.description && (
+          <p className="text-gray-700 mt-2">{challenge.description}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {/* Goal */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm font-medium text-gray-600">{METRIC_LABELS[challenge.metric]}</p>
+          <p className="text-lg font-semibold text-gray-900 mt-1">{describeGoal(challenge)}</p>
+          <div className="flex items-center gap-2 mt-4">
+            <span className="text-2xl">🏅</span>
+            <div>
+              <p className="text-sm font-medium text-gray-900">{challenge.badge.name}</p>
+              <p className="text-xs text-gray-500">Awarded to everyone who reaches the goal</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Your Progress */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm font-medium text-gray-600">Your Progress</p>
+          {me ? (
+            <>
+              <div className="flex items-baseline gap-2 mt-1">
+                <span className={`text-2xl font-bold ${me.completed_at ? 'text-green-600' : 'text-blue-600'}`}>
+                  {me.progress ?? '—'}
+                </span>
+                <span className="text-gray-500">/ {challenge.target}</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-3 mt-3">
+                <div
+                  className={`h-3 rounded-full transition-all duration-500 ${me.completed_at ? 'bg-green-500' : 'bg-blue-500'}`}
+                  style={{ width: `${me.completed_at ? 100 : progressPercent(challenge.target, me.progress)}%` }}
+                ></div>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {me.completed_at
+                  ? `🎉 Completed on ${new Date(me.completed_at).toLocaleDateString()}`
+                  : `${me.event_count} ${me.event_count === 1 ? 'event' : 'events'} counted so far`}
+              </p>
+            </>
+          ) : challenge.status === 'ended' ? (
+            <p className="text-gray-500 mt-2">This challenge has ended.</p>
+          ) : (
+            <>
+              <p className="text-gray-600 mt-2">
+                Events already logged since the start count as soon as you join.
+              </p>
+              <button
+                onClick={handleJoin}
+                disabled={joining}
+                className="mt-4 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+              >
+                {joining ? 'Joining...' : 'Join Challenge'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Standings */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Standings</h3>
+          <span className="text-sm text-gray-600">
+            {challenge.participant_count} {challenge.participant_count === 1 ? 'participant' : 'participants'}
+          </span>
+        </div>
+        {challenge.participants.length === 0 ? (
+          <div className="p-8 text-center text-gray-600">Nobody has joined yet.</div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {challenge.participants.map((participant, index) => (
+              <div
+                key={participant.userId}
+                className={`flex items-center justify-between gap-4 px-6 py-4 ${
+                  participant.userId === user?.user_id ? 'bg-blue-50 border-l-4 border-blue-500' : ''
+                }`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="w-8 text-lg font-bold text-gray-500">#{index + 1}</span>
+                  <span className="font-medium text-gray-900 truncate">{participant.username}</span>
+                  {participant.completed_at && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      Completed
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="w-20 sm:w-32 bg-gray-200 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${participant.completed_at ? 'bg-green-500' : 'bg-blue-500'}`}
+                      style={{ width: `${participant.completed_at ? 100 : progressPercent(challenge.target, participant.progress)}%` }}
+                    ></div>
+                  </div>
+                  <span className="text-sm font-bold text-gray-900 w-16 text-right">
+                    {participant.progress ?? '—'} / {challenge.target}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
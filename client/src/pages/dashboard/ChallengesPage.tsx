@@ -0,0 +1,371 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { apiClient } from '../../services/api';
+import { CATEGORY_LABELS, CATEGORY_OPTIONS } from '../../services/categories';
+import { METRIC_LABELS, METRIC_OPTIONS, describeGoal, progressPercent } from '../../services/challenges';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../../components/ui/ErrorMessage';
+import { useToast } from '../../contexts/ToastContext';
+import type {
+  ChallengeMetric,
+  ChallengeStatus,
+  ChallengeSummary,
+  GroupSummary,
+  KarmaCategory,
+} from '../../types';
+
+const STATUSES: { value: ChallengeStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'upcoming', label: 'Upcoming' },
+  { value: 'ended', label: 'Ended' },
+];
+
+const toDateInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+};
+
+const initialForm = () => ({
+  group_id: '',
+  title: '',
+  description: '',
+  metric: 'event_count' as ChallengeMetric,
+  category: 'community' as KarmaCategory,
+  target: '10',
+  min_events: '3',
+  start_date: toDateInput(new Date()),
+  end_date: toDateInput(new Date(Date.now() + 13 * 86400000)),
+});
+
+export const ChallengesPage = () => {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const [status, setStatus] = useState<ChallengeStatus>('active');
+  const [challenges, setChallenges] = useState<ChallengeSummary[]>([]);
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(initialForm);
+  const [creating, setCreating] = useState(false);
+  const [joiningId, setJoiningId] = useState<string | null>(null);
+
+  const fetchChallenges = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [challengesData, groupsData] = await Promise.all([
+        apiClient.getChallenges({ status }),
+        apiClient.getGroups(),
+      ]);
+      setChallenges(challengesData);
+      setGroups(groupsData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load challenges');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchChallenges();
+  }, [fetchChallenges]);
+
+  // Only group owners and admins set challenges
+  const managedGroups = groups.filter(group => group.role !== 'member');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const groupId = form.group_id || managedGroups[0]?.id;
+    if (!groupId || !form.title.trim()) return;
+
+    setCreating(true);
+    try {
+      // The end date is inclusive, so the challenge runs until the midnight after it
+      const endsAt = new Date(`${form.end_date}T00:00`);
+      endsAt.setDate(endsAt.getDate() + 1);
+      const challenge = await apiClient.createChallenge({
+        group_id: groupId,
+        title: form.title.trim(),
+        description: form.description.trim() || undefined,
+        metric: form.metric,
+        target: Number(form.target),
+        starts_at: new Date(`${form.start_date}T00:00`).toISOString(),
+        ends_at: endsAt.toISOString(),
+        ...(form.metric === 'category_count' && { category: form.category }),
+        ...(form.metric === 'average_intensity' && { min_events: Number(form.min_events) }),
+      });
+      showToast({
+        type: 'success',
+        title: 'Challenge Created',
+        message: `Members of ${challenge.group.name} can now join "${challenge.title}".`,
+      });
+      navigate(`/dashboard/challenges/${challenge.id}`);
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Could Not Create Challenge',
+        message: err instanceof Error ? err.message : 'Failed to create challenge',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleJoin = async (challengeId: string) => {
+    setJoiningId(challengeId);
+    try {
+      const challenge = await apiClient.joinChallenge(challengeId);
+      setChallenges(prev => prev.map(c => (c.id === challengeId ? challenge : c)));
+      showToast({
+        type: 'success',
+        title: 'Challenge Joined',
+        message: `Good luck with "${challenge.title}"!`,
+      });
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Could Not Join Challenge',
+        message: err instanceof Error ? err.message : 'Failed to join challenge',
+      });
+    } finally {
+      setJoiningId(null);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Challenges</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Time-boxed goals set by your groups, each with a badge of its own
+          </p>
+        </div>
+        {managedGroups.length > 0 && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {showForm ? 'Cancel' : 'New Challenge'}
+          </button>
+        )}
+      </div>
+
+      {/* Create Challenge */}
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-6 mb-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Group
+            <select
+              value={form.group_id || managedGroups[0]?.id}
+              onChange={(e) => setForm({ ...form, group_id: e.target.value })}
+              className={`${inputClass} mt-1`}
+            >
+              {managedGroups.map(group => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Title
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              maxLength={80}
+              placeholder="Community fortnight"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700 md:col-span-2">
+            Description (optional)
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              maxLength={500}
+              rows={2}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Goal
+            <select
+              value={form.metric}
+              onChange={(e) => setForm({ ...form, metric: e.target.value as ChallengeMetric })}
+              className={`${inputClass} mt-1`}
+            >
+              {METRIC_OPTIONS.map(metric => (
+                <option key={metric} value={metric}>{METRIC_LABELS[metric]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            {form.metric === 'average_intensity' ? 'Target intensity' : form.metric === 'streak' ? 'Days in a row' : 'Number of events'}
+            <input
+              type="number"
+              value={form.target}
+              onChange={(e) => setForm({ ...form, target: e.target.value })}
+              min={form.metric === 'average_intensity' ? -1 : 1}
+              max={form.metric === 'average_intensity' ? 10 : undefined}
+              step={form.metric === 'average_intensity' ? 0.5 : 1}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          {form.metric === 'category_count' && (
+            <label className="block text-sm font-medium text-gray-700">
+              Category
+              <select
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value as KarmaCategory })}
+                className={`${inputClass} mt-1`}
+              >
+                {CATEGORY_OPTIONS.map(category => (
+                  <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {form.metric === 'average_intensity' && (
+            <label className="block text-sm font-medium text-gray-700">
+              Scored events needed
+              <input
+                type="number"
+                value={form.min_events}
+                onChange={(e) => setForm({ ...form, min_events: e.target.value })}
+                min={1}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          )}
+          <label className="block text-sm font-medium text-gray-700">
+            Starts
+            <input
+              type="date"
+              value={form.start_date}
+              onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Ends (inclusive)
+            <input
+              type="date"
+              value={form.end_date}
+              min={form.start_date}
+              onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <div className="md:col-span-2">
+            <button
+              type="submit"
+              disabled={creating || !form.title.trim()}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              {creating ? 'Creating...' : 'Create Challenge'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Status Tabs */}
+      <div className="flex flex-wrap gap-2 mb-6" role="tablist">
+        {STATUSES.map(({ value, label }) => (
+          <button
+            key={value}
+            role="tab"
+            aria-selected={status === value}
+            onClick={() => setStatus(value)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              status === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <ErrorMessage message={error} onRetry={fetchChallenges} />
+      ) : challenges.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <div className="text-6xl mb-4">🎯</div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No {status} challenges</h3>
+          <p className="text-gray-600">
+            {groups.length === 0
+              ? 'Join a group to take part in its challenges.'
+              : 'Challenges set by your groups will show up here.'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {challenges.map(challenge => {
+            const percent = progressPercent(challenge.target, challenge.me?.progress ?? null);
+            return (
+              <div key={challenge.id} className="bg-white rounded-lg shadow p-6 flex flex-col">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <Link
+                      to={`/dashboard/challenges/${challenge.id}`}
+                      className="text-lg font-semibold text-gray-900 hover:text-blue-600 truncate block"
+                    >
+                      {challenge.title}
+                    </Link>
+                    <p className="text-xs text-gray-500">{challenge.group.name}</p>
+                  </div>
+                  {challenge.me?.completed_at && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 shrink-0">
+                      Completed
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-700 mt-2">{describeGoal(challenge)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {new Date(challenge.starts_at).toLocaleDateString()} – {new Date(new Date(challenge.ends_at).getTime() - 1).toLocaleDateString()}
+                  {' · '}
+                  {challenge.participant_count} {challenge.participant_count === 1 ? 'participant' : 'participants'}
+                </p>
+                <div className="mt-auto pt-4">
+                  {challenge.me ? (
+                    <div>
+                      <div className="flex justify-between text-xs text-gray-600 mb-1">
+                        <span>Your progress</span>
+                        <span>{challenge.me.progress ?? '—'} / {challenge.target}</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className={`h-2 rounded-full transition-all duration-500 ${challenge.me.completed_at ? 'bg-green-500' : 'bg-blue-500'}`}
+                          style={{ width: `${challenge.me.completed_at ? 100 : percent}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  ) : challenge.status !== 'ended' ? (
+                    <button
+                      onClick={() => handleJoin(challenge.id)}
+                      disabled={joiningId === challenge.id}
+                      className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      {joiningId === challenge.id ? 'Joining...' : 'Join Challenge'}
+                    </button>
+                  ) : (
+                    <p className="text-sm text-gray-500">You didn't take part.</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,7 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { apiClient } from '../../services/api';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
 import { ErrorMessage } from '../../components/ui/ErrorMessage';
-import type { KarmaEvent } from '../../types';
+import { CATEGORY_LABELS } from '../../services/categories';
+import type { CategoryBreakdown, KarmaEvent, StreakSummary } from '../../types';
 
 export const DashboardOverview = () => {
   const navigate = useNavigate();
@@ -13,6 +14,8 @@ export const DashboardOverview = () => {
   const [totalEvents, setTotalEvents] = useState<number>(0);
   const [badgesCount, setBadgesCount] = useState<number>(0);
   const [recentEvents, setRecentEvents] = useState<KarmaEvent[]>([]);
+  const [streaks, setStreaks] = useState<StreakSummary | null>(null);
+  const [categories, setCategories] = useState<CategoryBreakdown[]>([]);
 
   useEffect(() => {
     fetchDashboardData();
@@ -23,16 +26,20 @@ export const DashboardOverview = () => {
       setLoading(true);
       setError(null);
 
-      const [scoreData, eventsData, badgesData] = await Promise.all([
+      const [scoreData, eventsData, badgesData, streakData, categoryData] = await Promise.all([
         apiClient.getMyKarmaScore(),
-        apiClient.getMyKarmaEvents(),
-        apiClient.getMyBadges()
+        apiClient.getMyKarmaEvents({ limit: 5 }),
+        apiClient.getMyBadges(),
+        apiClient.getMyStreaks(),
+        apiClient.getCategoryBreakdown()
       ]);
 
       setKarmaScore(scoreData.total_percentage);
-      setTotalEvents(eventsData.length);
+      setTotalEvents(eventsData.total);
       setBadgesCount(badgesData.length);
-      setRecentEvents(eventsData.slice(0, 5));
+      setRecentEvents(eventsData.items);
+      setStreaks(streakData);
+      setCategories(categoryData.filter((row) => row.event_count > 0));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load dashboard data');
     } finally {
@@ -58,7 +65,7 @@ export const DashboardOverview = () => {
         Dashboard Overview
       </h2>
       
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-semibold text-gray-900 mb-2">
             Karma Score
@@ -94,6 +101,18 @@ export const DashboardOverview = () => {
             Achievements unlocked
           </p>
         </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            Current Streak
+          </h3>
+          <p className="text-3xl font-bold text-orange-500 mb-2">
+            🔥 {streaks?.daily.current ?? 0} {streaks?.daily.current === 1 ? 'day' : 'days'}
+          </p>
+          <p className="text-gray-600">
+            Longest: {streaks?.daily.longest ?? 0} days · {streaks?.weekly.current ?? 0} week streak
+          </p>
+        </div>
       </div>
       
       <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -156,6 +175,34 @@ export const DashboardOverview = () => {
           </div>
         </div>
       </div>
+
+      {categories.length > 0 && (
+        <div className="mt-8 bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Karma by Category
+          </h3>
+          <div className="space-y-3">
+            {categories.map((row) => (
+              <div key={row.category ?? 'uncategorised'}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-900">
+                    {row.category ? CATEGORY_LABELS[row.category] : 'Uncategorised'}
+                  </span>
+                  <span className="text-gray-600">
+                    {row.score === null ? 'Not scored yet' : `${row.score}%`} · {row.event_count} {row.event_count === 1 ? 'event' : 'events'}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-100 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full"
+                    style={{ width: `${row.score ?? 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -2,122 +2,207 @@ import { useState, useEffect } from 'react';
 import { apiClient } from '../../services/api';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
 import { useToast } from '../../contexts/ToastContext';
-import { useBadgeNotifications } from '../../hooks/useBadgeNotifications';
-import { useAIFeedbackNotifications } from '../../hooks/useAIFeedbackNotifications';
-import type { KarmaEvent, CreateKarmaEventDto } from '../../types';
+import { useRealtime } from '../../hooks/useRealtime';
+import { ImportEventsForm } from '../../components/forms/ImportEventsForm';
+import { IntensityOverrideForm } from '../../components/forms/IntensityOverrideForm';
+import { EventLabels } from '../../components/ui/EventLabels';
+import { CATEGORY_LABELS, CATEGORY_OPTIONS, parseTagInput } from '../../services/categories';
+import { saveBlob } from '../../services/download';
+import type { KarmaEvent, CreateKarmaEventDto, KarmaEventFilters, KarmaEventExportFormat, KarmaCategory, UserTag } from '../../types';
 
 interface EventFilters {
   period: 'week' | 'month' | 'year' | 'all';
   intensity: 'all' | 'positive' | 'neutral' | 'negative';
-  feedback: 'all' | 'generated' | 'pending';
+  feedback: 'all' | 'generated' | 'pending' | 'failed';
+  search: string;
+  category: 'all' | KarmaCategory;
+  tag: string;
 }
 
+const DEFAULT_FILTERS: EventFilters = {
+  period: 'all',
+  intensity: 'all',
+  feedback: 'all',
+  search: '',
+  category: 'all',
+  tag: ''
+};
+
 export const EventsPage = () => {
   const { showToast } = useToast();
-  const { triggerBadgeCheck } = useBadgeNotifications();
-  const { notifyEventCreated } = useAIFeedbackNotifications();
   const [events, setEvents] = useState<KarmaEvent[]>([]);
-  const [filteredEvents, setFilteredEvents] = useState<KarmaEvent[]>([]);
+  const [totalEvents, setTotalEvents] = useState(0);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showImportForm, setShowImportForm] = useState(false);
   const [createLoading, setCreateLoading] = useState(false);
   const [refreshLoading, setRefreshLoading] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<KarmaEventExportFormat | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
-  const [filters, setFilters] = useState<EventFilters>({
-    period: 'all',
-    intensity: 'all',
-    feedback: 'all'
-  });
+  // pageCursors[i] is the cursor that loads page i + 1 (undefined for the first page)
+  const [pageCursors, setPageCursors] = useState<(string | undefined)[]>([undefined]);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<EventFilters>(DEFAULT_FILTERS);
+  const [userTags, setUserTags] = useState<UserTag[]>([]);
   const [formData, setFormData] = useState<CreateKarmaEventDto>({
     action: '',
     reflection: '',
-    occurred_at: new Date().toISOString().split('T')[0]
+    occurred_at: new Date().toISOString().split('T')[0],
+    category: null
+  });
+  const [tagsInput, setTagsInput] = useState('');
+
+  const [editingEventId, setEditingEventId] = useState<string | null>(null);
+  const [editData, setEditData] = useState<CreateKarmaEventDto>({
+    action: '',
+    reflection: '',
+    occurred_at: '',
+    category: null
   });
+  const [editTagsInput, setEditTagsInput] = useState('');
+  const [editLoading, setEditLoading] = useState(false);
+  const [deletingEventId, setDeletingEventId] = useState<string | null>(null);
+  const [disputingEventId, setDisputingEventId] = useState<string | null>(null);
+  const [retryingEventId, setRetryingEventId] = useState<string | null>(null);
 
   const eventsPerPage = 10;
-  const totalPages = Math.ceil(filteredEvents.length / eventsPerPage);
-  const paginatedEvents = filteredEvents.slice(
-    (currentPage - 1) * eventsPerPage,
-    currentPage * eventsPerPage
-  );
+  const totalPages = Math.ceil(totalEvents / eventsPerPage);
+
+  // Swap in the scored event when its AI feedback is pushed
+  useRealtime('feedback.ready', (scored) => {
+    setEvents(prev => prev.map(event => event.event_id === scored.event_id ? scored : event));
+    // The AI may have proposed new tags
+    fetchTags();
+  });
+
+  useRealtime('feedback.failed', (failed) => {
+    setEvents(prev => prev.map(event => event.event_id === failed.event_id ? failed : event));
+  });
 
   useEffect(() => {
-    fetchEvents();
+    fetchTags();
   }, []);
 
   useEffect(() => {
-    applyFilters();
-  }, [events, filters]);
+    // Filters changed: start again from the first page
+    setPageCursors([undefined]);
+    setCurrentPage(1);
+    fetchEvents(1, [undefined]);
+  }, [filters]);
 
-  const fetchEvents = async (showRefreshLoading = false) => {
-    try {
-      if (showRefreshLoading) {
-        setRefreshLoading(true);
-      } else {
-        setLoading(true);
-      }
-      const data = await apiClient.getMyKarmaEvents();
-      setEvents(data.sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime()));
-    } catch (err) {
-      showToast({
-        type: 'error',
-        title: 'Error Loading Events',
-        message: err instanceof Error ? err.message : 'Failed to load events'
-      });
-    } finally {
-      setLoading(false);
-      setRefreshLoading(false);
-    }
-  };
+  useEffect(() => {
+    // Debounce free-text search so we don't query on every keystroke
+    const timeout = setTimeout(() => {
+      setFilters(prev => prev.search === searchInput ? prev : { ...prev, search: searchInput });
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  const applyFilters = () => {
-    let filtered = [...events];
+  const buildQuery = (): KarmaEventFilters => {
+    const query: KarmaEventFilters = {};
 
     // Period filter
     if (filters.period !== 'all') {
-      const now = new Date();
       const cutoffDate = new Date();
       
       switch (filters.period) {
         case 'week':
-          cutoffDate.setDate(now.getDate() - 7);
+          cutoffDate.setDate(cutoffDate.getDate() - 7);
           break;
         case 'month':
-          cutoffDate.setMonth(now.getMonth() - 1);
+          cutoffDate.setMonth(cutoffDate.getMonth() - 1);
           break;
         case 'year':
-          cutoffDate.setFullYear(now.getFullYear() - 1);
+          cutoffDate.setFullYear(cutoffDate.getFullYear() - 1);
           break;
       }
       
-      filtered = filtered.filter(event => new Date(event.occurred_at) >= cutoffDate);
+      query.from = cutoffDate.toISOString();
     }
 
     // Intensity filter
-    if (filters.intensity !== 'all') {
-      filtered = filtered.filter(event => {
-        switch (filters.intensity) {
-          case 'positive': return event.intensity >= 7;
-          case 'neutral': return event.intensity >= 4 && event.intensity < 7;
-          case 'negative': return event.intensity < 4;
-          default: return true;
-        }
-      });
+    switch (filters.intensity) {
+      case 'positive':
+        query.intensity_min = 7;
+        break;
+      case 'neutral':
+        query.intensity_min = 4;
+        query.intensity_max = 6;
+        break;
+      case 'negative':
+        query.intensity_max = 3;
+        break;
     }
 
     // Feedback filter
-    if (filters.feedback !== 'all') {
-      filtered = filtered.filter(event => {
-        switch (filters.feedback) {
-          case 'generated': return event.feedback_generated;
-          case 'pending': return !event.feedback_generated;
-          default: return true;
-        }
+    if (filters.feedback === 'failed') {
+      query.feedback_status = 'failed';
+    } else if (filters.feedback !== 'all') {
+      query.feedback_generated = filters.feedback === 'generated';
+    }
+
+    if (filters.search.trim()) {
+      query.search = filters.search.trim();
+    }
+
+    if (filters.category !== 'all') {
+      query.category = filters.category;
+    }
+
+    if (filters.tag) {
+      query.tag = filters.tag;
+    }
+
+    return query;
+  };
+
+  const fetchTags = async () => {
+    try {
+      setUserTags(await apiClient.getMyTags());
+    } catch {
+      // The tag filter just stays empty
+    }
+  };
+
+  const fetchEvents = async (
+    page = currentPage,
+    cursors = pageCursors,
+    showRefreshLoading = false
+  ) => {
+    try {
+      if (showRefreshLoading) {
+        setRefreshLoading(true);
+      } else {
+        setLoading(true);
+      }
+      const data = await apiClient.getMyKarmaEvents({
+        ...buildQuery(),
+        limit: eventsPerPage,
+        cursor: cursors[page - 1]
+      });
+      setEvents(data.items);
+      setTotalEvents(data.total);
+      setPageCursors(() => {
+        const next = cursors.slice(0, page);
+        if (data.nextCursor) next[page] = data.nextCursor;
+        return next;
+      });
+      setCurrentPage(page);
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error Loading Events',
+        message: err instanceof Error ? err.message : 'Failed to load events'
       });
+    } finally {
+      setLoading(false);
+      setRefreshLoading(false);
     }
+  };
 
-    setFilteredEvents(filtered);
-    setCurrentPage(1); // Reset to first page when filters change
+  const goToPage = (page: number) => {
+    if (page < 1 || page > totalPages || page - 1 >= pageCursors.length) return;
+    fetchEvents(page);
   };
 
   const handleCreateEvent = async (e: React.FormEvent) => {
@@ -126,15 +211,20 @@ export const EventsPage = () => {
 
     try {
       setCreateLoading(true);
-      const newEvent = await apiClient.createKarmaEvent({
+      await apiClient.createKarmaEvent({
         ...formData,
+        category: formData.category || undefined,
+        tags: parseTagInput(tagsInput),
         occurred_at: formData.occurred_at ? new Date(formData.occurred_at).toISOString() : undefined
       });
       
-      // Add new event to the beginning of the events array
-      setEvents(prev => [newEvent, ...prev]);
-      setFormData({ action: '', reflection: '', occurred_at: new Date().toISOString().split('T')[0] });
+      // Reload the first page so the new event shows up in order
+      setPageCursors([undefined]);
+      fetchEvents(1, [undefined]);
+      setFormData({ action: '', reflection: '', occurred_at: new Date().toISOString().split('T')[0], category: null });
+      setTagsInput('');
       setShowCreateForm(false);
+      fetchTags();
       
       // Show success message
       showToast({
@@ -143,12 +233,6 @@ export const EventsPage = () => {
         message: 'Your karma event has been created and is being analyzed by AI.',
         duration: 4000
       });
-      
-      // Start monitoring this event for AI feedback completion
-      notifyEventCreated(newEvent.event_id);
-      
-      // Check for new badges after creating an event
-      triggerBadgeCheck();
     } catch (err) {
       showToast({
         type: 'error',
@@ -160,6 +244,94 @@ export const EventsPage = () => {
     }
   };
 
+  const startEditing = (event: KarmaEvent) => {
+    setEditingEventId(event.event_id);
+    setEditData({
+      action: event.action,
+      reflection: event.reflection || '',
+      occurred_at: new Date(event.occurred_at).toISOString().split('T')[0],
+      category: event.category
+    });
+    setEditTagsInput((event.tags ?? []).map(tag => tag.name).join(', '));
+  };
+
+  const handleUpdateEvent = async (e: React.FormEvent, original: KarmaEvent) => {
+    e.preventDefault();
+    if (!editData.action.trim()) return;
+
+    try {
+      setEditLoading(true);
+      const updated = await apiClient.updateKarmaEvent(original.event_id, {
+        ...editData,
+        tags: parseTagInput(editTagsInput),
+        occurred_at: editData.occurred_at ? new Date(editData.occurred_at).toISOString() : undefined
+      });
+
+      setEvents(prev => prev.map(event => event.event_id === updated.event_id ? updated : event));
+      setEditingEventId(null);
+      fetchTags();
+
+      const actionChanged = updated.action !== original.action;
+      showToast({
+        type: 'success',
+        title: 'Event Updated!',
+        message: actionChanged
+          ? 'Your karma event has been updated and is being re-analyzed by AI.'
+          : 'Your karma event has been updated.',
+        duration: 4000
+      });
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error Updating Event',
+        message: err instanceof Error ? err.message : 'Failed to update event'
+      });
+    } finally {
+      setEditLoading(false);
+    }
+  };
+
+  const handleDeleteEvent = async (event: KarmaEvent) => {
+    if (!window.confirm(`Delete "${event.action}"? This cannot be undone.`)) return;
+
+    try {
+      setDeletingEventId(event.event_id);
+      await apiClient.deleteKarmaEvent(event.event_id);
+      // Reload the current page so it is topped up from the next one
+      fetchEvents(currentPage, pageCursors, true);
+      showToast({
+        type: 'success',
+        title: 'Event Deleted',
+        message: 'Your karma event has been removed.',
+        duration: 4000
+      });
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error Deleting Event',
+        message: err instanceof Error ? err.message : 'Failed to delete event'
+      });
+    } finally {
+      setDeletingEventId(null);
+    }
+  };
+
+  const handleRetryFeedback = async (event: KarmaEvent) => {
+    try {
+      setRetryingEventId(event.event_id);
+      const updated = await apiClient.retryKarmaFeedback(event.event_id);
+      setEvents(prev => prev.map(item => item.event_id === updated.event_id ? updated : item));
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error Retrying Analysis',
+        message: err instanceof Error ? err.message : 'Failed to retry the AI analysis'
+      });
+    } finally {
+      setRetryingEventId(null);
+    }
+  };
+
   const getIntensityColor = (intensity: number) => {
     if (intensity >= 7) return 'text-green-600 bg-green-100';
     if (intensity >= 4) return 'text-yellow-600 bg-yellow-100';
@@ -182,14 +354,34 @@ export const EventsPage = () => {
   };
 
   const clearFilters = () => {
-    setFilters({
-      period: 'all',
-      intensity: 'all',
-      feedback: 'all'
-    });
+    setSearchInput('');
+    setFilters(DEFAULT_FILTERS);
+  };
+
+  // Downloads everything matching the current filters, not just this page
+  const handleExport = async (format: KarmaEventExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const blob = await apiClient.exportMyKarmaEvents(format, buildQuery());
+      saveBlob(blob, `karma-events-${new Date().toISOString().split('T')[0]}.${format}`);
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Export Failed',
+        message: error instanceof Error ? error.message : 'Failed to export events'
+      });
+    } finally {
+      setExportingFormat(null);
+    }
   };
 
-  const hasActiveFilters = filters.period !== 'all' || filters.intensity !== 'all' || filters.feedback !== 'all';
+  const hasActiveFilters =
+    filters.period !== 'all' ||
+    filters.intensity !== 'all' ||
+    filters.feedback !== 'all' ||
+    filters.search !== '' ||
+    filters.category !== 'all' ||
+    filters.tag !== '';
 
   return (
     <div>
@@ -199,7 +391,7 @@ export const EventsPage = () => {
         </h2>
         <div className="flex gap-2">
           <button
-            onClick={() => fetchEvents(true)}
+            onClick={() => fetchEvents(currentPage, pageCursors, true)}
             disabled={refreshLoading}
             className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-3 sm:px-4 py-2 rounded-md text-sm font-medium transition-colors flex items-center space-x-2"
           >
@@ -207,7 +399,19 @@ export const EventsPage = () => {
             <span>{refreshLoading ? 'Refreshing...' : 'Refresh'}</span>
           </button>
           <button
-            onClick={() => setShowCreateForm(!showCreateForm)}
+            onClick={() => {
+              setShowImportForm(!showImportForm);
+              setShowCreateForm(false);
+            }}
+            className="bg-white hover:bg-gray-50 border border-gray-300 text-gray-700 px-3 sm:px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {showImportForm ? 'Close Import' : 'Import'}
+          </button>
+          <button
+            onClick={() => {
+              setShowCreateForm(!showCreateForm);
+              setShowImportForm(false);
+            }}
             className="bg-blue-600 hover:bg-blue-700 text-white px-3 sm:px-4 py-2 rounded-md text-sm font-medium transition-colors"
           >
             {showCreateForm ? 'Cancel' : 'Add Event'}
@@ -215,6 +419,26 @@ export const EventsPage = () => {
         </div>
       </div>
 
+      <datalist id="user-tags">
+        {userTags.map((tag) => (
+          <option key={tag.id} value={tag.name} />
+        ))}
+      </datalist>
+
+      {showImportForm && (
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Import Karma Events</h3>
+          <ImportEventsForm
+            onImported={() => {
+              setPageCursors([undefined]);
+              setCurrentPage(1);
+              fetchEvents(1, [undefined]);
+            }}
+            onClose={() => setShowImportForm(false)}
+          />
+        </div>
+      )}
+
       {showCreateForm && (
         <div className="bg-white shadow rounded-lg p-6 mb-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Create New Karma Event</h3>
@@ -258,6 +482,38 @@ export const EventsPage = () => {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
+                  Category
+                </label>
+                <select
+                  id="category"
+                  value={formData.category ?? ''}
+                  onChange={(e) => setFormData({ ...formData, category: (e.target.value || null) as KarmaCategory | null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Let AI decide</option>
+                  {CATEGORY_OPTIONS.map((category) => (
+                    <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-1">
+                  Tags
+                </label>
+                <input
+                  type="text"
+                  id="tags"
+                  list="user-tags"
+                  placeholder="e.g. weekend, neighbours"
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
             <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
               <button
                 type="button"
@@ -307,9 +563,35 @@ export const EventsPage = () => {
               Clear All
             </button>
           )}
+          <div className="flex items-center gap-2 sm:ml-auto">
+            <span className="text-sm text-gray-500">Export:</span>
+            {([['csv', 'CSV'], ['json', 'JSON'], ['ics', 'Calendar']] as const).map(([format, label]) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exportingFormat !== null}
+                className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 transition-colors flex items-center space-x-1"
+              >
+                {exportingFormat === format && <LoadingSpinner size="sm" />}
+                <span>{label}</span>
+              </button>
+            ))}
+          </div>
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="mb-4">
+          <label htmlFor="event-search" className="block text-sm font-medium text-gray-700 mb-2">Search</label>
+          <input
+            type="search"
+            id="event-search"
+            placeholder="Search actions and reflections"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
           {/* Period Filter */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Time Period</label>
@@ -351,6 +633,41 @@ export const EventsPage = () => {
               <option value="all">All Events</option>
               <option value="generated">With Feedback</option>
               <option value="pending">Processing</option>
+              <option value="failed">Failed</option>
+            </select>
+          </div>
+
+          {/* Category Filter */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+            <select
+              value={filters.category}
+              onChange={(e) => setFilters({ ...filters, category: e.target.value as EventFilters['category'] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Categories</option>
+              {CATEGORY_OPTIONS.map((category) => (
+                <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Tag Filter */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tag</label>
+            <select
+              value={filters.tag}
+              onChange={(e) => setFilters({ ...filters, tag: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Tags</option>
+              {/* Keep a tag picked from an event chip selectable */}
+              {filters.tag && !userTags.some(tag => tag.name === filters.tag) && (
+                <option value={filters.tag}>#{filters.tag}</option>
+              )}
+              {userTags.map((tag) => (
+                <option key={tag.id} value={tag.name}>#{tag.name} ({tag.event_count})</option>
+              ))}
             </select>
           </div>
         </div>
@@ -380,9 +697,23 @@ export const EventsPage = () => {
                 </button>
               </span>
             )}
+            {filters.search !== '' && (
+              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800">
+                "{filters.search}"
+                <button
+                  onClick={() => {
+                    setSearchInput('');
+                    setFilters({ ...filters, search: '' });
+                  }}
+                  className="ml-2 text-gray-600 hover:text-gray-800"
+                >
+                  ×
+                </button>
+              </span>
+            )}
             {filters.feedback !== 'all' && (
               <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-purple-100 text-purple-800">
-                {filters.feedback === 'generated' ? 'With Feedback' : 'Processing'}
+                {filters.feedback === 'generated' ? 'With Feedback' : filters.feedback === 'failed' ? 'Failed' : 'Processing'}
                 <button
                   onClick={() => setFilters({ ...filters, feedback: 'all' })}
                   className="ml-2 text-purple-600 hover:text-purple-800"
@@ -391,6 +722,28 @@ export const EventsPage = () => {
                 </button>
               </span>
             )}
+            {filters.category !== 'all' && (
+              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-indigo-100 text-indigo-800">
+                {CATEGORY_LABELS[filters.category]}
+                <button
+                  onClick={() => setFilters({ ...filters, category: 'all' })}
+                  className="ml-2 text-indigo-600 hover:text-indigo-800"
+                >
+                  ×
+                </button>
+              </span>
+            )}
+            {filters.tag !== '' && (
+              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800">
+                #{filters.tag}
+                <button
+                  onClick={() => setFilters({ ...filters, tag: '' })}
+                  className="ml-2 text-gray-600 hover:text-gray-800"
+                >
+                  ×
+                </button>
+              </span>
+            )}
           </div>
         )}
       </div>
@@ -398,8 +751,8 @@ export const EventsPage = () => {
       {/* Results Summary */}
       <div className="flex flex-col sm:flex-row sm:justify-between items-start sm:items-center gap-2 mb-4">
         <div className="text-sm text-gray-600">
-          Showing {paginatedEvents.length} of {filteredEvents.length} events
-          {hasActiveFilters && ` (${events.length} total)`}
+          Showing {events.length} of {totalEvents} events
+          {hasActiveFilters && ' matching your filters'}
         </div>
         {totalPages > 1 && (
           <div className="text-sm text-gray-600">
@@ -415,7 +768,7 @@ export const EventsPage = () => {
             <LoadingSpinner size="lg" />
             <p className="text-gray-600 mt-4">Loading your karma events...</p>
           </div>
-        ) : filteredEvents.length === 0 ? (
+        ) : events.length === 0 ? (
           <div className="p-8 text-center">
             {hasActiveFilters ? (
               <>
@@ -438,67 +791,230 @@ export const EventsPage = () => {
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
-            {paginatedEvents.map((event) => (
+            {events.map((event) => (
               <div key={event.event_id} className="p-6">
-                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2 mb-3">
-                  <div className="flex-1">
-                    <h3 className="text-lg font-semibold text-gray-900 mb-1">
-                      {event.action}
-                    </h3>
-                    <p className="text-sm text-gray-600">
-                      {new Date(event.occurred_at).toLocaleDateString('en-US', {
-                        weekday: 'long',
-                        year: 'numeric',
-                        month: 'long',
-                        day: 'numeric'
-                      })}
-                    </p>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <span className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${getIntensityColor(event.intensity)}`}>
-                      {getIntensityLabel(event.intensity)} ({event.intensity}/10)
-                    </span>
-                  </div>
-                </div>
-                
-                {event.reflection && (
-                  <div className="mb-3">
-                    <p className="text-sm text-gray-700 italic">
-                      "{event.reflection}"
-                    </p>
-                  </div>
-                )}
-                
-                {event.feedback_generated && event.feedback ? (
-                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                    <div className="flex items-start">
-                      <div className="flex-shrink-0">
-                        <svg className="h-5 w-5 text-blue-400" fill="currentColor" viewBox="0 0 20 20">
-                          <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
+                {editingEventId === event.event_id ? (
+                  <form onSubmit={(e) => handleUpdateEvent(e, event)} className="space-y-4">
+                    <div>
+                      <label htmlFor={`edit-action-${event.event_id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                        Action *
+                      </label>
+                      <input
+                        type="text"
+                        id={`edit-action-${event.event_id}`}
+                        required
+                        value={editData.action}
+                        onChange={(e) => setEditData({ ...editData, action: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Changing the action will reset the AI feedback and re-score the event.
+                      </p>
+                    </div>
+                    <div>
+                      <label htmlFor={`edit-reflection-${event.event_id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                        Reflection
+                      </label>
+                      <textarea
+                        id={`edit-reflection-${event.event_id}`}
+                        value={editData.reflection}
+                        onChange={(e) => setEditData({ ...editData, reflection: e.target.value })}
+                        rows={3}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor={`edit-date-${event.event_id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                        Date
+                      </label>
+                      <input
+                        type="date"
+                        id={`edit-date-${event.event_id}`}
+                        value={editData.occurred_at}
+                        onChange={(e) => setEditData({ ...editData, occurred_at: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor={`edit-category-${event.event_id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                          Category
+                        </label>
+                        <select
+                          id={`edit-category-${event.event_id}`}
+                          value={editData.category ?? ''}
+                          onChange={(e) => setEditData({ ...editData, category: (e.target.value || null) as KarmaCategory | null })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Uncategorised</option>
+                          {CATEGORY_OPTIONS.map((category) => (
+                            <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                          ))}
+                        </select>
                       </div>
-                      <div className="ml-3">
-                        <p className="text-sm font-medium text-blue-800">AI Feedback</p>
-                        <p className="text-sm text-blue-700 mt-1">{event.feedback}</p>
+                      <div>
+                        <label htmlFor={`edit-tags-${event.event_id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                          Tags
+                        </label>
+                        <input
+                          type="text"
+                          id={`edit-tags-${event.event_id}`}
+                          list="user-tags"
+                          placeholder="Comma-separated"
+                          value={editTagsInput}
+                          onChange={(e) => setEditTagsInput(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
                       </div>
                     </div>
-                  </div>
+                    <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setEditingEventId(null)}
+                        className="w-full sm:w-auto px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={editLoading || !editData.action.trim()}
+                        className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center space-x-2"
+                      >
+                        {editLoading && <LoadingSpinner size="sm" />}
+                        <span>{editLoading ? 'Saving...' : 'Save Changes'}</span>
+                      </button>
+                    </div>
+                  </form>
                 ) : (
-                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
-                    <div className="flex items-start">
-                      <div className="flex-shrink-0">
-                        <div className="w-5 h-5 flex items-center justify-center">
-                          <LoadingSpinner size="sm" />
-                        </div>
-                      </div>
-                      <div className="ml-3">
-                        <p className="text-sm font-medium text-amber-800">AI Analysis in Progress</p>
-                        <p className="text-sm text-amber-700 mt-1">
-                          Our AI is analyzing your event to provide personalized feedback and assign an intensity score. This usually takes 30-60 seconds.
+                  <>
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2 mb-3">
+                      <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                          {event.action}
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          {new Date(event.occurred_at).toLocaleDateString('en-US', {
+                            weekday: 'long',
+                            year: 'numeric',
+                            month: 'long',
+                            day: 'numeric'
+                          })}
                         </p>
                       </div>
+                      <div className="flex items-center space-x-2">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${getIntensityColor(event.intensity)}`}
+                          title={event.user_intensity !== null ? `AI: ${event.ai_intensity}/10, you: ${event.user_intensity}/10` : undefined}
+                        >
+                          {getIntensityLabel(event.intensity)} ({event.intensity}/10)
+                          {event.user_intensity !== null && ' *'}
+                        </span>
+                        {event.feedback_generated && event.ai_intensity !== null && (
+                          <button
+                            onClick={() => setDisputingEventId(disputingEventId === event.event_id ? null : event.event_id)}
+                            className="text-sm text-gray-600 hover:text-gray-700 font-medium whitespace-nowrap"
+                          >
+                            {event.user_intensity !== null ? 'My Score' : 'Dispute Score'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => startEditing(event)}
+                          className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeleteEvent(event)}
+                          disabled={deletingEventId === event.event_id}
+                          className="text-sm text-red-600 hover:text-red-700 disabled:text-gray-400 font-medium"
+                        >
+                          {deletingEventId === event.event_id ? 'Deleting...' : 'Delete'}
+                        </button>
+                      </div>
                     </div>
-                  </div>
+                
+                    <EventLabels
+                      category={event.category}
+                      tags={event.tags}
+                      onTagClick={(tag) => setFilters({ ...filters, tag })}
+                    />
+
+                    {event.reflection && (
+                      <div className="mb-3">
+                        <p className="text-sm text-gray-700 italic">
+                          "{event.reflection}"
+                        </p>
+                      </div>
+                    )}
+                
+                    {event.feedback_generated && event.feedback ? (
+                      <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                        <div className="flex items-start">
+                          <div className="flex-shrink-0">
+                            <svg className="h-5 w-5 text-blue-400" fill="currentColor" viewBox="0 0 20 20">
+                              <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                          </div>
+                          <div className="ml-3">
+                            <p className="text-sm font-medium text-blue-800">AI Feedback</p>
+                            <p className="text-sm text-blue-700 mt-1">{event.feedback}</p>
+                            {event.user_intensity !== null && (
+                              <p className="text-xs text-blue-600 mt-2">
+                                AI scored {event.ai_intensity}/10, you scored {event.user_intensity}/10: "{event.user_intensity_reason}"
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    ) : event.feedback_status === 'failed' ? (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                          <div>
+                            <p className="text-sm font-medium text-red-800">AI Analysis Failed</p>
+                            <p className="text-sm text-red-700 mt-1">
+                              We couldn't analyze this event. You can try again, or edit the action first.
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleRetryFeedback(event)}
+                            disabled={retryingEventId === event.event_id}
+                            className="w-full sm:w-auto px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-100 disabled:text-gray-400 transition-colors"
+                          >
+                            {retryingEventId === event.event_id ? 'Retrying...' : 'Retry'}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                        <div className="flex items-start">
+                          <div className="flex-shrink-0">
+                            <div className="w-5 h-5 flex items-center justify-center">
+                              <LoadingSpinner size="sm" />
+                            </div>
+                          </div>
+                          <div className="ml-3">
+                            <p className="text-sm font-medium text-amber-800">AI Analysis in Progress</p>
+                            <p className="text-sm text-amber-700 mt-1">
+                              {event.feedback_error
+                                ? 'The last attempt to analyze this event failed. It will be retried automatically shortly.'
+                                : 'Our AI is analyzing your event to provide personalized feedback and assign an intensity score. This usually takes 30-60 seconds.'}
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {disputingEventId === event.event_id && (
+                      <IntensityOverrideForm
+                        event={event}
+                        onSaved={(updated) => {
+                          setEvents(prev => prev.map(item => item.event_id === updated.event_id ? updated : item));
+                          setDisputingEventId(null);
+                        }}
+                        onClose={() => setDisputingEventId(null)}
+                      />
+                    )}
+                  </>
                 )}
               </div>
             ))}
@@ -510,7 +1026,7 @@ export const EventsPage = () => {
       {totalPages > 1 && (
         <div className="flex items-center justify-between">
           <button
-            onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+            onClick={() => goToPage(currentPage - 1)}
             disabled={currentPage === 1}
             className="px-3 sm:px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
           >
@@ -521,11 +1037,13 @@ export const EventsPage = () => {
             {Array.from({ length: totalPages }, (_, i) => i + 1).map(page => (
               <button
                 key={page}
-                onClick={() => setCurrentPage(page)}
+                onClick={() => goToPage(page)}
+                // Cursor pagination: only pages we've already reached a cursor for are reachable
+                disabled={page - 1 >= pageCursors.length}
                 className={`px-3 py-2 text-sm font-medium rounded-md ${
                   page === currentPage
                     ? 'bg-blue-600 text-white'
-                    : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+                    : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-white'
                 }`}
               >
                 {page}
@@ -538,8 +1056,8 @@ export const EventsPage = () => {
           </div>
           
           <button
-            onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-            disabled={currentPage === totalPages}
+            onClick={() => goToPage(currentPage + 1)}
+            disabled={currentPage === totalPages || currentPage >= pageCursors.length}
             className="px-3 sm:px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
           >
             Next
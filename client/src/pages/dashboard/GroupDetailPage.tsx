@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { apiClient } from '../../services/api';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../../components/ui/ErrorMessage';
+import { GroupRoleBadge } from '../../components/ui/GroupRoleBadge';
+import { useAuth } from '../../hooks/useAuth';
+import { useToast } from '../../contexts/ToastContext';
+import type {
+  GroupDetail,
+  GroupKarmaScores,
+  GroupMember,
+  GroupRole,
+  LeaderboardPeriod,
+  LeaderboardResponse,
+} from '../../types';
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' },
+  { value: 'all', label: 'All time' },
+];
+
+const ROLE_RANKS: Record<GroupRole, number> = { owner: 0, admin: 1, member: 2 };
+
+export const GroupDetailPage = () => {
+  const { groupId = '' } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [group, setGroup] = useState<GroupDetail | null>(null);
+  const [scores, setScores] = useState<GroupKarmaScores | null>(null);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+  const [board, setBoard] = useState<LeaderboardResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchGroup = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [groupData, scoresData] = await Promise.all([
+        apiClient.getGroup(groupId),
+        apiClient.getGroupKarmaScores(groupId),
+      ]);
+      setGroup(groupData);
+      setScores(scoresData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load group');
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    fetchGroup();
+  }, [fetchGroup]);
+
+  const fetchLeaderboard = useCallback(async () => {
+    try {
+      setBoard(await apiClient.getGroupLeaderboard(groupId, { period }));
+    } catch {
+      setBoard(null);
+    }
+  }, [groupId, period]);
+
+  useEffect(() => {
+    fetchLeaderboard();
+  }, [fetchLeaderboard]);
+
+  // Runs a group action, showing its error as a toast
+  const runAction = async (title: string, action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title,
+        message: err instanceof Error ? err.message : 'Something went wrong',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerateCode = () => {
+    if (!window.confirm('Generate a new invite code? The current code will stop working.')) return;
+    runAction('Could Not Regenerate Code', async () => {
+      setGroup(await apiClient.regenerateGroupInviteCode(groupId));
+    });
+  };
+
+  const handleRoleChange = (member: GroupMember, role: GroupRole) => {
+    if (
+      role === 'owner' &&
+      !window.confirm(`Transfer ownership to ${member.username}? You will become an admin.`)
+    ) {
+      return;
+    }
+    runAction('Could Not Change Role', async () => {
+      setGroup(await apiClient.updateGroupMember(groupId, member.userId, role));
+    });
+  };
+
+  const handleRemove = (member: GroupMember) => {
+    if (!window.confirm(`Remove ${member.username} from the group?`)) return;
+    runAction('Could Not Remove Member', async () => {
+      await apiClient.removeGroupMember(groupId, member.userId);
+      await fetchGroup();
+      await fetchLeaderboard();
+    });
+  };
+
+  const handleLeave = () => {
+    if (!window.confirm('Leave this group?')) return;
+    runAction('Could Not Leave Group', async () => {
+      await apiClient.leaveGroup(groupId);
+      navigate('/dashboard/groups');
+    });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm('Delete this group for everyone? This cannot be undone.')) return;
+    runAction('Could Not Delete Group', async () => {
+      await apiClient.deleteGroup(groupId);
+      navigate('/dashboard/groups');
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !group) {
+    return <ErrorMessage message={error ?? 'Group not found'} onRetry={fetchGroup} />;
+  }
+
+  const isOwner = group.role === 'owner';
+  const canManage = group.role !== 'member';
+  const canRemove = (member: GroupMember) =>
+    canManage && member.userId !== user?.user_id && ROLE_RANKS[member.role] > ROLE_RANKS[group.role];
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4 mb-6">
+        <div>
+          <Link to="/dashboard/groups" className="text-sm text-blue-600 hover:text-blue-800">
+            ← All groups
+          </Link>
+          <div className="flex items-center gap-2 mt-1">
+            <h2 className="text-2xl font-bold text-gray-900">{group.name}</h2>
+            <GroupRoleBadge role={group.role} />
+          </div>
+          {group.description && (
+            <p className="text-sm text-gray-600 mt-1">{group.description}</p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleLeave}
+            disabled={busy}
+            className="bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            Leave
+          </button>
+          {isOwner && (
+            <button
+              onClick={handleDelete}
+              disabled={busy}
+              className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              Delete Group
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Invite Code */}
+      {group.invite_code && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Invite Code</p>
+            <p className="text-2xl font-mono font-bold text-gray-900 tracking-widest mt-1">
+              {group.invite_code}
+            </p>
+          </div>
+          <button
+            onClick={handleRegenerateCode}
+            disabled={busy}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            New Code
+          </button>
+        </div>
+      )}
+
+      {/* Group Karma */}
+      {scores && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Group Karma</h3>
+            <span className="text-2xl font-bold text-blue-600">
+              {scores.score !== null ? `${scores.score}%` : '—'}
+            </span>
+          </div>
+          <div className="space-y-3">
+            {scores.weeks.map((week) => (
+              <div key={week.start} className="flex items-center justify-between gap-4 py-2 px-4 rounded-lg bg-gray-50">
+                <span className="text-sm font-medium text-gray-600 whitespace-nowrap">
+                  Week of {new Date(week.start).toLocaleDateString()}
+                </span>
+                <div className="flex items-center gap-2 sm:gap-4">
+                  <div className="w-20 sm:w-32 bg-gray-200 rounded-full h-3">
+                    <div
+                      className="h-3 rounded-full bg-blue-500 transition-all duration-500"
+                      style={{ width: `${week.score ?? 0}%` }}
+                    ></div>
+                  </div>
+                  <span className="text-sm text-gray-900 w-36 text-right">
+                    {week.score !== null ? (
+                      <>
+                        <span className="font-bold">{week.score}%</span>
+                        <span className="text-gray-500"> · {week.active_members} active</span>
+                      </>
+                    ) : (
+                      <span className="text-gray-500">No events</span>
+                    )}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Group Leaderboard */}
+      <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+        <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <h3 className="text-lg font-semibold text-gray-900">Leaderboard</h3>
+          <div className="flex flex-wrap gap-2" role="tablist">
+            {PERIODS.map(({ value, label }) => (
+              <button
+                key={value}
+                role="tab"
+                aria-selected={period === value}
+                onClick={() => setPeriod(value)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  period === value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {!board || board.items.length === 0 ? (
+          <div className="p-8 text-center text-gray-600">
+            Members are ranked once they log at least {board?.min_events ?? 'a few'} scored karma events.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {board.items.map((entry) => (
+              <div
+                key={entry.userId}
+                className={`flex items-center justify-between px-6 py-4 ${
+                  entry.userId === user?.user_id ? 'bg-blue-50 border-l-4 border-blue-500' : ''
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <span className="w-8 text-lg font-bold text-gray-500">#{entry.rank}</span>
+                  <span className="font-medium text-gray-900">{entry.username}</span>
+                </div>
+                <span className="font-bold text-gray-900">{entry.score}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Members */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Members ({group.member_count})
+          </h3>
+        </div>
+        <div className="divide-y divide-gray-200">
+          {group.members.map((member) => (
+            <div key={member.userId} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-6 py-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{member.username}</span>
+                  {member.userId === user?.user_id && (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      You
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Joined {new Date(member.joined_at).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {isOwner && member.userId !== user?.user_id ? (
+                  <select
+                    value={member.role}
+                    disabled={busy}
+                    onChange={(e) => handleRoleChange(member, e.target.value as GroupRole)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="member">Member</option>
+                    <option value="admin">Admin</option>
+                    <option value="owner">Owner</option>
+                  </select>
+                ) : (
+                  <GroupRoleBadge role={member.role} />
+                )}
+                {canRemove(member) && (
+                  <button
+                    onClick={() => handleRemove(member)}
+                    disabled={busy}
+                    className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { apiClient } from '../../services/api';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { ErrorMessage } from '../../components/ui/ErrorMessage';
+import { useToast } from '../../contexts/ToastContext';
+import { GroupRoleBadge } from '../../components/ui/GroupRoleBadge';
+import type { GroupSummary } from '../../types';
+
+export const GroupsPage = () => {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    fetchGroups();
+  }, []);
+
+  const fetchGroups = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setGroups(await apiClient.getGroups());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load groups');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      const group = await apiClient.createGroup({
+        name: name.trim(),
+        description: description.trim() || undefined,
+      });
+      showToast({
+        type: 'success',
+        title: 'Group Created',
+        message: `Share the invite code ${group.invite_code} to let others join.`,
+      });
+      navigate(`/dashboard/groups/${group.id}`);
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Could Not Create Group',
+        message: err instanceof Error ? err.message : 'Failed to create group',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteCode.trim()) return;
+
+    setJoining(true);
+    try {
+      const group = await apiClient.joinGroup(inviteCode.trim());
+      showToast({
+        type: 'success',
+        title: 'Joined Group',
+        message: `You are now a member of ${group.name}.`,
+      });
+      navigate(`/dashboard/groups/${group.id}`);
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Could Not Join Group',
+        message: err instanceof Error ? err.message : 'Failed to join group',
+      });
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={fetchGroups} />;
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Groups</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Compete with your team on a leaderboard of your own
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {/* Create Group */}
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900">Create a Group</h3>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+            placeholder="Group name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={500}
+            rows={2}
+            placeholder="Description (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={creating || !name.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {creating ? 'Creating...' : 'Create Group'}
+          </button>
+        </form>
+
+        {/* Join Group */}
+        <form onSubmit={handleJoin} className="bg-white rounded-lg shadow p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900">Join a Group</h3>
+          <p className="text-sm text-gray-600">
+            Ask a group owner or admin for its invite code.
+          </p>
+          <input
+            type="text"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            placeholder="Invite code"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md uppercase focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={joining || !inviteCode.trim()}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {joining ? 'Joining...' : 'Join Group'}
+          </button>
+        </form>
+      </div>
+
+      {/* Group List */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Your Groups</h3>
+        </div>
+        {groups.length === 0 ? (
+          <div className="p-8 text-center">
+            <div className="text-6xl mb-4">👥</div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No Groups Yet</h3>
+            <p className="text-gray-600">Create a group or join one with an invite code.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {groups.map((group) => (
+              <Link
+                key={group.id}
+                to={`/dashboard/groups/${group.id}`}
+                className="flex items-center justify-between gap-4 p-6 hover:bg-gray-50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-900 truncate">{group.name}</p>
+                  {group.description && (
+                    <p className="text-sm text-gray-600 truncate">{group.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="text-sm text-gray-500">
+                    {group.member_count} {group.member_count === 1 ? 'member' : 'members'}
+                  </span>
+                  <GroupRoleBadge role={group.role} />
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,37 +3,49 @@ import { apiClient } from '../../services/api';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
 import { ErrorMessage } from '../../components/ui/ErrorMessage';
 import { useAuth } from '../../hooks/useAuth';
+import { useRealtime } from '../../hooks/useRealtime';
+import type { LeaderboardPeriod, LeaderboardResponse, RankHistoryWeek } from '../../types';
 
-interface LeaderboardEntry {
-  userId: string;
-  username: string;
-  score: number;
-}
+const PERIODS: { value: LeaderboardPeriod; label: string; description: string }[] = [
+  { value: 'week', label: 'Week', description: 'the current week' },
+  { value: 'month', label: 'Month', description: 'the current month' },
+  { value: 'year', label: 'Year', description: 'the current year' },
+  { value: 'all', label: 'All time', description: 'all time' },
+];
 
 export const LeaderboardPage = () => {
   const { user } = useAuth();
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+  const [board, setBoard] = useState<LeaderboardResponse | null>(null);
   const [userScores, setUserScores] = useState<any[]>([]);
+  const [rankHistory, setRankHistory] = useState<RankHistoryWeek[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
     fetchLeaderboardData();
-  }, []);
+  }, [period]);
+
+  // Refetch when the server reports scores have changed
+  useRealtime('leaderboard.changed', () => {
+    handleRefresh();
+  });
 
   const fetchLeaderboardData = async () => {
     try {
       setLoading(true);
       setError(null);
       
-      const [leaderboardData, scoresData] = await Promise.all([
-        apiClient.getLeaderboard(),
-        apiClient.getKarmaScores()
+      const [leaderboardData, scoresData, rankHistoryData] = await Promise.all([
+        apiClient.getLeaderboard({ period }),
+        apiClient.getKarmaScores(),
+        apiClient.getRankHistory()
       ]);
       
-      setLeaderboard(leaderboardData);
+      setBoard(leaderboardData);
       setUserScores(scoresData);
+      setRankHistory(rankHistoryData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load leaderboard');
     } finally {
@@ -70,18 +82,6 @@ export const LeaderboardPage = () => {
     return { text: `#${rank}`, color: 'bg-gray-500 text-white' };
   };
 
-  const getCurrentUserRank = () => {
-    if (!user) return null;
-    const userIndex = leaderboard.findIndex(entry => entry.userId === user.user_id);
-    return userIndex !== -1 ? userIndex + 1 : null;
-  };
-
-  const getCurrentUserScore = () => {
-    if (!user) return null;
-    const userEntry = leaderboard.find(entry => entry.userId === user.user_id);
-    return userEntry ? userEntry.score : null;
-  };
-
   const getScoreColor = (score: number) => {
     if (score >= 90) return 'text-emerald-600';
     if (score >= 80) return 'text-green-600';
@@ -129,8 +129,12 @@ export const LeaderboardPage = () => {
     return { trend: 'same', value: 0, color: 'text-gray-600' };
   };
 
-  const userRank = getCurrentUserRank();
-  const userScore = getCurrentUserScore();
+  const leaderboard = board?.items ?? [];
+  const me = board?.me ?? null;
+  const userRank = me?.rank ?? null;
+  const userScore = me?.score ?? null;
+  const eventsNeeded = board && me ? Math.max(board.min_events - me.event_count, 0) : 0;
+  const periodInfo = PERIODS.find(p => p.value === period) ?? PERIODS[0];
   const weeklyTrend = getWeeklyTrend();
 
   if (loading) {
@@ -150,10 +154,10 @@ export const LeaderboardPage = () => {
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">
-            Weekly Leaderboard
+            Leaderboard
           </h2>
           <p className="text-sm text-gray-600 mt-1">
-            Rankings based on average karma scores for the current week
+            Rankings based on average karma scores for {periodInfo.description}
           </p>
         </div>
         <button
@@ -170,6 +174,34 @@ export const LeaderboardPage = () => {
         </button>
       </div>
 
+      {/* Period Tabs */}
+      <div className="flex flex-wrap gap-2 mb-6" role="tablist">
+        {PERIODS.map(({ value, label }) => (
+          <button
+            key={value}
+            role="tab"
+            aria-selected={period === value}
+            onClick={() => setPeriod(value)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              period === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Not ranked yet */}
+      {board && userRank === null && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 rounded-lg p-4 mb-6 text-sm">
+          {eventsNeeded > 0
+            ? `Log ${eventsNeeded} more scored ${eventsNeeded === 1 ? 'event' : 'events'} to be ranked for ${periodInfo.description}.`
+            : 'Your events are still being scored; you will be ranked once they are.'}
+        </div>
+      )}
+
       {/* User Performance Overview */}
       {userRank && userScore !== null && (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -182,6 +214,11 @@ export const LeaderboardPage = () => {
                   <span className="text-3xl">{getRankIcon(userRank)}</span>
                   <span className="text-2xl font-bold text-blue-600">#{userRank}</span>
                 </div>
+                {me?.percentile != null && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {me.percentile}th percentile of {board?.total}
+                  </p>
+                )}
               </div>
               <div className={`px-3 py-1 rounded-full text-sm font-medium ${getRankBadge(userRank).color}`}>
                 {getRankBadge(userRank).text}
@@ -287,7 +324,7 @@ export const LeaderboardPage = () => {
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-gray-900">Top Performers & Your Position</h3>
             <div className="text-sm text-gray-600">
-              {leaderboard.length} {leaderboard.length === 1 ? 'participant' : 'participants'}
+              {board?.total ?? 0} {board?.total === 1 ? 'participant' : 'participants'}
             </div>
           </div>
         </div>
@@ -297,14 +334,14 @@ export const LeaderboardPage = () => {
             <div className="text-6xl mb-4">🏆</div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No Leaderboard Data</h3>
             <p className="text-gray-600">
-              The leaderboard will populate as users log karma events throughout the week.
+              The leaderboard will populate as users log at least {board?.min_events} scored karma events in {periodInfo.description}.
             </p>
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
             {/* Top 3 Performers */}
-            {leaderboard.slice(0, 3).map((entry, index) => {
-              const rank = index + 1;
+            {leaderboard.slice(0, 3).map((entry) => {
+              const rank = entry.rank;
               const isCurrentUser = user?.user_id === entry.userId;
               const rankBadge = getRankBadge(rank);
               
@@ -383,8 +420,8 @@ export const LeaderboardPage = () => {
                 
                 {/* Current User Entry */}
                 {(() => {
-                  const currentUserEntry = leaderboard.find(entry => entry.userId === user?.user_id);
-                  if (!currentUserEntry) return null;
+                  if (!user || userScore === null) return null;
+                  const currentUserEntry = { username: user.username, score: userScore };
                   
                   const rankBadge = getRankBadge(userRank);
                   
@@ -443,6 +480,38 @@ export const LeaderboardPage = () => {
         )}
       </div>
 
+      {/* Rank History */}
+      {rankHistory.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Your Rank Over Time</h3>
+          <p className="text-sm text-gray-600 mb-4">Final weekly standings; longer bars mean a higher percentile</p>
+          <div className="space-y-3">
+            {rankHistory.map((week) => (
+              <div key={week.start} className="flex items-center justify-between gap-4 py-2 px-4 rounded-lg bg-gray-50">
+                <span className="text-sm font-medium text-gray-600 whitespace-nowrap">
+                  Week of {new Date(week.start).toLocaleDateString()}
+                </span>
+                <div className="flex items-center gap-2 sm:gap-4">
+                  <div className="w-20 sm:w-32 bg-gray-200 rounded-full h-3">
+                    <div
+                      className="h-3 rounded-full bg-blue-500 transition-all duration-500"
+                      style={{ width: `${week.percentile ?? 0}%` }}
+                    ></div>
+                  </div>
+                  <span className="text-sm font-bold text-gray-900 w-28 text-right">
+                    {week.rank !== null ? (
+                      <>{getRankIcon(week.rank)} #{week.rank} of {week.participants}</>
+                    ) : (
+                      <span className="font-normal text-gray-500">Not ranked</span>
+                    )}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Weekly Progress Chart */}
       {userScores.length > 0 && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -0,0 +1,370 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import { useToast } from '../../contexts/ToastContext';
+import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
+import { apiClient } from '../../services/api';
+import { saveBlob } from '../../services/download';
+import { useRealtime } from '../../hooks/useRealtime';
+import { PasswordInput } from '../../components/ui/PasswordInput';
+import type { WeekStart } from '../../types';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const ProfilePage = () => {
+  const { user, updateProfile, logout } = useAuth();
+  const { showToast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  // Export being built in the background, downloaded once export.ready arrives
+  const pendingExportRef = useRef<string | null>(null);
+  const [formData, setFormData] = useState({
+    username: '',
+    display_name: '',
+    bio: '',
+    timezone: '',
+    week_start: '' as WeekStart | '',
+    avatar_url: '',
+    suggestions_opt_out: false
+  });
+
+  useEffect(() => {
+    if (!user) return;
+    setFormData({
+      username: user.username,
+      display_name: user.display_name ?? '',
+      bio: user.bio ?? '',
+      timezone: user.timezone ?? '',
+      week_start: user.week_start ?? '',
+      avatar_url: user.avatar_url ?? '',
+      suggestions_opt_out: user.suggestions_opt_out
+    });
+  }, [user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      // Empty optional fields are cleared rather than sent as ''
+      await updateProfile({
+        username: formData.username.trim(),
+        display_name: formData.display_name.trim() || null,
+        bio: formData.bio.trim() || null,
+        timezone: formData.timezone.trim() || null,
+        week_start: formData.week_start || null,
+        avatar_url: formData.avatar_url.trim() || null,
+        suggestions_opt_out: formData.suggestions_opt_out
+      });
+      showToast({
+        type: 'success',
+        title: 'Profile Updated',
+        message: 'Your profile changes have been saved.'
+      });
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error Updating Profile',
+        message: err instanceof Error ? err.message : 'Failed to update profile'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setResending(true);
+      const { message } = await apiClient.resendVerificationEmail();
+      showToast({ type: 'success', title: 'Check Your Inbox', message });
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error Sending Email',
+        message: err instanceof Error ? err.message : 'Failed to send verification email'
+      });
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const downloadExport = async (exportId: string) => {
+    const blob = await apiClient.downloadDataExport(exportId);
+    saveBlob(blob, `karma-ledger-export-${exportId}.zip`);
+  };
+
+  useRealtime('export.ready', ({ id }) => {
+    if (pendingExportRef.current !== id) return;
+    pendingExportRef.current = null;
+    downloadExport(id)
+      .catch((err) => {
+        showToast({
+          type: 'error',
+          title: 'Error Downloading Export',
+          message: err instanceof Error ? err.message : 'Failed to download your data'
+        });
+      })
+      .finally(() => setExporting(false));
+  });
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const dataExport = await apiClient.requestDataExport();
+      if (dataExport.status === 'ready') {
+        await downloadExport(dataExport.id);
+        setExporting(false);
+        return;
+      }
+      pendingExportRef.current = dataExport.id;
+      showToast({
+        type: 'info',
+        title: 'Preparing Your Export',
+        message: 'Your archive is being built. The download will start when it is ready.',
+        duration: 6000
+      });
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error Exporting Data',
+        message: err instanceof Error ? err.message : 'Failed to export your data'
+      });
+      setExporting(false);
+    }
+  };
+
+  const handleDeleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm('Delete your account and all of your data? You can cancel by logging in again before the deletion date.')) {
+      return;
+    }
+    try {
+      setDeleting(true);
+      const { deletion_scheduled_at } = await apiClient.deleteAccount(deletePassword);
+      showToast({
+        type: 'warning',
+        title: 'Account Deletion Scheduled',
+        message: `Your account will be deleted on ${new Date(deletion_scheduled_at).toLocaleDateString()}. Log in before then to cancel.`,
+        duration: 10000
+      });
+      // The server already ended every session
+      await logout();
+    } catch (err) {
+      showToast({
+        type: 'error',
+        title: 'Error Deleting Account',
+        message: err instanceof Error ? err.message : 'Failed to delete account'
+      });
+      setDeleting(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">Profile</h2>
+
+      <div className="bg-white shadow rounded-lg p-6 mb-6">
+        <div className="flex items-center space-x-4 mb-6">
+          {user.avatar_url ? (
+            <img src={user.avatar_url} alt="" className="h-16 w-16 rounded-full object-cover" />
+          ) : (
+            <div className="h-16 w-16 rounded-full bg-blue-100 flex items-center justify-center text-2xl font-bold text-blue-600">
+              {user.username.charAt(0).toUpperCase()}
+            </div>
+          )}
+          <div>
+            <p className="text-lg font-semibold text-gray-900">{user.display_name || user.username}</p>
+            <p className="text-sm text-gray-600">{user.email}</p>
+            {!user.email_verified && (
+              <p className="text-sm text-yellow-700">
+                Email not verified.{' '}
+                <button
+                  type="button"
+                  onClick={handleResendVerification}
+                  disabled={resending}
+                  className="font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                >
+                  {resending ? 'Sending...' : 'Resend verification email'}
+                </button>
+              </p>
+            )}
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">
+              Username *
+            </label>
+            <input
+              type="text"
+              id="username"
+              required
+              minLength={2}
+              maxLength={50}
+              value={formData.username}
+              onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="display_name" className="block text-sm font-medium text-gray-700 mb-1">
+              Display name
+            </label>
+            <input
+              type="text"
+              id="display_name"
+              maxLength={100}
+              value={formData.display_name}
+              onChange={(e) => setFormData({ ...formData, display_name: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="bio" className="block text-sm font-medium text-gray-700 mb-1">
+              Bio
+            </label>
+            <textarea
+              id="bio"
+              rows={3}
+              maxLength={500}
+              value={formData.bio}
+              onChange={(e) => setFormData({ ...formData, bio: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">
+              Timezone
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                id="timezone"
+                placeholder="e.g. Africa/Nairobi"
+                value={formData.timezone}
+                onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })}
+                className="px-3 py-2 text-sm text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors whitespace-nowrap"
+              >
+                Use my timezone
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Used to decide which day and week your karma events count towards for streaks and weekly scores.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="week_start" className="block text-sm font-medium text-gray-700 mb-1">
+              Week starts on
+            </label>
+            <select
+              id="week_start"
+              value={formData.week_start}
+              onChange={(e) => setFormData({ ...formData, week_start: e.target.value as WeekStart | '' })}
+              className={inputClassName}
+            >
+              <option value="">Default</option>
+              <option value="monday">Monday</option>
+              <option value="sunday">Sunday</option>
+              <option value="saturday">Saturday</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="avatar_url" className="block text-sm font-medium text-gray-700 mb-1">
+              Avatar URL
+            </label>
+            <input
+              type="url"
+              id="avatar_url"
+              placeholder="https://..."
+              value={formData.avatar_url}
+              onChange={(e) => setFormData({ ...formData, avatar_url: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              id="weekly_suggestions"
+              checked={!formData.suggestions_opt_out}
+              onChange={(e) => setFormData({ ...formData, suggestions_opt_out: !e.target.checked })}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="weekly_suggestions" className="text-sm text-gray-700">
+              <span className="font-medium">Weekly suggestions</span>
+              <span className="block text-xs text-gray-500">
+                Generate fresh suggestions at the start of each week. You can still ask for them from the dashboard.
+              </span>
+            </label>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !formData.username.trim()}
+              className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center space-x-2"
+            >
+              {saving && <LoadingSpinner size="sm" />}
+              <span>{saving ? 'Saving...' : 'Save Changes'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Your Data</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Download a zip archive of your profile, karma events, suggestions, badges and weekly scores in JSON and CSV form.
+        </p>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={exporting}
+          className="w-full sm:w-auto px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+        >
+          {exporting && <LoadingSpinner size="sm" />}
+          <span>{exporting ? 'Preparing export...' : 'Export my data'}</span>
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 border border-red-200">
+        <h3 className="text-lg font-semibold text-red-700 mb-2">Delete Account</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Your account and all of your karma events, suggestions and badges will be permanently deleted after a grace period. Logging in again before then cancels the deletion.
+        </p>
+        <form onSubmit={handleDeleteAccount} className="space-y-4">
+          <PasswordInput
+            id="delete-password"
+            name="password"
+            value={deletePassword}
+            onChange={(e) => setDeletePassword(e.target.value)}
+            required
+            label="Confirm your password"
+          />
+          <button
+            type="submit"
+            disabled={deleting || !deletePassword}
+            className="w-full sm:w-auto px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400 transition-colors flex items-center justify-center space-x-2"
+          >
+            {deleting && <LoadingSpinner size="sm" />}
+            <span>{deleting ? 'Scheduling deletion...' : 'Delete my account'}</span>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
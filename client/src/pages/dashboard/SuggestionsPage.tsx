@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { apiClient } from '../../services/api';
 import { LoadingSpinner } from '../../components/ui/LoadingSpinner';
 import { useToast } from '../../contexts/ToastContext';
+import { useRealtime } from '../../hooks/useRealtime';
 import type { Suggestion } from '../../types';
 
 interface SuggestionFilters {
@@ -17,6 +18,7 @@ export const SuggestionsPage = () => {
   const [loading, setLoading] = useState(true);
   const [triggerLoading, setTriggerLoading] = useState(false);
   const [refreshLoading, setRefreshLoading] = useState(false);
+  const triggerTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [filters, setFilters] = useState<SuggestionFilters>({
     period: 'all',
@@ -35,6 +37,27 @@ export const SuggestionsPage = () => {
     fetchSuggestions();
   }, []);
 
+  useEffect(() => {
+    return () => {
+      if (triggerTimeoutRef.current) clearTimeout(triggerTimeoutRef.current);
+    };
+  }, []);
+
+  useRealtime('suggestions.ready', () => {
+    if (triggerTimeoutRef.current) {
+      clearTimeout(triggerTimeoutRef.current);
+      triggerTimeoutRef.current = null;
+    }
+    setTriggerLoading(false);
+    showToast({
+      type: 'success',
+      title: 'New Suggestions Generated!',
+      message: 'Fresh AI suggestions have been created based on your recent karma activity.',
+      duration: 5000
+    });
+    fetchSuggestions(true);
+  });
+
   useEffect(() => {
     applyFilters();
   }, [suggestions, filters]);
@@ -115,65 +138,26 @@ export const SuggestionsPage = () => {
     try {
       setTriggerLoading(true);
       
-      // Store current suggestion count to detect changes
-      const currentSuggestionCount = suggestions.length;
-      const currentSuggestionTexts = suggestions.map(s => s.suggestion_text);
-      
       await apiClient.triggerSuggestions();
-      
-      // Poll for new suggestions with better timing
-      let attempts = 0;
-      const maxAttempts = 15; // 30 seconds total wait time
-      let foundNewSuggestions = false;
-      
-      while (attempts < maxAttempts && !foundNewSuggestions) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        try {
-          const newSuggestions = await apiClient.getSuggestions();
-          
-          // Check if suggestions actually changed (not just count)
-          const newSuggestionTexts = newSuggestions.map(s => s.suggestion_text);
-          const hasNewContent = newSuggestionTexts.some(text => 
-            !currentSuggestionTexts.includes(text)
-          );
-          
-          if (hasNewContent || newSuggestions.length !== currentSuggestionCount) {
-            setSuggestions(newSuggestions);
-            foundNewSuggestions = true;
-            showToast({
-              type: 'success',
-              title: 'New Suggestions Generated!',
-              message: 'Fresh AI suggestions have been created based on your recent karma activity.',
-              duration: 5000
-            });
-          }
-          
-        } catch (fetchErr) {
-          console.error('Error fetching updated suggestions:', fetchErr);
-        }
-        
-        attempts++;
-      }
-      
-      if (!foundNewSuggestions) {
+
+      // The suggestions.ready push ends the loading state; give up waiting
+      // if the job never reports back
+      triggerTimeoutRef.current = setTimeout(() => {
+        triggerTimeoutRef.current = null;
+        setTriggerLoading(false);
         showToast({
           type: 'warning',
-          title: 'No New Suggestions',
-          message: 'Generation completed, but no new suggestions were found. This might happen if your recent karma activity is similar to previous weeks.',
+          title: 'Still Working',
+          message: 'Suggestion generation is taking longer than usual. They will appear here once ready.',
           duration: 6000
         });
-        // Still refresh to show any updates
-        fetchSuggestions();
-      }
-      
+      }, 60000);
     } catch (err) {
       showToast({
         type: 'error',
         title: 'Error Generating Suggestions',
         message: err instanceof Error ? err.message : 'Failed to trigger suggestions'
       });
-    } finally {
       setTriggerLoading(false);
     }
   };
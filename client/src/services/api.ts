@@ -1,5 +1,7 @@
 import type {
   User,
+  PublicProfile,
+  UpdateProfileDto,
   KarmaEvent,
   Badge,
   UserBadge,
@@ -7,42 +9,174 @@ import type {
   LoginDto,
   CreateUserDto,
   CreateKarmaEventDto,
+  UpdateKarmaEventDto,
+  OverrideIntensityDto,
+  KarmaEventQuery,
+  KarmaEventFilters,
+  UserTag,
+  CategoryBreakdown,
+  KarmaEventExportFormat,
+  PaginatedResponse,
   AuthResponse,
   LoginResponse,
+  ResetPasswordDto,
   KarmaScoreResponse,
+  LeaderboardQuery,
+  LeaderboardResponse,
+  RankHistoryWeek,
+  GroupSummary,
+  GroupDetail,
+  GroupDto,
+  GroupRole,
+  GroupKarmaScores,
+  ChallengeSummary,
+  ChallengeDetail,
+  ChallengeStatus,
+  CreateChallengeDto,
+  StreakSummary,
+  DataExport,
+  ImportPreview,
+  KarmaImportStatus,
+  DeleteAccountResponse,
   ApiError
 } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
+// A 401 from these means bad credentials or tokens, not an expired session
+const NO_REFRESH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+];
+
 class ApiClient {
   private baseUrl: string;
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private tokenListeners = new Set<() => void>();
+  private authExpiredListeners = new Set<() => void>();
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
     this.token = localStorage.getItem('auth_token');
+    this.refreshToken = localStorage.getItem('refresh_token');
   }
 
-  setToken(token: string) {
+  setToken(token: string, refreshToken?: string) {
     this.token = token;
     localStorage.setItem('auth_token', token);
+    if (refreshToken) {
+      this.refreshToken = refreshToken;
+      localStorage.setItem('refresh_token', refreshToken);
+    }
+    this.tokenListeners.forEach((listener) => listener());
   }
 
   clearToken() {
     this.token = null;
+    this.refreshToken = null;
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
+    this.tokenListeners.forEach((listener) => listener());
+  }
+
+  // Called whenever the access token changes, e.g. after a refresh
+  onTokenChange(listener: () => void): () => void {
+    this.tokenListeners.add(listener);
+    return () => this.tokenListeners.delete(listener);
+  }
+
+  // Called when the session can't be refreshed and the user must log in again
+  onAuthExpired(listener: () => void): () => void {
+    this.authExpiredListeners.add(listener);
+    return () => this.authExpiredListeners.delete(listener);
+  }
+
+  // EventSource can't send headers, so the token goes in the query string
+  getNotificationStreamUrl(): string | null {
+    if (!this.token) return null;
+    return `${this.baseUrl}/notifications/stream?token=${encodeURIComponent(this.token)}`;
+  }
+
+  // Exchanges the refresh token for a new token pair. Concurrent callers
+  // share one request, since each refresh token can only be used once.
+  refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshToken) return Promise.resolve(false);
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = fetch(`${this.baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: this.refreshToken }),
+      })
+        .then(async (response) => {
+          if (!response.ok) return false;
+          const tokens: LoginResponse = await response.json();
+          this.setToken(tokens.access_token, tokens.refresh_token);
+          return true;
+        })
+        .catch(() => false)
+        .then((refreshed) => {
+          if (!refreshed) {
+            this.clearToken();
+            this.authExpiredListeners.forEach((listener) => listener());
+          }
+          return refreshed;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.send(endpoint, options);
+    return await response.json();
+  }
+
+  private toQueryString(query: object): string {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+    const queryString = params.toString();
+    return queryString ? `?${queryString}` : '';
+  }
+
+  private importFormData(file: File, dryRun: boolean): FormData {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('dry_run', String(dryRun));
+    return formData;
+  }
+
+  private async requestBlob(endpoint: string): Promise<Blob> {
+    const response = await this.send(endpoint);
+    return await response.blob();
   }
 
-  private async request<T>(
+  // Performs the request with auth, refreshing once on a 401, and throws
+  // the API's error message for unsuccessful responses
+  private async send(
     endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
+    options: RequestInit = {},
+    retryOnUnauthorized = true
+  ): Promise<Response> {
     const url = `${this.baseUrl}${endpoint}`;
     
+    // Let the browser set the multipart boundary for file uploads
+    const isFormData = options.body instanceof FormData;
     const config: RequestInit = {
       headers: {
-        'Content-Type': 'application/json',
+        ...(!isFormData && { 'Content-Type': 'application/json' }),
         ...(this.token && { Authorization: `Bearer ${this.token}` }),
         ...options.headers,
       },
@@ -51,6 +185,18 @@ class ApiClient {
 
     try {
       const response = await fetch(url, config);
+
+      // The access token expired: refresh once and replay the request
+      if (
+        response.status === 401 &&
+        retryOnUnauthorized &&
+        this.refreshToken &&
+        !NO_REFRESH_ENDPOINTS.includes(endpoint)
+      ) {
+        if (await this.refreshAccessToken()) {
+          return this.send(endpoint, options, false);
+        }
+      }
       
       if (!response.ok) {
         const errorData: ApiError = await response.json().catch(() => ({
@@ -60,7 +206,7 @@ class ApiClient {
         throw new Error(errorData.message || `HTTP ${response.status}`);
       }
 
-      return await response.json();
+      return response;
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -89,20 +235,98 @@ class ApiClient {
     });
   }
 
+  // Revokes the current session server-side; the caller clears local state
+  async logout(): Promise<void> {
+    if (!this.refreshToken) return;
+    await this.request('/auth/logout', {
+      method: 'POST',
+      body: JSON.stringify({ refresh_token: this.refreshToken }),
+    });
+  }
+
+  async logoutAll(): Promise<void> {
+    await this.request('/auth/logout-all', { method: 'POST' });
+  }
+
+  async forgotPassword(email: string): Promise<{ message: string }> {
+    return this.request('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(data: ResetPasswordDto): Promise<{ message: string }> {
+    return this.request('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resendVerificationEmail(): Promise<{ message: string }> {
+    return this.request('/auth/resend-verification', { method: 'POST' });
+  }
+
   // User endpoints
+  // Admin only
   async getUsers(): Promise<User[]> {
     return this.request('/users');
   }
 
-  async getUserById(id: string): Promise<User> {
+  async getUserById(id: string): Promise<PublicProfile> {
     return this.request(`/users/${id}`);
   }
 
-  async getUserByEmail(email: string): Promise<User> {
-    return this.request(`/users/lookup?email=${encodeURIComponent(email)}`);
+  async getMe(): Promise<User> {
+    return this.request('/users/me');
+  }
+
+  async updateMe(data: UpdateProfileDto): Promise<User> {
+    return this.request('/users/me', {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Schedules deletion after the grace period; logging in again cancels it
+  async deleteAccount(password: string): Promise<DeleteAccountResponse> {
+    return this.request('/users/me', {
+      method: 'DELETE',
+      body: JSON.stringify({ password }),
+    });
+  }
+
+  // Personal data export
+  async requestDataExport(): Promise<DataExport> {
+    return this.request('/users/me/export', { method: 'POST' });
+  }
+
+  async getDataExport(exportId: string): Promise<DataExport> {
+    return this.request(`/users/me/export/${exportId}`);
+  }
+
+  async downloadDataExport(exportId: string): Promise<Blob> {
+    return this.requestBlob(`/users/me/export/${exportId}/download`);
   }
 
   // Karma event endpoints
+  async previewKarmaImport(file: File): Promise<ImportPreview> {
+    return this.request('/karma-events/import', {
+      method: 'POST',
+      body: this.importFormData(file, true),
+    });
+  }
+
+  async importKarmaEvents(file: File): Promise<KarmaImportStatus> {
+    return this.request('/karma-events/import', {
+      method: 'POST',
+      body: this.importFormData(file, false),
+    });
+  }
+
+  async getKarmaImport(importId: string): Promise<KarmaImportStatus> {
+    return this.request(`/karma-events/import/${importId}`);
+  }
+
   async createKarmaEvent(eventData: CreateKarmaEventDto): Promise<KarmaEvent> {
     return this.request('/karma-events/create', {
       method: 'POST',
@@ -110,8 +334,58 @@ class ApiClient {
     });
   }
 
-  async getMyKarmaEvents(): Promise<KarmaEvent[]> {
-    return this.request('/karma-events/me');
+  async updateKarmaEvent(eventId: string, eventData: UpdateKarmaEventDto): Promise<KarmaEvent> {
+    return this.request(`/karma-events/${eventId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(eventData),
+    });
+  }
+
+  async deleteKarmaEvent(eventId: string): Promise<{ message: string }> {
+    return this.request(`/karma-events/${eventId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Only for events whose AI analysis failed
+  async retryKarmaFeedback(eventId: string): Promise<KarmaEvent> {
+    return this.request(`/karma-events/${eventId}/retry-feedback`, {
+      method: 'POST',
+    });
+  }
+
+  // Disputes the AI's intensity; the server decides how much of it counts
+  async overrideIntensity(eventId: string, data: OverrideIntensityDto): Promise<KarmaEvent> {
+    return this.request(`/karma-events/${eventId}/intensity`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async clearIntensityOverride(eventId: string): Promise<KarmaEvent> {
+    return this.request(`/karma-events/${eventId}/intensity`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getMyKarmaEvents(query: KarmaEventQuery = {}): Promise<PaginatedResponse<KarmaEvent>> {
+    return this.request(`/karma-events/me${this.toQueryString(query)}`);
+  }
+
+  // Downloads every event matching the filters as a single file
+  async exportMyKarmaEvents(
+    format: KarmaEventExportFormat,
+    filters: KarmaEventFilters = {}
+  ): Promise<Blob> {
+    return this.requestBlob(`/karma-events/me/export${this.toQueryString({ ...filters, format })}`);
+  }
+
+  async getMyTags(): Promise<UserTag[]> {
+    return this.request('/karma-events/me/tags');
+  }
+
+  async getKarmaEvent(eventId: string): Promise<KarmaEvent> {
+    return this.request(`/karma-events/${eventId}`);
   }
 
   async getMyKarmaScore(): Promise<KarmaScoreResponse> {
@@ -137,8 +411,12 @@ class ApiClient {
     return this.request('/dashboard/karma-scores');
   }
 
-  async getLeaderboard(): Promise<any> {
-    return this.request('/dashboard/leaderboard');
+  async getLeaderboard(query: LeaderboardQuery = {}): Promise<LeaderboardResponse> {
+    return this.request(`/dashboard/leaderboard${this.toQueryString(query)}`);
+  }
+
+  async getRankHistory(limit?: number): Promise<RankHistoryWeek[]> {
+    return this.request(`/dashboard/leaderboard/history/me${this.toQueryString({ limit })}`);
   }
 
   async getBadges(): Promise<Badge[]> {
@@ -148,6 +426,95 @@ class ApiClient {
   async getMyBadges(): Promise<UserBadge[]> {
     return this.request('/dashboard/badges/me');
   }
+
+  async getMyStreaks(): Promise<StreakSummary> {
+    return this.request('/dashboard/streaks');
+  }
+
+  async getCategoryBreakdown(): Promise<CategoryBreakdown[]> {
+    return this.request('/dashboard/categories');
+  }
+
+  // Group endpoints
+  async getGroups(): Promise<GroupSummary[]> {
+    return this.request('/groups');
+  }
+
+  async getGroup(groupId: string): Promise<GroupDetail> {
+    return this.request(`/groups/${groupId}`);
+  }
+
+  async createGroup(data: GroupDto): Promise<GroupDetail> {
+    return this.request('/groups', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateGroup(groupId: string, data: Partial<GroupDto>): Promise<GroupDetail> {
+    return this.request(`/groups/${groupId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteGroup(groupId: string): Promise<void> {
+    await this.request(`/groups/${groupId}`, { method: 'DELETE' });
+  }
+
+  async joinGroup(inviteCode: string): Promise<GroupDetail> {
+    return this.request('/groups/join', {
+      method: 'POST',
+      body: JSON.stringify({ invite_code: inviteCode }),
+    });
+  }
+
+  async leaveGroup(groupId: string): Promise<void> {
+    await this.request(`/groups/${groupId}/leave`, { method: 'POST' });
+  }
+
+  async regenerateGroupInviteCode(groupId: string): Promise<GroupDetail> {
+    return this.request(`/groups/${groupId}/invite-code`, { method: 'POST' });
+  }
+
+  async updateGroupMember(groupId: string, userId: string, role: GroupRole): Promise<GroupDetail> {
+    return this.request(`/groups/${groupId}/members/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<void> {
+    await this.request(`/groups/${groupId}/members/${userId}`, { method: 'DELETE' });
+  }
+
+  async getGroupLeaderboard(groupId: string, query: LeaderboardQuery = {}): Promise<LeaderboardResponse> {
+    return this.request(`/groups/${groupId}/leaderboard${this.toQueryString(query)}`);
+  }
+
+  async getGroupKarmaScores(groupId: string): Promise<GroupKarmaScores> {
+    return this.request(`/groups/${groupId}/karma-scores`);
+  }
+
+  // Challenge endpoints
+  async getChallenges(query: { status?: ChallengeStatus; group_id?: string } = {}): Promise<ChallengeSummary[]> {
+    return this.request(`/challenges${this.toQueryString(query)}`);
+  }
+
+  async getChallenge(challengeId: string): Promise<ChallengeDetail> {
+    return this.request(`/challenges/${challengeId}`);
+  }
+
+  async createChallenge(data: CreateChallengeDto): Promise<ChallengeDetail> {
+    return this.request('/challenges', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async joinChallenge(challengeId: string): Promise<ChallengeDetail> {
+    return this.request(`/challenges/${challengeId}/join`, { method: 'POST' });
+  }
 }
 
 export const apiClient = new ApiClient(API_BASE_URL);
@@ -0,0 +1,18 @@
+import type { KarmaCategory } from '../types';
+
+export const CATEGORY_LABELS: Record<KarmaCategory, string> = {
+  family: 'Family',
+  friends: 'Friends',
+  work: 'Work',
+  community: 'Community',
+  health: 'Health',
+  environment: 'Environment',
+  personal_growth: 'Personal Growth',
+  other: 'Other',
+};
+
+export const CATEGORY_OPTIONS = Object.keys(CATEGORY_LABELS) as KarmaCategory[];
+
+// Splits a comma-separated tag input into tag names
+export const parseTagInput = (input: string): string[] =>
+  input.split(',').map(tag => tag.trim()).filter(Boolean);
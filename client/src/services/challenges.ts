@@ -0,0 +1,29 @@
+import { CATEGORY_LABELS } from './categories';
+import type { ChallengeMetric, ChallengeSummary } from '../types';
+
+export const METRIC_LABELS: Record<ChallengeMetric, string> = {
+  event_count: 'Events logged',
+  category_count: 'Events in a category',
+  average_intensity: 'Average intensity',
+  streak: 'Daily streak',
+};
+
+export const METRIC_OPTIONS = Object.keys(METRIC_LABELS) as ChallengeMetric[];
+
+// What a participant has to reach, in words
+export const describeGoal = ({ metric, target, category, min_events }: ChallengeSummary): string => {
+  switch (metric) {
+    case 'event_count':
+      return `Log ${target} karma ${target === 1 ? 'event' : 'events'}`;
+    case 'category_count':
+      return `Log ${target} ${category ? CATEGORY_LABELS[category].toLowerCase() : ''} ${target === 1 ? 'event' : 'events'}`;
+    case 'average_intensity':
+      return `Average an intensity of ${target} over at least ${min_events ?? 1} scored ${(min_events ?? 1) === 1 ? 'event' : 'events'}`;
+    case 'streak':
+      return `Log karma ${target} days in a row`;
+  }
+};
+
+// Share of the target reached, from 0 to 100
+export const progressPercent = (target: number, progress: number | null): number =>
+  progress === null || target <= 0 ? 0 : Math.min(100, Math.max(0, Math.round((progress / target) * 100)));
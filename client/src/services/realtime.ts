@@ -0,0 +1,108 @@
+import { apiClient } from './api';
+import type { RealtimeMessages, RealtimeMessageType } from '../types';
+
+const MESSAGE_TYPES: RealtimeMessageType[] = [
+  'feedback.ready',
+  'feedback.failed',
+  'badge.awarded',
+  'suggestions.ready',
+  'leaderboard.changed',
+  'export.ready',
+];
+
+type Handler = (data: unknown) => void;
+
+// Don't refresh again if the stream keeps failing for some other reason
+const MIN_REFRESH_INTERVAL_MS = 30000;
+
+// Shares one EventSource between every subscriber and closes it once the
+// last one unsubscribes (e.g. on logout, when the dashboard unmounts).
+class RealtimeClient {
+  private source: EventSource | null = null;
+  private streamUrl: string | null = null;
+  private lastRefreshAt = 0;
+  private handlers = new Map<RealtimeMessageType, Set<Handler>>();
+
+  constructor() {
+    // Reopen the stream with the new token after a refresh or logout
+    apiClient.onTokenChange(() => {
+      if (this.subscriberCount() > 0) this.connect();
+    });
+  }
+
+  subscribe<K extends RealtimeMessageType>(
+    type: K,
+    handler: (data: RealtimeMessages[K]) => void
+  ): () => void {
+    const handlers = this.handlers.get(type) ?? new Set<Handler>();
+    handlers.add(handler as Handler);
+    this.handlers.set(type, handlers);
+    this.connect();
+
+    return () => {
+      handlers.delete(handler as Handler);
+      if (this.subscriberCount() === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  connect() {
+    const url = apiClient.getNotificationStreamUrl();
+    if (!url) {
+      this.disconnect();
+      return;
+    }
+    // Reconnect only when the token changed since the stream was opened
+    if (this.source && this.streamUrl === url) return;
+
+    this.disconnect();
+    this.streamUrl = url;
+    this.source = new EventSource(url);
+
+    // EventSource gives up for good on a 401, e.g. once the access token
+    // expired and the connection dropped; refreshing reconnects via the
+    // token listener
+    this.source.onerror = () => {
+      if (this.source?.readyState !== EventSource.CLOSED) return;
+      this.disconnect();
+      if (Date.now() - this.lastRefreshAt > MIN_REFRESH_INTERVAL_MS) {
+        this.lastRefreshAt = Date.now();
+        void apiClient.refreshAccessToken();
+      }
+    };
+
+    for (const type of MESSAGE_TYPES) {
+      this.source.addEventListener(type, (message) => {
+        this.dispatch(type, (message as MessageEvent<string>).data);
+      });
+    }
+  }
+
+  disconnect() {
+    this.source?.close();
+    this.source = null;
+    this.streamUrl = null;
+  }
+
+  private dispatch(type: RealtimeMessageType, raw: string) {
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      console.error(`Malformed ${type} message:`, raw);
+      return;
+    }
+    this.handlers.get(type)?.forEach((handler) => handler(data));
+  }
+
+  private subscriberCount() {
+    let count = 0;
+    this.handlers.forEach((handlers) => {
+      count += handlers.size;
+    });
+    return count;
+  }
+}
+
+export const realtimeClient = new RealtimeClient();
@@ -1,18 +1,85 @@
-export interface User {
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+export type WeekStart = 'monday' | 'sunday' | 'saturday';
+
+// What any signed-in user can see about another user
+export interface PublicProfile {
   user_id: string;
   username: string;
+  display_name: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  createdAt: string;
+}
+
+// The signed-in user's own account, from GET /users/me
+export interface User extends PublicProfile {
   email: string;
+  email_verified: boolean;
+  timezone: string | null;
+  week_start: WeekStart | null;
+  suggestions_opt_out: boolean;
+  role: UserRole;
+  deletion_scheduled_at: string | null;
+}
+
+export interface UpdateProfileDto {
+  username?: string;
+  display_name?: string | null;
+  bio?: string | null;
+  timezone?: string | null;
+  week_start?: WeekStart | null;
+  avatar_url?: string | null;
+  suggestions_opt_out?: boolean;
 }
 
+export type KarmaCategory =
+  | 'family'
+  | 'friends'
+  | 'work'
+  | 'community'
+  | 'health'
+  | 'environment'
+  | 'personal_growth'
+  | 'other';
+
+export interface Tag {
+  id: string;
+  name: string;
+}
+
+export interface UserTag extends Tag {
+  event_count: number;
+}
+
+export type FeedbackStatus = 'pending' | 'processing' | 'done' | 'failed';
+
 export interface KarmaEvent {
   event_id: string;
   user_id: string;
   action: string;
+  // Effective score: the AI's, adjusted by the user's override as the server policy allows
   intensity: number;
+  ai_intensity: number | null;
+  user_intensity: number | null;
+  user_intensity_reason: string | null;
   reflection: string;
   feedback: string;
   feedback_generated: boolean;
+  feedback_status: FeedbackStatus;
+  // Why the last scoring attempt failed, cleared once it succeeds
+  feedback_error: string | null;
   occurred_at: Date;
+  category: KarmaCategory | null;
+  tags?: Tag[];
+}
+
+// GET /dashboard/categories; a null category covers uncategorised events
+export interface CategoryBreakdown {
+  category: KarmaCategory | null;
+  event_count: number;
+  scored_count: number;
+  score: number | null;
 }
 
 export interface Badge {
@@ -32,6 +99,19 @@ export interface UserBadge {
   badge?: Badge;
 }
 
+export interface StreakCounts {
+  current: number;
+  longest: number;
+  freezes_left: number;
+}
+
+export interface StreakSummary {
+  timezone: string;
+  freeze_allowance: number;
+  daily: StreakCounts;
+  weekly: StreakCounts;
+}
+
 export interface Suggestion {
   id: string;
   user_id: string;
@@ -41,6 +121,65 @@ export interface Suggestion {
   created_at: Date;
 }
 
+// Messages pushed over GET /notifications/stream
+export interface RealtimeMessages {
+  'feedback.ready': KarmaEvent;
+  'feedback.failed': KarmaEvent;
+  'badge.awarded': Badge;
+  'suggestions.ready': Record<string, never>;
+  'leaderboard.changed': Record<string, never>;
+  'export.ready': { id: string };
+}
+
+export type RealtimeMessageType = keyof RealtimeMessages;
+
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+
+export interface DataExport {
+  id: string;
+  status: DataExportStatus;
+  expires_at: string | null;
+  error: string | null;
+  download_url: string | null;
+  createdAt: string;
+}
+
+// Bulk import of karma events from CSV or JSON
+export interface ImportRowError {
+  row: number;
+  messages: string[];
+}
+
+export interface ImportPreviewRow {
+  row: number;
+  action: string;
+  reflection: string | null;
+  occurred_at: string | null;
+}
+
+export interface ImportPreview {
+  total_rows: number;
+  rows: ImportPreviewRow[];
+  duplicate_rows: number[];
+  errors: ImportRowError[];
+}
+
+export interface KarmaImportStatus {
+  id: string;
+  file_name: string;
+  total_rows: number;
+  imported_count: number;
+  duplicate_rows: number[];
+  errors: ImportRowError[];
+  scored_count: number;
+  /** Imported events whose AI scoring failed; they can be retried */
+  failed_count: number;
+  /** Imported events deleted since, no longer counted towards completion */
+  deleted_count: number;
+  status: 'scoring' | 'completed';
+  createdAt: string;
+}
+
 // API DTOs
 export interface LoginDto {
   email: string;
@@ -57,23 +196,206 @@ export interface CreateKarmaEventDto {
   action: string;
   reflection?: string;
   occurred_at?: string;
+  category?: KarmaCategory | null;
+  tags?: string[];
+}
+
+export type UpdateKarmaEventDto = Partial<CreateKarmaEventDto>;
+
+export interface OverrideIntensityDto {
+  intensity: number;
+  reason: string;
+}
+
+export interface KarmaEventQuery extends KarmaEventFilters {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface KarmaEventFilters {
+  from?: string;
+  to?: string;
+  intensity_min?: number;
+  intensity_max?: number;
+  feedback_generated?: boolean;
+  feedback_status?: FeedbackStatus;
+  search?: string;
+  category?: KarmaCategory;
+  tag?: string;
 }
 
+export type KarmaEventExportFormat = 'csv' | 'json' | 'ics';
+
 // API Response types
+export interface ResetPasswordDto {
+  token: string;
+  password: string;
+}
+
 export interface AuthResponse {
   message: string;
   access_token: string;
+  refresh_token: string;
   data: User;
 }
 
 export interface LoginResponse {
   access_token: string;
+  refresh_token: string;
+  // Logging in called off a scheduled account deletion
+  deletion_cancelled?: boolean;
+}
+
+export interface DeleteAccountResponse {
+  message: string;
+  deletion_scheduled_at: string;
+}
+
+export interface PaginatedResponse<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
 }
 
 export interface KarmaScoreResponse {
   total_percentage: string;
 }
 
+export type LeaderboardPeriod = 'week' | 'month' | 'year' | 'all';
+
+export interface LeaderboardQuery {
+  period?: LeaderboardPeriod;
+  offset?: number;
+  limit?: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  score: number;
+  event_count: number;
+}
+
+export interface LeaderboardResponse {
+  period: LeaderboardPeriod;
+  // Null for the all-time board
+  start: string | null;
+  end: string | null;
+  min_events: number;
+  total: number;
+  offset: number;
+  limit: number;
+  items: LeaderboardEntry[];
+  // rank, score and percentile are null until the user has min_events events
+  me: {
+    rank: number | null;
+    score: number | null;
+    event_count: number;
+    percentile: number | null;
+  };
+}
+
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+export interface GroupSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  // The caller's role
+  role: GroupRole;
+  member_count: number;
+}
+
+export interface GroupMember {
+  userId: string;
+  username: string;
+  role: GroupRole;
+  joined_at: string;
+}
+
+export interface GroupDetail extends GroupSummary {
+  // Only shown to owners and admins
+  invite_code: string | null;
+  members: GroupMember[];
+}
+
+export interface GroupDto {
+  name: string;
+  description?: string | null;
+}
+
+export interface GroupKarmaScores {
+  score: number | null;
+  event_count: number;
+  member_count: number;
+  weeks: {
+    start: string;
+    end: string;
+    score: number | null;
+    event_count: number;
+    active_members: number;
+  }[];
+}
+
+export type ChallengeMetric = 'event_count' | 'category_count' | 'average_intensity' | 'streak';
+
+export type ChallengeStatus = 'upcoming' | 'active' | 'ended';
+
+export interface ChallengeProgress {
+  // Events, average intensity or streak days, by metric
+  progress: number | null;
+  event_count: number;
+  completed_at: string | null;
+  joined_at: string;
+}
+
+export interface ChallengeSummary {
+  id: string;
+  group: { id: string; name: string };
+  title: string;
+  description: string | null;
+  metric: ChallengeMetric;
+  category: KarmaCategory | null;
+  target: number;
+  min_events: number | null;
+  starts_at: string;
+  ends_at: string;
+  status: ChallengeStatus;
+  badge: { code: string; name: string; icon: string };
+  participant_count: number;
+  // Null until the caller joins
+  me: ChallengeProgress | null;
+}
+
+export interface ChallengeDetail extends ChallengeSummary {
+  participants: (ChallengeProgress & { userId: string; username: string })[];
+}
+
+export interface CreateChallengeDto {
+  group_id: string;
+  title: string;
+  description?: string;
+  metric: ChallengeMetric;
+  category?: KarmaCategory;
+  target: number;
+  min_events?: number;
+  starts_at: string;
+  ends_at: string;
+}
+
+// The caller's place in one closed week's frozen leaderboard
+export interface RankHistoryWeek {
+  start: string;
+  end: string;
+  participants: number;
+  // Null for weeks the user wasn't ranked in
+  rank: number | null;
+  score: number | null;
+  event_count: number | null;
+  percentile: number | null;
+}
+
 export interface ApiError {
   message: string;
   statusCode: number;
@@ -84,9 +406,10 @@ export interface ApiError {
 export interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResponse>;
   register: (userData: CreateUserDto) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  updateProfile: (data: UpdateProfileDto) => Promise<void>;
   isLoading: boolean;
   error: string | null;
 }
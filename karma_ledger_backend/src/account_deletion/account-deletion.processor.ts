@@ -0,0 +1,14 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { QueueNames } from 'src/config/queues';
+import { AccountDeletionService } from './account_deletion.service';
+
+@Processor(QueueNames.ACCOUNT_DELETION)
+export class AccountDeletionProcessor extends WorkerHost {
+  constructor(private readonly accountDeletionService: AccountDeletionService) {
+    super();
+  }
+
+  async process() {
+    await this.accountDeletionService.purgeDueAccounts();
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  HttpException,
+  HttpStatus,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/auth/jwt.guard';
+import { AuthenticatedRequest } from 'src/util/types';
+import { handleError } from 'src/util/error';
+import { AccountDeletionService } from './account_deletion.service';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT')
+@Controller('users/me')
+export class AccountDeletionController {
+  constructor(
+    private readonly accountDeletionService: AccountDeletionService,
+  ) {}
+
+  @Delete()
+  async deleteAccount(
+    @Body() dto: DeleteAccountDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      const scheduledAt = await this.accountDeletionService.scheduleDeletion(
+        req.user?.user_id ?? '',
+        dto.password,
+      );
+      return {
+        message:
+          'Account scheduled for deletion. Log in again before then to cancel.',
+        deletion_scheduled_at: scheduledAt,
+      };
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+}
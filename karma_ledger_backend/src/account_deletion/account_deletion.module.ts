@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { BullModule } from '@nestjs/bullmq';
+import { QueueJobOptions, QueueNames } from 'src/config/queues';
+import { AuthModule } from 'src/auth/auth.module';
+import { User } from 'src/users/models/users.model';
+import { DataExport } from 'src/data_export/models/data_export.model';
+import { AccountDeletionService } from './account_deletion.service';
+import { AccountDeletionProcessor } from './account-deletion.processor';
+import { AccountDeletionController } from './account_deletion.controller';
+
+@Module({
+  imports: [
+    AuthModule,
+    SequelizeModule.forFeature([User, DataExport]),
+    BullModule.registerQueue(
+      {
+        name: QueueNames.ACCOUNT_DELETION,
+        defaultJobOptions: QueueJobOptions[QueueNames.ACCOUNT_DELETION],
+      },
+      { name: QueueNames.KARMA_FEEDBACK },
+      { name: QueueNames.KARMA_SUGGESTION },
+      { name: QueueNames.DATA_EXPORT },
+      { name: QueueNames.DEAD_LETTER },
+    ),
+  ],
+  controllers: [AccountDeletionController],
+  providers: [AccountDeletionService, AccountDeletionProcessor],
+})
+export class AccountDeletionModule {}
@@ -0,0 +1,194 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { getQueueToken } from '@nestjs/bullmq';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Op } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { QueueNames } from 'src/config/queues';
+import { DomainEvents } from 'src/config/events';
+import { User } from 'src/users/models/users.model';
+import { UserBadge } from 'src/users/models/user_badges.model';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { KarmaImport } from 'src/karma_event/models/karma_import.model';
+import { Tag } from 'src/karma_event/models/tag.model';
+import { KarmaEventTag } from 'src/karma_event/models/karma_event_tag.model';
+import { IntensityOverride } from 'src/karma_event/models/intensity_override.model';
+import { Suggestion } from 'src/dashboard/models/suggestion.model';
+import { UserActiveWeek } from 'src/dashboard/models/user_active_week.model';
+import { UserStreak } from 'src/dashboard/models/user_streak.model';
+import { RefreshToken } from 'src/auth/models/refresh_token.model';
+import { UserToken } from 'src/auth/models/user_token.model';
+import { RefreshTokenService } from 'src/auth/refresh-token.service';
+import { DataExport } from 'src/data_export/models/data_export.model';
+import { GroupMembership } from 'src/groups/models/group_membership.model';
+import { ChallengeParticipant } from 'src/challenges/models/challenge_participant.model';
+import { AccountDeletionService } from './account_deletion.service';
+
+/** Tables holding rows keyed by user_id that the purge has to empty */
+const USER_OWNED_MODELS = [
+  Tag,
+  IntensityOverride,
+  KarmaEvent,
+  KarmaImport,
+  Suggestion,
+  UserBadge,
+  UserActiveWeek,
+  UserStreak,
+  RefreshToken,
+  UserToken,
+  DataExport,
+  GroupMembership,
+  ChallengeParticipant,
+];
+
+const QUEUES = [
+  QueueNames.ACCOUNT_DELETION,
+  QueueNames.KARMA_FEEDBACK,
+  QueueNames.KARMA_SUGGESTION,
+  QueueNames.DATA_EXPORT,
+  QueueNames.DEAD_LETTER,
+];
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+  const transaction = { id: 'transaction' };
+  const sequelize = {
+    transaction: jest.fn((work: (t: unknown) => unknown) => work(transaction)),
+  };
+  const userRepo = { findAll: jest.fn(), destroy: jest.fn() };
+  const exportRepo = { findAll: jest.fn() };
+  const eventEmitter = { emit: jest.fn() };
+  const queues = Object.fromEntries(
+    QUEUES.map((name) => [name, { getJobs: jest.fn() }]),
+  );
+  let destroySpies: jest.SpyInstance[];
+  let tagLinkDestroySpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    exportRepo.findAll.mockResolvedValue([]);
+    for (const queue of Object.values(queues)) {
+      queue.getJobs.mockResolvedValue([]);
+    }
+    jest
+      .spyOn(Tag, 'findAll')
+      .mockResolvedValue([{ id: 'tag-1' }, { id: 'tag-2' }] as Tag[]);
+    destroySpies = USER_OWNED_MODELS.map((model) =>
+      jest.spyOn(model as typeof KarmaEvent, 'destroy').mockResolvedValue(0),
+    );
+    tagLinkDestroySpy = jest
+      .spyOn(KarmaEventTag, 'destroy')
+      .mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountDeletionService,
+        { provide: Sequelize, useValue: sequelize },
+        { provide: getModelToken(User), useValue: userRepo },
+        { provide: getModelToken(DataExport), useValue: exportRepo },
+        ...QUEUES.map((name) => ({
+          provide: getQueueToken(name),
+          useValue: queues[name],
+        })),
+        { provide: RefreshTokenService, useValue: {} },
+        { provide: EventEmitter2, useValue: eventEmitter },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+    service = module.get(AccountDeletionService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('purgeUser', () => {
+    it('deletes every row owned by the user, then the user, in one transaction', async () => {
+      await service.purgeUser('user-1');
+
+      for (const spy of destroySpies) {
+        expect(spy).toHaveBeenCalledWith({
+          where: { user_id: 'user-1' },
+          transaction,
+        });
+      }
+      expect(userRepo.destroy).toHaveBeenCalledWith({
+        where: { user_id: 'user-1' },
+        transaction,
+      });
+      expect(sequelize.transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it("removes the links between the user's events and tags", async () => {
+      await service.purgeUser('user-1');
+
+      expect(tagLinkDestroySpy).toHaveBeenCalledWith({
+        where: { tag_id: { [Op.in]: ['tag-1', 'tag-2'] } },
+        transaction,
+      });
+    });
+
+    it('deletes the user last, after the rows referencing them', async () => {
+      userRepo.destroy.mockImplementation(() => {
+        for (const spy of [...destroySpies, tagLinkDestroySpy]) {
+          expect(spy).toHaveBeenCalled();
+        }
+      });
+
+      await service.purgeUser('user-1');
+
+      expect(userRepo.destroy).toHaveBeenCalled();
+    });
+
+    it("drops the user's pending jobs but leaves other users' alone", async () => {
+      const own = { data: { userId: 'user-1' }, remove: jest.fn() };
+      const other = { data: { userId: 'user-2' }, remove: jest.fn() };
+      queues[QueueNames.KARMA_FEEDBACK].getJobs.mockResolvedValue([own, other]);
+
+      await service.purgeUser('user-1');
+
+      expect(own.remove).toHaveBeenCalled();
+      expect(other.remove).not.toHaveBeenCalled();
+    });
+
+    it('announces the deletion once the data is gone', async () => {
+      await service.purgeUser('user-1');
+
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        DomainEvents.USER_DELETED,
+        { userId: 'user-1' },
+      );
+    });
+
+    it('emits nothing when the purge fails', async () => {
+      userRepo.destroy.mockRejectedValue(new Error('database is locked'));
+
+      await expect(service.purgeUser('user-1')).rejects.toThrow(
+        'database is locked',
+      );
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeDueAccounts', () => {
+    it('keeps purging the remaining accounts when one fails', async () => {
+      userRepo.findAll.mockResolvedValue([
+        { user_id: 'user-1' },
+        { user_id: 'user-2' },
+      ]);
+      userRepo.destroy
+        .mockRejectedValueOnce(new Error('database is locked'))
+        .mockResolvedValueOnce(1);
+
+      await service.purgeDueAccounts();
+
+      expect(userRepo.destroy).toHaveBeenCalledTimes(2);
+      expect(eventEmitter.emit).toHaveBeenCalledTimes(1);
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        DomainEvents.USER_DELETED,
+        { userId: 'user-2' },
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { InjectQueue } from '@nestjs/bullmq';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Job, Queue } from 'bullmq';
+import { Op } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { unlink } from 'fs/promises';
+import { QueueNames } from 'src/config/queues';
+import { DomainEvents } from 'src/config/events';
+import { verifyPassword } from 'src/util/password';
+import { handleError } from 'src/util/error';
+import { User } from 'src/users/models/users.model';
+import { UserBadge } from 'src/users/models/user_badges.model';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { KarmaImport } from 'src/karma_event/models/karma_import.model';
+import { Tag } from 'src/karma_event/models/tag.model';
+import { KarmaEventTag } from 'src/karma_event/models/karma_event_tag.model';
+import { IntensityOverride } from 'src/karma_event/models/intensity_override.model';
+import { Suggestion } from 'src/dashboard/models/suggestion.model';
+import { UserActiveWeek } from 'src/dashboard/models/user_active_week.model';
+import { UserStreak } from 'src/dashboard/models/user_streak.model';
+import { RefreshToken } from 'src/auth/models/refresh_token.model';
+import { UserToken } from 'src/auth/models/user_token.model';
+import { RefreshTokenService } from 'src/auth/refresh-token.service';
+import { DataExport } from 'src/data_export/models/data_export.model';
+import { GroupMembership } from 'src/groups/models/group_membership.model';
+import { ChallengeParticipant } from 'src/challenges/models/challenge_participant.model';
+
+const DEFAULT_GRACE_DAYS = 14;
+const PURGE_INTERVAL_MS = 3600000;
+const PURGE_SCHEDULER_ID = 'purge-deleted-accounts';
+
+/**
+ * Job states that aren't running and can be removed: pending jobs, and
+ * failed ones kept for inspection
+ */
+const REMOVABLE_JOB_STATES = [
+  'waiting',
+  'delayed',
+  'prioritized',
+  'paused',
+  'failed',
+] as const;
+
+/** Every queue touching user data carries the owner in `data.userId` */
+type UserJob = Job<{ userId?: string }>;
+
+/**
+ * Deletes accounts after a grace period. Logging in during the grace
+ * period cancels the deletion (see AuthService.validateUser).
+ */
+@Injectable()
+export class AccountDeletionService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AccountDeletionService.name);
+
+  constructor(
+    private readonly sequelize: Sequelize,
+    @InjectModel(User) private readonly userRepo: typeof User,
+    @InjectModel(DataExport) private readonly exportRepo: typeof DataExport,
+    @InjectQueue(QueueNames.ACCOUNT_DELETION)
+    private readonly deletionQueue: Queue,
+    @InjectQueue(QueueNames.KARMA_FEEDBACK)
+    private readonly feedbackQueue: Queue,
+    @InjectQueue(QueueNames.KARMA_SUGGESTION)
+    private readonly suggestionQueue: Queue,
+    @InjectQueue(QueueNames.DATA_EXPORT) private readonly exportQueue: Queue,
+    @InjectQueue(QueueNames.DEAD_LETTER)
+    private readonly deadLetterQueue: Queue,
+    private readonly refreshTokenService: RefreshTokenService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /** Registers the hourly purge of accounts whose grace period is over */
+  async onApplicationBootstrap() {
+    await this.deletionQueue.upsertJobScheduler(
+      PURGE_SCHEDULER_ID,
+      { every: PURGE_INTERVAL_MS },
+      { name: 'purge_due_accounts' },
+    );
+  }
+
+  /** Schedules the deletion and signs the user out everywhere */
+  async scheduleDeletion(userId: string, password: string): Promise<Date> {
+    const user = await this.userRepo.findByPk(userId);
+    if (!user) throw new Error(`User with ID ${userId} not found`);
+    if (!(await verifyPassword(password, user.password))) {
+      throw new Error('Incorrect password');
+    }
+
+    const graceDays =
+      Number(this.configService.get<string>('ACCOUNT_DELETION_GRACE_DAYS')) ||
+      DEFAULT_GRACE_DAYS;
+    const scheduledAt = new Date(Date.now() + graceDays * 86400000);
+    await user.update({ deletion_scheduled_at: scheduledAt });
+    await this.refreshTokenService.revokeAllForUser(userId);
+
+    this.logger.log(
+      `User ${userId} scheduled for deletion at ${scheduledAt.toISOString()}`,
+    );
+    return scheduledAt;
+  }
+
+  /** Erases every account whose grace period has run out */
+  async purgeDueAccounts(): Promise<void> {
+    const due = await this.userRepo.findAll({
+      attributes: ['user_id'],
+      where: { deletion_scheduled_at: { [Op.lte]: new Date() } },
+    });
+
+    for (const { user_id } of due) {
+      try {
+        await this.purgeUser(user_id);
+      } catch (error) {
+        this.logger.error(
+          `Failed to delete user ${user_id}: ${handleError(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Removes the user and everything that references them. Foreign keys
+   * cascade on Postgres, but SQLite doesn't enforce them, so rows are
+   * deleted explicitly.
+   */
+  async purgeUser(userId: string): Promise<void> {
+    await this.removeQueuedJobs(userId);
+
+    const exports = await this.exportRepo.findAll({
+      where: { user_id: userId },
+    });
+    for (const { file_path } of exports) {
+      if (file_path) await unlink(file_path).catch(() => undefined);
+    }
+
+    await this.sequelize.transaction(async (transaction) => {
+      const where = { user_id: userId };
+      const tags = await Tag.findAll({
+        where,
+        attributes: ['id'],
+        transaction,
+      });
+      await KarmaEventTag.destroy({
+        where: { tag_id: { [Op.in]: tags.map((tag) => tag.id) } },
+        transaction,
+      });
+      for (const model of [
+        Tag,
+        IntensityOverride,
+        KarmaEvent,
+        KarmaImport,
+        Suggestion,
+        UserBadge,
+        UserActiveWeek,
+        UserStreak,
+        RefreshToken,
+        UserToken,
+        DataExport,
+        GroupMembership,
+        ChallengeParticipant,
+      ]) {
+        await (model as typeof KarmaEvent).destroy({ where, transaction });
+      }
+      await this.userRepo.destroy({ where, transaction });
+    });
+
+    this.logger.log(`Deleted user ${userId} and all of their data`);
+    // Lets history that outlives the account (e.g. leaderboard snapshots)
+    // anonymise the user, and groups they owned find a new owner
+    this.eventEmitter.emit(DomainEvents.USER_DELETED, { userId });
+  }
+
+  /** Drops jobs that would otherwise run against, or still hold data of, the deleted user */
+  private async removeQueuedJobs(userId: string): Promise<void> {
+    for (const queue of [
+      this.feedbackQueue,
+      this.suggestionQueue,
+      this.exportQueue,
+      this.deadLetterQueue,
+    ]) {
+      const jobs = (await queue.getJobs([
+        ...REMOVABLE_JOB_STATES,
+      ])) as UserJob[];
+      for (const job of jobs) {
+        if (job.data.userId === userId) {
+          await job.remove();
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DeleteAccountDto {
+  @ApiProperty({ description: 'Current password, to confirm the deletion' })
+  @IsString()
+  password: string;
+}
@@ -0,0 +1,195 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/auth/jwt.guard';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/config/roles';
+import { AuthenticatedRequest } from 'src/util/types';
+import { handleError } from 'src/util/error';
+import { toAdminProfile } from 'src/users/user.serializer';
+import { KarmaEventService } from 'src/karma_event/karma_event.service';
+import { ListKarmaEventsQueryDto } from 'src/karma_event/dto/list-events.dto';
+import { ListIntensityOverridesQueryDto } from 'src/karma_event/dto/intensity-override.dto';
+import { IntensityOverrideService } from 'src/karma_event/intensity-override.service';
+import { DashboardService } from 'src/dashboard/dashboard.service';
+import { SuggestionSchedulerService } from 'src/dashboard/suggestion-scheduler.service';
+import { BadgeService } from 'src/dashboard/badge.service';
+import { DeadLetterService } from 'src/dead_letter/dead_letter.service';
+import { AdminService } from './admin.service';
+import { ListUsersQueryDto } from './dto/list-users.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { CreateBadgeDto, UpdateBadgeDto } from './dto/badge.dto';
+
+/** Moderators can inspect and re-run jobs; only admins change accounts or badges */
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.MODERATOR)
+@ApiBearerAuth('JWT')
+@Controller('admin')
+export class AdminController {
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly karmaEventService: KarmaEventService,
+    private readonly intensityOverrideService: IntensityOverrideService,
+    private readonly dashboardService: DashboardService,
+    private readonly suggestionSchedulerService: SuggestionSchedulerService,
+    private readonly badgeService: BadgeService,
+    private readonly deadLetterService: DeadLetterService,
+  ) {}
+
+  @Get('users')
+  async listUsers(@Query() query: ListUsersQueryDto) {
+    const { users, total } = await this.adminService.listUsers(query);
+    return { items: users.map(toAdminProfile), total };
+  }
+
+  @Patch('users/:id/suspend')
+  @Roles(UserRole.ADMIN)
+  async suspendUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return toAdminProfile(
+        await this.adminService.suspendUser(id, req.user?.user_id ?? ''),
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Patch('users/:id/unsuspend')
+  @Roles(UserRole.ADMIN)
+  async unsuspendUser(@Param('id', ParseUUIDPipe) id: string) {
+    try {
+      return toAdminProfile(await this.adminService.unsuspendUser(id));
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
+  @Patch('users/:id/role')
+  @Roles(UserRole.ADMIN)
+  async setRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateRoleDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return toAdminProfile(
+        await this.adminService.setRole(id, dto.role, req.user?.user_id ?? ''),
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Get('users/:id/events')
+  async getUserEvents(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ListKarmaEventsQueryDto,
+  ) {
+    try {
+      return await this.karmaEventService.findUserEvents(id, query);
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Post('users/:id/suggestions')
+  async triggerSuggestions(@Param('id', ParseUUIDPipe) id: string) {
+    try {
+      const job = await this.dashboardService.triggerSuggestionProcessing(id, {
+        force: true,
+      });
+      return { jobId: job.id };
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
+  /** Statistics of the weekly suggestion scheduler's recent runs */
+  @Get('suggestion-runs')
+  async listSuggestionRuns() {
+    return this.suggestionSchedulerService.listRuns();
+  }
+
+  /** Runs the weekly suggestion scheduler now instead of at the next hour */
+  @Post('suggestion-runs')
+  async runSuggestionScheduler() {
+    return this.suggestionSchedulerService.scheduleWeeklySuggestions();
+  }
+
+  @Post('karma-events/:id/rescore')
+  async rescoreEvent(@Param('id', ParseUUIDPipe) id: string) {
+    try {
+      return await this.karmaEventService.rescoreEvent(id);
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
+  /** Queues every event whose AI analysis failed, e.g. after an outage */
+  @Post('karma-events/retry-failed')
+  async retryFailedFeedback() {
+    return { queued: await this.karmaEventService.retryAllFailedFeedback() };
+  }
+
+  /** AI jobs that ran out of retries or failed permanently, newest first */
+  @Get('dead-letters')
+  async listDeadLetters() {
+    return this.deadLetterService.list();
+  }
+
+  /** Users' intensity overrides, newest first, to review disputed scores */
+  @Get('intensity-overrides')
+  async listIntensityOverrides(@Query() query: ListIntensityOverridesQueryDto) {
+    return this.intensityOverrideService.listOverrides(query);
+  }
+
+  /** Users who override most often, and how far they push their scores */
+  @Get('intensity-overrides/summary')
+  async summarizeIntensityOverrides() {
+    return this.intensityOverrideService.summarizeByUser();
+  }
+
+  @Get('badges')
+  async listBadges() {
+    return this.badgeService.listBadges();
+  }
+
+  @Post('badges')
+  @Roles(UserRole.ADMIN)
+  async createBadge(@Body() dto: CreateBadgeDto) {
+    try {
+      return await this.badgeService.createBadge(dto);
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Patch('badges/:id')
+  @Roles(UserRole.ADMIN)
+  async updateBadge(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateBadgeDto,
+  ) {
+    try {
+      return await this.badgeService.updateBadge(id, dto);
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+}
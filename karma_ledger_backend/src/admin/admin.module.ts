@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { User } from 'src/users/models/users.model';
+import { AuthModule } from 'src/auth/auth.module';
+import { KarmaEventModule } from 'src/karma_event/karma_event.module';
+import { DashboardModule } from 'src/dashboard/dashboard.module';
+import { DeadLetterModule } from 'src/dead_letter/dead_letter.module';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+
+@Module({
+  imports: [
+    AuthModule,
+    KarmaEventModule,
+    DashboardModule,
+    DeadLetterModule,
+    SequelizeModule.forFeature([User]),
+  ],
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
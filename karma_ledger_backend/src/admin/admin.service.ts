@@ -0,0 +1,130 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Op, WhereOptions, col, fn, where } from 'sequelize';
+import { User } from 'src/users/models/users.model';
+import { UserRole } from 'src/config/roles';
+import { DomainEvents } from 'src/config/events';
+import { RefreshTokenService } from 'src/auth/refresh-token.service';
+import { ListUsersQueryDto } from './dto/list-users.dto';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+@Injectable()
+export class AdminService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    @InjectModel(User) private readonly userModel: typeof User,
+    private readonly refreshTokenService: RefreshTokenService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /** Promotes the accounts listed in ADMIN_EMAILS so a fresh install has an admin */
+  async onApplicationBootstrap() {
+    const emails = (this.configService.get<string>('ADMIN_EMAILS') ?? '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean);
+    if (emails.length === 0) return;
+
+    const [promoted] = await this.userModel.update(
+      { role: UserRole.ADMIN },
+      {
+        // Emails are stored as typed, so compare case-insensitively
+        where: {
+          [Op.and]: [
+            where(fn('lower', col('email')), { [Op.in]: emails }),
+            { role: { [Op.ne]: UserRole.ADMIN } },
+          ],
+        },
+      },
+    );
+    if (promoted > 0) {
+      this.logger.log(`Promoted ${promoted} user(s) from ADMIN_EMAILS`);
+    }
+  }
+
+  async listUsers(
+    query: ListUsersQueryDto,
+  ): Promise<{ users: User[]; total: number }> {
+    const filters: WhereOptions[] = [];
+    if (query.search) {
+      const term = `%${query.search.trim()}%`;
+      filters.push({
+        [Op.or]: [
+          { email: { [Op.like]: term } },
+          { username: { [Op.like]: term } },
+          { display_name: { [Op.like]: term } },
+        ],
+      });
+    }
+    if (query.role) {
+      filters.push({ role: query.role });
+    }
+    if (query.suspended !== undefined) {
+      filters.push({
+        suspended_at: query.suspended ? { [Op.ne]: null } : { [Op.is]: null },
+      });
+    }
+
+    const { rows, count } = await this.userModel.findAndCountAll({
+      where: { [Op.and]: filters },
+      attributes: { exclude: ['password'] },
+      order: [['createdAt', 'DESC']],
+      limit: query.limit ?? DEFAULT_PAGE_SIZE,
+      offset: query.offset ?? 0,
+    });
+    return { users: rows, total: count };
+  }
+
+  /**
+   * Blocks sign-in and ends every session. Access tokens already handed out
+   * are rejected from the next request on, and open notification streams
+   * are closed.
+   */
+  async suspendUser(userId: string, actorId: string): Promise<User> {
+    if (userId === actorId) {
+      throw new Error('You cannot suspend your own account');
+    }
+    const user = await this.findUser(userId);
+    if (!user.suspended_at) {
+      await user.update({ suspended_at: new Date() });
+    }
+    await this.refreshTokenService.revokeAllForUser(userId);
+    this.eventEmitter.emit(DomainEvents.USER_SUSPENDED, { userId });
+    this.logger.log(`User ${userId} suspended by ${actorId}`);
+    return user;
+  }
+
+  async unsuspendUser(userId: string): Promise<User> {
+    const user = await this.findUser(userId);
+    await user.update({ suspended_at: null });
+    return user;
+  }
+
+  /** Takes effect once the user's current access token is refreshed */
+  async setRole(
+    userId: string,
+    role: UserRole,
+    actorId: string,
+  ): Promise<User> {
+    if (userId === actorId) {
+      throw new Error('You cannot change your own role');
+    }
+    const user = await this.findUser(userId);
+    await user.update({ role });
+    this.logger.log(`User ${userId} set to role ${role} by ${actorId}`);
+    return user;
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userModel.findByPk(userId);
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  PartialType,
+  OmitType,
+} from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { BadgeRule } from 'src/dashboard/badge-rule.types';
+
+export class CreateBadgeDto {
+  @ApiProperty({ example: 'kindness_10' })
+  @IsString()
+  @Matches(/^[a-z0-9_]+$/, {
+    message: 'code may only contain lowercase letters, digits and underscores',
+  })
+  @MaxLength(50)
+  code: string;
+
+  @ApiProperty({ example: 'Kindness Regular' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'Logged 10 karma events' })
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @ApiProperty({ example: '🌱' })
+  @IsString()
+  @IsNotEmpty()
+  icon: string;
+
+  @ApiPropertyOptional({ default: false })
+  @IsBoolean()
+  @IsOptional()
+  is_active?: boolean;
+
+  @ApiProperty({
+    description: 'Award criteria, see BadgeRule; null for manual-only badges',
+    example: { type: 'event_count', min: 10 },
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsObject()
+  rule: BadgeRule | null;
+}
+
+export class UpdateBadgeDto extends PartialType(
+  OmitType(CreateBadgeDto, ['code'] as const),
+) {}
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { UserRole } from 'src/config/roles';
+
+export class UpdateRoleDto {
+  @ApiProperty({ enum: UserRole, example: UserRole.MODERATOR })
+  @IsEnum(UserRole)
+  role: UserRole;
+}
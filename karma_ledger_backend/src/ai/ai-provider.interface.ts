@@ -0,0 +1,42 @@
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { KarmaCategory } from 'src/config/categories';
+
+/** Injection token for the configured AiProvider implementation */
+export const AI_PROVIDER = 'AI_PROVIDER';
+
+export type AiProviderName = 'gemini' | 'openai' | 'stub';
+
+export interface KarmaActionJobData {
+  userId: string;
+  karmaEventId: string;
+  action: string;
+  /** Ask for a category, because the user didn't pick one */
+  suggestCategory?: boolean;
+  /** Ask for tags, because the user didn't add any */
+  suggestTags?: boolean;
+}
+
+export interface AiInsight {
+  intensity: number;
+  feedback: string;
+  event_id: string;
+  userId?: string;
+  feedback_generated: boolean;
+  /** Only set when requested with suggestCategory */
+  category?: KarmaCategory;
+  /** Only set when requested with suggestTags */
+  tags?: string[];
+}
+
+/**
+ * Contract every AI backend has to fulfil. Processors depend on this
+ * interface only, the concrete implementation is picked by `AI_PROVIDER`.
+ */
+export interface AiProvider {
+  processKarmaAction(data: KarmaActionJobData): Promise<AiInsight>;
+
+  generateWeeklySuggestions(
+    userId: string,
+    events: KarmaEvent[],
+  ): Promise<string[]>;
+}
@@ -0,0 +1,81 @@
+import { UnrecoverableError } from 'bullmq';
+import {
+  AiFailureKind,
+  AiProviderError,
+  classifyAiError,
+  toAiJobError,
+} from './ai.errors';
+
+const httpError = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('AI error classification', () => {
+  describe('classifyAiError', () => {
+    it.each([408, 409, 425, 429, 500, 503])(
+      'retries HTTP %i responses',
+      (status) => {
+        expect(classifyAiError(httpError(status))).toBe(
+          AiFailureKind.RETRYABLE,
+        );
+      },
+    );
+
+    it.each([400, 401, 403, 404, 422])(
+      'gives up on HTTP %i responses',
+      (status) => {
+        expect(classifyAiError(httpError(status))).toBe(
+          AiFailureKind.PERMANENT,
+        );
+      },
+    );
+
+    it('trusts the kind an AiProviderError carries', () => {
+      expect(
+        classifyAiError(
+          new AiProviderError('Blocked: SAFETY', AiFailureKind.PERMANENT),
+        ),
+      ).toBe(AiFailureKind.PERMANENT);
+    });
+
+    it('assumes errors without a status are transient', () => {
+      expect(classifyAiError(new Error('socket hang up'))).toBe(
+        AiFailureKind.RETRYABLE,
+      );
+      expect(classifyAiError('timeout')).toBe(AiFailureKind.RETRYABLE);
+      expect(classifyAiError(null)).toBe(AiFailureKind.RETRYABLE);
+    });
+  });
+
+  describe('toAiJobError', () => {
+    it('passes retryable errors through so BullMQ retries the job', () => {
+      const error = httpError(429);
+
+      expect(toAiJobError(error, 1, 3)).toBe(error);
+    });
+
+    it('wraps thrown non-errors so the job still fails with a message', () => {
+      const jobError = toAiJobError('rate limited', 1, 3);
+
+      expect(jobError).toBeInstanceOf(Error);
+      expect(jobError).not.toBeInstanceOf(UnrecoverableError);
+    });
+
+    it('makes permanent failures unrecoverable on the first attempt', () => {
+      const jobError = toAiJobError(httpError(400), 1, 3);
+
+      expect(jobError).toBeInstanceOf(UnrecoverableError);
+      expect(jobError.message).toBe('HTTP 400');
+    });
+
+    it('retries invalid responses until maxInvalidAttempts', () => {
+      const invalid = new AiProviderError(
+        'Response was not valid JSON',
+        AiFailureKind.INVALID_RESPONSE,
+      );
+
+      expect(toAiJobError(invalid, 1, 3)).toBe(invalid);
+      expect(toAiJobError(invalid, 2, 3)).toBe(invalid);
+      expect(toAiJobError(invalid, 3, 3)).toBeInstanceOf(UnrecoverableError);
+    });
+  });
+});
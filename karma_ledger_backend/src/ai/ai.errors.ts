@@ -0,0 +1,63 @@
+import { UnrecoverableError } from 'bullmq';
+import { handleError } from 'src/util/error';
+
+export const DEFAULT_AI_REQUEST_TIMEOUT_MS = 30000;
+
+/** Whether retrying an AI call can succeed */
+export enum AiFailureKind {
+  /** Rate limits, timeouts, network and server errors */
+  RETRYABLE = 'retryable',
+  /** Unparseable output; another sample may be fine, so it gets a few tries */
+  INVALID_RESPONSE = 'invalid_response',
+  /** Safety blocks and rejected requests, which fail the same way every time */
+  PERMANENT = 'permanent',
+}
+
+export class AiProviderError extends Error {
+  constructor(
+    message: string,
+    readonly kind: AiFailureKind,
+  ) {
+    super(message);
+    this.name = 'AiProviderError';
+  }
+}
+
+/** HTTP statuses worth retrying; any other 4xx is the request's fault */
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+
+export const failureKindForStatus = (status: number): AiFailureKind =>
+  status >= 500 || RETRYABLE_STATUSES.has(status)
+    ? AiFailureKind.RETRYABLE
+    : AiFailureKind.PERMANENT;
+
+/**
+ * Classifies anything a provider throws. Errors that carry no hint (e.g. a
+ * dropped connection) are assumed to be transient.
+ */
+export const classifyAiError = (error: unknown): AiFailureKind => {
+  if (error instanceof AiProviderError) return error.kind;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return failureKindForStatus(status);
+  return AiFailureKind.RETRYABLE;
+};
+
+/**
+ * The error an AI job should fail with: permanent failures, and invalid
+ * responses from attempt `maxInvalidAttempts` on, become BullMQ's
+ * UnrecoverableError so the job isn't retried.
+ */
+export const toAiJobError = (
+  error: unknown,
+  attempt: number,
+  maxInvalidAttempts: number,
+): Error => {
+  const kind = classifyAiError(error);
+  if (
+    kind === AiFailureKind.PERMANENT ||
+    (kind === AiFailureKind.INVALID_RESPONSE && attempt >= maxInvalidAttempts)
+  ) {
+    return new UnrecoverableError(handleError(error));
+  }
+  return error instanceof Error ? error : new Error(handleError(error));
+};
@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  AI_PROVIDER,
+  AiProvider,
+  AiProviderName,
+} from './ai-provider.interface';
+import { GeminiAiProvider } from './providers/gemini.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { StubAiProvider } from './providers/stub.provider';
+
+export const createAiProvider = (configService: ConfigService): AiProvider => {
+  const name = configService.get<AiProviderName>('AI_PROVIDER', 'gemini');
+
+  switch (name) {
+    case 'gemini':
+      return new GeminiAiProvider(configService);
+    case 'openai':
+      return new OpenAiCompatibleProvider(configService);
+    case 'stub':
+      return new StubAiProvider();
+    default:
+      throw new Error(
+        `Unknown AI_PROVIDER "${String(name)}" (expected gemini, openai or stub)`,
+      );
+  }
+};
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: AI_PROVIDER,
+      inject: [ConfigService],
+      useFactory: createAiProvider,
+    },
+  ],
+  exports: [AI_PROVIDER],
+})
+export class AiModule {}
@@ -0,0 +1,186 @@
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { KarmaActionJobData } from './ai-provider.interface';
+import { KARMA_CATEGORIES, KarmaCategory } from 'src/config/categories';
+import { MAX_INTENSITY, MIN_INTENSITY } from 'src/config/intensity';
+import { AiFailureKind, AiProviderError } from './ai.errors';
+
+/** Returned when a user has no recent actions to base suggestions on */
+export const GENERIC_SUGGESTIONS = [
+  'Initiate a new community support activity.',
+  'Mentor a peer who needs help.',
+  'Reflect on one habit you can improve next week.',
+];
+
+/** Returned when the AI backend fails to produce usable suggestions */
+export const FALLBACK_SUGGESTIONS = [
+  'Volunteer for a cause you care about',
+  'Help a friend with a task',
+  'Give positive feedback to someone',
+];
+
+export const MAX_AI_TAGS = 3;
+
+export const buildKarmaPrompt = (data: KarmaActionJobData): string => {
+  const classification = [
+    data.suggestCategory &&
+      `"category": one of ${KARMA_CATEGORIES.map((c) => `"${c}"`).join(', ')}, the area of life the action belongs to.`,
+    data.suggestTags &&
+      `"tags": up to ${MAX_AI_TAGS} short, lowercase keywords (one or two words each) describing the action, e.g. "volunteering", "neighbours".`,
+  ].filter(Boolean);
+  const classificationFields = [
+    data.suggestCategory && '"category": "[one of the categories above]"',
+    data.suggestTags && '"tags": ["[keyword]", ...]',
+  ].filter(Boolean);
+
+  return `
+      You are an AI assistant for a "Karma Ledger" application. Your goal is to analyze a user's action and provide two pieces of information:
+      1. An "intensityScore" on a numerical scale from -1 to +10.
+         - +10: An extremely positive karma action (e.g., saving a life, major philanthropic act).
+         - +7: A very positive action (e.g., organizing a charity event, helping a stranger in need).
+         - +5: A moderately positive action (e.g., helping a friend, volunteering, resolving a conflict peacefully).
+         - +2: A slightly positive action (e.g., complimenting someone, recycling, small acts of kindness).
+         - 0: A neutral action (e.g., eating lunch, routine work, daily chores).
+         - -1: A negative action (e.g., being rude, breaking a promise, minor dishonesty).
+      2. A concise, encouraging, and personalized "feedbackMessage" to the user, reflecting on the action's impact and its intensity.
+         - Keep the feedback positive, even for negative karma, focusing on learning or future improvement.
+${
+  classification.length > 0
+    ? `      Also classify the action:\n${classification.map((line) => `      - ${line}`).join('\n')}\n`
+    : ''
+}
+      Consider the following user action: "${data.action}"
+
+      Your output MUST be a valid JSON object with the following structure:
+      {
+        "intensityScore": [integer between -1 and 10],
+        "feedbackMessage": "[string, a concise and personalized feedback message]"${classificationFields.map((field) => `,\n        ${field}`).join('')}
+      }
+      Do NOT include any other text or formatting outside the JSON object.
+      `;
+};
+
+export const buildWeeklySuggestionsPrompt = (events: KarmaEvent[]): string => {
+  const formattedActions = events
+    .map(
+      (event, idx) =>
+        `(${idx + 1}) ${event.action} [intensity: ${event.intensity}]`,
+    )
+    .join('\n');
+
+  return `
+Act as a Karma Growth Coach for a Karma Ledger app user. Analyze these recent karma actions:
+${formattedActions}
+
+Generate 3 personalized suggestions for the coming week that will:
+1. Challenge them beyond their current comfort zone
+2. Align with but expand upon their demonstrated values/interests
+3. Create meaningful social or personal impact
+
+Requirements for each suggestion:
+- Begin with an action verb
+- Be specific and measurable
+- Target different life domains (social, professional, personal growth)
+- Include an implicit challenge to level up
+- Avoid repeating previous action types
+- Use an encouraging but direct tone
+
+Response format: ONLY a JSON array of 3 strings, like:
+[
+  "Initiate a conversation with 3 strangers at your weekly meetup",
+  "Dedicate 2 hours to volunteer work outside your usual causes",
+  "Replace 30 minutes of social media with skill-building daily"
+]
+
+Focus on creating suggestions that feel both authentic to their journey and slightly uncomfortable to attempt.
+`;
+};
+
+/** Strips markdown code fences some models wrap their JSON output in */
+const stripCodeFences = (text: string): string =>
+  text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+/**
+ * Validates the raw JSON text returned for a karma prompt and maps it to
+ * the fields stored on the KarmaEvent. A category or tags the model got
+ * wrong are dropped rather than failing the whole result.
+ */
+export const parseKarmaInsight = (
+  rawText: string,
+): {
+  intensity: number;
+  feedback: string;
+  category?: KarmaCategory;
+  tags?: string[];
+} => {
+  let parsed: {
+    intensityScore?: unknown;
+    feedbackMessage?: unknown;
+    category?: unknown;
+    tags?: unknown;
+  };
+  try {
+    parsed = JSON.parse(stripCodeFences(rawText)) as typeof parsed;
+  } catch {
+    throw new AiProviderError(
+      'AI provider did not return valid JSON. Consider refining the prompt or checking model output.',
+      AiFailureKind.INVALID_RESPONSE,
+    );
+  }
+
+  if (
+    typeof parsed.intensityScore !== 'number' ||
+    !Number.isInteger(parsed.intensityScore) ||
+    typeof parsed.feedbackMessage !== 'string'
+  ) {
+    throw new AiProviderError(
+      'AI response missing expected fields or types (intensityScore as integer, feedbackMessage as string).',
+      AiFailureKind.INVALID_RESPONSE,
+    );
+  }
+
+  const intensity = Math.round(
+    Math.max(MIN_INTENSITY, Math.min(MAX_INTENSITY, parsed.intensityScore)),
+  );
+  const rawCategory =
+    typeof parsed.category === 'string'
+      ? parsed.category.trim().toLowerCase()
+      : '';
+  const category = KARMA_CATEGORIES.find(
+    (value) => value.toString() === rawCategory,
+  );
+  const tags = Array.isArray(parsed.tags)
+    ? parsed.tags
+        .filter((tag): tag is string => typeof tag === 'string')
+        .slice(0, MAX_AI_TAGS)
+    : undefined;
+
+  return {
+    intensity,
+    feedback: parsed.feedbackMessage.trim(),
+    ...(category && { category }),
+    ...(tags?.length && { tags }),
+  };
+};
+
+/** Parses the JSON array of suggestions, keeping at most three */
+export const parseSuggestions = (rawText: string): string[] => {
+  let suggestions: unknown;
+  try {
+    suggestions = JSON.parse(stripCodeFences(rawText));
+  } catch {
+    suggestions = null;
+  }
+  if (
+    !Array.isArray(suggestions) ||
+    !suggestions.every((s) => typeof s === 'string')
+  ) {
+    throw new AiProviderError(
+      'AI did not return a valid JSON array of suggestions.',
+      AiFailureKind.INVALID_RESPONSE,
+    );
+  }
+  return suggestions.slice(0, 3);
+};
@@ -0,0 +1,220 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  GoogleGenerativeAI,
+  GenerativeModel,
+  HarmCategory,
+  HarmBlockThreshold,
+  CountTokensRequest,
+  CountTokensResponse,
+  FinishReason,
+  GoogleGenerativeAIRequestInputError,
+  GoogleGenerativeAIResponseError,
+  SingleRequestOptions,
+} from '@google/generative-ai';
+import { handleError } from 'src/util/error';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import {
+  AiInsight,
+  AiProvider,
+  KarmaActionJobData,
+} from '../ai-provider.interface';
+import {
+  buildKarmaPrompt,
+  buildWeeklySuggestionsPrompt,
+  FALLBACK_SUGGESTIONS,
+  GENERIC_SUGGESTIONS,
+  parseKarmaInsight,
+  parseSuggestions,
+} from '../ai.prompts';
+import {
+  AiFailureKind,
+  AiProviderError,
+  classifyAiError,
+  DEFAULT_AI_REQUEST_TIMEOUT_MS,
+} from '../ai.errors';
+
+export class GeminiAiProvider implements AiProvider {
+  private readonly logger = new Logger(GeminiAiProvider.name);
+  private generativeModel: GenerativeModel;
+  private readonly modelName: string;
+  private readonly requestOptions: SingleRequestOptions;
+
+  constructor(private readonly configService: ConfigService) {
+    const apiKey = this.configService.getOrThrow<string>('GOOGLE_API_KEY');
+    this.modelName = this.configService.get<string>(
+      'GEMINI_MODEL_NAME',
+      'gemini-1.5-flash',
+    );
+
+    this.requestOptions = {
+      timeout:
+        Number(this.configService.get<string>('AI_REQUEST_TIMEOUT_MS')) ||
+        DEFAULT_AI_REQUEST_TIMEOUT_MS,
+    };
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+
+    this.generativeModel = genAI.getGenerativeModel({
+      model: this.modelName,
+      safetySettings: [
+        {
+          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+          threshold: HarmBlockThreshold.BLOCK_NONE,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+          threshold: HarmBlockThreshold.BLOCK_NONE,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+          threshold: HarmBlockThreshold.BLOCK_NONE,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+          threshold: HarmBlockThreshold.BLOCK_NONE,
+        },
+      ],
+      generationConfig: {
+        temperature: 0.7,
+        topP: 0.95,
+        topK: 64,
+        maxOutputTokens: 256,
+        responseMimeType: 'application/json',
+      },
+    });
+
+    this.logger.log(
+      `Initialized Gemini model: ${this.modelName} for AI Service.`,
+    );
+  }
+
+  async processKarmaAction(data: KarmaActionJobData): Promise<AiInsight> {
+    this.logger.log(
+      `Calling Gemini for action ID: ${data.karmaEventId}, description: "${data.action.substring(0, 50)}..."`,
+    );
+
+    const prompt = buildKarmaPrompt(data);
+
+    try {
+      const { totalTokens } = await this.countPromptTokens(prompt);
+      this.logger.debug(
+        `Prompt token count for action ${data.action}: ${totalTokens}`,
+      );
+
+      // Call the Gemini API to generate content
+      const result = await this.generativeModel.generateContent(
+        prompt,
+        this.requestOptions,
+      );
+
+      const response = result.response;
+
+      // Handle potential content blocking by safety settings
+      if (
+        response.candidates &&
+        response.candidates.length > 0 &&
+        response.candidates[0].finishReason === FinishReason.SAFETY
+      ) {
+        this.logger.warn(
+          `Gemini blocked content due to safety settings for action ${data.karmaEventId}.`,
+        );
+        throw new AiProviderError(
+          'AI content blocked due to safety concerns.',
+          AiFailureKind.PERMANENT,
+        );
+      }
+
+      const jsonResponseText = response.text();
+
+      if (!jsonResponseText) {
+        throw new AiProviderError(
+          'Gemini returned an empty response or no text content.',
+          AiFailureKind.INVALID_RESPONSE,
+        );
+      }
+
+      this.logger.debug(
+        `Gemini Raw JSON Response for ${data.action}: ${jsonResponseText}`,
+      );
+
+      const { intensity, feedback, category, tags } =
+        parseKarmaInsight(jsonResponseText);
+
+      this.logger.log(
+        `AI result for action ${data.action}: Intensity ${intensity}, Feedback: "${feedback.substring(0, 80)}..."`,
+      );
+
+      return {
+        event_id: data.karmaEventId,
+        intensity,
+        feedback,
+        feedback_generated: true,
+        category,
+        tags,
+      };
+    } catch (error) {
+      this.logger.error(handleError(error));
+      throw new AiProviderError(
+        `AI processing failed for action ${data.action}: ${handleError(error)}`,
+        this.classifyError(error),
+      );
+    }
+  }
+
+  private async countPromptTokens(
+    prompt: string,
+  ): Promise<CountTokensResponse> {
+    const request: CountTokensRequest = {
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    };
+    const { totalTokens } = await this.generativeModel.countTokens(request);
+    return { totalTokens };
+  }
+
+  async generateWeeklySuggestions(
+    userId: string,
+    events: KarmaEvent[],
+  ): Promise<string[]> {
+    this.logger.log(
+      `Generating weekly suggestions for user ${userId} with events ${events.length}`,
+    );
+
+    if (!events || events.length === 0) {
+      this.logger.warn(
+        `No recent actions for user ${userId}, returning generic suggestions.`,
+      );
+      return GENERIC_SUGGESTIONS;
+    }
+
+    try {
+      const result = await this.generativeModel.generateContent(
+        buildWeeklySuggestionsPrompt(events),
+        this.requestOptions,
+      );
+      const responseText = result.response.text().trim();
+
+      this.logger.debug(`Gemini raw weekly suggestion output: ${responseText}`);
+
+      return parseSuggestions(responseText);
+    } catch (err) {
+      this.logger.error(
+        `Failed to generate weekly suggestions: ${handleError(err)}`,
+      );
+      // Let the job retry transient failures; the rest won't get better
+      if (this.classifyError(err) === AiFailureKind.RETRYABLE) throw err;
+      return FALLBACK_SUGGESTIONS;
+    }
+  }
+
+  /** The SDK reports blocked prompts and rejected input without a status */
+  private classifyError(error: unknown): AiFailureKind {
+    if (
+      error instanceof GoogleGenerativeAIResponseError ||
+      error instanceof GoogleGenerativeAIRequestInputError
+    ) {
+      return AiFailureKind.PERMANENT;
+    }
+    return classifyAiError(error);
+  }
+}
@@ -0,0 +1,150 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { handleError } from 'src/util/error';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import {
+  AiInsight,
+  AiProvider,
+  KarmaActionJobData,
+} from '../ai-provider.interface';
+import {
+  buildKarmaPrompt,
+  buildWeeklySuggestionsPrompt,
+  FALLBACK_SUGGESTIONS,
+  GENERIC_SUGGESTIONS,
+  parseKarmaInsight,
+  parseSuggestions,
+} from '../ai.prompts';
+import {
+  AiFailureKind,
+  AiProviderError,
+  classifyAiError,
+  DEFAULT_AI_REQUEST_TIMEOUT_MS,
+  failureKindForStatus,
+} from '../ai.errors';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API,
+ * e.g. OpenAI itself, Ollama, LM Studio or vLLM.
+ */
+export class OpenAiCompatibleProvider implements AiProvider {
+  private readonly logger = new Logger(OpenAiCompatibleProvider.name);
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly modelName: string;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.baseUrl = this.configService
+      .get<string>('OPENAI_BASE_URL', 'https://api.openai.com/v1')
+      .replace(/\/+$/, '');
+    this.apiKey = this.configService.get<string>('OPENAI_API_KEY');
+    this.modelName = this.configService.get<string>(
+      'OPENAI_MODEL_NAME',
+      'gpt-4o-mini',
+    );
+    this.timeoutMs =
+      Number(this.configService.get<string>('AI_REQUEST_TIMEOUT_MS')) ||
+      DEFAULT_AI_REQUEST_TIMEOUT_MS;
+
+    this.logger.log(
+      `Initialized OpenAI-compatible model: ${this.modelName} at ${this.baseUrl}`,
+    );
+  }
+
+  private async complete(prompt: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.modelName,
+        temperature: 0.7,
+        max_tokens: 256,
+        messages: [{ role: 'user', content: prompt }],
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new AiProviderError(
+        `AI endpoint responded with HTTP ${response.status}: ${await response.text()}`,
+        failureKindForStatus(response.status),
+      );
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new AiProviderError(
+        'AI endpoint returned an empty completion.',
+        AiFailureKind.INVALID_RESPONSE,
+      );
+    }
+    return content;
+  }
+
+  async processKarmaAction(data: KarmaActionJobData): Promise<AiInsight> {
+    this.logger.log(
+      `Calling ${this.modelName} for action ID: ${data.karmaEventId}, description: "${data.action.substring(0, 50)}..."`,
+    );
+
+    try {
+      const responseText = await this.complete(buildKarmaPrompt(data));
+      this.logger.debug(
+        `Raw JSON Response for ${data.action}: ${responseText}`,
+      );
+
+      const { intensity, feedback, category, tags } =
+        parseKarmaInsight(responseText);
+
+      return {
+        event_id: data.karmaEventId,
+        intensity,
+        feedback,
+        feedback_generated: true,
+        category,
+        tags,
+      };
+    } catch (error) {
+      this.logger.error(handleError(error));
+      throw new AiProviderError(
+        `AI processing failed for action ${data.action}: ${handleError(error)}`,
+        classifyAiError(error),
+      );
+    }
+  }
+
+  async generateWeeklySuggestions(
+    userId: string,
+    events: KarmaEvent[],
+  ): Promise<string[]> {
+    this.logger.log(
+      `Generating weekly suggestions for user ${userId} with events ${events.length}`,
+    );
+
+    if (!events || events.length === 0) {
+      return GENERIC_SUGGESTIONS;
+    }
+
+    try {
+      const responseText = await this.complete(
+        buildWeeklySuggestionsPrompt(events),
+      );
+      return parseSuggestions(responseText);
+    } catch (err) {
+      this.logger.error(
+        `Failed to generate weekly suggestions: ${handleError(err)}`,
+      );
+      // Let the job retry transient failures; the rest won't get better
+      if (classifyAiError(err) === AiFailureKind.RETRYABLE) throw err;
+      return FALLBACK_SUGGESTIONS;
+    }
+  }
+}
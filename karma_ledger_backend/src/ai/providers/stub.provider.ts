@@ -0,0 +1,93 @@
+import { Logger } from '@nestjs/common';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import {
+  AiInsight,
+  AiProvider,
+  KarmaActionJobData,
+} from '../ai-provider.interface';
+import { GENERIC_SUGGESTIONS, MAX_AI_TAGS } from '../ai.prompts';
+import { KarmaCategory } from 'src/config/categories';
+
+const POSITIVE_KEYWORDS = [
+  'help',
+  'volunteer',
+  'donate',
+  'thank',
+  'support',
+  'mentor',
+  'gave',
+  'kind',
+];
+const NEGATIVE_KEYWORDS = ['rude', 'lie', 'lied', 'yell', 'broke', 'ignored'];
+const CATEGORY_KEYWORDS: [KarmaCategory, string[]][] = [
+  [KarmaCategory.FAMILY, ['mom', 'dad', 'parent', 'sister', 'brother', 'kids']],
+  [KarmaCategory.FRIENDS, ['friend']],
+  [KarmaCategory.WORK, ['work', 'colleague', 'boss', 'meeting', 'office']],
+  [KarmaCategory.COMMUNITY, ['volunteer', 'neighbour', 'neighbor', 'charity']],
+  [KarmaCategory.HEALTH, ['run', 'gym', 'walk', 'sleep', 'yoga']],
+  [KarmaCategory.ENVIRONMENT, ['recycle', 'plant', 'litter', 'bike']],
+];
+
+/**
+ * Offline provider for local development and tests. It never touches the
+ * network and always returns the same result for the same input.
+ */
+export class StubAiProvider implements AiProvider {
+  private readonly logger = new Logger(StubAiProvider.name);
+
+  constructor() {
+    this.logger.log('Initialized offline stub AI provider.');
+  }
+
+  private scoreAction(action: string): number {
+    const text = action.toLowerCase();
+    if (NEGATIVE_KEYWORDS.some((word) => text.includes(word))) return -1;
+    if (POSITIVE_KEYWORDS.some((word) => text.includes(word))) return 5;
+    return 0;
+  }
+
+  /** First category with a matching keyword; the matches double as tags */
+  private classifyAction(action: string): {
+    category: KarmaCategory;
+    tags: string[];
+  } {
+    const text = action.toLowerCase();
+    for (const [category, keywords] of CATEGORY_KEYWORDS) {
+      const tags = keywords.filter((word) => text.includes(word));
+      if (tags.length > 0) {
+        return { category, tags: tags.slice(0, MAX_AI_TAGS) };
+      }
+    }
+    return { category: KarmaCategory.OTHER, tags: [] };
+  }
+
+  processKarmaAction(data: KarmaActionJobData): Promise<AiInsight> {
+    const intensity = this.scoreAction(data.action);
+    const { category, tags } = this.classifyAction(data.action);
+    const feedback =
+      intensity > 0
+        ? `Nice work on "${data.action}". Keep it up!`
+        : intensity < 0
+          ? `"${data.action}" happens to everyone. Think about what you would do differently next time.`
+          : `Thanks for logging "${data.action}". Every entry builds awareness.`;
+
+    return Promise.resolve({
+      event_id: data.karmaEventId,
+      intensity,
+      feedback,
+      feedback_generated: true,
+      ...(data.suggestCategory && { category }),
+      ...(data.suggestTags && tags.length > 0 && { tags }),
+    });
+  }
+
+  generateWeeklySuggestions(
+    userId: string,
+    events: KarmaEvent[],
+  ): Promise<string[]> {
+    this.logger.debug(
+      `Returning stub suggestions for user ${userId} (${events.length} events)`,
+    );
+    return Promise.resolve(GENERIC_SUGGESTIONS);
+  }
+}
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { getSequelizeConfig } from './config/sequelize.config';
+import { prepareDatabase } from './database/migrator';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { UsersModule } from './users/users.module';
 import { AuthModule } from './auth/auth.module';
@@ -10,6 +11,12 @@ import { KarmaEventModule } from './karma_event/karma_event.module';
 import { BullModule } from '@nestjs/bullmq';
 import { DashboardModule } from './dashboard/dashboard.module';
 import { EventEmitterModule } from '@nestjs/event-emitter';
+import { NotificationsModule } from './notifications/notifications.module';
+import { AdminModule } from './admin/admin.module';
+import { DataExportModule } from './data_export/data_export.module';
+import { AccountDeletionModule } from './account_deletion/account_deletion.module';
+import { GroupsModule } from './groups/groups.module';
+import { ChallengesModule } from './challenges/challenges.module';
 import { ConfigService } from '@nestjs/config';
 
 @Module({
@@ -17,8 +24,14 @@ import { ConfigService } from '@nestjs/config';
     SequelizeModule.forRootAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
-      useFactory: (configService: ConfigService) =>
-        getSequelizeConfig(configService),
+      useFactory: async (configService: ConfigService) => {
+        const options = getSequelizeConfig(configService);
+        await prepareDatabase(
+          options,
+          configService.get<string>('NODE_ENV') === 'production',
+        );
+        return options;
+      },
     }),
     BullModule.forRootAsync({
       imports: [ConfigModule],
@@ -51,6 +64,12 @@ import { ConfigService } from '@nestjs/config';
     }),
     KarmaEventModule,
     DashboardModule,
+    NotificationsModule,
+    AdminModule,
+    DataExportModule,
+    AccountDeletionModule,
+    GroupsModule,
+    ChallengesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -1,14 +1,25 @@
 import {
   Body,
   Controller,
+  Get,
   Post,
+  Query,
+  HttpCode,
   HttpException,
   HttpStatus,
+  Request,
+  UseGuards,
 } from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { UsersService } from '../users/users.service';
 import { CreateUserDto } from '../users/dto/createUser';
 import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import { JwtAuthGuard } from './jwt.guard';
+import { AuthenticatedRequest } from 'src/util/types';
+import { toPrivateProfile } from 'src/users/user.serializer';
 import { handleError } from 'src/util/error';
 
 @Controller('auth')
@@ -23,10 +34,12 @@ export class AuthController {
     try {
       const user = await this.usersService.createUser(userData);
       const loginResponse = await this.authService.login(user);
+      await this.authService.sendVerificationEmail(user);
       return {
         message: 'User created successfully',
         access_token: loginResponse.access_token,
-        data: user.toJSON(),
+        refresh_token: loginResponse.refresh_token,
+        data: toPrivateProfile(user),
       };
     } catch (error) {
       throw new HttpException(
@@ -44,4 +57,73 @@ export class AuthController {
     const user = await this.authService.validateUser(dto.email, dto.password);
     return this.authService.login(user);
   }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() dto: RefreshTokenDto) {
+    return this.authService.refresh(dto.refresh_token);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(@Body() dto: RefreshTokenDto) {
+    await this.authService.logout(dto.refresh_token);
+    return { message: 'Logged out successfully' };
+  }
+
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT')
+  async logoutAll(@Request() req: AuthenticatedRequest) {
+    await this.authService.logoutAll(req.user?.user_id ?? '');
+    return { message: 'Logged out of all sessions' };
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() dto: ForgotPasswordDto) {
+    await this.authService.requestPasswordReset(dto.email);
+    return {
+      message: 'If that email is registered, a reset link is on its way',
+    };
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() dto: ResetPasswordDto) {
+    try {
+      await this.authService.resetPassword(dto.token, dto.password);
+      return { message: 'Password updated, please log in again' };
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Get('verify-email')
+  async verifyEmail(@Query('token') token: string) {
+    try {
+      await this.authService.verifyEmail(token ?? '');
+      return { message: 'Email address verified' };
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT')
+  async resendVerification(@Request() req: AuthenticatedRequest) {
+    try {
+      const user = await this.usersService.findById(req.user?.user_id ?? '');
+      if (user.email_verified_at) {
+        return { message: 'Email address is already verified' };
+      }
+      await this.authService.sendVerificationEmail(user);
+      return { message: 'Verification email sent' };
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
 }
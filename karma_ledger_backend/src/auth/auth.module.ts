@@ -6,25 +6,39 @@ import { JwtModule } from '@nestjs/jwt';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { User } from 'src/users/models/users.model';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { JwtStrategy } from './jwt.strategy';
+import { JwtQueryStrategy, JwtStrategy } from './jwt.strategy';
+import { RefreshToken } from './models/refresh_token.model';
+import { RefreshTokenService } from './refresh-token.service';
+import { UserToken } from './models/user_token.model';
+import { UserTokenService } from './user-token.service';
+import { MailerModule } from 'src/mailer/mailer.module';
 
 @Module({
   imports: [
     UsersModule,
     ConfigModule,
-    SequelizeModule.forFeature([User]),
+    MailerModule,
+    SequelizeModule.forFeature([User, RefreshToken, UserToken]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRES_IN'),
+          // Access tokens are short-lived; sessions live on via /auth/refresh
+          expiresIn: configService.get<string>('JWT_EXPIRES_IN') ?? '15m',
         },
       }),
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
+  providers: [
+    AuthService,
+    RefreshTokenService,
+    UserTokenService,
+    JwtStrategy,
+    JwtQueryStrategy,
+  ],
+  exports: [RefreshTokenService],
 })
 export class AuthModule {}
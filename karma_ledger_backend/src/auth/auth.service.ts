@@ -1,19 +1,37 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../users/users.service';
 import { verifyPassword } from 'src/util/password';
+import { RefreshTokenService } from './refresh-token.service';
+import { UserRole } from 'src/config/roles';
+import { MailerService } from 'src/mailer/mailer.service';
+import { UserTokenService } from './user-token.service';
+import { UserTokenPurpose } from './models/user_token.model';
+
+const DEFAULT_PASSWORD_RESET_TTL_MINUTES = 60;
+const DEFAULT_EMAIL_VERIFICATION_TTL_HOURS = 48;
 
 interface PublicUserData {
   username: string;
   email: string;
   user_id: string;
+  role: UserRole;
+  /** Set when logging in called off a scheduled account deletion */
+  deletion_cancelled?: boolean;
 }
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private jwtService: JwtService,
     private usersService: UsersService,
+    private refreshTokenService: RefreshTokenService,
+    private userTokenService: UserTokenService,
+    private mailerService: MailerService,
+    private configService: ConfigService,
   ) {}
 
   async validateUser(email: string, passwd: string): Promise<PublicUserData> {
@@ -22,23 +40,136 @@ export class AuthService {
     if (!user || !(await verifyPassword(passwd, user.password))) {
       throw new UnauthorizedException('Invalid credentials');
     }
+    if (user.suspended_at) {
+      throw new UnauthorizedException('This account has been suspended');
+    }
 
-    const { user_id, username } = user;
-    return { user_id, email: user.email, username };
+    const { user_id, username, role } = user;
+    const deletion_cancelled =
+      await this.usersService.cancelScheduledDeletion(user_id);
+    return { user_id, email: user.email, username, role, deletion_cancelled };
   }
 
   async login(user: PublicUserData) {
-    const payload = {
-      sub: user.user_id,
-      email: user.email,
-      username: user.username,
+    return {
+      message: user.deletion_cancelled
+        ? 'Login successful, scheduled account deletion cancelled'
+        : 'Login successful',
+      access_token: await this.signAccessToken(user),
+      refresh_token: await this.refreshTokenService.issue(user.user_id),
+      ...(user.deletion_cancelled && { deletion_cancelled: true }),
     };
+  }
 
-    const token = await this.jwtService.signAsync(payload);
+  /** Rotates the refresh token and issues a fresh access token */
+  async refresh(refreshToken: string) {
+    const { userId, token } =
+      await this.refreshTokenService.rotate(refreshToken);
+    const user = await this.usersService.findById(userId).catch(() => null);
+    if (!user) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (user.suspended_at) {
+      throw new UnauthorizedException('This account has been suspended');
+    }
 
     return {
-      message: 'Login successful',
-      access_token: token,
+      message: 'Token refreshed',
+      access_token: await this.signAccessToken(user),
+      refresh_token: token,
     };
   }
+
+  async logout(refreshToken: string): Promise<void> {
+    await this.refreshTokenService.revoke(refreshToken);
+  }
+
+  async logoutAll(userId: string): Promise<void> {
+    await this.refreshTokenService.revokeAllForUser(userId);
+  }
+
+  /**
+   * Emails a reset link. Unknown addresses are ignored silently and mail
+   * failures are only logged, so the endpoint can't be used to find out who
+   * has an account.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || user.suspended_at) return;
+
+    const ttlMinutes =
+      Number(this.configService.get<string>('PASSWORD_RESET_TTL_MINUTES')) ||
+      DEFAULT_PASSWORD_RESET_TTL_MINUTES;
+    const token = await this.userTokenService.issue(
+      user.user_id,
+      UserTokenPurpose.PASSWORD_RESET,
+      ttlMinutes * 60000,
+    );
+    try {
+      await this.mailerService.sendPasswordReset(
+        user.email,
+        user.username,
+        token,
+        ttlMinutes,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Could not send password reset email to user ${user.user_id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /** Sets the new password and signs the user out everywhere */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const userId = await this.userTokenService.consume(
+      token,
+      UserTokenPurpose.PASSWORD_RESET,
+    );
+    await this.usersService.updatePassword(userId, password);
+    await this.refreshTokenService.revokeAllForUser(userId);
+  }
+
+  /** Failures are logged only, a mail outage shouldn't block sign-up */
+  async sendVerificationEmail(user: {
+    user_id: string;
+    email: string;
+    username: string;
+  }): Promise<void> {
+    const ttlHours =
+      Number(this.configService.get<string>('EMAIL_VERIFICATION_TTL_HOURS')) ||
+      DEFAULT_EMAIL_VERIFICATION_TTL_HOURS;
+    try {
+      const token = await this.userTokenService.issue(
+        user.user_id,
+        UserTokenPurpose.EMAIL_VERIFICATION,
+        ttlHours * 3600000,
+      );
+      await this.mailerService.sendEmailVerification(
+        user.email,
+        user.username,
+        token,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Could not send verification email to user ${user.user_id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await this.userTokenService.consume(
+      token,
+      UserTokenPurpose.EMAIL_VERIFICATION,
+    );
+    await this.usersService.markEmailVerified(userId);
+  }
+
+  private signAccessToken(user: PublicUserData): Promise<string> {
+    return this.jwtService.signAsync({
+      sub: user.user_id,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+    });
+  }
 }
@@ -0,0 +1,19 @@
+import { IsEmail, IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ForgotPasswordDto {
+  @ApiProperty({ example: 'john@example.com' })
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset email' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ example: 'newStrongPassword123', minLength: 6 })
+  @IsString()
+  @MinLength(6)
+  password: string;
+}
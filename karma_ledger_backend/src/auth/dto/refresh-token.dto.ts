@@ -0,0 +1,10 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token returned by login, register or refresh',
+  })
+  @IsString()
+  refresh_token: string;
+}
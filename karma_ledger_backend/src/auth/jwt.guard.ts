@@ -3,3 +3,6 @@ import { AuthGuard } from '@nestjs/passport';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {}
+
+@Injectable()
+export class JwtQueryAuthGuard extends AuthGuard('jwt-query') {}
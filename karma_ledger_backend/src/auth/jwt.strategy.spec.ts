@@ -0,0 +1,58 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/sequelize';
+import { UserRole } from 'src/config/roles';
+import { User } from 'src/users/models/users.model';
+import { JwtQueryStrategy, JwtStrategy } from './jwt.strategy';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+  let queryStrategy: JwtQueryStrategy;
+  const userModel = { findByPk: jest.fn() };
+  const payload = { sub: 'user-1', email: 'amani@example.com' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    process.env.JWT_SECRET = 'test-secret';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        JwtQueryStrategy,
+        { provide: getModelToken(User), useValue: userModel },
+      ],
+    }).compile();
+    strategy = module.get(JwtStrategy);
+    queryStrategy = module.get(JwtQueryStrategy);
+  });
+
+  it('accepts tokens of active users, as regular users by default', async () => {
+    userModel.findByPk.mockResolvedValue({ suspended_at: null });
+
+    await expect(strategy.validate(payload)).resolves.toEqual({
+      user_id: 'user-1',
+      email: 'amani@example.com',
+      role: UserRole.USER,
+    });
+  });
+
+  it('rejects tokens of suspended users before they expire', async () => {
+    userModel.findByPk.mockResolvedValue({ suspended_at: new Date() });
+
+    await expect(strategy.validate(payload)).rejects.toThrow(
+      new UnauthorizedException('This account has been suspended'),
+    );
+    // The notifications stream authenticates through the query strategy
+    await expect(queryStrategy.validate(payload)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects tokens of deleted users', async () => {
+    userModel.findByPk.mockResolvedValue(null);
+
+    await expect(strategy.validate(payload)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
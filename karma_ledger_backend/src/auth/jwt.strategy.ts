@@ -1,15 +1,42 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
+import { InjectModel } from '@nestjs/sequelize';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { UserRole } from 'src/config/roles';
+import { User } from 'src/users/models/users.model';
 
 interface JwtPayload {
   sub: string;
   email: string;
+  role?: UserRole;
   [key: string]: any;
 }
+
+/**
+ * Checks the account on every request, so suspending or deleting a user
+ * locks them out straight away rather than when their access token expires.
+ */
+const toRequestUser = async (userRepo: typeof User, payload: JwtPayload) => {
+  const user = await userRepo.findByPk(payload.sub, {
+    attributes: ['user_id', 'suspended_at'],
+  });
+  if (!user) {
+    throw new UnauthorizedException('User not found');
+  }
+  if (user.suspended_at) {
+    throw new UnauthorizedException('This account has been suspended');
+  }
+  return {
+    user_id: payload.sub,
+    email: payload.email,
+    // Tokens issued before roles existed belong to regular users
+    role: payload.role ?? UserRole.USER,
+  };
+};
+
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
-  constructor() {
+  constructor(@InjectModel(User) private readonly userRepo: typeof User) {
     const jwtSecret = process.env.JWT_SECRET;
     if (!jwtSecret) {
       throw new Error('JWT_SECRET environment variable is not defined');
@@ -21,6 +48,28 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   }
 
   validate(payload: JwtPayload) {
-    return { user_id: payload.sub, email: payload.email };
+    return toRequestUser(this.userRepo, payload);
+  }
+}
+
+/**
+ * Same token, read from the `token` query parameter. Only used by the
+ * notifications stream, since EventSource can't send an Authorization header.
+ */
+@Injectable()
+export class JwtQueryStrategy extends PassportStrategy(Strategy, 'jwt-query') {
+  constructor(@InjectModel(User) private readonly userRepo: typeof User) {
+    const jwtSecret = process.env.JWT_SECRET;
+    if (!jwtSecret) {
+      throw new Error('JWT_SECRET environment variable is not defined');
+    }
+    super({
+      jwtFromRequest: ExtractJwt.fromUrlQueryParameter('token'),
+      secretOrKey: jwtSecret,
+    });
+  }
+
+  validate(payload: JwtPayload) {
+    return toRequestUser(this.userRepo, payload);
   }
 }
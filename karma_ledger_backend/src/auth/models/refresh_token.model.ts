@@ -0,0 +1,47 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+  Default,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+
+/**
+ * A single-use refresh token. Only the SHA-256 hash of the token is stored.
+ * Every rotation stays in the family of the login that started it, so a
+ * replayed token can revoke the whole session.
+ */
+@Table({ tableName: 'refresh_tokens', timestamps: true })
+export class RefreshToken extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @Column(DataType.UUID)
+  family_id: string;
+
+  @Column({ type: DataType.STRING(64), unique: true })
+  token_hash: string;
+
+  @Column(DataType.DATE)
+  expires_at: Date;
+
+  @Column({ type: DataType.DATE, allowNull: true })
+  revoked_at: Date | null;
+
+  /** The token issued when this one was rotated */
+  @Column({ type: DataType.UUID, allowNull: true })
+  replaced_by: string | null;
+
+  @BelongsTo(() => User)
+  user: User;
+}
@@ -0,0 +1,47 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+  Default,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+
+export enum UserTokenPurpose {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+}
+
+/**
+ * A single-use token emailed to the user, e.g. for a password reset.
+ * Only the SHA-256 hash is stored.
+ */
+@Table({ tableName: 'user_tokens', timestamps: true })
+export class UserToken extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @Column(DataType.STRING)
+  purpose: UserTokenPurpose;
+
+  @Column({ type: DataType.STRING(64), unique: true })
+  token_hash: string;
+
+  @Column(DataType.DATE)
+  expires_at: Date;
+
+  @Column({ type: DataType.DATE, allowNull: true })
+  used_at: Date | null;
+
+  @BelongsTo(() => User)
+  user: User;
+}
@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { UnauthorizedException } from '@nestjs/common';
+import { Sequelize } from 'sequelize-typescript';
+import { RefreshToken } from './models/refresh_token.model';
+import { RefreshTokenService } from './refresh-token.service';
+
+const storedToken = (overrides: Partial<RefreshToken> = {}) => ({
+  id: 'token-1',
+  user_id: 'user-1',
+  family_id: 'family-1',
+  revoked_at: null,
+  expires_at: new Date(Date.now() + 86400000),
+  update: jest.fn(),
+  ...overrides,
+});
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  const transaction = { id: 'transaction' };
+  const sequelize = {
+    transaction: jest.fn((work: (t: unknown) => unknown) => work(transaction)),
+  };
+  const refreshTokenRepo = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    refreshTokenRepo.create.mockResolvedValue({ id: 'token-2' });
+    refreshTokenRepo.update.mockResolvedValue([1]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        { provide: Sequelize, useValue: sequelize },
+        { provide: getModelToken(RefreshToken), useValue: refreshTokenRepo },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+    service = module.get(RefreshTokenService);
+  });
+
+  it('stores only a hash of issued tokens', async () => {
+    const token = await service.issue('user-1');
+
+    const [record] = refreshTokenRepo.create.mock.calls[0] as [
+      { token_hash: string },
+    ];
+    expect(record.token_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(record.token_hash).not.toBe(token);
+  });
+
+  describe('rotate', () => {
+    it('claims the token and issues its successor in the same family', async () => {
+      const current = storedToken();
+      refreshTokenRepo.findOne.mockResolvedValue(current);
+
+      const result = await service.rotate('presented');
+
+      expect(refreshTokenRepo.update).toHaveBeenCalledWith(
+        { revoked_at: expect.any(Date) },
+        expect.objectContaining({
+          where: { id: 'token-1', revoked_at: expect.anything() },
+          transaction,
+        }),
+      );
+      expect(refreshTokenRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-1', family_id: 'family-1' }),
+        { transaction },
+      );
+      expect(current.update).toHaveBeenCalledWith(
+        { replaced_by: 'token-2' },
+        { transaction },
+      );
+      expect(result.userId).toBe('user-1');
+      expect(result.token).not.toBe('presented');
+    });
+
+    it('revokes the whole family when a rotated token is presented again', async () => {
+      refreshTokenRepo.findOne.mockResolvedValue(
+        storedToken({ revoked_at: new Date() }),
+      );
+
+      await expect(service.rotate('presented')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(refreshTokenRepo.update).toHaveBeenCalledWith(
+        { revoked_at: expect.any(Date) },
+        { where: { family_id: 'family-1', revoked_at: expect.anything() } },
+      );
+      expect(refreshTokenRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('treats losing a concurrent rotation as reuse', async () => {
+      refreshTokenRepo.findOne.mockResolvedValue(storedToken());
+      refreshTokenRepo.update.mockResolvedValueOnce([0]);
+
+      await expect(service.rotate('presented')).rejects.toThrow(
+        'Refresh token has been revoked',
+      );
+      expect(refreshTokenRepo.create).not.toHaveBeenCalled();
+      expect(refreshTokenRepo.update).toHaveBeenLastCalledWith(
+        { revoked_at: expect.any(Date) },
+        { where: { family_id: 'family-1', revoked_at: expect.anything() } },
+      );
+    });
+
+    it('rejects expired tokens without rotating them', async () => {
+      refreshTokenRepo.findOne.mockResolvedValue(
+        storedToken({ expires_at: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(service.rotate('presented')).rejects.toThrow(
+        'Refresh token has expired',
+      );
+      expect(refreshTokenRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown tokens', async () => {
+      refreshTokenRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.rotate('presented')).rejects.toThrow(
+        'Invalid refresh token',
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { ConfigService } from '@nestjs/config';
+import { Op, Transaction } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { RefreshToken } from './models/refresh_token.model';
+
+const DEFAULT_TTL_DAYS = 30;
+
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+@Injectable()
+export class RefreshTokenService {
+  private readonly logger = new Logger(RefreshTokenService.name);
+  private readonly ttlMs: number;
+
+  constructor(
+    private readonly sequelize: Sequelize,
+    @InjectModel(RefreshToken)
+    private readonly refreshTokenRepo: typeof RefreshToken,
+    configService: ConfigService,
+  ) {
+    const ttlDays =
+      Number(configService.get<string>('REFRESH_TOKEN_TTL_DAYS')) ||
+      DEFAULT_TTL_DAYS;
+    this.ttlMs = ttlDays * 86400000;
+  }
+
+  /** Starts a new token family, i.e. a new login session */
+  async issue(userId: string): Promise<string> {
+    const { token } = await this.create(userId, randomUUID());
+    return token;
+  }
+
+  /**
+   * Exchanges a refresh token for a new one in the same family. Presenting
+   * a token that was already rotated or revoked means it leaked, so the
+   * whole family is revoked.
+   */
+  async rotate(token: string): Promise<{ userId: string; token: string }> {
+    const current = await this.refreshTokenRepo.findOne({
+      where: { token_hash: hashToken(token) },
+    });
+    if (!current) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (current.revoked_at) {
+      return this.rejectReuse(current);
+    }
+
+    if (current.expires_at.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    const next = await this.sequelize.transaction(async (transaction) => {
+      // Conditional update so two concurrent refreshes can't both rotate it
+      const [claimed] = await this.refreshTokenRepo.update(
+        { revoked_at: new Date() },
+        {
+          where: { id: current.id, revoked_at: { [Op.is]: null } },
+          transaction,
+        },
+      );
+      if (claimed === 0) {
+        return null;
+      }
+
+      const created = await this.create(
+        current.user_id,
+        current.family_id,
+        transaction,
+      );
+      await current.update({ replaced_by: created.id }, { transaction });
+      return created;
+    });
+    if (!next) {
+      return this.rejectReuse(current);
+    }
+
+    return { userId: current.user_id, token: next.token };
+  }
+
+  /** Ends the session the token belongs to */
+  async revoke(token: string): Promise<void> {
+    const current = await this.refreshTokenRepo.findOne({
+      where: { token_hash: hashToken(token) },
+    });
+    if (current) {
+      await this.revokeFamily(current.family_id);
+    }
+  }
+
+  /** Ends every session of the user */
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.refreshTokenRepo.update(
+      { revoked_at: new Date() },
+      { where: { user_id: userId, revoked_at: { [Op.is]: null } } },
+    );
+  }
+
+  private async rejectReuse(current: RefreshToken): Promise<never> {
+    this.logger.warn(
+      `Refresh token reuse detected for user ${current.user_id}, revoking family ${current.family_id}`,
+    );
+    await this.revokeFamily(current.family_id);
+    throw new UnauthorizedException('Refresh token has been revoked');
+  }
+
+  private async revokeFamily(familyId: string): Promise<void> {
+    await this.refreshTokenRepo.update(
+      { revoked_at: new Date() },
+      { where: { family_id: familyId, revoked_at: { [Op.is]: null } } },
+    );
+  }
+
+  private async create(
+    userId: string,
+    familyId: string,
+    transaction?: Transaction,
+  ): Promise<{ id: string; token: string }> {
+    const token = randomBytes(48).toString('base64url');
+    const record = await this.refreshTokenRepo.create(
+      {
+        user_id: userId,
+        family_id: familyId,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + this.ttlMs),
+      },
+      { transaction },
+    );
+    return { id: record.id, token };
+  }
+}
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from 'src/config/roles';
+
+export const ROLES_KEY = 'roles';
+
+/** Restricts a route to the given roles; pair with RolesGuard after JwtAuthGuard */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,25 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from 'src/config/roles';
+import { AuthenticatedRequest } from 'src/util/types';
+import { ROLES_KEY } from './roles.decorator';
+
+/**
+ * Checks the role carried in the access token. Role changes apply once
+ * the user's short-lived access token is refreshed.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!roles || roles.length === 0) return true;
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    return !!user?.role && roles.includes(user.role);
+  }
+}
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/sequelize';
+import { UserToken, UserTokenPurpose } from './models/user_token.model';
+import { UserTokenService } from './user-token.service';
+
+const storedToken = (overrides: Partial<UserToken> = {}) => ({
+  id: 'token-1',
+  user_id: 'user-1',
+  used_at: null,
+  expires_at: new Date(Date.now() + 3600000),
+  ...overrides,
+});
+
+describe('UserTokenService', () => {
+  let service: UserTokenService;
+  const userTokenRepo = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    userTokenRepo.update.mockResolvedValue([1]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserTokenService,
+        { provide: getModelToken(UserToken), useValue: userTokenRepo },
+      ],
+    }).compile();
+    service = module.get(UserTokenService);
+  });
+
+  it('invalidates earlier unused tokens of the same purpose when issuing', async () => {
+    await service.issue('user-1', UserTokenPurpose.PASSWORD_RESET, 60000);
+
+    expect(userTokenRepo.update).toHaveBeenCalledWith(
+      { used_at: expect.any(Date) },
+      {
+        where: {
+          user_id: 'user-1',
+          purpose: UserTokenPurpose.PASSWORD_RESET,
+          used_at: expect.anything(),
+        },
+      },
+    );
+    expect(userTokenRepo.create).toHaveBeenCalled();
+  });
+
+  describe('consume', () => {
+    it('marks a valid token as used and returns its user', async () => {
+      userTokenRepo.findOne.mockResolvedValue(storedToken());
+
+      await expect(
+        service.consume('token', UserTokenPurpose.PASSWORD_RESET),
+      ).resolves.toBe('user-1');
+      expect(userTokenRepo.update).toHaveBeenCalledWith(
+        { used_at: expect.any(Date) },
+        { where: { id: 'token-1', used_at: expect.anything() } },
+      );
+    });
+
+    it('looks the token up for the requested purpose only', async () => {
+      userTokenRepo.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.consume('token', UserTokenPurpose.EMAIL_VERIFICATION),
+      ).rejects.toThrow('This link is invalid or has already been used');
+      expect(userTokenRepo.findOne).toHaveBeenCalledWith({
+        where: {
+          token_hash: expect.any(String),
+          purpose: UserTokenPurpose.EMAIL_VERIFICATION,
+        },
+      });
+    });
+
+    it('rejects a token that was already used', async () => {
+      userTokenRepo.findOne.mockResolvedValue(
+        storedToken({ used_at: new Date() }),
+      );
+
+      await expect(
+        service.consume('token', UserTokenPurpose.PASSWORD_RESET),
+      ).rejects.toThrow('This link is invalid or has already been used');
+      expect(userTokenRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects an expired token', async () => {
+      userTokenRepo.findOne.mockResolvedValue(
+        storedToken({ expires_at: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(
+        service.consume('token', UserTokenPurpose.PASSWORD_RESET),
+      ).rejects.toThrow('This link has expired');
+    });
+
+    it('lets only one of two concurrent requests redeem the token', async () => {
+      userTokenRepo.findOne.mockResolvedValue(storedToken());
+      userTokenRepo.update.mockResolvedValueOnce([0]);
+
+      await expect(
+        service.consume('token', UserTokenPurpose.PASSWORD_RESET),
+      ).rejects.toThrow('This link is invalid or has already been used');
+    });
+  });
+});
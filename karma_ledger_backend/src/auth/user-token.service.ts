@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { createHash, randomBytes } from 'crypto';
+import { UserToken, UserTokenPurpose } from './models/user_token.model';
+
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+/** Issues and redeems the single-use tokens sent out by email */
+@Injectable()
+export class UserTokenService {
+  constructor(
+    @InjectModel(UserToken) private readonly userTokenRepo: typeof UserToken,
+  ) {}
+
+  /** Creates a token and invalidates any earlier unused one for the same purpose */
+  async issue(
+    userId: string,
+    purpose: UserTokenPurpose,
+    ttlMs: number,
+  ): Promise<string> {
+    await this.userTokenRepo.update(
+      { used_at: new Date() },
+      { where: { user_id: userId, purpose, used_at: { [Op.is]: null } } },
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    await this.userTokenRepo.create({
+      user_id: userId,
+      purpose,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + ttlMs),
+    });
+    return token;
+  }
+
+  /** Marks the token as used and returns its user; throws if it can't be redeemed */
+  async consume(token: string, purpose: UserTokenPurpose): Promise<string> {
+    const record = await this.userTokenRepo.findOne({
+      where: { token_hash: hashToken(token), purpose },
+    });
+    if (!record || record.used_at) {
+      throw new Error('This link is invalid or has already been used');
+    }
+    if (record.expires_at.getTime() <= Date.now()) {
+      throw new Error('This link has expired');
+    }
+
+    // Conditional update so two concurrent requests can't both redeem it
+    const [claimed] = await this.userTokenRepo.update(
+      { used_at: new Date() },
+      { where: { id: record.id, used_at: { [Op.is]: null } } },
+    );
+    if (claimed === 0) {
+      throw new Error('This link is invalid or has already been used');
+    }
+    return record.user_id;
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/auth/jwt.guard';
+import { AuthenticatedRequest } from 'src/util/types';
+import { handleError } from 'src/util/error';
+import { ChallengesService } from './challenges.service';
+import {
+  CreateChallengeDto,
+  ListChallengesQueryDto,
+} from './dto/challenge.dto';
+
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT')
+@Controller('challenges')
+export class ChallengesController {
+  constructor(private readonly challengesService: ChallengesService) {}
+
+  @Post()
+  async createChallenge(
+    @Body() dto: CreateChallengeDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.challengesService.createChallenge(
+        req.user?.user_id ?? '',
+        dto,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  /** Challenges in the caller's groups */
+  @Get()
+  async listChallenges(
+    @Query() query: ListChallengesQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.challengesService.listChallenges(
+        req.user?.user_id ?? '',
+        query.status,
+        query.group_id,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
+  @Get(':id')
+  async getChallenge(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.challengesService.getChallenge(
+        id,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
+  @Post(':id/join')
+  async joinChallenge(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.challengesService.joinChallenge(
+        id,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+}
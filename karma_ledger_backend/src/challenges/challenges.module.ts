@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { DashboardModule } from 'src/dashboard/dashboard.module';
+import { GroupsModule } from 'src/groups/groups.module';
+import { WeekModule } from 'src/week/week.module';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { GroupMembership } from 'src/groups/models/group_membership.model';
+import { Challenge } from './models/challenge.model';
+import { ChallengeParticipant } from './models/challenge_participant.model';
+import { ChallengesService } from './challenges.service';
+import { ChallengesController } from './challenges.controller';
+import { ChallengeProgressListener } from './listeners/challenge-progress.listener';
+
+@Module({
+  imports: [
+    DashboardModule,
+    GroupsModule,
+    WeekModule,
+    SequelizeModule.forFeature([
+      Challenge,
+      ChallengeParticipant,
+      GroupMembership,
+      KarmaEvent,
+    ]),
+  ],
+  controllers: [ChallengesController],
+  providers: [ChallengesService, ChallengeProgressListener],
+})
+export class ChallengesModule {}
@@ -0,0 +1,268 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { KarmaCategory } from 'src/config/categories';
+import { ChallengeMetric } from 'src/config/challenges';
+import { WeekStart } from 'src/config/week-start';
+import { User } from 'src/users/models/users.model';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { BadgeService } from 'src/dashboard/badge.service';
+import { GroupMembership } from 'src/groups/models/group_membership.model';
+import { GroupsService } from 'src/groups/groups.service';
+import { WeekService } from 'src/week/week.service';
+import { Challenge } from './models/challenge.model';
+import { ChallengeParticipant } from './models/challenge_participant.model';
+import { ChallengesService } from './challenges.service';
+
+const challenge = (overrides: Partial<Challenge> = {}) =>
+  ({
+    id: 'challenge-1',
+    metric: ChallengeMetric.EVENT_COUNT,
+    category: null,
+    target: 5,
+    min_events: null,
+    starts_at: new Date('2026-10-01T00:00:00.000Z'),
+    ends_at: new Date('2026-11-01T00:00:00.000Z'),
+    badge: { code: 'challenge_challenge-1' },
+    ...overrides,
+  }) as Challenge;
+
+describe('ChallengesService', () => {
+  let service: ChallengesService;
+  const transaction = { id: 'transaction' };
+  const sequelize = {
+    transaction: jest.fn((work: (t: unknown) => unknown) => work(transaction)),
+  };
+  const challengeModel = { findAll: jest.fn(), destroy: jest.fn() };
+  const participantModel = { findAll: jest.fn(), destroy: jest.fn() };
+  const membershipModel = { findAll: jest.fn() };
+  const karmaEventModel = { count: jest.fn(), findAll: jest.fn() };
+  const userModel = { findByPk: jest.fn() };
+  const badgeService = {
+    awardBadgeToUser: jest.fn(),
+    deleteUnawardedBadges: jest.fn(),
+  };
+  const participant = {
+    user_id: 'user-1',
+    completed_at: null as Date | null,
+    challenge: challenge(),
+    update: jest.fn(),
+  };
+
+  /** Runs one progress update for the participant in `joined` */
+  const updateProgress = async (joined: Challenge) => {
+    participant.challenge = joined;
+    await service.updateProgress('user-1');
+  };
+
+  const eventsOn = (...timestamps: string[]) =>
+    timestamps.map((timestamp) => ({ occurred_at: new Date(timestamp) }));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    participant.completed_at = null;
+    membershipModel.findAll.mockResolvedValue([{ group_id: 'group-1' }]);
+    participantModel.findAll.mockResolvedValue([participant]);
+    userModel.findByPk.mockResolvedValue({
+      timezone: 'Africa/Nairobi',
+      week_start: WeekStart.MONDAY,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChallengesService,
+        WeekService,
+        { provide: Sequelize, useValue: sequelize },
+        { provide: getModelToken(Challenge), useValue: challengeModel },
+        {
+          provide: getModelToken(ChallengeParticipant),
+          useValue: participantModel,
+        },
+        { provide: getModelToken(GroupMembership), useValue: membershipModel },
+        { provide: getModelToken(KarmaEvent), useValue: karmaEventModel },
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: GroupsService, useValue: {} },
+        { provide: BadgeService, useValue: badgeService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+    service = module.get(ChallengesService);
+  });
+
+  describe('measuring progress', () => {
+    it('counts the events logged inside the challenge window', async () => {
+      karmaEventModel.count.mockResolvedValue(3);
+
+      await updateProgress(challenge());
+
+      const joined = challenge();
+      expect(karmaEventModel.count).toHaveBeenCalledWith({
+        where: {
+          user_id: 'user-1',
+          occurred_at: { [Op.gte]: joined.starts_at, [Op.lt]: joined.ends_at },
+        },
+      });
+      expect(participant.update).toHaveBeenCalledWith({
+        progress: 3,
+        event_count: 3,
+      });
+    });
+
+    it("counts only the challenge's category for category_count", async () => {
+      karmaEventModel.count.mockResolvedValue(2);
+
+      await updateProgress(
+        challenge({
+          metric: ChallengeMetric.CATEGORY_COUNT,
+          category: KarmaCategory.COMMUNITY,
+        }),
+      );
+
+      expect(karmaEventModel.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ category: KarmaCategory.COMMUNITY }),
+      });
+    });
+
+    it('rounds the average intensity to two decimals', async () => {
+      karmaEventModel.findAll.mockResolvedValue([
+        { avg_intensity: 6.666666, event_count: 3 },
+      ]);
+
+      await updateProgress(
+        challenge({ metric: ChallengeMetric.AVERAGE_INTENSITY, target: 6 }),
+      );
+
+      expect(participant.update).toHaveBeenCalledWith(
+        expect.objectContaining({ progress: 6.67, event_count: 3 }),
+      );
+    });
+
+    it('has no average before any event is scored', async () => {
+      karmaEventModel.findAll.mockResolvedValue([
+        { avg_intensity: null, event_count: 0 },
+      ]);
+
+      await updateProgress(
+        challenge({ metric: ChallengeMetric.AVERAGE_INTENSITY, target: 0 }),
+      );
+
+      expect(participant.update).toHaveBeenCalledWith({
+        progress: null,
+        event_count: 0,
+      });
+      expect(badgeService.awardBadgeToUser).not.toHaveBeenCalled();
+    });
+
+    it('measures the longest run of days in the user timezone', async () => {
+      karmaEventModel.findAll.mockResolvedValue(
+        eventsOn(
+          '2026-10-05T10:00:00.000Z',
+          // 22:30 UTC is already the 7th in Nairobi, so the 6th is missed
+          '2026-10-06T22:30:00.000Z',
+          '2026-10-07T08:00:00.000Z',
+          '2026-10-08T08:00:00.000Z',
+          '2026-10-09T08:00:00.000Z',
+          '2026-10-12T08:00:00.000Z',
+        ),
+      );
+
+      await updateProgress(challenge({ metric: ChallengeMetric.STREAK }));
+
+      expect(participant.update).toHaveBeenCalledWith({
+        progress: 3,
+        event_count: 6,
+      });
+    });
+
+    it('has a streak of zero without events', async () => {
+      karmaEventModel.findAll.mockResolvedValue([]);
+
+      await updateProgress(challenge({ metric: ChallengeMetric.STREAK }));
+
+      expect(participant.update).toHaveBeenCalledWith({
+        progress: 0,
+        event_count: 0,
+      });
+    });
+  });
+
+  describe('completing a challenge', () => {
+    it('awards the badge the first time the target is reached', async () => {
+      karmaEventModel.count.mockResolvedValue(5);
+
+      await updateProgress(challenge());
+
+      expect(participant.update).toHaveBeenCalledWith({
+        progress: 5,
+        event_count: 5,
+        completed_at: expect.any(Date),
+      });
+      expect(badgeService.awardBadgeToUser).toHaveBeenCalledWith(
+        'user-1',
+        'challenge_challenge-1',
+      );
+    });
+
+    it('does not award the badge again once completed', async () => {
+      participant.completed_at = new Date('2026-10-10T00:00:00.000Z');
+      karmaEventModel.count.mockResolvedValue(6);
+
+      await updateProgress(challenge());
+
+      expect(participant.update).toHaveBeenCalledWith({
+        progress: 6,
+        event_count: 6,
+      });
+      expect(badgeService.awardBadgeToUser).not.toHaveBeenCalled();
+    });
+
+    it('needs min_events scored events for an average target', async () => {
+      karmaEventModel.findAll.mockResolvedValue([
+        { avg_intensity: 9, event_count: 2 },
+      ]);
+
+      await updateProgress(
+        challenge({
+          metric: ChallengeMetric.AVERAGE_INTENSITY,
+          target: 6,
+          min_events: 3,
+        }),
+      );
+
+      expect(badgeService.awardBadgeToUser).not.toHaveBeenCalled();
+    });
+  });
+
+  it("only updates challenges of the user's current groups", async () => {
+    await service.updateProgress('user-1');
+
+    const [{ include }] = participantModel.findAll.mock.calls[0] as [
+      { include: { where: { group_id: unknown } }[] },
+    ];
+    expect(include[0].where.group_id).toEqual({ [Op.in]: ['group-1'] });
+  });
+
+  it("deletes a group's challenges along with their unearned badges", async () => {
+    challengeModel.findAll.mockResolvedValue([
+      { id: 'challenge-1', badge_id: 'badge-1' },
+      { id: 'challenge-2', badge_id: 'badge-2' },
+    ]);
+
+    await service.removeGroupChallenges('group-1');
+
+    expect(participantModel.destroy).toHaveBeenCalledWith({
+      where: { challenge_id: { [Op.in]: ['challenge-1', 'challenge-2'] } },
+      transaction,
+    });
+    expect(challengeModel.destroy).toHaveBeenCalledWith({
+      where: { id: { [Op.in]: ['challenge-1', 'challenge-2'] } },
+      transaction,
+    });
+    expect(badgeService.deleteUnawardedBadges).toHaveBeenCalledWith(
+      ['badge-1', 'badge-2'],
+      transaction,
+    );
+  });
+});
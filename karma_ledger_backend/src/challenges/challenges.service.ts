@@ -0,0 +1,526 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, WhereOptions, col, fn } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { randomUUID } from 'crypto';
+import {
+  CHALLENGE_BADGE_PREFIX,
+  ChallengeMetric,
+  ChallengeStatus,
+} from 'src/config/challenges';
+import { GroupRole } from 'src/config/group-roles';
+import { MAX_INTENSITY, MIN_INTENSITY } from 'src/config/intensity';
+import { User } from 'src/users/models/users.model';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { Badge } from 'src/dashboard/models/badge.model';
+import { BadgeService } from 'src/dashboard/badge.service';
+import { Group } from 'src/groups/models/group.model';
+import { GroupMembership } from 'src/groups/models/group_membership.model';
+import { GroupsService } from 'src/groups/groups.service';
+import { WeekService } from 'src/week/week.service';
+import { Challenge } from './models/challenge.model';
+import { ChallengeParticipant } from './models/challenge_participant.model';
+import { CreateChallengeDto } from './dto/challenge.dto';
+
+/** Scoring lags behind logging, so ended challenges keep updating for a day */
+const SCORING_GRACE_MS = 86400000;
+
+interface Progress {
+  progress: number | null;
+  event_count: number;
+}
+
+export interface ParticipantProgress extends Progress {
+  completed_at: Date | null;
+  joined_at: Date;
+}
+
+export interface ChallengeSummary {
+  id: string;
+  group: { id: string; name: string };
+  title: string;
+  description: string | null;
+  metric: ChallengeMetric;
+  category: string | null;
+  target: number;
+  min_events: number | null;
+  starts_at: Date;
+  ends_at: Date;
+  status: ChallengeStatus;
+  badge: { code: string; name: string; icon: string };
+  participant_count: number;
+  /** The caller's progress, null until they join */
+  me: ParticipantProgress | null;
+}
+
+export interface ChallengeDetail extends ChallengeSummary {
+  /** Finishers in the order they finished, then everyone else by progress */
+  participants: (ParticipantProgress & { userId: string; username: string })[];
+}
+
+/**
+ * Time-boxed goals for a group's members. Progress is recomputed from the
+ * participant's karma events whenever those change or get scored, and the
+ * challenge's own badge is awarded the first time the target is reached.
+ * Reaching it is for good: later edits don't take the badge away.
+ */
+@Injectable()
+export class ChallengesService {
+  private readonly logger = new Logger(ChallengesService.name);
+
+  constructor(
+    private readonly sequelize: Sequelize,
+    @InjectModel(Challenge) private readonly challengeRepo: typeof Challenge,
+    @InjectModel(ChallengeParticipant)
+    private readonly participantRepo: typeof ChallengeParticipant,
+    @InjectModel(GroupMembership)
+    private readonly membershipRepo: typeof GroupMembership,
+    @InjectModel(KarmaEvent) private readonly karmaEventRepo: typeof KarmaEvent,
+    private readonly groupsService: GroupsService,
+    private readonly badgeService: BadgeService,
+    private readonly weekService: WeekService,
+  ) {}
+
+  /** Group owners and admins set challenges, each with a badge of its own */
+  async createChallenge(
+    userId: string,
+    dto: CreateChallengeDto,
+  ): Promise<ChallengeDetail> {
+    await this.groupsService.requireMembership(
+      dto.group_id,
+      userId,
+      GroupRole.ADMIN,
+    );
+    const startsAt = new Date(dto.starts_at);
+    const endsAt = new Date(dto.ends_at);
+    this.assertValidChallenge(dto, startsAt, endsAt);
+
+    const id = randomUUID();
+    const title = dto.title.trim();
+    await this.sequelize.transaction(async (transaction) => {
+      const badge = await this.badgeService.createBadge(
+        {
+          code: `${CHALLENGE_BADGE_PREFIX}${id}`,
+          name: title,
+          description: `Completed the "${title}" challenge`,
+          icon: '/icons/challenge.png',
+          is_active: true,
+          rule: null,
+        },
+        transaction,
+      );
+      await this.challengeRepo.create(
+        {
+          id,
+          group_id: dto.group_id,
+          badge_id: badge.badge_id,
+          title,
+          description: dto.description?.trim() || null,
+          metric: dto.metric,
+          category:
+            dto.metric === ChallengeMetric.CATEGORY_COUNT ? dto.category : null,
+          target: dto.target,
+          min_events:
+            dto.metric === ChallengeMetric.AVERAGE_INTENSITY
+              ? (dto.min_events ?? null)
+              : null,
+          starts_at: startsAt,
+          ends_at: endsAt,
+        },
+        { transaction },
+      );
+    });
+    return this.getChallenge(id, userId);
+  }
+
+  /** Challenges in the user's groups, newest first */
+  async listChallenges(
+    userId: string,
+    status?: ChallengeStatus,
+    groupId?: string,
+  ): Promise<ChallengeSummary[]> {
+    const groups = await this.groupsService.listUserGroups(userId);
+    if (groupId && !groups.some((group) => group.id === groupId)) {
+      throw new Error(`Group with ID ${groupId} not found`);
+    }
+    const groupNames = new Map(groups.map(({ id, name }) => [id, name]));
+
+    const challenges = await this.challengeRepo.findAll({
+      where: {
+        group_id: groupId ?? { [Op.in]: [...groupNames.keys()] },
+        ...(status && this.statusWhere(status, new Date())),
+      },
+      include: [Badge],
+      order: [['starts_at', 'DESC']],
+    });
+    const ids = challenges.map((challenge) => challenge.id);
+    const counts = await this.countParticipants(ids);
+    const own = await this.participantRepo.findAll({
+      where: { user_id: userId, challenge_id: { [Op.in]: ids } },
+    });
+    const ownByChallenge = new Map(
+      own.map((participant) => [participant.challenge_id, participant]),
+    );
+
+    return challenges.map((challenge) =>
+      this.toSummary(
+        challenge,
+        groupNames.get(challenge.group_id) ?? '',
+        counts.get(challenge.id) ?? 0,
+        ownByChallenge.get(challenge.id),
+      ),
+    );
+  }
+
+  async getChallenge(
+    challengeId: string,
+    userId: string,
+  ): Promise<ChallengeDetail> {
+    const challenge = await this.findVisibleChallenge(challengeId, userId);
+    const participants = await this.participantRepo.findAll({
+      where: { challenge_id: challengeId },
+      include: [{ model: User, attributes: ['user_id', 'username'] }],
+    });
+    const own = participants.find(
+      (participant) => participant.user_id === userId,
+    );
+
+    return {
+      ...this.toSummary(
+        challenge,
+        challenge.group.name,
+        participants.length,
+        own,
+      ),
+      participants: participants
+        .sort((a, b) => this.compareParticipants(a, b))
+        .map((participant) => ({
+          userId: participant.user_id,
+          username: participant.user.username,
+          ...this.toProgress(participant),
+        })),
+    };
+  }
+
+  /** Events already logged in the challenge window count straight away */
+  async joinChallenge(
+    challengeId: string,
+    userId: string,
+  ): Promise<ChallengeDetail> {
+    const challenge = await this.findVisibleChallenge(challengeId, userId);
+    if (challenge.ends_at.getTime() <= Date.now()) {
+      throw new Error('This challenge has ended');
+    }
+    const existing = await this.participantRepo.findOne({
+      where: { challenge_id: challengeId, user_id: userId },
+    });
+    if (existing) throw new Error('You have already joined this challenge');
+
+    const participant = await this.participantRepo.create({
+      challenge_id: challengeId,
+      user_id: userId,
+    });
+    await this.refreshParticipant(challenge, participant);
+    return this.getChallenge(challengeId, userId);
+  }
+
+  /**
+   * Recomputes the user's progress in every started challenge they're in,
+   * as long as they're still in its group
+   */
+  async updateProgress(userId: string): Promise<void> {
+    const now = Date.now();
+    const memberships = await this.membershipRepo.findAll({
+      attributes: ['group_id'],
+      where: { user_id: userId },
+    });
+    const participants = await this.participantRepo.findAll({
+      where: { user_id: userId },
+      include: [
+        {
+          model: Challenge,
+          where: {
+            group_id: {
+              [Op.in]: memberships.map((membership) => membership.group_id),
+            },
+            starts_at: { [Op.lte]: new Date(now) },
+            ends_at: { [Op.gt]: new Date(now - SCORING_GRACE_MS) },
+          },
+          include: [Badge],
+        },
+      ],
+    });
+
+    for (const participant of participants) {
+      await this.refreshParticipant(participant.challenge, participant);
+    }
+  }
+
+  /**
+   * Participants are deleted explicitly, as SQLite doesn't cascade. Badges
+   * someone earned outlive the challenge, the rest are deleted with it.
+   */
+  async removeGroupChallenges(groupId: string): Promise<void> {
+    const challenges = await this.challengeRepo.findAll({
+      attributes: ['id', 'badge_id'],
+      where: { group_id: groupId },
+    });
+    if (challenges.length === 0) return;
+
+    const ids = challenges.map((challenge) => challenge.id);
+    await this.sequelize.transaction(async (transaction) => {
+      await this.participantRepo.destroy({
+        where: { challenge_id: { [Op.in]: ids } },
+        transaction,
+      });
+      await this.challengeRepo.destroy({
+        where: { id: { [Op.in]: ids } },
+        transaction,
+      });
+      await this.badgeService.deleteUnawardedBadges(
+        challenges.map((challenge) => challenge.badge_id),
+        transaction,
+      );
+    });
+    this.logger.log(
+      `Deleted ${ids.length} challenges of deleted group ${groupId}`,
+    );
+  }
+
+  private async refreshParticipant(
+    challenge: Challenge,
+    participant: ChallengeParticipant,
+  ): Promise<void> {
+    const progress = await this.measure(challenge, participant.user_id);
+    const completed =
+      !participant.completed_at && this.isComplete(challenge, progress);
+    await participant.update({
+      ...progress,
+      ...(completed && { completed_at: new Date() }),
+    });
+
+    if (completed) {
+      this.logger.log(
+        `User ${participant.user_id} completed challenge ${challenge.id}`,
+      );
+      await this.badgeService.awardBadgeToUser(
+        participant.user_id,
+        challenge.badge.code,
+      );
+    }
+  }
+
+  private async measure(
+    challenge: Challenge,
+    userId: string,
+  ): Promise<Progress> {
+    const where: WhereOptions<KarmaEvent> = {
+      user_id: userId,
+      occurred_at: {
+        [Op.gte]: challenge.starts_at,
+        [Op.lt]: challenge.ends_at,
+      },
+    };
+
+    switch (challenge.metric) {
+      case ChallengeMetric.EVENT_COUNT:
+      case ChallengeMetric.CATEGORY_COUNT: {
+        const count = await this.karmaEventRepo.count({
+          where: {
+            ...where,
+            ...(challenge.metric === ChallengeMetric.CATEGORY_COUNT && {
+              category: challenge.category,
+            }),
+          },
+        });
+        return { progress: count, event_count: count };
+      }
+      case ChallengeMetric.AVERAGE_INTENSITY: {
+        const [result] = (await this.karmaEventRepo.findAll({
+          attributes: [
+            [fn('AVG', col('intensity')), 'avg_intensity'],
+            [fn('COUNT', col('intensity')), 'event_count'],
+          ],
+          where: { ...where, intensity: { [Op.ne]: null } },
+          raw: true,
+        })) as unknown as {
+          avg_intensity: number | null;
+          event_count: number;
+        }[];
+        return {
+          progress:
+            result?.avg_intensity == null
+              ? null
+              : Math.round(Number(result.avg_intensity) * 100) / 100,
+          event_count: Number(result?.event_count ?? 0),
+        };
+      }
+      case ChallengeMetric.STREAK: {
+        const events = await this.karmaEventRepo.findAll({
+          attributes: ['occurred_at'],
+          where,
+        });
+        const preferences = await this.weekService.getUserPreferences(userId);
+        const days = [
+          ...new Set(
+            events.map((event) =>
+              this.weekService.getDayIndex(event.occurred_at, preferences),
+            ),
+          ),
+        ].sort((a, b) => a - b);
+        return {
+          progress: this.longestRun(days),
+          event_count: events.length,
+        };
+      }
+    }
+  }
+
+  private isComplete(
+    challenge: Challenge,
+    { progress, event_count }: Progress,
+  ): boolean {
+    if (progress === null || progress < challenge.target) return false;
+    return (
+      challenge.metric !== ChallengeMetric.AVERAGE_INTENSITY ||
+      event_count >= (challenge.min_events ?? 1)
+    );
+  }
+
+  /** Length of the longest run of consecutive numbers in sorted `days` */
+  private longestRun(days: number[]): number {
+    let longest = 0;
+    let current = 0;
+    days.forEach((day, i) => {
+      current = i > 0 && day === days[i - 1] + 1 ? current + 1 : 1;
+      longest = Math.max(longest, current);
+    });
+    return longest;
+  }
+
+  private assertValidChallenge(
+    dto: CreateChallengeDto,
+    startsAt: Date,
+    endsAt: Date,
+  ) {
+    if (endsAt <= startsAt) {
+      throw new Error('A challenge has to end after it starts');
+    }
+    if (endsAt.getTime() <= Date.now()) {
+      throw new Error('A challenge has to end in the future');
+    }
+
+    if (dto.metric === ChallengeMetric.AVERAGE_INTENSITY) {
+      if (dto.target < MIN_INTENSITY || dto.target > MAX_INTENSITY) {
+        throw new Error(
+          `The target intensity must be between ${MIN_INTENSITY} and ${MAX_INTENSITY}`,
+        );
+      }
+      return;
+    }
+    if (!Number.isInteger(dto.target) || dto.target < 1) {
+      throw new Error('The target must be a whole number of at least 1');
+    }
+    const days = Math.ceil((endsAt.getTime() - startsAt.getTime()) / 86400000);
+    if (dto.metric === ChallengeMetric.STREAK && dto.target > days) {
+      throw new Error(`A ${days} day challenge can't need a longer streak`);
+    }
+  }
+
+  /** Visible to members of the challenge's group only */
+  private async findVisibleChallenge(
+    challengeId: string,
+    userId: string,
+  ): Promise<Challenge> {
+    const challenge = await this.challengeRepo.findByPk(challengeId, {
+      include: [Group, Badge],
+    });
+    const membership =
+      challenge &&
+      (await this.membershipRepo.findOne({
+        where: { group_id: challenge.group_id, user_id: userId },
+      }));
+    if (!challenge || !membership) {
+      throw new Error(`Challenge with ID ${challengeId} not found`);
+    }
+    return challenge;
+  }
+
+  private async countParticipants(
+    challengeIds: string[],
+  ): Promise<Map<string, number>> {
+    const rows = (await this.participantRepo.count({
+      where: { challenge_id: { [Op.in]: challengeIds } },
+      group: ['challenge_id'],
+    })) as unknown as { challenge_id: string; count: number }[];
+    return new Map(rows.map((row) => [row.challenge_id, Number(row.count)]));
+  }
+
+  private statusWhere(status: ChallengeStatus, now: Date) {
+    switch (status) {
+      case ChallengeStatus.UPCOMING:
+        return { starts_at: { [Op.gt]: now } };
+      case ChallengeStatus.ACTIVE:
+        return { starts_at: { [Op.lte]: now }, ends_at: { [Op.gt]: now } };
+      case ChallengeStatus.ENDED:
+        return { ends_at: { [Op.lte]: now } };
+    }
+  }
+
+  private getStatus(challenge: Challenge, now = Date.now()): ChallengeStatus {
+    if (challenge.starts_at.getTime() > now) return ChallengeStatus.UPCOMING;
+    if (challenge.ends_at.getTime() > now) return ChallengeStatus.ACTIVE;
+    return ChallengeStatus.ENDED;
+  }
+
+  private compareParticipants(
+    a: ChallengeParticipant,
+    b: ChallengeParticipant,
+  ): number {
+    if (a.completed_at && b.completed_at) {
+      return a.completed_at.getTime() - b.completed_at.getTime();
+    }
+    if (a.completed_at || b.completed_at) return a.completed_at ? -1 : 1;
+    return (
+      (b.progress ?? -Infinity) - (a.progress ?? -Infinity) ||
+      b.event_count - a.event_count
+    );
+  }
+
+  private toProgress(participant: ChallengeParticipant): ParticipantProgress {
+    return {
+      progress: participant.progress,
+      event_count: participant.event_count,
+      completed_at: participant.completed_at,
+      joined_at: participant.createdAt as Date,
+    };
+  }
+
+  private toSummary(
+    challenge: Challenge,
+    groupName: string,
+    participantCount: number,
+    own: ChallengeParticipant | undefined,
+  ): ChallengeSummary {
+    return {
+      id: challenge.id,
+      group: { id: challenge.group_id, name: groupName },
+      title: challenge.title,
+      description: challenge.description,
+      metric: challenge.metric,
+      category: challenge.category,
+      target: challenge.target,
+      min_events: challenge.min_events,
+      starts_at: challenge.starts_at,
+      ends_at: challenge.ends_at,
+      status: this.getStatus(challenge),
+      badge: {
+        code: challenge.badge.code,
+        name: challenge.badge.name,
+        icon: challenge.badge.icon,
+      },
+      participant_count: participantCount,
+      me: own ? this.toProgress(own) : null,
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { KarmaCategory } from 'src/config/categories';
+import { ChallengeMetric, ChallengeStatus } from 'src/config/challenges';
+
+export const MAX_CHALLENGE_TITLE_LENGTH = 80;
+export const MAX_CHALLENGE_DESCRIPTION_LENGTH = 500;
+
+export class CreateChallengeDto {
+  @ApiProperty({ description: 'The group the challenge is for' })
+  @IsUUID()
+  group_id: string;
+
+  @ApiProperty({ example: 'Community fortnight' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_CHALLENGE_TITLE_LENGTH)
+  title: string;
+
+  @ApiPropertyOptional({ example: 'Log 10 community actions in 14 days' })
+  @IsString()
+  @MaxLength(MAX_CHALLENGE_DESCRIPTION_LENGTH)
+  @IsOptional()
+  description?: string | null;
+
+  @ApiProperty({ enum: ChallengeMetric })
+  @IsEnum(ChallengeMetric)
+  metric: ChallengeMetric;
+
+  @ApiPropertyOptional({
+    enum: KarmaCategory,
+    description: 'Required for category_count challenges',
+  })
+  @ValidateIf(
+    (dto: CreateChallengeDto) => dto.metric === ChallengeMetric.CATEGORY_COUNT,
+  )
+  @IsEnum(KarmaCategory)
+  category?: KarmaCategory;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Events, average intensity or streak days, by metric',
+  })
+  @IsNumber()
+  target: number;
+
+  @ApiPropertyOptional({
+    example: 5,
+    description:
+      'Scored events needed to complete an average_intensity challenge',
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  min_events?: number;
+
+  @ApiProperty({ example: '2026-11-01T00:00:00.000Z' })
+  @IsDateString()
+  starts_at: string;
+
+  @ApiProperty({
+    example: '2026-11-15T00:00:00.000Z',
+    description: 'Exclusive',
+  })
+  @IsDateString()
+  ends_at: string;
+}
+
+export class ListChallengesQueryDto {
+  @ApiPropertyOptional({ enum: ChallengeStatus })
+  @IsEnum(ChallengeStatus)
+  @IsOptional()
+  status?: ChallengeStatus;
+
+  @ApiPropertyOptional()
+  @IsUUID()
+  @IsOptional()
+  group_id?: string;
+}
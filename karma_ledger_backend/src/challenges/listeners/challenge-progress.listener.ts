@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DomainEventPayload, DomainEvents } from 'src/config/events';
+import { ChallengesService } from '../challenges.service';
+
+/** Keeps challenge progress in step with the participants' karma events */
+@Injectable()
+export class ChallengeProgressListener {
+  constructor(private readonly challengesService: ChallengesService) {}
+
+  @OnEvent(DomainEvents.KARMA_CREATED)
+  @OnEvent(DomainEvents.KARMA_UPDATED)
+  @OnEvent(DomainEvents.KARMA_SCORED)
+  @OnEvent(DomainEvents.KARMA_DELETED)
+  @OnEvent(DomainEvents.USER_WEEK_SETTINGS_CHANGED)
+  async handleKarmaChanged({ userId }: DomainEventPayload) {
+    await this.challengesService.updateProgress(userId);
+  }
+
+  @OnEvent(DomainEvents.GROUP_DELETED)
+  async handleGroupDeleted({ groupId }: DomainEventPayload) {
+    if (groupId) await this.challengesService.removeGroupChallenges(groupId);
+  }
+}
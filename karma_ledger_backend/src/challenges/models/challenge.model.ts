@@ -0,0 +1,71 @@
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  Default,
+  ForeignKey,
+  HasMany,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+import { ChallengeMetric } from 'src/config/challenges';
+import { KarmaCategory } from 'src/config/categories';
+import { Badge } from 'src/dashboard/models/badge.model';
+import { Group } from 'src/groups/models/group.model';
+import { ChallengeParticipant } from './challenge_participant.model';
+
+/** A goal a group's members race to reach between `starts_at` and `ends_at` */
+@Table({ tableName: 'challenges', timestamps: true })
+export class Challenge extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => Group)
+  @Column(DataType.UUID)
+  group_id: string;
+
+  /** Awarded to every participant who reaches the target */
+  @ForeignKey(() => Badge)
+  @Column(DataType.UUID)
+  badge_id: string;
+
+  @Column(DataType.STRING)
+  title: string;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  description: string | null;
+
+  @Column(DataType.STRING)
+  metric: ChallengeMetric;
+
+  /** Only set for CATEGORY_COUNT challenges */
+  @Column({ type: DataType.STRING, allowNull: true })
+  category: KarmaCategory | null;
+
+  /** Events, average intensity or streak days, depending on `metric` */
+  @Column(DataType.FLOAT)
+  target: number;
+
+  /** Scored events needed before an AVERAGE_INTENSITY challenge can be completed */
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  min_events: number | null;
+
+  @Column(DataType.DATE)
+  starts_at: Date;
+
+  /** Exclusive */
+  @Column(DataType.DATE)
+  ends_at: Date;
+
+  @BelongsTo(() => Group)
+  group: Group;
+
+  @BelongsTo(() => Badge)
+  badge: Badge;
+
+  @HasMany(() => ChallengeParticipant)
+  participants: ChallengeParticipant[];
+}
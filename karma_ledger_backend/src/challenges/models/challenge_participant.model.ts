@@ -0,0 +1,51 @@
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+import { Challenge } from './challenge.model';
+
+/** A user taking part in a challenge; `createdAt` is when they joined */
+@Table({
+  tableName: 'challenge_participants',
+  timestamps: true,
+  indexes: [{ unique: true, fields: ['challenge_id', 'user_id'] }],
+})
+export class ChallengeParticipant extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => Challenge)
+  @Column(DataType.UUID)
+  challenge_id: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  /** Measured in the challenge's metric; null until there is anything to average */
+  @Column({ type: DataType.FLOAT, allowNull: true })
+  progress: number | null;
+
+  /** Events that counted towards the challenge */
+  @Column({ type: DataType.INTEGER, defaultValue: 0 })
+  event_count: number;
+
+  /** Set once the target is first reached; never cleared */
+  @Column({ type: DataType.DATE, allowNull: true })
+  completed_at: Date | null;
+
+  @BelongsTo(() => Challenge)
+  challenge: Challenge;
+
+  @BelongsTo(() => User)
+  user: User;
+}
@@ -0,0 +1,13 @@
+/** Life areas a karma event can be filed under */
+export enum KarmaCategory {
+  FAMILY = 'family',
+  FRIENDS = 'friends',
+  WORK = 'work',
+  COMMUNITY = 'community',
+  HEALTH = 'health',
+  ENVIRONMENT = 'environment',
+  PERSONAL_GROWTH = 'personal_growth',
+  OTHER = 'other',
+}
+
+export const KARMA_CATEGORIES = Object.values(KarmaCategory);
@@ -0,0 +1,20 @@
+/** What a challenge measures over its window */
+export enum ChallengeMetric {
+  /** Karma events logged */
+  EVENT_COUNT = 'event_count',
+  /** Karma events logged in the challenge's category */
+  CATEGORY_COUNT = 'category_count',
+  /** Average intensity of the scored events */
+  AVERAGE_INTENSITY = 'average_intensity',
+  /** Longest run of consecutive days with an event, in the user's timezone */
+  STREAK = 'streak',
+}
+
+export enum ChallengeStatus {
+  UPCOMING = 'upcoming',
+  ACTIVE = 'active',
+  ENDED = 'ended',
+}
+
+/** Codes of the badges created for challenges start with this */
+export const CHALLENGE_BADGE_PREFIX = 'challenge_';
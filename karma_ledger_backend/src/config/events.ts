@@ -4,12 +4,52 @@ export enum BadgeCode {
   KARMA_5 = 'karma_5',
   WEEKLY_CHECKIN_3 = 'weekly_checkin_3',
   TOP10 = 'top10_leaderboard',
+  STREAK_7 = 'streak_7',
+  STREAK_30 = 'streak_30',
+  STREAK_100 = 'streak_100',
 }
 
-export enum BadgeEvents {
-  FIRST_ACTION = 'karma.first_action',
-  FIRST_SUGGESTION = 'suggestion.received',
-  KARMA_5 = 'karma.count_reached_5',
-  WEEKLY_CHECKIN_3 = 'karma.weekly_checkin_3',
-  TOP10_RANKED = 'leaderboard.top10',
+/**
+ * Domain events emitted by the services. Badges are no longer tied to a
+ * specific event: the BadgeRuleEngine re-evaluates badge rules on these.
+ */
+export enum DomainEvents {
+  KARMA_CREATED = 'karma.created',
+  KARMA_UPDATED = 'karma.updated',
+  KARMA_SCORED = 'karma.scored',
+  KARMA_FEEDBACK_FAILED = 'karma.feedback_failed',
+  KARMA_DELETED = 'karma.deleted',
+  ACTIVE_WEEKS_CHANGED = 'karma.active_weeks_changed',
+  STREAK_UPDATED = 'streak.updated',
+  STREAK_MILESTONE = 'streak.milestone',
+  SUGGESTIONS_CREATED = 'suggestion.created',
+  BADGE_AWARDED = 'badge.awarded',
+  /** The user's timezone or week start changed, moving day and week boundaries */
+  USER_WEEK_SETTINGS_CHANGED = 'user.week_settings_changed',
+  LEADERBOARD_RANKED = 'leaderboard.ranked',
+  DATA_EXPORT_READY = 'data_export.ready',
+  USER_DELETED = 'user.deleted',
+  USER_SUSPENDED = 'user.suspended',
+  GROUP_DELETED = 'group.deleted',
 }
+
+export interface DomainEventPayload {
+  userId: string;
+  /** The karma event concerned, set for KARMA_SCORED and KARMA_FEEDBACK_FAILED */
+  eventId?: string;
+  /** The finished archive, only set for DATA_EXPORT_READY */
+  exportId?: string;
+  /** The badge awarded, only set for BADGE_AWARDED */
+  badgeCode?: string;
+  /** Leaderboard position, only set for LEADERBOARD_RANKED */
+  rank?: number;
+  /** Distinct active calendar weeks, only set for ACTIVE_WEEKS_CHANGED */
+  distinctWeeks?: number;
+  /** Current daily streak, set for STREAK_UPDATED and STREAK_MILESTONE */
+  streakDays?: number;
+  /** The deleted group, only set for GROUP_DELETED */
+  groupId?: string;
+}
+
+/** Daily streak lengths that emit STREAK_MILESTONE when first reached */
+export const STREAK_MILESTONES = [7, 30, 100];
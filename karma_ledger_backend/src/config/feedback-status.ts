@@ -0,0 +1,8 @@
+/** Progress of a karma event's AI scoring */
+export enum FeedbackStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  DONE = 'done',
+  /** Retries ran out or the failure was permanent; the user can retry */
+  FAILED = 'failed',
+}
@@ -0,0 +1,8 @@
+/** A member's role within a group, from most to least privileged */
+export enum GroupRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
+
+export const GROUP_ROLES = Object.values(GroupRole);
@@ -0,0 +1,25 @@
+/** Range of the karma intensity score, shared by the AI and user overrides */
+export const MIN_INTENSITY = -1;
+export const MAX_INTENSITY = 10;
+
+/** Maps an average intensity onto the 0-100 karma score */
+export const toKarmaScore = (avgIntensity: number | string): number =>
+  Math.round(
+    ((Number(avgIntensity) - MIN_INTENSITY) / (MAX_INTENSITY - MIN_INTENSITY)) *
+      100,
+  );
+
+/**
+ * How a user's self-assessed intensity combines with the AI's score into
+ * the effective intensity that scores and leaderboards use.
+ */
+export enum IntensityOverridePolicy {
+  /** Overrides are recorded but the AI score always counts */
+  AI_ONLY = 'ai_only',
+  /** The user's score replaces the AI's */
+  USER = 'user',
+  /** The user's score counts, but within INTENSITY_OVERRIDE_MAX_DEVIATION of the AI's */
+  CAPPED = 'capped',
+  /** The rounded mean of both scores */
+  AVERAGE = 'average',
+}
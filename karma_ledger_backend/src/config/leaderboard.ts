@@ -0,0 +1,7 @@
+/** The window a leaderboard ranks users over */
+export enum LeaderboardPeriod {
+  WEEK = 'week',
+  MONTH = 'month',
+  YEAR = 'year',
+  ALL = 'all',
+}
@@ -1,5 +1,53 @@
+import { DefaultJobOptions } from 'bullmq';
+
 export const QueueNames = {
   KARMA_FEEDBACK: 'karma_feedback',
   KARMA_SUGGESTION: 'karma_suggestion',
   BADGE_EVENT: 'badge_event',
+  DATA_EXPORT: 'data_export',
+  ACCOUNT_DELETION: 'account_deletion',
+  SUGGESTION_SCHEDULER: 'suggestion_scheduler',
+  LEADERBOARD_SNAPSHOT: 'leaderboard_snapshot',
+  /** Jobs that failed for good, parked for inspection (no worker) */
+  DEAD_LETTER: 'dead_letter',
+};
+
+/**
+ * Default options for jobs added to each queue. AI queues retry with
+ * exponential backoff; failed jobs are kept a while for inspection.
+ */
+export const QueueJobOptions: Record<string, DefaultJobOptions> = {
+  [QueueNames.KARMA_FEEDBACK]: {
+    attempts: 5,
+    backoff: { type: 'exponential', delay: 15000 },
+    removeOnComplete: 1000,
+    removeOnFail: 5000,
+  },
+  [QueueNames.KARMA_SUGGESTION]: {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 30000 },
+    removeOnComplete: 100,
+    removeOnFail: 1000,
+  },
+  [QueueNames.DATA_EXPORT]: {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 60000 },
+    removeOnComplete: 100,
+    removeOnFail: 1000,
+  },
+  [QueueNames.ACCOUNT_DELETION]: {
+    removeOnComplete: 100,
+    removeOnFail: 1000,
+  },
+  [QueueNames.SUGGESTION_SCHEDULER]: {
+    removeOnComplete: 100,
+    removeOnFail: 1000,
+  },
+  [QueueNames.LEADERBOARD_SNAPSHOT]: {
+    removeOnComplete: 100,
+    removeOnFail: 1000,
+  },
+  [QueueNames.DEAD_LETTER]: {
+    removeOnComplete: true,
+  },
 };
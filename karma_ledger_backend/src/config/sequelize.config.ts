@@ -15,7 +15,8 @@ export const getSequelizeConfig = (
       password: configService.get<string>('DB_PASSWORD'),
       database: configService.get<string>('DB_NAME'),
       autoLoadModels: true,
-      synchronize: true,
+      // Schema changes go through src/database/migrations
+      synchronize: false,
       logging: false,
       dialectOptions: {
         ssl: {
@@ -30,7 +31,7 @@ export const getSequelizeConfig = (
     dialect: 'sqlite',
     storage: configService.get<string>('SQLITE_STORAGE') || 'db.sqlite',
     autoLoadModels: true,
-    synchronize: true,
+    synchronize: false,
     logging: true,
   };
 };
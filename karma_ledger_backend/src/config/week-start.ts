@@ -0,0 +1,15 @@
+/** The day a week begins on, for users and for the leaderboard league */
+export enum WeekStart {
+  MONDAY = 'monday',
+  SUNDAY = 'sunday',
+  SATURDAY = 'saturday',
+}
+
+export const WEEK_STARTS = Object.values(WeekStart);
+
+/** Day of the week each start falls on, with Sunday = 0 as in Date#getDay */
+export const WEEK_START_DAYS: Record<WeekStart, number> = {
+  [WeekStart.MONDAY]: 1,
+  [WeekStart.SUNDAY]: 0,
+  [WeekStart.SATURDAY]: 6,
+};
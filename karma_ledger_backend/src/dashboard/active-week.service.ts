@@ -0,0 +1,133 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Op } from 'sequelize';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { DomainEvents } from 'src/config/events';
+import { WeekService } from 'src/week/week.service';
+import { UserActiveWeek } from './models/user_active_week.model';
+
+/**
+ * Tracks the distinct weeks, in the user's timezone and week start, in
+ * which each user logged karma, so week-based badges (e.g. Weekly Warrior)
+ * don't rescan every event.
+ */
+@Injectable()
+export class ActiveWeekService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ActiveWeekService.name);
+
+  constructor(
+    @InjectModel(UserActiveWeek)
+    private readonly activeWeekRepo: typeof UserActiveWeek,
+
+    @InjectModel(KarmaEvent)
+    private readonly karmaEventRepo: typeof KarmaEvent,
+
+    private readonly eventEmitter: EventEmitter2,
+    private readonly weekService: WeekService,
+  ) {}
+
+  /** Runs after listeners are registered so backfilled users get their badges */
+  onApplicationBootstrap() {
+    this.backfill().catch((error: Error) =>
+      this.logger.error(`Active week backfill failed: ${error.message}`),
+    );
+  }
+
+  async countDistinctWeeks(userId: string): Promise<number> {
+    return this.activeWeekRepo.count({ where: { user_id: userId } });
+  }
+
+  /** Records the week of a newly logged event */
+  async recordActivity(userId: string, occurredAt: Date): Promise<void> {
+    const { start } = this.weekService.getWeek(
+      occurredAt,
+      await this.weekService.getUserPreferences(userId),
+    );
+    const [, created] = await this.activeWeekRepo.findOrCreate({
+      where: { user_id: userId, week_start: start },
+    });
+
+    if (created) {
+      this.emitChanged(userId, await this.countDistinctWeeks(userId));
+    }
+  }
+
+  /**
+   * Rebuilds a user's active weeks from their events, e.g. after edits,
+   * deletes or a change of timezone or week start
+   */
+  async syncUser(userId: string): Promise<void> {
+    const preferences = await this.weekService.getUserPreferences(userId);
+    const events = await this.karmaEventRepo.findAll({
+      where: { user_id: userId },
+      attributes: ['occurred_at'],
+    });
+    const weekStarts = new Map<number, Date>();
+    for (const event of events) {
+      const { start } = this.weekService.getWeek(
+        event.occurred_at,
+        preferences,
+      );
+      weekStarts.set(start.getTime(), start);
+    }
+
+    const existing = await this.activeWeekRepo.findAll({
+      where: { user_id: userId },
+    });
+    const existingTimes = new Set(
+      existing.map((week) => new Date(week.week_start).getTime()),
+    );
+
+    const stale = existing.filter(
+      (week) => !weekStarts.has(new Date(week.week_start).getTime()),
+    );
+    const missing = [...weekStarts.entries()]
+      .filter(([time]) => !existingTimes.has(time))
+      .map(([, start]) => ({ user_id: userId, week_start: start }));
+
+    if (stale.length > 0) {
+      await this.activeWeekRepo.destroy({
+        where: { id: { [Op.in]: stale.map((week) => week.id) } },
+      });
+    }
+    if (missing.length > 0) {
+      await this.activeWeekRepo.bulkCreate(missing);
+    }
+
+    if (stale.length > 0 || missing.length > 0) {
+      this.emitChanged(userId, weekStarts.size);
+    }
+  }
+
+  /** Builds the tracking rows for users who logged events before it existed */
+  async backfill(): Promise<void> {
+    const tracked = await this.activeWeekRepo.findAll({
+      attributes: ['user_id'],
+      group: ['user_id'],
+      raw: true,
+    });
+    const untracked = (await this.karmaEventRepo.findAll({
+      attributes: ['user_id'],
+      where: {
+        user_id: { [Op.notIn]: tracked.map((row) => row.user_id) },
+      },
+      group: ['user_id'],
+      raw: true,
+    })) as unknown as { user_id: string }[];
+
+    if (untracked.length === 0) return;
+
+    this.logger.log(`Backfilling active weeks for ${untracked.length} users`);
+    for (const { user_id } of untracked) {
+      await this.syncUser(user_id);
+    }
+  }
+
+  private emitChanged(userId: string, distinctWeeks: number) {
+    this.eventEmitter.emit(DomainEvents.ACTIVE_WEEKS_CHANGED, {
+      userId,
+      distinctWeeks,
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/sequelize';
+import { DomainEvents } from 'src/config/events';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { Badge } from './models/badge.model';
+import { Suggestion } from './models/suggestion.model';
+import { BadgeService } from './badge.service';
+import { ActiveWeekService } from './active-week.service';
+import { StreakService } from './streak.service';
+import { BadgeRule } from './badge-rule.types';
+import { BadgeRuleEngine } from './badge-rule.engine';
+
+const badge = (code: string, rule: BadgeRule) => ({ code, rule });
+
+describe('BadgeRuleEngine', () => {
+  let engine: BadgeRuleEngine;
+  const badgeModel = { findAll: jest.fn() };
+  const karmaEventModel = { count: jest.fn() };
+  const badgeService = {
+    awardBadgeToUser: jest.fn(),
+    revokeBadgeFromUser: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    badgeModel.findAll.mockResolvedValue([
+      badge('TOP_10', { type: 'leaderboard_rank', max_rank: 10 }),
+      badge('FIRST_STEPS', { type: 'event_count', min: 1 }),
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BadgeRuleEngine,
+        { provide: getModelToken(Badge), useValue: badgeModel },
+        { provide: getModelToken(KarmaEvent), useValue: karmaEventModel },
+        { provide: getModelToken(Suggestion), useValue: {} },
+        { provide: BadgeService, useValue: badgeService },
+        { provide: ActiveWeekService, useValue: {} },
+        { provide: StreakService, useValue: {} },
+      ],
+    }).compile();
+    engine = module.get(BadgeRuleEngine);
+  });
+
+  it('awards leaderboard badges to finishers within max_rank', async () => {
+    await engine.evaluate(DomainEvents.LEADERBOARD_RANKED, {
+      userId: 'user-1',
+      rank: 10,
+    });
+
+    expect(badgeService.awardBadgeToUser).toHaveBeenCalledTimes(1);
+    expect(badgeService.awardBadgeToUser).toHaveBeenCalledWith(
+      'user-1',
+      'TOP_10',
+    );
+    // Rules other events drive are left alone
+    expect(karmaEventModel.count).not.toHaveBeenCalled();
+  });
+
+  it('awards nothing below max_rank, or without a rank', async () => {
+    await engine.evaluate(DomainEvents.LEADERBOARD_RANKED, {
+      userId: 'user-1',
+      rank: 11,
+    });
+    await engine.evaluate(DomainEvents.LEADERBOARD_RANKED, {
+      userId: 'user-1',
+    });
+
+    expect(badgeService.awardBadgeToUser).not.toHaveBeenCalled();
+    expect(badgeService.revokeBadgeFromUser).not.toHaveBeenCalled();
+  });
+
+  it('keeps leaderboard badges out of other events', async () => {
+    karmaEventModel.count.mockResolvedValue(1);
+
+    await engine.evaluate(DomainEvents.KARMA_CREATED, {
+      userId: 'user-1',
+      rank: 1,
+    });
+
+    expect(badgeService.awardBadgeToUser).toHaveBeenCalledTimes(1);
+    expect(badgeService.awardBadgeToUser).toHaveBeenCalledWith(
+      'user-1',
+      'FIRST_STEPS',
+    );
+  });
+});
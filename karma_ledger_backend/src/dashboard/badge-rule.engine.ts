@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, fn, col } from 'sequelize';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { DomainEventPayload, DomainEvents } from 'src/config/events';
+import { Badge } from './models/badge.model';
+import { Suggestion } from './models/suggestion.model';
+import { BadgeService } from './badge.service';
+import { ActiveWeekService } from './active-week.service';
+import { StreakService } from './streak.service';
+import { BadgeRule, BadgeRuleType } from './badge-rule.types';
+
+/** Which domain events can change the outcome of each rule type */
+const RULE_TRIGGERS: Record<BadgeRuleType, DomainEvents[]> = {
+  event_count: [DomainEvents.KARMA_CREATED, DomainEvents.KARMA_DELETED],
+  distinct_weeks: [DomainEvents.ACTIVE_WEEKS_CHANGED],
+  average_intensity: [
+    DomainEvents.KARMA_SCORED,
+    DomainEvents.KARMA_UPDATED,
+    DomainEvents.KARMA_DELETED,
+  ],
+  streak: [DomainEvents.STREAK_UPDATED],
+  suggestion_count: [DomainEvents.SUGGESTIONS_CREATED],
+  leaderboard_rank: [DomainEvents.LEADERBOARD_RANKED],
+};
+
+@Injectable()
+export class BadgeRuleEngine {
+  private readonly logger = new Logger(BadgeRuleEngine.name);
+
+  constructor(
+    @InjectModel(Badge) private readonly badgeRepo: typeof Badge,
+    @InjectModel(KarmaEvent) private readonly karmaEventRepo: typeof KarmaEvent,
+    @InjectModel(Suggestion) private readonly suggestionRepo: typeof Suggestion,
+    private readonly badgeService: BadgeService,
+    private readonly activeWeekService: ActiveWeekService,
+    private readonly streakService: StreakService,
+  ) {}
+
+  /** Awards (or revokes) every active badge whose rule depends on `trigger` */
+  async evaluate(
+    trigger: DomainEvents,
+    payload: DomainEventPayload,
+  ): Promise<void> {
+    const badges = await this.badgeRepo.findAll({ where: { is_active: true } });
+
+    for (const badge of badges) {
+      const rule = badge.rule;
+      if (!rule) continue;
+
+      const triggers = RULE_TRIGGERS[rule.type];
+      if (!triggers) {
+        this.logger.warn(
+          `Badge ${badge.code} has unknown rule type "${String(rule.type)}"`,
+        );
+        continue;
+      }
+      if (!triggers.includes(trigger)) continue;
+
+      const met = await this.isRuleMet(rule, payload);
+      if (met) {
+        await this.badgeService.awardBadgeToUser(payload.userId, badge.code);
+      } else if (rule.revoke_when_unmet) {
+        await this.badgeService.revokeBadgeFromUser(payload.userId, badge.code);
+      }
+    }
+  }
+
+  private async isRuleMet(
+    rule: BadgeRule,
+    { userId, rank, distinctWeeks, streakDays }: DomainEventPayload,
+  ): Promise<boolean> {
+    switch (rule.type) {
+      case 'event_count':
+        return (
+          (await this.karmaEventRepo.count({ where: { user_id: userId } })) >=
+          rule.min
+        );
+      case 'distinct_weeks':
+        return (
+          (distinctWeeks ??
+            (await this.activeWeekService.countDistinctWeeks(userId))) >=
+          rule.min
+        );
+      case 'average_intensity':
+        return this.isAverageIntensityMet(userId, rule);
+      case 'streak':
+        return (
+          (streakDays ??
+            (await this.streakService.getCurrentDailyStreak(userId))) >=
+          rule.min_days
+        );
+      case 'suggestion_count':
+        return (
+          (await this.suggestionRepo.count({ where: { user_id: userId } })) >=
+          rule.min
+        );
+      case 'leaderboard_rank':
+        return rank !== undefined && rank <= rule.max_rank;
+    }
+  }
+
+  private async isAverageIntensityMet(
+    userId: string,
+    rule: Extract<BadgeRule, { type: 'average_intensity' }>,
+  ): Promise<boolean> {
+    const since = new Date(Date.now() - rule.window_days * 86400000);
+    const [result] = (await this.karmaEventRepo.findAll({
+      attributes: [
+        [fn('AVG', col('intensity')), 'avg_intensity'],
+        [fn('COUNT', col('intensity')), 'event_count'],
+      ],
+      where: {
+        user_id: userId,
+        intensity: { [Op.ne]: null },
+        occurred_at: { [Op.gte]: since },
+      },
+      raw: true,
+    })) as unknown as { avg_intensity: number | null; event_count: number }[];
+
+    if (!result || result.avg_intensity === null) return false;
+    return (
+      Number(result.event_count) >= (rule.min_events ?? 1) &&
+      Number(result.avg_intensity) >= rule.min
+    );
+  }
+}
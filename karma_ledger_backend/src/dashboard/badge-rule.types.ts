@@ -0,0 +1,107 @@
+/**
+ * Declarative badge criteria stored on `Badge.rule`. Adding a badge only
+ * requires a new row with one of these rules, no code changes.
+ */
+export type BadgeRule =
+  | EventCountRule
+  | DistinctWeeksRule
+  | AverageIntensityRule
+  | LeaderboardRankRule
+  | StreakRule
+  | SuggestionCountRule;
+
+interface BaseRule {
+  /** Take the badge away again once the criteria are no longer met */
+  revoke_when_unmet?: boolean;
+}
+
+/** Total number of karma events logged */
+export interface EventCountRule extends BaseRule {
+  type: 'event_count';
+  min: number;
+}
+
+/** Number of distinct calendar weeks (Mon-Sun) with at least one event */
+export interface DistinctWeeksRule extends BaseRule {
+  type: 'distinct_weeks';
+  min: number;
+}
+
+/** Average AI intensity of the events logged in the last `window_days` */
+export interface AverageIntensityRule extends BaseRule {
+  type: 'average_intensity';
+  min: number;
+  window_days: number;
+  min_events?: number;
+}
+
+/** Position on the weekly leaderboard */
+export interface LeaderboardRankRule extends BaseRule {
+  type: 'leaderboard_rank';
+  max_rank: number;
+}
+
+/** Current daily streak as tracked by StreakService (freezes included) */
+export interface StreakRule extends BaseRule {
+  type: 'streak';
+  min_days: number;
+}
+
+/** Number of AI suggestions currently held by the user */
+export interface SuggestionCountRule extends BaseRule {
+  type: 'suggestion_count';
+  min: number;
+}
+
+export type BadgeRuleType = BadgeRule['type'];
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** Returns why a rule submitted through the admin API is invalid, or null */
+export const validateBadgeRule = (rule: unknown): string | null => {
+  if (typeof rule !== 'object' || rule === null) {
+    return 'Rule must be an object';
+  }
+
+  const candidate = rule as Record<string, unknown>;
+  if (
+    candidate.revoke_when_unmet !== undefined &&
+    typeof candidate.revoke_when_unmet !== 'boolean'
+  ) {
+    return 'revoke_when_unmet must be a boolean';
+  }
+
+  switch (candidate.type) {
+    case 'event_count':
+    case 'distinct_weeks':
+    case 'suggestion_count':
+      return isNonNegativeNumber(candidate.min)
+        ? null
+        : `${candidate.type} rules need a non-negative "min"`;
+    case 'average_intensity':
+      if (typeof candidate.min !== 'number') {
+        return 'average_intensity rules need a numeric "min"';
+      }
+      if (!isNonNegativeNumber(candidate.window_days)) {
+        return 'average_intensity rules need a non-negative "window_days"';
+      }
+      if (
+        candidate.min_events !== undefined &&
+        !isNonNegativeNumber(candidate.min_events)
+      ) {
+        return '"min_events" must be a non-negative number';
+      }
+      return null;
+    case 'leaderboard_rank':
+      return isNonNegativeNumber(candidate.max_rank)
+        ? null
+        : 'leaderboard_rank rules need a non-negative "max_rank"';
+    case 'streak':
+      return isNonNegativeNumber(candidate.min_days)
+        ? null
+        : 'streak rules need a non-negative "min_days"';
+    default:
+      return `Unknown rule type "${String(candidate.type)}"`;
+  }
+};
@@ -1,7 +1,20 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Op, Transaction } from 'sequelize';
+import { DomainEvents } from 'src/config/events';
 import { UserBadge } from 'src/users/models/user_badges.model';
 import { Badge } from './models/badge.model';
+import { BadgeRule, validateBadgeRule } from './badge-rule.types';
+
+export interface BadgeDefinitionInput {
+  code: string;
+  name: string;
+  description: string;
+  icon: string;
+  is_active?: boolean;
+  rule: BadgeRule | null;
+}
 
 @Injectable()
 export class BadgeService {
@@ -10,6 +23,7 @@ export class BadgeService {
   constructor(
     @InjectModel(UserBadge) private userBadgeRepo: typeof UserBadge,
     @InjectModel(Badge) private badgeRepo: typeof Badge,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   async awardBadgeToUser(userId: string, badgeCode: string): Promise<void> {
@@ -34,5 +48,88 @@ export class BadgeService {
     });
 
     this.logger.log(`🎖️ Awarded badge "${badge.name}" to user ${userId}`);
+    this.eventEmitter.emit(DomainEvents.BADGE_AWARDED, {
+      userId,
+      badgeCode,
+    });
+  }
+
+  async revokeBadgeFromUser(userId: string, badgeCode: string): Promise<void> {
+    const badge = await this.badgeRepo.findOne({ where: { code: badgeCode } });
+    if (!badge) {
+      this.logger.warn(`Badge ${badgeCode} not found`);
+      return;
+    }
+
+    const removed = await this.userBadgeRepo.destroy({
+      where: { user_id: userId, badge_id: badge.badge_id },
+    });
+
+    if (removed > 0) {
+      this.logger.log(`Revoked badge "${badge.name}" from user ${userId}`);
+    }
+  }
+
+  /** Every badge definition, including inactive ones */
+  async listBadges(): Promise<Badge[]> {
+    return this.badgeRepo.findAll({ order: [['code', 'ASC']] });
+  }
+
+  async createBadge(
+    input: BadgeDefinitionInput,
+    transaction?: Transaction,
+  ): Promise<Badge> {
+    this.assertValidRule(input.rule);
+    const existing = await this.badgeRepo.findOne({
+      where: { code: input.code },
+      transaction,
+    });
+    if (existing) {
+      throw new Error(`Badge with code ${input.code} already exists`);
+    }
+    return this.badgeRepo.create({ ...input }, { transaction });
+  }
+
+  /** Deletes the given badge definitions, except those already awarded */
+  async deleteUnawardedBadges(
+    badgeIds: string[],
+    transaction?: Transaction,
+  ): Promise<number> {
+    if (badgeIds.length === 0) return 0;
+    const awarded = await this.userBadgeRepo.findAll({
+      attributes: ['badge_id'],
+      where: { badge_id: { [Op.in]: badgeIds } },
+      transaction,
+    });
+    const keep = new Set(awarded.map((userBadge) => userBadge.badge_id));
+    return this.badgeRepo.destroy({
+      where: {
+        badge_id: { [Op.in]: badgeIds.filter((id) => !keep.has(id)) },
+      },
+      transaction,
+    });
+  }
+
+  /** Codes are referenced by awarded badges and listeners, so they can't change */
+  async updateBadge(
+    badgeId: string,
+    changes: Partial<Omit<BadgeDefinitionInput, 'code'>>,
+  ): Promise<Badge> {
+    const badge = await this.badgeRepo.findByPk(badgeId);
+    if (!badge) {
+      throw new Error(`Badge with ID ${badgeId} not found`);
+    }
+    if (changes.rule !== undefined) {
+      this.assertValidRule(changes.rule);
+    }
+    return badge.update(changes);
+  }
+
+  private assertValidRule(rule: BadgeRule | null) {
+    if (rule === null) return;
+    const problem = validateBadgeRule(rule);
+    if (problem) {
+      throw new Error(`Invalid badge rule: ${problem}`);
+    }
   }
 }
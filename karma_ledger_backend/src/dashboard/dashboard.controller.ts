@@ -1,23 +1,39 @@
-import { Controller, Get, Request, Patch, Param } from '@nestjs/common';
+import { Controller, Get, Request, Patch, Param, Query } from '@nestjs/common';
 import { DashboardService } from './dashboard.service';
+import { LeaderboardService } from './leaderboard.service';
+import { LeaderboardSnapshotService } from './leaderboard-snapshot.service';
+import { StreakService } from './streak.service';
 import { UseGuards } from '@nestjs/common';
 import { JwtAuthGuard } from 'src/auth/jwt.guard';
 import { AuthenticatedRequest } from 'src/util/types';
 import { ApiBearerAuth } from '@nestjs/swagger';
 import { handleError } from 'src/util/error';
 import { HttpException, HttpStatus } from '@nestjs/common';
+import {
+  LeaderboardHistoryQueryDto,
+  LeaderboardQueryDto,
+} from './dto/leaderboard.dto';
 
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth('JWT')
 @Controller('dashboard')
 export class DashboardController {
-  constructor(private readonly DashboardService: DashboardService) {}
+  constructor(
+    private readonly DashboardService: DashboardService,
+    private readonly streakService: StreakService,
+    private readonly leaderboardService: LeaderboardService,
+    private readonly leaderboardSnapshotService: LeaderboardSnapshotService,
+  ) {}
 
   @Get('/trigger-suggestions')
   async triggerSuggestions(@Request() req: AuthenticatedRequest) {
-    return this.DashboardService.triggerSuggestionProcessing(
-      req.user?.user_id ?? '',
-    );
+    try {
+      return await this.DashboardService.triggerSuggestionProcessing(
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.TOO_MANY_REQUESTS);
+    }
   }
 
   @Get('/suggestions')
@@ -45,19 +61,74 @@ export class DashboardController {
     return this.DashboardService.getWeeklyKarmaScores(req.user?.user_id ?? '');
   }
 
+  @Get('/categories')
+  async getCategoryBreakdown(@Request() req: AuthenticatedRequest) {
+    try {
+      return await this.DashboardService.getCategoryBreakdown(
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Get('/streaks')
+  async getStreaks(@Request() req: AuthenticatedRequest) {
+    try {
+      return await this.streakService.getStreaks(req.user?.user_id ?? '');
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
   @Get('/leaderboard')
-  async leaderBoardStats() {
+  async leaderBoardStats(
+    @Query() query: LeaderboardQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.leaderboardService.getLeaderboard(
+        req.user?.user_id ?? '',
+        query.period,
+        query.offset,
+        query.limit,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Get('/leaderboard/history')
+  async leaderboardHistory(@Query() query: LeaderboardHistoryQueryDto) {
+    try {
+      return await this.leaderboardSnapshotService.getHistory(
+        query.offset,
+        query.limit,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Get('/leaderboard/history/me')
+  async myRankHistory(
+    @Query() query: LeaderboardHistoryQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
     try {
-      return this.DashboardService.getWeeklyLeaderboard();
+      return await this.leaderboardSnapshotService.getUserRankHistory(
+        req.user?.user_id ?? '',
+        query.limit,
+      );
     } catch (error) {
       throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
     }
   }
 
   @Get('/badges')
-  async getAllBadges() {
+  async getAllBadges(@Request() req: AuthenticatedRequest) {
     try {
-      return this.DashboardService.getAllBadges();
+      return this.DashboardService.getAllBadges(req.user?.user_id ?? '');
     } catch (error) {
       throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
     }
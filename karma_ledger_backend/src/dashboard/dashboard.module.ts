@@ -4,27 +4,59 @@ import { DashboardService } from './dashboard.service';
 import { User } from 'src/users/models/users.model';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { Suggestion } from './models/suggestion.model';
-import { AiService } from 'src/karma_event/gemini.service';
+import { AiModule } from 'src/ai/ai.module';
+import { DeadLetterModule } from 'src/dead_letter/dead_letter.module';
+import { WeekModule } from 'src/week/week.module';
 import { BullModule } from '@nestjs/bullmq';
-import { QueueNames } from 'src/config/queues';
+import { QueueJobOptions, QueueNames } from 'src/config/queues';
 import { SuggestionsProcessor } from './suggestions.processor';
 import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
 import { BadgeSeeder } from './models/seeders';
 import { Badge } from './models/badge.model';
 import { BadgeService } from './badge.service';
+import { BadgeRuleEngine } from './badge-rule.engine';
+import { ActiveWeekService } from './active-week.service';
+import { UserActiveWeek } from './models/user_active_week.model';
+import { StreakService } from './streak.service';
+import { UserStreak } from './models/user_streak.model';
 import { UserBadge } from 'src/users/models/user_badges.model';
+import { SuggestionRun } from './models/suggestion_run.model';
+import { SuggestionSchedulerService } from './suggestion-scheduler.service';
+import { SuggestionSchedulerProcessor } from './suggestion-scheduler.processor';
+import { LeaderboardService } from './leaderboard.service';
+import { LeaderboardSnapshot } from './models/leaderboard_snapshot.model';
+import { LeaderboardSnapshotEntry } from './models/leaderboard_snapshot_entry.model';
+import { LeaderboardSnapshotService } from './leaderboard-snapshot.service';
+import { LeaderboardSnapshotProcessor } from './leaderboard-snapshot.processor';
 
 @Module({
   imports: [
+    AiModule,
+    DeadLetterModule,
+    WeekModule,
     SequelizeModule.forFeature([
       User,
       Suggestion,
       KarmaEvent,
       Badge,
       UserBadge,
+      UserActiveWeek,
+      UserStreak,
+      SuggestionRun,
+      LeaderboardSnapshot,
+      LeaderboardSnapshotEntry,
     ]),
     BullModule.registerQueue({
       name: QueueNames.KARMA_SUGGESTION,
+      defaultJobOptions: QueueJobOptions[QueueNames.KARMA_SUGGESTION],
+    }),
+    BullModule.registerQueue({
+      name: QueueNames.SUGGESTION_SCHEDULER,
+      defaultJobOptions: QueueJobOptions[QueueNames.SUGGESTION_SCHEDULER],
+    }),
+    BullModule.registerQueue({
+      name: QueueNames.LEADERBOARD_SNAPSHOT,
+      defaultJobOptions: QueueJobOptions[QueueNames.LEADERBOARD_SNAPSHOT],
     }),
     // register the badge_event queue
     BullModule.registerQueue({
@@ -34,11 +66,27 @@ import { UserBadge } from 'src/users/models/user_badges.model';
   controllers: [DashboardController],
   providers: [
     DashboardService,
-    AiService,
     SuggestionsProcessor,
     BadgeSeeder,
     BadgeService,
+    BadgeRuleEngine,
+    ActiveWeekService,
+    StreakService,
+    SuggestionSchedulerService,
+    SuggestionSchedulerProcessor,
+    LeaderboardService,
+    LeaderboardSnapshotService,
+    LeaderboardSnapshotProcessor,
+  ],
+  exports: [
+    DashboardService,
+    BadgeService,
+    BadgeRuleEngine,
+    ActiveWeekService,
+    StreakService,
+    SuggestionSchedulerService,
+    LeaderboardService,
+    LeaderboardSnapshotService,
   ],
-  exports: [BadgeService],
 })
 export class DashboardModule {}
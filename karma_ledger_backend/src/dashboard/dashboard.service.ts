@@ -3,16 +3,21 @@ import { InjectModel } from '@nestjs/sequelize';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { Op, fn, col } from 'sequelize';
-import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
 
 import { Suggestion } from './models/suggestion.model';
 import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
 import { User } from 'src/users/models/users.model';
 import { QueueNames } from 'src/config/queues';
-import { BadgeEvents } from 'src/config/events';
 import { Badge } from './models/badge.model';
 import { UserBadge } from 'src/users/models/user_badges.model';
-import { getCurrentCalendarWeek } from 'src/util/date.util';
+import { WeekService } from 'src/week/week.service';
+import { KARMA_CATEGORIES, KarmaCategory } from 'src/config/categories';
+import { toKarmaScore } from 'src/config/intensity';
+import { CHALLENGE_BADGE_PREFIX } from 'src/config/challenges';
+
+const DEFAULT_SUGGESTION_COOLDOWN_MINUTES = 60;
+const DEFAULT_AGGREGATE_WEEKS = 12;
 
 @Injectable()
 export class DashboardService {
@@ -31,9 +36,11 @@ export class DashboardService {
     @InjectQueue(QueueNames.KARMA_SUGGESTION)
     private readonly suggestionQueue: Queue,
 
-    private eventEmitter: EventEmitter2,
-
     @InjectModel(Badge) private readonly badgeRepo: typeof Badge,
+
+    private readonly configService: ConfigService,
+
+    private readonly weekService: WeekService,
   ) {}
 
   /** Fetch all suggestions for a given user, most recent first */
@@ -67,12 +74,57 @@ export class DashboardService {
     return suggestion;
   }
 
-  /** Trigger background job to process weekly suggestions for a user */
-  async triggerSuggestionProcessing(userId: string) {
+  /**
+   * Manually regenerates a user's suggestions outside the weekly schedule
+   * (see SuggestionSchedulerService). Users are limited to one run per
+   * cooldown, counted from their last request or their latest suggestions;
+   * staff pass `force`.
+   */
+  async triggerSuggestionProcessing(
+    userId: string,
+    { force = false }: { force?: boolean } = {},
+  ) {
     const user = await this.userRepo.findByPk(userId);
     if (!user) throw new Error(`User ${userId} not found`);
 
-    const week = this.getWeekSinceJoin(user.createdAt);
+    const cooldownMs =
+      (Number(this.configService.get<string>('SUGGESTION_COOLDOWN_MINUTES')) ||
+        DEFAULT_SUGGESTION_COOLDOWN_MINUTES) * 60000;
+    const latest = await this.suggestionRepo.findOne({
+      where: { user_id: userId },
+      attributes: ['created_at'],
+      order: [['created_at', 'DESC']],
+    });
+    const now = new Date();
+    const generatedAt = latest?.created_at
+      ? new Date(latest.created_at).getTime()
+      : 0;
+    const claimed =
+      force ||
+      (now.getTime() - generatedAt >= cooldownMs &&
+        (await this.claimSuggestionTrigger(userId, now, cooldownMs)));
+    if (!claimed) {
+      const last = Math.max(
+        generatedAt,
+        user.suggestions_triggered_at?.getTime() ?? 0,
+      );
+      const waitMinutes = Math.max(
+        1,
+        Math.ceil((last + cooldownMs - now.getTime()) / 60000),
+      );
+      throw new Error(
+        `Suggestions were requested recently, try again in ${waitMinutes} minute(s)`,
+      );
+    }
+    if (force) {
+      await user.update({ suggestions_triggered_at: now });
+    }
+
+    const week = this.weekService.getWeekNumberSinceJoin(
+      user.createdAt as Date,
+      new Date(),
+      this.weekService.preferencesFor(user),
+    );
 
     return await this.suggestionQueue.add('get_suggestions', {
       userId,
@@ -80,13 +132,32 @@ export class DashboardService {
     });
   }
 
-  /** Calculates how many weeks have passed since the user joined */
-  private getWeekSinceJoin(joinedAt: Date): number {
-    const now = new Date();
-    const diffDays = Math.floor(
-      (now.getTime() - joinedAt.getTime()) / 86400000,
+  /**
+   * Records a manual run unless the user had one within the cooldown. The
+   * check is part of the update, so concurrent requests can't both pass.
+   */
+  private async claimSuggestionTrigger(
+    userId: string,
+    now: Date,
+    cooldownMs: number,
+  ): Promise<boolean> {
+    const [claimed] = await this.userRepo.update(
+      { suggestions_triggered_at: now },
+      {
+        where: {
+          user_id: userId,
+          [Op.or]: [
+            { suggestions_triggered_at: { [Op.is]: null } },
+            {
+              suggestions_triggered_at: {
+                [Op.lte]: new Date(now.getTime() - cooldownMs),
+              },
+            },
+          ],
+        },
+      },
     );
-    return Math.max(1, Math.ceil(diffDays / 7));
+    return claimed > 0;
   }
 
 
@@ -124,14 +195,20 @@ export class DashboardService {
 
   //   return weeklyScores;
   // }
+  /**
+   * Average karma score of each of the user's weeks, numbered from the week
+   * they joined in and cut at their own timezone and week start
+   */
   async getWeeklyKarmaScores(userId: string) {
     const user = await this.userRepo.findByPk(userId, {
-      attributes: ['createdAt'],
+      attributes: ['createdAt', 'timezone', 'week_start'],
     });
     if (!user) throw new Error(`User ${userId} not found`);
 
+    // Events still awaiting (re-)scoring are left out so they don't drag a
+    // week's average towards zero
     const allEvents = await this.karmaEventRepo.findAll({
-      where: { user_id: userId },
+      where: { user_id: userId, intensity: { [Op.ne]: null } },
       order: [['occurred_at', 'ASC']],
       attributes: ['intensity', 'occurred_at'],
     });
@@ -141,12 +218,14 @@ export class DashboardService {
     // Group events by week in code, which is much faster than multiple DB calls
     const weeklyGroups: { [week: number]: number[] } = {};
     const joinDate = new Date(user.createdAt);
+    const preferences = this.weekService.preferencesFor(user);
 
     for (const event of allEvents) {
-      const diffDays = Math.floor(
-        (new Date(event.occurred_at).getTime() - joinDate.getTime()) / 86400000,
+      const week = this.weekService.getWeekNumberSinceJoin(
+        joinDate,
+        new Date(event.occurred_at),
+        preferences,
       );
-      const week = Math.max(1, Math.ceil(diffDays / 7));
       if (!weeklyGroups[week]) {
         weeklyGroups[week] = [];
       }
@@ -158,83 +237,130 @@ export class DashboardService {
       const intensities = weeklyGroups[week];
       const avgIntensity =
         intensities.reduce((sum, i) => sum + i, 0) / intensities.length;
-      const score = Math.round(((avgIntensity - -1) / 11) * 100);
+      const score = toKarmaScore(avgIntensity);
       weeklyScores.push({ week: parseInt(week), score: `${score}%` });
     }
 
     return weeklyScores;
   }
 
-  /** Returns top 10 users by average karma score for the current calendar week */
   /**
-   * [PRODUCTION-READY] Returns the top 10 users by average karma score for the current calendar week.
-   * This implementation uses calendar weeks (Monday-Sunday) for fair comparison across all users.
+   * Event counts and karma score per category, so users can compare areas
+   * of their life. Uncategorised events are reported with a null category.
    */
-  async getWeeklyLeaderboard(): Promise<
-    { userId: string; username: string; score: number }[]
+  async getCategoryBreakdown(userId: string): Promise<
+    {
+      category: KarmaCategory | null;
+      event_count: number;
+      scored_count: number;
+      score: number | null;
+    }[]
   > {
-    // Get the current calendar week boundaries (Monday to Sunday)
-    const { start: weekStart, end: weekEnd } = getCurrentCalendarWeek();
-
-    // Get all users
-    const users = await this.userRepo.findAll({
-      attributes: ['user_id', 'username'],
+    const rows = (await this.karmaEventRepo.findAll({
+      attributes: [
+        'category',
+        [fn('AVG', col('intensity')), 'avg_intensity'],
+        [fn('COUNT', col('event_id')), 'event_count'],
+        [fn('COUNT', col('intensity')), 'scored_count'],
+      ],
+      where: { user_id: userId },
+      group: ['category'],
       raw: true,
+    })) as unknown as {
+      category: KarmaCategory | null;
+      avg_intensity: number | null;
+      event_count: number;
+      scored_count: number;
+    }[];
+
+    return [...KARMA_CATEGORIES, null].map((category) => {
+      const row = rows.find((r) => (r.category ?? null) === category);
+      const avg = row?.avg_intensity == null ? null : Number(row.avg_intensity);
+      return {
+        category,
+        event_count: Number(row?.event_count ?? 0),
+        scored_count: Number(row?.scored_count ?? 0),
+        score: avg === null ? null : toKarmaScore(avg),
+      };
     });
+  }
 
-    if (users.length === 0) {
-      return [];
+  /**
+   * Combined karma score of several users (a group's members), overall and
+   * for each of the last `weeks` league weeks, oldest first. Every scored
+   * event counts equally, so busier members weigh more.
+   */
+  async getAggregateKarmaScores(
+    userIds: string[],
+    weeks = DEFAULT_AGGREGATE_WEEKS,
+  ) {
+    const league = this.weekService.leaguePreferences;
+    const windows = [this.weekService.getLeagueWeek()];
+    while (windows.length < weeks) {
+      windows.unshift(
+        this.weekService.getLeagueWeek(
+          new Date(windows[0].start.getTime() - 1),
+        ),
+      );
     }
 
-    // Get karma events for ALL users in the current calendar week
-    const userScores = (await this.karmaEventRepo.findAll({
+    const where = {
+      user_id: { [Op.in]: userIds },
+      intensity: { [Op.ne]: null },
+    };
+    const [overall] = (await this.karmaEventRepo.findAll({
       attributes: [
-        'user_id',
         [fn('AVG', col('intensity')), 'avg_intensity'],
-        [fn('COUNT', col('event_id')), 'event_count'],
+        [fn('COUNT', col('intensity')), 'event_count'],
       ],
+      where,
       raw: true,
-      where: {
-        occurred_at: {
-          [Op.between]: [weekStart, weekEnd],
-        },
-      },
-      group: ['user_id'],
-    })) as unknown as { user_id: string; avg_intensity: number | null; event_count: number }[];
-
-    // Map the aggregated scores back to usernames and normalize the score
-    const leaderboard = userScores.map((score) => {
-      const user = users.find((u) => u.user_id === score.user_id);
-      // Handle the case where a user has no events, resulting in a null average
-      const avg = score.avg_intensity === null ? 0 : Number(score.avg_intensity);
-
-      // Normalize the score to 0-100 range
-      const normalizedScore = Math.round(((avg - -1) / 11) * 100);
+    })) as unknown as { avg_intensity: number | null; event_count: number }[];
+    const recentEvents = await this.karmaEventRepo.findAll({
+      attributes: ['user_id', 'intensity', 'occurred_at'],
+      where: { ...where, occurred_at: { [Op.gte]: windows[0].start } },
+    });
 
+    const weekly = windows.map((window) => {
+      const events = recentEvents.filter(
+        (event) =>
+          this.weekService.getWeekIndex(new Date(event.occurred_at), league) ===
+          window.index,
+      );
+      const total = events.reduce((sum, event) => sum + event.intensity, 0);
       return {
-        userId: score.user_id,
-        username: user?.username ?? 'Unknown',
-        score: normalizedScore,
+        start: window.start,
+        end: window.end,
+        score: events.length ? toKarmaScore(total / events.length) : null,
+        event_count: events.length,
+        active_members: new Set(events.map((event) => event.user_id)).size,
       };
     });
 
-    // Sort descending by score. This is a standard JavaScript array sort.
-    leaderboard.sort((a, b) => b.score - a.score);
-
-    const top10 = leaderboard.slice(0, 10);
-
-    // Emit event for each top 10 finisher.
-    for (const topUser of top10) {
-      this.eventEmitter.emit(BadgeEvents.TOP10_RANKED, {
-        userId: topUser.userId,
-      });
-    }
-
-    return top10;
+    const avg =
+      overall?.avg_intensity == null ? null : Number(overall.avg_intensity);
+    return {
+      score: avg === null ? null : toKarmaScore(avg),
+      event_count: Number(overall?.event_count ?? 0),
+      member_count: userIds.length,
+      weeks: weekly,
+    };
   }
 
-  async getAllBadges(): Promise<Badge[]> {
-    return this.badgeRepo.findAll();
+  /** Challenge badges only show up once the user has earned them */
+  async getAllBadges(userId: string): Promise<Badge[]> {
+    const earned = await this.userBadgeRepo.findAll({
+      attributes: ['badge_id'],
+      where: { user_id: userId },
+    });
+    return this.badgeRepo.findAll({
+      where: {
+        [Op.or]: [
+          { code: { [Op.notLike]: `${CHALLENGE_BADGE_PREFIX}%` } },
+          { badge_id: { [Op.in]: earned.map(({ badge_id }) => badge_id) } },
+        ],
+      },
+    });
   }
 
   async getUserBadges(userId: string) {
@@ -0,0 +1,51 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { LeaderboardPeriod } from 'src/config/leaderboard';
+
+export class LeaderboardQueryDto {
+  @ApiPropertyOptional({
+    enum: LeaderboardPeriod,
+    default: LeaderboardPeriod.WEEK,
+  })
+  @IsEnum(LeaderboardPeriod)
+  @IsOptional()
+  period?: LeaderboardPeriod;
+
+  @ApiPropertyOptional({ default: 0, minimum: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset?: number;
+
+  @ApiPropertyOptional({ default: 10, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
+
+export class LeaderboardHistoryQueryDto {
+  @ApiPropertyOptional({ default: 0, minimum: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of weeks',
+    default: 12,
+    minimum: 1,
+    maximum: 52,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(52)
+  @IsOptional()
+  limit?: number;
+}
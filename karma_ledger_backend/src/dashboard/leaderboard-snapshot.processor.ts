@@ -0,0 +1,16 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { QueueNames } from 'src/config/queues';
+import { LeaderboardSnapshotService } from './leaderboard-snapshot.service';
+
+@Processor(QueueNames.LEADERBOARD_SNAPSHOT)
+export class LeaderboardSnapshotProcessor extends WorkerHost {
+  constructor(
+    private readonly leaderboardSnapshotService: LeaderboardSnapshotService,
+  ) {
+    super();
+  }
+
+  async process() {
+    await this.leaderboardSnapshotService.snapshotClosedWeeks();
+  }
+}
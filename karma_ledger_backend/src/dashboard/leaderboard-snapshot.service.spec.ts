@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { getQueueToken } from '@nestjs/bullmq';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Sequelize } from 'sequelize-typescript';
+import { DomainEvents } from 'src/config/events';
+import { QueueNames } from 'src/config/queues';
+import { User } from 'src/users/models/users.model';
+import { WeekService, WeekWindow } from 'src/week/week.service';
+import { LeaderboardEntry, LeaderboardService } from './leaderboard.service';
+import { LeaderboardSnapshot } from './models/leaderboard_snapshot.model';
+import { LeaderboardSnapshotEntry } from './models/leaderboard_snapshot_entry.model';
+import { LeaderboardSnapshotService } from './leaderboard-snapshot.service';
+
+// Mondays, as the league week starts on Monday in UTC by default
+const OCT_5 = new Date('2026-10-05T00:00:00.000Z');
+const OCT_12 = new Date('2026-10-12T00:00:00.000Z');
+const OCT_19 = new Date('2026-10-19T00:00:00.000Z');
+const NOW = new Date('2026-10-21T15:00:00.000Z');
+
+const ranked = (count: number): LeaderboardEntry[] =>
+  Array.from({ length: count }, (_, i) => ({
+    rank: i + 1,
+    userId: `user-${i + 1}`,
+    username: `user${i + 1}`,
+    score: 100 - i,
+    event_count: 5,
+  }));
+
+describe('LeaderboardSnapshotService', () => {
+  let service: LeaderboardSnapshotService;
+  const transaction = { id: 'transaction' };
+  const sequelize = {
+    transaction: jest.fn((work: (t: unknown) => unknown) => work(transaction)),
+  };
+  const snapshotModel = { findOne: jest.fn(), create: jest.fn() };
+  const entryModel = { bulkCreate: jest.fn() };
+  const leaderboardService = { getRankings: jest.fn(), minEvents: 3 };
+  const eventEmitter = { emit: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    snapshotModel.findOne.mockResolvedValue(null);
+    snapshotModel.create.mockImplementation(
+      ({ period_start }: { period_start: Date }) => ({
+        id: `snapshot-${period_start.toISOString()}`,
+      }),
+    );
+    leaderboardService.getRankings.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaderboardSnapshotService,
+        WeekService,
+        { provide: Sequelize, useValue: sequelize },
+        {
+          provide: getModelToken(LeaderboardSnapshot),
+          useValue: snapshotModel,
+        },
+        {
+          provide: getModelToken(LeaderboardSnapshotEntry),
+          useValue: entryModel,
+        },
+        { provide: getModelToken(User), useValue: {} },
+        {
+          provide: getQueueToken(QueueNames.LEADERBOARD_SNAPSHOT),
+          useValue: {},
+        },
+        { provide: LeaderboardService, useValue: leaderboardService },
+        { provide: EventEmitter2, useValue: eventEmitter },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+    service = module.get(LeaderboardSnapshotService);
+  });
+
+  it('freezes last week when there is no snapshot yet', async () => {
+    leaderboardService.getRankings.mockResolvedValue(ranked(2));
+
+    const snapshots = await service.snapshotClosedWeeks(NOW);
+
+    expect(snapshots).toHaveLength(1);
+    expect(leaderboardService.getRankings).toHaveBeenCalledWith(
+      expect.objectContaining({ start: OCT_12, end: OCT_19 }),
+    );
+    expect(snapshotModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        period_start: OCT_12,
+        period_end: OCT_19,
+        participants: 2,
+        min_events: 3,
+      }),
+      { transaction },
+    );
+    expect(entryModel.bulkCreate).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ user_id: 'user-1', rank: 1, score: 100 }),
+        expect.objectContaining({ user_id: 'user-2', rank: 2, score: 99 }),
+      ],
+      { transaction },
+    );
+  });
+
+  it('catches up on every week closed since the latest snapshot', async () => {
+    snapshotModel.findOne.mockResolvedValue({
+      period_start: new Date('2026-09-28T00:00:00.000Z'),
+      period_end: OCT_5,
+    });
+
+    await service.snapshotClosedWeeks(NOW);
+
+    const weeks = leaderboardService.getRankings.mock.calls.map(
+      ([week]: [WeekWindow]) => week.start,
+    );
+    expect(weeks).toEqual([OCT_5, OCT_12]);
+  });
+
+  it('does nothing while the latest week is still open', async () => {
+    snapshotModel.findOne.mockResolvedValue({
+      period_start: OCT_12,
+      period_end: OCT_19,
+    });
+
+    expect(await service.snapshotClosedWeeks(NOW)).toEqual([]);
+    expect(snapshotModel.create).not.toHaveBeenCalled();
+  });
+
+  it('reports only top 10 finishers to the badge rules', async () => {
+    leaderboardService.getRankings.mockResolvedValue(ranked(12));
+
+    await service.snapshotClosedWeeks(NOW);
+
+    const ranks = eventEmitter.emit.mock.calls.map(
+      ([name, payload]: [string, { userId: string; rank: number }]) => {
+        expect(name).toBe(DomainEvents.LEADERBOARD_RANKED);
+        return payload.rank;
+      },
+    );
+    expect(ranks).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      DomainEvents.LEADERBOARD_RANKED,
+      { userId: 'user-1', rank: 1 },
+    );
+  });
+
+  it('awards no badges when the snapshot could not be saved', async () => {
+    leaderboardService.getRankings.mockResolvedValue(ranked(3));
+    entryModel.bulkCreate.mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(service.snapshotClosedWeeks(NOW)).rejects.toThrow('disk full');
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+});
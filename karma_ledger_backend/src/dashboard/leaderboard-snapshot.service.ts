@@ -0,0 +1,232 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { InjectQueue } from '@nestjs/bullmq';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Queue } from 'bullmq';
+import { Op } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { QueueNames } from 'src/config/queues';
+import { DomainEvents } from 'src/config/events';
+import { LeaderboardPeriod } from 'src/config/leaderboard';
+import { WeekService, WeekWindow } from 'src/week/week.service';
+import { LeaderboardEntry, LeaderboardService } from './leaderboard.service';
+import { LeaderboardSnapshot } from './models/leaderboard_snapshot.model';
+import { LeaderboardSnapshotEntry } from './models/leaderboard_snapshot_entry.model';
+
+const SNAPSHOT_INTERVAL_MS = 3600000;
+const SCHEDULER_ID = 'weekly-leaderboard-snapshot';
+const DEFAULT_HISTORY_SIZE = 12;
+/** Finishers up to this rank are reported to the badge rules, and listed in the history */
+const TOP_RANKS = 10;
+
+export interface LeaderboardHistoryItem {
+  id: string;
+  period: LeaderboardPeriod;
+  start: Date;
+  end: Date;
+  participants: number;
+  min_events: number;
+  /** The top 10; `userId` and `username` are null for deleted accounts */
+  items: (Omit<LeaderboardEntry, 'userId' | 'username'> & {
+    userId: string | null;
+    username: string | null;
+  })[];
+}
+
+export interface RankHistoryItem {
+  start: Date;
+  end: Date;
+  participants: number;
+  /** Null for weeks the user wasn't ranked in */
+  rank: number | null;
+  score: number | null;
+  event_count: number | null;
+  percentile: number | null;
+}
+
+/**
+ * Freezes each closed league week's leaderboard, so past weeks keep the
+ * ranking they ended with. The top 10 badge is awarded from the snapshot,
+ * once per week, rather than whenever someone looks at the leaderboard.
+ */
+@Injectable()
+export class LeaderboardSnapshotService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(LeaderboardSnapshotService.name);
+
+  constructor(
+    private readonly sequelize: Sequelize,
+    @InjectModel(LeaderboardSnapshot)
+    private readonly snapshotRepo: typeof LeaderboardSnapshot,
+    @InjectModel(LeaderboardSnapshotEntry)
+    private readonly entryRepo: typeof LeaderboardSnapshotEntry,
+    @InjectQueue(QueueNames.LEADERBOARD_SNAPSHOT)
+    private readonly snapshotQueue: Queue,
+    private readonly leaderboardService: LeaderboardService,
+    private readonly weekService: WeekService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /** Checks hourly, so a week is frozen within an hour of it closing */
+  async onApplicationBootstrap() {
+    await this.snapshotQueue.upsertJobScheduler(
+      SCHEDULER_ID,
+      { every: SNAPSHOT_INTERVAL_MS },
+      { name: 'snapshot_closed_weeks' },
+    );
+  }
+
+  /**
+   * Snapshots every league week that closed since the latest snapshot, or
+   * just last week when there is none yet.
+   */
+  async snapshotClosedWeeks(
+    now: Date = new Date(),
+  ): Promise<LeaderboardSnapshot[]> {
+    const current = this.weekService.getLeagueWeek(now);
+    const latest = await this.snapshotRepo.findOne({
+      where: { period: LeaderboardPeriod.WEEK },
+      order: [['period_start', 'DESC']],
+    });
+
+    let week = this.weekService.getLeagueWeek(
+      latest ? latest.period_end : new Date(current.start.getTime() - 1),
+    );
+    const snapshots: LeaderboardSnapshot[] = [];
+    while (week.end.getTime() <= current.start.getTime()) {
+      snapshots.push(await this.snapshotWeek(week));
+      week = this.weekService.getLeagueWeek(week.end);
+    }
+    return snapshots;
+  }
+
+  /** Closed weeks, newest first, with their top 10 */
+  async getHistory(
+    offset = 0,
+    limit = DEFAULT_HISTORY_SIZE,
+  ): Promise<{ total: number; items: LeaderboardHistoryItem[] }> {
+    const { count, rows } = await this.snapshotRepo.findAndCountAll({
+      where: { period: LeaderboardPeriod.WEEK },
+      include: [
+        {
+          model: LeaderboardSnapshotEntry,
+          where: { rank: { [Op.lte]: TOP_RANKS } },
+          required: false,
+          separate: true,
+          order: [['rank', 'ASC']],
+        },
+      ],
+      order: [['period_start', 'DESC']],
+      offset,
+      limit,
+      distinct: true,
+    });
+
+    return {
+      total: count,
+      items: rows.map((snapshot) => ({
+        id: snapshot.id,
+        period: snapshot.period,
+        start: snapshot.period_start,
+        end: snapshot.period_end,
+        participants: snapshot.participants,
+        min_events: snapshot.min_events,
+        items: snapshot.entries.map((entry) => ({
+          rank: entry.rank,
+          userId: entry.user_id,
+          username: entry.username,
+          score: entry.score,
+          event_count: entry.event_count,
+        })),
+      })),
+    };
+  }
+
+  /**
+   * The user's rank in each of the latest `limit` closed weeks (all of
+   * them when null), oldest first
+   */
+  async getUserRankHistory(
+    userId: string,
+    limit: number | null = DEFAULT_HISTORY_SIZE,
+  ): Promise<RankHistoryItem[]> {
+    const snapshots = await this.snapshotRepo.findAll({
+      where: { period: LeaderboardPeriod.WEEK },
+      include: [
+        {
+          model: LeaderboardSnapshotEntry,
+          where: { user_id: userId },
+          required: false,
+          separate: true,
+        },
+      ],
+      order: [['period_start', 'DESC']],
+      limit: limit ?? undefined,
+    });
+
+    return snapshots.reverse().map((snapshot) => {
+      const entry = snapshot.entries[0];
+      return {
+        start: snapshot.period_start,
+        end: snapshot.period_end,
+        participants: snapshot.participants,
+        rank: entry?.rank ?? null,
+        score: entry?.score ?? null,
+        event_count: entry?.event_count ?? null,
+        percentile: entry
+          ? this.leaderboardService.toPercentile(
+              entry.rank,
+              snapshot.participants,
+            )
+          : null,
+      };
+    });
+  }
+
+  /** Keeps a deleted user's places in past weeks without saying who they were */
+  async anonymiseUser(userId: string): Promise<void> {
+    await this.entryRepo.update(
+      { user_id: null, username: null },
+      { where: { user_id: userId } },
+    );
+  }
+
+  private async snapshotWeek(week: WeekWindow): Promise<LeaderboardSnapshot> {
+    const rankings = await this.leaderboardService.getRankings(week);
+    const snapshot = await this.sequelize.transaction(async (transaction) => {
+      const snapshot = await this.snapshotRepo.create(
+        {
+          period: LeaderboardPeriod.WEEK,
+          period_start: week.start,
+          period_end: week.end,
+          participants: rankings.length,
+          min_events: this.leaderboardService.minEvents,
+        },
+        { transaction },
+      );
+      await this.entryRepo.bulkCreate(
+        rankings.map((entry) => ({
+          snapshot_id: snapshot.id,
+          user_id: entry.userId,
+          username: entry.username,
+          rank: entry.rank,
+          score: entry.score,
+          event_count: entry.event_count,
+        })),
+        { transaction },
+      );
+      return snapshot;
+    });
+
+    // Let badge rules react to each top 10 finisher's rank
+    for (const { userId, rank } of rankings) {
+      if (rank > TOP_RANKS) break;
+      this.eventEmitter.emit(DomainEvents.LEADERBOARD_RANKED, { userId, rank });
+    }
+
+    this.logger.log(
+      `Snapshotted the leaderboard for the week of ${week.start.toISOString()} ` +
+        `(${rankings.length} ranked users)`,
+    );
+    return snapshot;
+  }
+}
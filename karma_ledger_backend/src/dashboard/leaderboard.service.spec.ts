@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Sequelize } from 'sequelize-typescript';
+import { LeaderboardPeriod } from 'src/config/leaderboard';
+import { WeekService } from 'src/week/week.service';
+import { LeaderboardService } from './leaderboard.service';
+
+const WEEK = {
+  start: new Date('2026-10-19T00:00:00.000Z'),
+  end: new Date('2026-10-26T00:00:00.000Z'),
+};
+const IN_WEEK = new Date('2026-10-20T12:00:00.000Z');
+const LAST_WEEK = new Date('2026-10-14T12:00:00.000Z');
+
+/**
+ * The rankings are one SQL query, so they run against an in-memory SQLite
+ * database holding just the columns the query reads.
+ */
+describe('LeaderboardService', () => {
+  let service: LeaderboardService;
+  let sequelize: Sequelize;
+  let config: Record<string, string>;
+  const weekService = {
+    leaguePreferences: { timezone: 'UTC' },
+    getLeagueWeek: jest.fn(() => WEEK),
+  };
+
+  const addUser = async (
+    username: string,
+    intensities: number[],
+    { occurredAt = IN_WEEK, suspended = false } = {},
+  ) => {
+    const userId = `${username}-id`;
+    const queryInterface = sequelize.getQueryInterface();
+    await queryInterface.bulkInsert('users', [
+      {
+        user_id: userId,
+        username,
+        suspended_at: suspended ? new Date() : null,
+      },
+    ]);
+    if (intensities.length > 0) {
+      await queryInterface.bulkInsert(
+        'karma_events',
+        intensities.map((intensity) => ({
+          event_id: randomUUID(),
+          user_id: userId,
+          intensity,
+          occurred_at: occurredAt,
+        })),
+      );
+    }
+    return userId;
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaderboardService,
+        { provide: Sequelize, useValue: sequelize },
+        { provide: WeekService, useValue: weekService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    service = module.get(LeaderboardService);
+  };
+
+  beforeEach(async () => {
+    config = {};
+    sequelize = new Sequelize({
+      dialect: 'sqlite',
+      storage: ':memory:',
+      logging: false,
+    });
+    await sequelize.query(
+      'CREATE TABLE users (user_id TEXT PRIMARY KEY, username TEXT, suspended_at DATETIME)',
+    );
+    await sequelize.query(
+      'CREATE TABLE karma_events (event_id TEXT PRIMARY KEY, user_id TEXT, intensity INTEGER, occurred_at DATETIME)',
+    );
+    await sequelize.query(
+      'CREATE TABLE group_memberships (group_id TEXT, user_id TEXT)',
+    );
+    await createService();
+  });
+
+  afterEach(async () => {
+    await sequelize.close();
+  });
+
+  it('ranks users by average intensity, best first', async () => {
+    await addUser('amani', [4, 4, 4]);
+    await addUser('bo', [9, 8, 10]);
+    await addUser('chen', [6, 7, 5]);
+
+    const board = await service.getLeaderboard('bo-id');
+
+    expect(board.items.map((entry) => [entry.rank, entry.username])).toEqual([
+      [1, 'bo'],
+      [2, 'chen'],
+      [3, 'amani'],
+    ]);
+    expect(board.items[0]).toMatchObject({ score: 91, event_count: 3 });
+    expect(board.me).toEqual({
+      rank: 1,
+      score: 91,
+      event_count: 3,
+      percentile: 100,
+    });
+  });
+
+  it('leaves users with fewer than minEvents scored events unranked', async () => {
+    await addUser('amani', [10, 10]);
+    await addUser('bo', [5, 5, 5]);
+
+    const board = await service.getLeaderboard('amani-id');
+
+    expect(board.min_events).toBe(3);
+    expect(board.total).toBe(1);
+    expect(board.items.map((entry) => entry.username)).toEqual(['bo']);
+    // The caller still sees their own progress towards a rank
+    expect(board.me).toEqual({
+      rank: null,
+      score: 100,
+      event_count: 2,
+      percentile: null,
+    });
+  });
+
+  it('reads the threshold from LEADERBOARD_MIN_EVENTS', async () => {
+    config.LEADERBOARD_MIN_EVENTS = '1';
+    await createService();
+    await addUser('amani', [10]);
+
+    const board = await service.getLeaderboard('amani-id');
+
+    expect(board.min_events).toBe(1);
+    expect(board.me.rank).toBe(1);
+  });
+
+  it('ranks more events higher at equal averages, and ties the rest', async () => {
+    await addUser('amani', [6, 6, 6]);
+    await addUser('bo', [6, 6, 6, 6]);
+    await addUser('chen', [6, 6, 6]);
+
+    const board = await service.getLeaderboard('chen-id');
+
+    expect(board.items.map((entry) => [entry.rank, entry.username])).toEqual([
+      [1, 'bo'],
+      [2, 'amani'],
+      [2, 'chen'],
+    ]);
+    expect(board.me.percentile).toBe(67);
+  });
+
+  it('only counts scored events inside the period', async () => {
+    await addUser('amani', [2, 2, 2]);
+    await addUser('bo', [10, 10, 10], { occurredAt: LAST_WEEK });
+    await sequelize.query(
+      "INSERT INTO karma_events VALUES ('pending', 'amani-id', NULL, '2026-10-20 12:00:00.000 +00:00')",
+    );
+
+    const week = await service.getLeaderboard('amani-id');
+    const allTime = await service.getLeaderboard(
+      'amani-id',
+      LeaderboardPeriod.ALL,
+    );
+
+    expect(week.items.map((entry) => entry.username)).toEqual(['amani']);
+    expect(week.me.event_count).toBe(3);
+    expect(allTime.start).toBeNull();
+    expect(allTime.items.map((entry) => entry.username)).toEqual([
+      'bo',
+      'amani',
+    ]);
+  });
+
+  it('leaves suspended users out', async () => {
+    await addUser('amani', [3, 3, 3]);
+    await addUser('bo', [9, 9, 9], { suspended: true });
+
+    const board = await service.getLeaderboard('amani-id');
+
+    expect(board.items.map((entry) => entry.username)).toEqual(['amani']);
+  });
+
+  it("ranks only a group's members when given a group", async () => {
+    await addUser('amani', [3, 3, 3]);
+    await addUser('bo', [9, 9, 9]);
+    await sequelize
+      .getQueryInterface()
+      .bulkInsert('group_memberships', [
+        { group_id: 'group-1', user_id: 'amani-id' },
+      ]);
+
+    const board = await service.getLeaderboard(
+      'amani-id',
+      LeaderboardPeriod.WEEK,
+      0,
+      10,
+      'group-1',
+    );
+
+    expect(board.total).toBe(1);
+    expect(board.me.rank).toBe(1);
+  });
+
+  it('pages through the rankings while reporting the full total', async () => {
+    for (const [index, name] of ['amani', 'bo', 'chen', 'dana'].entries()) {
+      await addUser(name, [9 - index, 9 - index, 9 - index]);
+    }
+
+    const board = await service.getLeaderboard(
+      'amani-id',
+      LeaderboardPeriod.WEEK,
+      1,
+      2,
+    );
+
+    expect(board.total).toBe(4);
+    expect(board.items.map((entry) => entry.rank)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,229 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QueryTypes } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { toKarmaScore } from 'src/config/intensity';
+import { LeaderboardPeriod } from 'src/config/leaderboard';
+import { CalendarWindow, WeekService } from 'src/week/week.service';
+
+const DEFAULT_MIN_EVENTS = 3;
+const DEFAULT_PAGE_SIZE = 10;
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  score: number;
+  event_count: number;
+}
+
+export interface LeaderboardStanding {
+  /** Null until the user has `min_events` scored events in the period */
+  rank: number | null;
+  score: number | null;
+  event_count: number;
+  /** Share of ranked users placed at or below the user, 1-100 */
+  percentile: number | null;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  /** Null for the all-time board */
+  start: Date | null;
+  end: Date | null;
+  min_events: number;
+  /** Number of ranked users */
+  total: number;
+  offset: number;
+  limit: number;
+  items: LeaderboardEntry[];
+  me: LeaderboardStanding;
+}
+
+interface RankedRow {
+  user_id: string;
+  username: string;
+  avg_intensity: number | string;
+  event_count: number | string;
+  rank: number | string;
+}
+
+interface StandingRow {
+  participants: number | string;
+  rank: number | string | null;
+  avg_intensity: number | string | null;
+  event_count: number | string | null;
+}
+
+/**
+ * Ranks users by the average intensity of their scored events over a
+ * period. Week, month and year follow the league timezone so everyone
+ * competes in the same window. Users need LEADERBOARD_MIN_EVENTS scored
+ * events to be ranked, so a single lucky event can't top the board.
+ * Passing a group ranks only its members.
+ */
+@Injectable()
+export class LeaderboardService {
+  /** Scored events a user needs in the period to be ranked */
+  readonly minEvents: number;
+
+  constructor(
+    private readonly sequelize: Sequelize,
+    private readonly weekService: WeekService,
+    configService: ConfigService,
+  ) {
+    this.minEvents =
+      Number(configService.get<string>('LEADERBOARD_MIN_EVENTS')) ||
+      DEFAULT_MIN_EVENTS;
+  }
+
+  async getLeaderboard(
+    userId: string,
+    period: LeaderboardPeriod = LeaderboardPeriod.WEEK,
+    offset = 0,
+    limit = DEFAULT_PAGE_SIZE,
+    groupId?: string,
+  ): Promise<Leaderboard> {
+    const window = this.getWindow(period);
+    const items = await this.findRanked(window, { offset, limit }, groupId);
+    const [standing] = await this.sequelize.query<StandingRow>(
+      `${this.standingsSql(window, groupId)}
+      SELECT
+        (SELECT COUNT(*) FROM ranked) AS participants,
+        (SELECT "rank" FROM ranked WHERE user_id = :userId) AS "rank",
+        (SELECT avg_intensity FROM totals WHERE user_id = :userId) AS avg_intensity,
+        (SELECT event_count FROM totals WHERE user_id = :userId) AS event_count`,
+      {
+        replacements: {
+          ...this.windowReplacements(window),
+          groupId: groupId ?? null,
+          userId,
+        },
+        type: QueryTypes.SELECT,
+      },
+    );
+
+    const total = Number(standing.participants);
+    const rank = standing.rank === null ? null : Number(standing.rank);
+    return {
+      period,
+      start: window?.start ?? null,
+      end: window?.end ?? null,
+      min_events: this.minEvents,
+      total,
+      offset,
+      limit,
+      items,
+      me: {
+        rank,
+        score:
+          standing.avg_intensity === null
+            ? null
+            : toKarmaScore(standing.avg_intensity),
+        event_count: Number(standing.event_count ?? 0),
+        percentile: rank === null ? null : this.toPercentile(rank, total),
+      },
+    };
+  }
+
+  /** Every ranked user over `window` (all time when null), best first */
+  async getRankings(
+    window: CalendarWindow | null,
+  ): Promise<LeaderboardEntry[]> {
+    return this.findRanked(window);
+  }
+
+  /** Share of `participants` placed at or below `rank`, 1-100 */
+  toPercentile(rank: number, participants: number): number {
+    return Math.round(((participants - rank + 1) / participants) * 100);
+  }
+
+  private async findRanked(
+    window: CalendarWindow | null,
+    page?: { offset: number; limit: number },
+    groupId?: string,
+  ): Promise<LeaderboardEntry[]> {
+    const rows = await this.sequelize.query<RankedRow>(
+      `${this.standingsSql(window, groupId)}
+      SELECT user_id, username, avg_intensity, event_count, "rank"
+      FROM ranked
+      ORDER BY "rank", user_id
+      ${page ? 'LIMIT :limit OFFSET :offset' : ''}`,
+      {
+        replacements: {
+          ...this.windowReplacements(window),
+          groupId: groupId ?? null,
+          ...page,
+        },
+        type: QueryTypes.SELECT,
+      },
+    );
+    return rows.map((row) => ({
+      rank: Number(row.rank),
+      userId: row.user_id,
+      username: row.username,
+      score: toKarmaScore(row.avg_intensity),
+      event_count: Number(row.event_count),
+    }));
+  }
+
+  private getWindow(period: LeaderboardPeriod): CalendarWindow | null {
+    const now = new Date();
+    const league = this.weekService.leaguePreferences;
+    switch (period) {
+      case LeaderboardPeriod.WEEK:
+        return this.weekService.getLeagueWeek(now);
+      case LeaderboardPeriod.MONTH:
+        return this.weekService.getMonth(now, league);
+      case LeaderboardPeriod.YEAR:
+        return this.weekService.getYear(now, league);
+      case LeaderboardPeriod.ALL:
+        return null;
+    }
+  }
+
+  /**
+   * `totals` holds every user's average over the period, `ranked` only
+   * those with enough events. At equal averages more events rank higher.
+   * Suspended users are left out.
+   */
+  private standingsSql(
+    window: CalendarWindow | null,
+    groupId?: string,
+  ): string {
+    const inWindow = window
+      ? 'AND e.occurred_at >= :start AND e.occurred_at < :end'
+      : '';
+    const inGroup = groupId
+      ? 'AND e.user_id IN (SELECT user_id FROM group_memberships WHERE group_id = :groupId)'
+      : '';
+    return `
+      WITH totals AS (
+        SELECT e.user_id, u.username,
+          AVG(e.intensity) AS avg_intensity,
+          COUNT(e.intensity) AS event_count
+        FROM karma_events e
+        INNER JOIN users u ON u.user_id = e.user_id
+        WHERE e.intensity IS NOT NULL
+          AND u.suspended_at IS NULL
+          ${inWindow}
+          ${inGroup}
+        GROUP BY e.user_id, u.username
+      ),
+      ranked AS (
+        SELECT totals.*, RANK() OVER (
+            ORDER BY avg_intensity DESC, event_count DESC
+          ) AS "rank"
+        FROM totals
+        WHERE event_count >= :minEvents
+      )`;
+  }
+
+  private windowReplacements(window: CalendarWindow | null) {
+    return {
+      minEvents: this.minEvents,
+      start: window?.start ?? null,
+      end: window?.end ?? null,
+    };
+  }
+}
@@ -6,6 +6,7 @@ import {
   PrimaryKey,
   Default,
 } from 'sequelize-typescript';
+import { BadgeRule } from '../badge-rule.types';
 
 @Table({ tableName: 'badge_definitions', timestamps: false })
 export class Badge extends Model {
@@ -28,4 +29,7 @@ export class Badge extends Model {
 
   @Column({ defaultValue: false })
   is_active: boolean;
+
+  @Column({ type: DataType.JSON, allowNull: true })
+  rule: BadgeRule | null;
 }
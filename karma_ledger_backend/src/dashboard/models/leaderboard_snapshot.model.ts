@@ -0,0 +1,46 @@
+import {
+  Column,
+  DataType,
+  Default,
+  HasMany,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+import { LeaderboardPeriod } from 'src/config/leaderboard';
+import { LeaderboardSnapshotEntry } from './leaderboard_snapshot_entry.model';
+
+/** A closed period's leaderboard, frozen when the period ended */
+@Table({
+  tableName: 'leaderboard_snapshots',
+  timestamps: true,
+  indexes: [{ unique: true, fields: ['period', 'period_start'] }],
+})
+export class LeaderboardSnapshot extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @Column(DataType.STRING)
+  period: LeaderboardPeriod;
+
+  @Column(DataType.DATE)
+  period_start: Date;
+
+  /** Exclusive */
+  @Column(DataType.DATE)
+  period_end: Date;
+
+  /** Number of ranked users */
+  @Default(0)
+  @Column(DataType.INTEGER)
+  participants: number;
+
+  /** LEADERBOARD_MIN_EVENTS when the snapshot was taken */
+  @Column(DataType.INTEGER)
+  min_events: number;
+
+  @HasMany(() => LeaderboardSnapshotEntry)
+  entries: LeaderboardSnapshotEntry[];
+}
@@ -0,0 +1,44 @@
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+import { LeaderboardSnapshot } from './leaderboard_snapshot.model';
+
+/** One ranked user in a leaderboard snapshot */
+@Table({ tableName: 'leaderboard_snapshot_entries', timestamps: true })
+export class LeaderboardSnapshotEntry extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => LeaderboardSnapshot)
+  @Column(DataType.UUID)
+  snapshot_id: string;
+
+  /** Null once the account is deleted */
+  @Column({ type: DataType.UUID, allowNull: true })
+  user_id: string | null;
+
+  /** The username at the time, null once the account is deleted */
+  @Column({ type: DataType.STRING, allowNull: true })
+  username: string | null;
+
+  @Column(DataType.INTEGER)
+  rank: number;
+
+  @Column(DataType.INTEGER)
+  score: number;
+
+  @Column(DataType.INTEGER)
+  event_count: number;
+
+  @BelongsTo(() => LeaderboardSnapshot)
+  snapshot: LeaderboardSnapshot;
+}
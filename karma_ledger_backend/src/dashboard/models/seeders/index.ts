@@ -1,6 +1,7 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
 import { Badge } from '../badge.model';
+import { BadgeRule } from '../../badge-rule.types';
 
 @Injectable()
 export class BadgeSeeder implements OnModuleInit {
@@ -13,36 +14,68 @@ export class BadgeSeeder implements OnModuleInit {
   }
 
   async seedBadges() {
-    const badges = [
+    const badges: {
+      code: string;
+      name: string;
+      description: string;
+      icon: string;
+      rule: BadgeRule;
+    }[] = [
       {
         code: 'first_action',
         name: 'First Steps',
         description: 'Created your first karma event',
         icon: '/icons/first-action.png',
+        rule: { type: 'event_count', min: 1, revoke_when_unmet: true },
       },
       {
         code: 'first_suggestion',
         name: 'Good Listener',
         description: 'Received your first AI suggestion',
         icon: '/icons/first-suggestion.png',
+        rule: { type: 'suggestion_count', min: 1 },
       },
       {
         code: 'karma_5',
         name: 'Karma Novice',
         description: 'Created 5 karma events',
         icon: '/icons/karma-5.png',
+        rule: { type: 'event_count', min: 5, revoke_when_unmet: true },
       },
       {
         code: 'weekly_checkin_3',
         name: 'Weekly Warrior',
         description: 'Logged karma for 3 different weeks',
         icon: '/icons/weekly-warrior.png',
+        rule: { type: 'distinct_weeks', min: 3 },
       },
       {
         code: 'top10_leaderboard',
         name: 'Top 10 Finisher',
         description: 'Ranked top 10 this week',
         icon: '/icons/top-10.png',
+        rule: { type: 'leaderboard_rank', max_rank: 10 },
+      },
+      {
+        code: 'streak_7',
+        name: 'On a Roll',
+        description: 'Logged karma 7 days in a row',
+        icon: '/icons/streak-7.png',
+        rule: { type: 'streak', min_days: 7 },
+      },
+      {
+        code: 'streak_30',
+        name: 'Habit Builder',
+        description: 'Logged karma 30 days in a row',
+        icon: '/icons/streak-30.png',
+        rule: { type: 'streak', min_days: 30 },
+      },
+      {
+        code: 'streak_100',
+        name: 'Unstoppable',
+        description: 'Logged karma 100 days in a row',
+        icon: '/icons/streak-100.png',
+        rule: { type: 'streak', min_days: 100 },
       },
     ];
 
@@ -53,6 +86,10 @@ export class BadgeSeeder implements OnModuleInit {
       if (!exists) {
         await this.badgeRepo.create({ ...badge, is_active: true });
         this.logger.log(`Seeded badge: ${badge.name}`);
+      } else if (!exists.rule) {
+        // Badges seeded before rules existed get their default rule once
+        await exists.update({ rule: badge.rule });
+        this.logger.log(`Added rule to badge: ${badge.code}`);
       } else {
         this.logger.debug(`Badge already exists: ${badge.code}`);
       }
@@ -0,0 +1,52 @@
+import {
+  Column,
+  DataType,
+  Default,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+
+/** Statistics of one pass of the weekly suggestion scheduler */
+@Table({ tableName: 'suggestion_runs', timestamps: true })
+export class SuggestionRun extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @Column(DataType.DATE)
+  started_at: Date;
+
+  /** Unset while the run is in progress, or if it crashed */
+  @Column({ type: DataType.DATE, allowNull: true })
+  finished_at: Date | null;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  users_checked: number;
+
+  /** Users a get_suggestions job was added for */
+  @Default(0)
+  @Column(DataType.INTEGER)
+  queued: number;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  skipped_opted_out: number;
+
+  /** Users with no karma events in the last SUGGESTION_SCHEDULE_ACTIVE_DAYS */
+  @Default(0)
+  @Column(DataType.INTEGER)
+  skipped_inactive: number;
+
+  /** Users who already have suggestions, or a queued job, for their current week */
+  @Default(0)
+  @Column(DataType.INTEGER)
+  skipped_existing: number;
+
+  /** Users whose job couldn't be queued */
+  @Default(0)
+  @Column(DataType.INTEGER)
+  failed: number;
+}
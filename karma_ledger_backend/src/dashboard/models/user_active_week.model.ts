@@ -0,0 +1,34 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+  Default,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+
+/** One row per week, in the user's timezone and week start, in which they logged karma */
+@Table({
+  tableName: 'user_active_weeks',
+  timestamps: true,
+  indexes: [{ unique: true, fields: ['user_id', 'week_start'] }],
+})
+export class UserActiveWeek extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @Column(DataType.DATE)
+  week_start: Date;
+
+  @BelongsTo(() => User)
+  user: User;
+}
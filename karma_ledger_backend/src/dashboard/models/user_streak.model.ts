@@ -0,0 +1,59 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+  Default,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+
+/**
+ * Persisted streak state per user. Day and week columns hold indexes as
+ * returned by getDayIndexInTimezone / getWeekIndexForDayIndex.
+ */
+@Table({ tableName: 'user_streaks', timestamps: true })
+export class UserStreak extends Model {
+  @PrimaryKey
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @Column(DataType.STRING)
+  timezone: string;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  current_daily: number;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  longest_daily: number;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  daily_freezes_left: number;
+
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  last_active_day: number | null;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  current_weekly: number;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  longest_weekly: number;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  weekly_freezes_left: number;
+
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  last_active_week: number | null;
+
+  @BelongsTo(() => User)
+  user: User;
+}
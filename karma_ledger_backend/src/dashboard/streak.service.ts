@@ -0,0 +1,230 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Op } from 'sequelize';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { DomainEvents, STREAK_MILESTONES } from 'src/config/events';
+import { WeekService } from 'src/week/week.service';
+import { UserStreak } from './models/user_streak.model';
+
+interface StreakRun {
+  current: number;
+  longest: number;
+  freezesLeft: number;
+  lastActive: number | null;
+}
+
+export interface StreakSummary {
+  timezone: string;
+  freeze_allowance: number;
+  daily: { current: number; longest: number; freezes_left: number };
+  weekly: { current: number; longest: number; freezes_left: number };
+}
+
+/**
+ * Maintains per-user daily and weekly streaks in the user's timezone, with
+ * weeks beginning on the user's week start.
+ * Streaks are persisted in user_streaks and rebuilt whenever the user's
+ * events change; reads only check whether the stored streak has lapsed.
+ *
+ * STREAK_FREEZE_ALLOWANCE missed days (or weeks) are bridged per streak
+ * before it resets. Bridged periods don't add to the streak length.
+ */
+@Injectable()
+export class StreakService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(StreakService.name);
+  private readonly freezeAllowance: number;
+
+  constructor(
+    @InjectModel(UserStreak)
+    private readonly streakRepo: typeof UserStreak,
+
+    @InjectModel(KarmaEvent)
+    private readonly karmaEventRepo: typeof KarmaEvent,
+
+    private readonly eventEmitter: EventEmitter2,
+    private readonly weekService: WeekService,
+    configService: ConfigService,
+  ) {
+    this.freezeAllowance = Math.max(
+      0,
+      Number(configService.get<string>('STREAK_FREEZE_ALLOWANCE') ?? 0) || 0,
+    );
+  }
+
+  /** Runs after listeners are registered so backfilled streaks award badges */
+  onApplicationBootstrap() {
+    this.backfill().catch((error: Error) =>
+      this.logger.error(`Streak backfill failed: ${error.message}`),
+    );
+  }
+
+  async getStreaks(userId: string): Promise<StreakSummary> {
+    const streak = await this.streakRepo.findByPk(userId);
+    const preferences = await this.weekService.getUserPreferences(userId);
+    // Indexes were stored in the timezone the streak was computed in
+    const timezone = streak?.timezone ?? preferences.timezone;
+    const today = this.weekService.getDayIndex(new Date(), {
+      ...preferences,
+      timezone,
+    });
+
+    return {
+      timezone,
+      freeze_allowance: this.freezeAllowance,
+      daily: this.toSummary(
+        {
+          current: streak?.current_daily ?? 0,
+          longest: streak?.longest_daily ?? 0,
+          freezesLeft: streak?.daily_freezes_left ?? this.freezeAllowance,
+          lastActive: streak?.last_active_day ?? null,
+        },
+        today,
+      ),
+      weekly: this.toSummary(
+        {
+          current: streak?.current_weekly ?? 0,
+          longest: streak?.longest_weekly ?? 0,
+          freezesLeft: streak?.weekly_freezes_left ?? this.freezeAllowance,
+          lastActive: streak?.last_active_week ?? null,
+        },
+        this.weekService.getWeekIndexForDay(today, preferences),
+      ),
+    };
+  }
+
+  async getCurrentDailyStreak(userId: string): Promise<number> {
+    return (await this.getStreaks(userId)).daily.current;
+  }
+
+  /** Rebuilds and stores a user's streaks from their events */
+  async recalculate(userId: string): Promise<void> {
+    const preferences = await this.weekService.getUserPreferences(userId);
+    const events = await this.karmaEventRepo.findAll({
+      where: { user_id: userId },
+      attributes: ['occurred_at'],
+    });
+
+    const days = [
+      ...new Set(
+        events.map((e) =>
+          this.weekService.getDayIndex(e.occurred_at, preferences),
+        ),
+      ),
+    ].sort((a, b) => a - b);
+    const weeks = [
+      ...new Set(
+        days.map((day) =>
+          this.weekService.getWeekIndexForDay(day, preferences),
+        ),
+      ),
+    ];
+
+    const daily = this.computeRun(days);
+    const weekly = this.computeRun(weeks);
+
+    const previous = await this.streakRepo.findByPk(userId);
+    const previousDaily = previous?.current_daily ?? 0;
+
+    await this.streakRepo.upsert({
+      user_id: userId,
+      timezone: preferences.timezone,
+      current_daily: daily.current,
+      longest_daily: daily.longest,
+      daily_freezes_left: daily.freezesLeft,
+      last_active_day: daily.lastActive,
+      current_weekly: weekly.current,
+      longest_weekly: weekly.longest,
+      weekly_freezes_left: weekly.freezesLeft,
+      last_active_week: weekly.lastActive,
+    });
+
+    if (
+      previous &&
+      previousDaily === daily.current &&
+      previous.current_weekly === weekly.current
+    ) {
+      return;
+    }
+
+    const currentDaily = (await this.getStreaks(userId)).daily.current;
+    this.eventEmitter.emit(DomainEvents.STREAK_UPDATED, {
+      userId,
+      streakDays: currentDaily,
+    });
+
+    for (const milestone of STREAK_MILESTONES) {
+      if (previousDaily < milestone && currentDaily >= milestone) {
+        this.eventEmitter.emit(DomainEvents.STREAK_MILESTONE, {
+          userId,
+          streakDays: milestone,
+        });
+      }
+    }
+  }
+
+  /** Builds streaks for users who logged events before streaks were tracked */
+  async backfill(): Promise<void> {
+    const tracked = await this.streakRepo.findAll({ attributes: ['user_id'] });
+    const untracked = (await this.karmaEventRepo.findAll({
+      attributes: ['user_id'],
+      where: {
+        user_id: { [Op.notIn]: tracked.map((row) => row.user_id) },
+      },
+      group: ['user_id'],
+      raw: true,
+    })) as unknown as { user_id: string }[];
+
+    if (untracked.length === 0) return;
+
+    this.logger.log(`Backfilling streaks for ${untracked.length} users`);
+    for (const { user_id } of untracked) {
+      await this.recalculate(user_id);
+    }
+  }
+
+  /**
+   * Walks sorted, distinct period indexes and returns the most recent run
+   * along with the longest run seen.
+   */
+  private computeRun(periods: number[]): StreakRun {
+    let current = 0;
+    let longest = 0;
+    let freezesLeft = this.freezeAllowance;
+    let lastActive: number | null = null;
+
+    for (const period of periods) {
+      const gap = lastActive === null ? 0 : period - lastActive - 1;
+      if (lastActive !== null && gap <= freezesLeft) {
+        freezesLeft -= gap;
+        current++;
+      } else {
+        current = 1;
+        freezesLeft = this.freezeAllowance;
+      }
+      lastActive = period;
+      longest = Math.max(longest, current);
+    }
+
+    return { current, longest, freezesLeft, lastActive };
+  }
+
+  /**
+   * A stored streak is still alive while the gap since the last active
+   * period can be covered by the remaining freezes. The current period
+   * never counts as missed since the user may still log something.
+   */
+  private toSummary(run: StreakRun, currentPeriod: number) {
+    const missed =
+      run.lastActive === null ? Infinity : currentPeriod - run.lastActive - 1;
+    const alive = missed <= run.freezesLeft;
+    return {
+      current: alive ? run.current : 0,
+      longest: run.longest,
+      freezes_left: alive
+        ? run.freezesLeft - Math.max(0, missed)
+        : this.freezeAllowance,
+    };
+  }
+}
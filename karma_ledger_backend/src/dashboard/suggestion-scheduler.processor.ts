@@ -0,0 +1,16 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { QueueNames } from 'src/config/queues';
+import { SuggestionSchedulerService } from './suggestion-scheduler.service';
+
+@Processor(QueueNames.SUGGESTION_SCHEDULER)
+export class SuggestionSchedulerProcessor extends WorkerHost {
+  constructor(
+    private readonly suggestionSchedulerService: SuggestionSchedulerService,
+  ) {
+    super();
+  }
+
+  async process() {
+    await this.suggestionSchedulerService.scheduleWeeklySuggestions();
+  }
+}
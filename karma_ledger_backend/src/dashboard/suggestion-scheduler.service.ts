@@ -0,0 +1,187 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { InjectQueue } from '@nestjs/bullmq';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import { Op, col, fn } from 'sequelize';
+import { QueueNames } from 'src/config/queues';
+import { handleError } from 'src/util/error';
+import { WeekService } from 'src/week/week.service';
+import { User } from 'src/users/models/users.model';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { Suggestion } from './models/suggestion.model';
+import { SuggestionRun } from './models/suggestion_run.model';
+
+const DEFAULT_ACTIVE_DAYS = 28;
+const DEFAULT_RUN_HISTORY = 50;
+const SCHEDULE_INTERVAL_MS = 3600000;
+const SCHEDULER_ID = 'weekly-suggestions';
+
+type RunStats = Pick<
+  SuggestionRun,
+  | 'users_checked'
+  | 'queued'
+  | 'skipped_opted_out'
+  | 'skipped_inactive'
+  | 'skipped_existing'
+  | 'failed'
+>;
+
+/**
+ * Generates every active user's suggestions once a week. The check runs
+ * hourly, so a user's job is queued within an hour of their week starting
+ * in their timezone and on their week start day.
+ */
+@Injectable()
+export class SuggestionSchedulerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SuggestionSchedulerService.name);
+  private readonly activeDays: number;
+
+  constructor(
+    @InjectModel(User) private readonly userRepo: typeof User,
+    @InjectModel(KarmaEvent)
+    private readonly karmaEventRepo: typeof KarmaEvent,
+    @InjectModel(Suggestion)
+    private readonly suggestionRepo: typeof Suggestion,
+    @InjectModel(SuggestionRun)
+    private readonly runRepo: typeof SuggestionRun,
+    @InjectQueue(QueueNames.SUGGESTION_SCHEDULER)
+    private readonly schedulerQueue: Queue,
+    @InjectQueue(QueueNames.KARMA_SUGGESTION)
+    private readonly suggestionQueue: Queue,
+    private readonly weekService: WeekService,
+    configService: ConfigService,
+  ) {
+    this.activeDays =
+      Number(configService.get<string>('SUGGESTION_SCHEDULE_ACTIVE_DAYS')) ||
+      DEFAULT_ACTIVE_DAYS;
+  }
+
+  async onApplicationBootstrap() {
+    await this.schedulerQueue.upsertJobScheduler(
+      SCHEDULER_ID,
+      { every: SCHEDULE_INTERVAL_MS },
+      { name: 'schedule_weekly_suggestions' },
+    );
+  }
+
+  /**
+   * Queues suggestions for users whose current week has none yet. Opted-out
+   * users and users without recent karma events are skipped; suspended
+   * accounts and accounts awaiting deletion aren't considered at all.
+   */
+  async scheduleWeeklySuggestions(): Promise<SuggestionRun> {
+    const now = new Date();
+    const run = await this.runRepo.create({ started_at: now });
+    const stats: RunStats = {
+      users_checked: 0,
+      queued: 0,
+      skipped_opted_out: 0,
+      skipped_inactive: 0,
+      skipped_existing: 0,
+      failed: 0,
+    };
+
+    const users = await this.userRepo.findAll({
+      attributes: [
+        'user_id',
+        'timezone',
+        'week_start',
+        'suggestions_opt_out',
+        'createdAt',
+      ],
+      where: { suspended_at: null, deletion_scheduled_at: null },
+    });
+    const activeUserIds = await this.findUsersActiveSince(
+      new Date(now.getTime() - this.activeDays * 86400000),
+    );
+    const lastGeneratedAt = await this.findLatestSuggestionDates();
+
+    for (const user of users) {
+      stats.users_checked++;
+      if (user.suggestions_opt_out) {
+        stats.skipped_opted_out++;
+        continue;
+      }
+      if (!activeUserIds.has(user.user_id)) {
+        stats.skipped_inactive++;
+        continue;
+      }
+
+      const preferences = this.weekService.preferencesFor(user);
+      const currentWeek = this.weekService.getWeekIndex(now, preferences);
+      const last = lastGeneratedAt.get(user.user_id);
+      // One job per user and local week, even if it failed for good
+      const jobId = `weekly-suggestions-${user.user_id}-${currentWeek}`;
+      if (
+        (last &&
+          this.weekService.getWeekIndex(last, preferences) === currentWeek) ||
+        (await this.suggestionQueue.getJob(jobId))
+      ) {
+        stats.skipped_existing++;
+        continue;
+      }
+
+      try {
+        await this.suggestionQueue.add(
+          'get_suggestions',
+          {
+            userId: user.user_id,
+            week: this.weekService.getWeekNumberSinceJoin(
+              user.createdAt as Date,
+              now,
+              preferences,
+            ),
+          },
+          { jobId },
+        );
+        stats.queued++;
+      } catch (error) {
+        stats.failed++;
+        this.logger.error(
+          `Could not queue suggestions for user ${user.user_id}: ${handleError(error)}`,
+        );
+      }
+    }
+
+    await run.update({ ...stats, finished_at: new Date() });
+    this.logger.log(
+      `Weekly suggestions: queued ${stats.queued} of ${stats.users_checked} users ` +
+        `(${stats.skipped_existing} up to date, ${stats.skipped_inactive} inactive, ` +
+        `${stats.skipped_opted_out} opted out, ${stats.failed} failed)`,
+    );
+    return run;
+  }
+
+  /** Most recent scheduler runs, newest first */
+  async listRuns(limit = DEFAULT_RUN_HISTORY): Promise<SuggestionRun[]> {
+    return this.runRepo.findAll({
+      order: [['started_at', 'DESC']],
+      limit,
+    });
+  }
+
+  private async findUsersActiveSince(since: Date): Promise<Set<string>> {
+    const rows = await this.karmaEventRepo.findAll({
+      attributes: ['user_id'],
+      where: { occurred_at: { [Op.gte]: since } },
+      group: ['user_id'],
+      raw: true,
+    });
+    return new Set(rows.map((row) => row.user_id));
+  }
+
+  private async findLatestSuggestionDates(): Promise<Map<string, Date>> {
+    const rows = (await this.suggestionRepo.findAll({
+      attributes: [
+        'user_id',
+        [fn('MAX', col('created_at')), 'last_created_at'],
+      ],
+      group: ['user_id'],
+      raw: true,
+    })) as unknown as { user_id: string; last_created_at: string | Date }[];
+    return new Map(
+      rows.map((row) => [row.user_id, new Date(row.last_created_at)]),
+    );
+  }
+}
@@ -1,21 +1,29 @@
-import { WorkerHost, Processor } from '@nestjs/bullmq';
+import { WorkerHost, Processor, OnWorkerEvent } from '@nestjs/bullmq';
 import { Job } from 'bullmq';
 import { InjectModel } from '@nestjs/sequelize';
 import { Op } from 'sequelize';
 import { Suggestion } from './models/suggestion.model';
 import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
-import { AiService } from 'src/karma_event/gemini.service';
+import { AI_PROVIDER, AiProvider } from 'src/ai/ai-provider.interface';
 import { User } from 'src/users/models/users.model';
 import { QueueNames } from 'src/config/queues';
-import { Logger } from '@nestjs/common';
+import { Inject, Logger } from '@nestjs/common';
 import { handleError } from 'src/util/error';
-import { BadgeEvents } from 'src/config/events';
+import { DomainEvents } from 'src/config/events';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { getCurrentCalendarWeek } from 'src/util/date.util';
+import { WeekService } from 'src/week/week.service';
+import { ConfigService } from '@nestjs/config';
+import { toAiJobError } from 'src/ai/ai.errors';
+import { DeadLetterService } from 'src/dead_letter/dead_letter.service';
+
+const DEFAULT_INVALID_RESPONSE_ATTEMPTS = 2;
+
+type SuggestionJob = Job<{ userId: string; week: number }>;
 
 @Processor(QueueNames.KARMA_SUGGESTION)
 export class SuggestionsProcessor extends WorkerHost {
   private readonly logger = new Logger('Suggestions_processing');
+  private readonly maxInvalidAttempts: number;
 
   constructor(
     @InjectModel(KarmaEvent)
@@ -27,13 +35,19 @@ export class SuggestionsProcessor extends WorkerHost {
     @InjectModel(User)
     private readonly userRepo: typeof User,
 
-    private readonly aiService: AiService,
+    @Inject(AI_PROVIDER) private readonly aiProvider: AiProvider,
     private readonly eventEmitter: EventEmitter2,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly weekService: WeekService,
+    configService: ConfigService,
   ) {
     super();
+    this.maxInvalidAttempts =
+      Number(configService.get<string>('AI_INVALID_RESPONSE_MAX_ATTEMPTS')) ||
+      DEFAULT_INVALID_RESPONSE_ATTEMPTS;
   }
 
-  async process(job: Job<{ userId: string; week: number }>) {
+  async process(job: SuggestionJob) {
     const { userId, week } = job.data;
     this.logger.log(`Generating suggestions for user ${userId}, week ${week}`);
 
@@ -41,15 +55,20 @@ export class SuggestionsProcessor extends WorkerHost {
       const user = await this.userRepo.findByPk(userId);
       if (!user) throw new Error(`User ${userId} not found.`);
 
-      // Use calendar week approach for consistency with leaderboard
-      const { start: currentWeekStart, end: currentWeekEnd } = getCurrentCalendarWeek();
+      // The user's own week, as on their weekly scores
+      const { start: currentWeekStart, end: currentWeekEnd } =
+        this.weekService.getWeek(
+          new Date(),
+          this.weekService.preferencesFor(user),
+        );
 
-      // Get events from current calendar week
+      // Get events from the current week
       const currentWeekEvents = await this.karmaEventRepo.findAll({
         where: {
           user_id: userId,
           occurred_at: {
-            [Op.between]: [currentWeekStart, currentWeekEnd],
+            [Op.gte]: currentWeekStart,
+            [Op.lt]: currentWeekEnd,
           },
         },
         order: [['occurred_at', 'DESC']],
@@ -71,7 +90,7 @@ export class SuggestionsProcessor extends WorkerHost {
         });
       }
 
-      const suggestions = await this.aiService.generateWeeklySuggestions(
+      const suggestions = await this.aiProvider.generateWeeklySuggestions(
         userId,
         events,
       );
@@ -80,10 +99,6 @@ export class SuggestionsProcessor extends WorkerHost {
         `Generating fresh suggestions for user ${userId} based on ${events.length} recent karma events`,
       );
 
-      const existingCount = await this.suggestionRepo.count({
-        where: { user_id: userId },
-      });
-
       // Delete ALL previous suggestions for the user to ensure fresh content
       await this.suggestionRepo.destroy({
         where: {
@@ -101,8 +116,8 @@ export class SuggestionsProcessor extends WorkerHost {
           created_at: now,
         })),
       );
-      if (existingCount === 0 && created.length > 0) {
-        this.eventEmitter.emit(BadgeEvents.FIRST_SUGGESTION, { userId });
+      if (created.length > 0) {
+        this.eventEmitter.emit(DomainEvents.SUGGESTIONS_CREATED, { userId });
       }
 
       this.logger.log(
@@ -110,21 +125,20 @@ export class SuggestionsProcessor extends WorkerHost {
       );
     } catch (err) {
       this.logger.error(handleError(err));
+      // Rethrown so BullMQ retries it and the failure is visible
+      throw toAiJobError(err, job.attemptsMade + 1, this.maxInvalidAttempts);
     }
   }
 
-
-  /**
-   * Given a user's signup date and current app week number,
-   * returns the real date range (start and end) for that user's personal week.
-   */
-  private getWeekFromJoinDate(
-    joinedAt: Date,
-    weekOffset: number,
-  ): { start: Date; end: Date } {
-    const joined = new Date(joinedAt);
-    const start = new Date(joined.getTime() + (weekOffset - 1) * 7 * 86400000);
-    const end = new Date(start.getTime() + 7 * 86400000); // Fixed: use 7 days, not 6
-    return { start, end };
+  @OnWorkerEvent('failed')
+  async onFailed(job: SuggestionJob, error: Error) {
+    if (!this.deadLetterService.isFinalFailure(job, error)) return;
+    try {
+      await this.deadLetterService.add(job, error);
+    } catch (err) {
+      this.logger.error(
+        `Could not dead-letter suggestions job ${job.id}: ${handleError(err)}`,
+      );
+    }
   }
 }
@@ -0,0 +1,30 @@
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { QueueNames } from 'src/config/queues';
+import { DataExportService } from './data_export.service';
+
+interface JobData {
+  exportId: string;
+  userId: string;
+}
+
+@Processor(QueueNames.DATA_EXPORT)
+export class DataExportProcessor extends WorkerHost {
+  private readonly logger = new Logger(DataExportProcessor.name);
+
+  constructor(private readonly dataExportService: DataExportService) {
+    super();
+  }
+
+  async process(job: Job<JobData>) {
+    await this.dataExportService.buildArchive(job.data.exportId);
+  }
+
+  @OnWorkerEvent('failed')
+  onFailed(job: Job<JobData>, error: Error) {
+    this.logger.error(
+      `Export job ${job.id} (export ${job.data.exportId}) failed: ${error.message}`,
+    );
+  }
+}
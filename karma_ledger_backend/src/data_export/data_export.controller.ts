@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  HttpException,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Request,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { createReadStream } from 'fs';
+import { JwtAuthGuard } from 'src/auth/jwt.guard';
+import { AuthenticatedRequest } from 'src/util/types';
+import { handleError } from 'src/util/error';
+import { DataExportService } from './data_export.service';
+import { DataExport, DataExportStatus } from './models/data_export.model';
+
+const toExportView = (dataExport: DataExport) => ({
+  id: dataExport.id,
+  status: dataExport.status,
+  expires_at: dataExport.expires_at,
+  error: dataExport.error,
+  download_url:
+    dataExport.status === DataExportStatus.READY
+      ? `/users/me/export/${dataExport.id}/download`
+      : null,
+  createdAt: dataExport.createdAt as Date,
+});
+
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT')
+@Controller('users/me/export')
+export class DataExportController {
+  constructor(private readonly dataExportService: DataExportService) {}
+
+  /** Starts an export; the response says whether it is ready to download */
+  @Post()
+  async requestExport(@Request() req: AuthenticatedRequest) {
+    try {
+      return toExportView(
+        await this.dataExportService.requestExport(req.user?.user_id ?? ''),
+      );
+    } catch (error) {
+      throw new HttpException(
+        handleError(error),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id')
+  async getExport(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return toExportView(
+        await this.dataExportService.findUserExport(
+          id,
+          req.user?.user_id ?? '',
+        ),
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
+  @Get(':id/download')
+  async download(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    let filePath: string;
+    try {
+      filePath = await this.dataExportService.getDownloadPath(
+        id,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+
+    return new StreamableFile(createReadStream(filePath), {
+      type: 'application/zip',
+      disposition: `attachment; filename="karma-ledger-export-${id}.zip"`,
+    });
+  }
+}
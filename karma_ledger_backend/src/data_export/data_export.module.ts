@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { BullModule } from '@nestjs/bullmq';
+import { QueueJobOptions, QueueNames } from 'src/config/queues';
+import { User } from 'src/users/models/users.model';
+import { UserBadge } from 'src/users/models/user_badges.model';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { Tag } from 'src/karma_event/models/tag.model';
+import { KarmaEventTag } from 'src/karma_event/models/karma_event_tag.model';
+import { Suggestion } from 'src/dashboard/models/suggestion.model';
+import { DashboardModule } from 'src/dashboard/dashboard.module';
+import { GroupMembership } from 'src/groups/models/group_membership.model';
+import { ChallengeParticipant } from 'src/challenges/models/challenge_participant.model';
+import { DataExport } from './models/data_export.model';
+import { DataExportService } from './data_export.service';
+import { DataExportProcessor } from './data-export.processor';
+import { DataExportController } from './data_export.controller';
+
+@Module({
+  imports: [
+    DashboardModule,
+    SequelizeModule.forFeature([
+      DataExport,
+      User,
+      UserBadge,
+      KarmaEvent,
+      Tag,
+      KarmaEventTag,
+      Suggestion,
+      GroupMembership,
+      ChallengeParticipant,
+    ]),
+    BullModule.registerQueue({
+      name: QueueNames.DATA_EXPORT,
+      defaultJobOptions: QueueJobOptions[QueueNames.DATA_EXPORT],
+    }),
+  ],
+  controllers: [DataExportController],
+  providers: [DataExportService, DataExportProcessor],
+})
+export class DataExportModule {}
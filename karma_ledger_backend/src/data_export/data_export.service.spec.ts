@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { getQueueToken } from '@nestjs/bullmq';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { UniqueConstraintError } from 'sequelize';
+import { QueueNames } from 'src/config/queues';
+import { User } from 'src/users/models/users.model';
+import { UserBadge } from 'src/users/models/user_badges.model';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { Tag } from 'src/karma_event/models/tag.model';
+import { KarmaEventTag } from 'src/karma_event/models/karma_event_tag.model';
+import { Suggestion } from 'src/dashboard/models/suggestion.model';
+import { DashboardService } from 'src/dashboard/dashboard.service';
+import { LeaderboardSnapshotService } from 'src/dashboard/leaderboard-snapshot.service';
+import { GroupMembership } from 'src/groups/models/group_membership.model';
+import { ChallengeParticipant } from 'src/challenges/models/challenge_participant.model';
+import { DataExport, DataExportStatus } from './models/data_export.model';
+import { DataExportService } from './data_export.service';
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  const exportModel = {
+    findOne: jest.fn(),
+    findAll: jest.fn(),
+    create: jest.fn(),
+  };
+  const karmaEventModel = { count: jest.fn() };
+  const exportQueue = { add: jest.fn() };
+  const running = { id: 'export-1', status: DataExportStatus.PROCESSING };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    exportModel.findAll.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        { provide: getModelToken(DataExport), useValue: exportModel },
+        { provide: getModelToken(User), useValue: {} },
+        { provide: getModelToken(KarmaEvent), useValue: karmaEventModel },
+        { provide: getModelToken(Tag), useValue: {} },
+        { provide: getModelToken(KarmaEventTag), useValue: {} },
+        { provide: getModelToken(Suggestion), useValue: {} },
+        { provide: getModelToken(UserBadge), useValue: {} },
+        { provide: getModelToken(GroupMembership), useValue: {} },
+        { provide: getModelToken(ChallengeParticipant), useValue: {} },
+        {
+          provide: getQueueToken(QueueNames.DATA_EXPORT),
+          useValue: exportQueue,
+        },
+        { provide: DashboardService, useValue: {} },
+        { provide: LeaderboardSnapshotService, useValue: {} },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: string) => fallback },
+        },
+      ],
+    }).compile();
+    service = module.get(DataExportService);
+  });
+
+  describe('requestExport', () => {
+    it('returns the running export instead of starting another', async () => {
+      exportModel.findOne.mockResolvedValue(running);
+
+      await expect(service.requestExport('user-1')).resolves.toBe(running);
+      expect(exportModel.create).not.toHaveBeenCalled();
+    });
+
+    it('queues exports of large accounts', async () => {
+      exportModel.findOne.mockResolvedValue(null);
+      exportModel.create.mockResolvedValue({ id: 'export-2' });
+      karmaEventModel.count.mockResolvedValue(100000);
+
+      await service.requestExport('user-1');
+
+      expect(exportQueue.add).toHaveBeenCalledWith('build_export', {
+        exportId: 'export-2',
+        userId: 'user-1',
+      });
+    });
+
+    it('returns the export a concurrent request started first', async () => {
+      exportModel.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(running);
+      exportModel.create.mockRejectedValue(new UniqueConstraintError({}));
+
+      await expect(service.requestExport('user-1')).resolves.toBe(running);
+      expect(karmaEventModel.count).not.toHaveBeenCalled();
+      expect(exportQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('rethrows other failures to start an export', async () => {
+      exportModel.findOne.mockResolvedValue(null);
+      exportModel.create.mockRejectedValue(new Error('disk full'));
+
+      await expect(service.requestExport('user-1')).rejects.toThrow(
+        'disk full',
+      );
+    });
+  });
+});
@@ -0,0 +1,355 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { InjectQueue } from '@nestjs/bullmq';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Queue } from 'bullmq';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { zipSync, strToU8 } from 'fflate';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { QueueNames } from 'src/config/queues';
+import { DomainEvents } from 'src/config/events';
+import { toCsv } from 'src/util/csv';
+import { handleError } from 'src/util/error';
+import { User } from 'src/users/models/users.model';
+import { UserBadge } from 'src/users/models/user_badges.model';
+import { toPrivateProfile } from 'src/users/user.serializer';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { Tag } from 'src/karma_event/models/tag.model';
+import { KarmaEventTag } from 'src/karma_event/models/karma_event_tag.model';
+import { Suggestion } from 'src/dashboard/models/suggestion.model';
+import { Badge } from 'src/dashboard/models/badge.model';
+import { DashboardService } from 'src/dashboard/dashboard.service';
+import { LeaderboardSnapshotService } from 'src/dashboard/leaderboard-snapshot.service';
+import { Group } from 'src/groups/models/group.model';
+import { GroupMembership } from 'src/groups/models/group_membership.model';
+import { Challenge } from 'src/challenges/models/challenge.model';
+import { ChallengeParticipant } from 'src/challenges/models/challenge_participant.model';
+import { DataExport, DataExportStatus } from './models/data_export.model';
+
+const DEFAULT_SYNC_MAX_EVENTS = 500;
+const DEFAULT_TTL_HOURS = 24;
+
+/**
+ * Builds a zip of everything stored about a user, each dataset as JSON
+ * and CSV. Small accounts are exported inline, larger ones on the
+ * data_export queue.
+ */
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+  private readonly storageDir: string;
+
+  constructor(
+    @InjectModel(DataExport) private readonly exportRepo: typeof DataExport,
+    @InjectModel(User) private readonly userRepo: typeof User,
+    @InjectModel(KarmaEvent) private readonly karmaEventRepo: typeof KarmaEvent,
+    @InjectModel(Tag) private readonly tagRepo: typeof Tag,
+    @InjectModel(KarmaEventTag)
+    private readonly karmaEventTagRepo: typeof KarmaEventTag,
+    @InjectModel(Suggestion) private readonly suggestionRepo: typeof Suggestion,
+    @InjectModel(UserBadge) private readonly userBadgeRepo: typeof UserBadge,
+    @InjectModel(GroupMembership)
+    private readonly membershipRepo: typeof GroupMembership,
+    @InjectModel(ChallengeParticipant)
+    private readonly participantRepo: typeof ChallengeParticipant,
+    @InjectQueue(QueueNames.DATA_EXPORT) private readonly exportQueue: Queue,
+    private readonly dashboardService: DashboardService,
+    private readonly leaderboardSnapshotService: LeaderboardSnapshotService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+  ) {
+    this.storageDir = resolve(
+      configService.get<string>('EXPORT_STORAGE_DIR', 'exports'),
+    );
+  }
+
+  /**
+   * Returns the user's running export, or starts a new one. A unique index
+   * allows one running export per user, so of concurrent requests only one
+   * creates it and the others return it.
+   */
+  async requestExport(userId: string): Promise<DataExport> {
+    await this.removeExpired();
+
+    const running = await this.findRunningExport(userId);
+    if (running) return running;
+
+    let dataExport: DataExport;
+    try {
+      dataExport = await this.exportRepo.create({ user_id: userId });
+    } catch (error) {
+      const started =
+        error instanceof UniqueConstraintError &&
+        (await this.findRunningExport(userId));
+      if (!started) throw error;
+      return started;
+    }
+    const eventCount = await this.karmaEventRepo.count({
+      where: { user_id: userId },
+    });
+    const syncMaxEvents =
+      Number(this.configService.get<string>('EXPORT_SYNC_MAX_EVENTS')) ||
+      DEFAULT_SYNC_MAX_EVENTS;
+
+    if (eventCount <= syncMaxEvents) {
+      await this.buildArchive(dataExport.id);
+      return dataExport.reload();
+    }
+
+    await this.exportQueue.add('build_export', {
+      exportId: dataExport.id,
+      userId,
+    });
+    return dataExport;
+  }
+
+  async findUserExport(exportId: string, userId: string): Promise<DataExport> {
+    const dataExport = await this.exportRepo.findOne({
+      where: { id: exportId, user_id: userId },
+    });
+    if (!dataExport) {
+      throw new Error(`Export with ID ${exportId} not found`);
+    }
+    return dataExport;
+  }
+
+  /** Path of a finished archive the user may still download */
+  async getDownloadPath(exportId: string, userId: string): Promise<string> {
+    const dataExport = await this.findUserExport(exportId, userId);
+    if (
+      dataExport.status !== DataExportStatus.READY ||
+      !dataExport.file_path ||
+      (dataExport.expires_at && dataExport.expires_at.getTime() <= Date.now())
+    ) {
+      throw new Error('This export is not available for download');
+    }
+    return dataExport.file_path;
+  }
+
+  /** Collects the data, writes the zip and notifies the user */
+  async buildArchive(exportId: string): Promise<void> {
+    const dataExport = await this.exportRepo.findByPk(exportId);
+    if (!dataExport) return;
+
+    await dataExport.update({ status: DataExportStatus.PROCESSING });
+    try {
+      const files = await this.collectFiles(dataExport.user_id);
+      await mkdir(this.storageDir, { recursive: true });
+      const filePath = join(this.storageDir, `${exportId}.zip`);
+      await writeFile(filePath, zipSync(files));
+
+      const ttlHours =
+        Number(this.configService.get<string>('EXPORT_TTL_HOURS')) ||
+        DEFAULT_TTL_HOURS;
+      await dataExport.update({
+        status: DataExportStatus.READY,
+        file_path: filePath,
+        expires_at: new Date(Date.now() + ttlHours * 3600000),
+        error: null,
+      });
+      this.eventEmitter.emit(DomainEvents.DATA_EXPORT_READY, {
+        userId: dataExport.user_id,
+        exportId,
+      });
+    } catch (error) {
+      this.logger.error(`Export ${exportId} failed: ${handleError(error)}`);
+      await dataExport.update({
+        status: DataExportStatus.FAILED,
+        error: handleError(error),
+      });
+      throw error;
+    }
+  }
+
+  private findRunningExport(userId: string): Promise<DataExport | null> {
+    return this.exportRepo.findOne({
+      where: {
+        user_id: userId,
+        status: {
+          [Op.in]: [DataExportStatus.PENDING, DataExportStatus.PROCESSING],
+        },
+      },
+    });
+  }
+
+  private async collectFiles(
+    userId: string,
+  ): Promise<Record<string, Uint8Array>> {
+    const user = await this.userRepo.findByPk(userId);
+    if (!user) throw new Error(`User ${userId} not found`);
+
+    // Plain model values rather than raw rows, so dates and booleans
+    // serialize the same on SQLite and Postgres
+    const events = (
+      await this.karmaEventRepo.findAll({
+        where: { user_id: userId },
+        order: [['occurred_at', 'ASC']],
+      })
+    ).map((event) => event.get({ plain: true }) as KarmaEvent);
+    const tags = (
+      await this.tagRepo.findAll({
+        where: { user_id: userId },
+        order: [['name', 'ASC']],
+      })
+    ).map((tag) => tag.get({ plain: true }) as Tag);
+    const eventTags =
+      tags.length === 0
+        ? []
+        : (
+            await this.karmaEventTagRepo.findAll({
+              where: { tag_id: { [Op.in]: tags.map((tag) => tag.id) } },
+              order: [['event_id', 'ASC']],
+            })
+          ).map((link) => link.get({ plain: true }) as KarmaEventTag);
+    const suggestions = (
+      await this.suggestionRepo.findAll({
+        where: { user_id: userId },
+        order: [['created_at', 'ASC']],
+      })
+    ).map((suggestion) => suggestion.get({ plain: true }) as Suggestion);
+    const userBadges = await this.userBadgeRepo.findAll({
+      where: { user_id: userId },
+      include: [Badge],
+      order: [['awarded_at', 'ASC']],
+    });
+    const badges = userBadges.map((userBadge) => ({
+      code: userBadge.badge?.code,
+      name: userBadge.badge?.name,
+      description: userBadge.badge?.description,
+      awarded_at: userBadge.awarded_at,
+    }));
+    const memberships = await this.membershipRepo.findAll({
+      where: { user_id: userId },
+      include: [Group],
+      order: [['createdAt', 'ASC']],
+    });
+    const groups = memberships.map((membership) => ({
+      group_id: membership.group_id,
+      name: membership.group?.name,
+      role: membership.role,
+      joined_at: membership.createdAt as Date,
+    }));
+    const participations = await this.participantRepo.findAll({
+      where: { user_id: userId },
+      include: [Challenge],
+      order: [['createdAt', 'ASC']],
+    });
+    const challenges = participations.map((participant) => ({
+      challenge_id: participant.challenge_id,
+      title: participant.challenge?.title,
+      metric: participant.challenge?.metric,
+      target: participant.challenge?.target,
+      starts_at: participant.challenge?.starts_at,
+      ends_at: participant.challenge?.ends_at,
+      progress: participant.progress,
+      event_count: participant.event_count,
+      completed_at: participant.completed_at,
+      joined_at: participant.createdAt as Date,
+    }));
+    const weeklyScores =
+      await this.dashboardService.getWeeklyKarmaScores(userId);
+    const leaderboardHistory = (
+      await this.leaderboardSnapshotService.getUserRankHistory(userId, null)
+    ).filter((week) => week.rank !== null);
+    const profile = toPrivateProfile(user);
+
+    const json = (data: unknown) => strToU8(JSON.stringify(data, null, 2));
+    return {
+      'profile.json': json(profile),
+      'profile.csv': strToU8(
+        toCsv([profile], Object.keys(profile) as (keyof typeof profile)[]),
+      ),
+      'karma_events.json': json(events),
+      'karma_events.csv': strToU8(
+        toCsv(events, [
+          'event_id',
+          'action',
+          'reflection',
+          'category',
+          'intensity',
+          'ai_intensity',
+          'user_intensity',
+          'user_intensity_reason',
+          'feedback',
+          'feedback_generated',
+          'feedback_status',
+          'occurred_at',
+          'createdAt',
+          'updatedAt',
+        ]),
+      ),
+      'tags.json': json(tags),
+      'tags.csv': strToU8(toCsv(tags, ['id', 'name', 'createdAt'])),
+      'karma_event_tags.json': json(eventTags),
+      'karma_event_tags.csv': strToU8(toCsv(eventTags, ['event_id', 'tag_id'])),
+      'suggestions.json': json(suggestions),
+      'suggestions.csv': strToU8(
+        toCsv(suggestions, [
+          'id',
+          'suggestion_text',
+          'week',
+          'used',
+          'created_at',
+        ]),
+      ),
+      'badges.json': json(badges),
+      'badges.csv': strToU8(
+        toCsv(badges, ['code', 'name', 'description', 'awarded_at']),
+      ),
+      'groups.json': json(groups),
+      'groups.csv': strToU8(
+        toCsv(groups, ['group_id', 'name', 'role', 'joined_at']),
+      ),
+      'challenges.json': json(challenges),
+      'challenges.csv': strToU8(
+        toCsv(challenges, [
+          'challenge_id',
+          'title',
+          'metric',
+          'target',
+          'starts_at',
+          'ends_at',
+          'progress',
+          'event_count',
+          'completed_at',
+          'joined_at',
+        ]),
+      ),
+      'weekly_scores.json': json(weeklyScores),
+      'weekly_scores.csv': strToU8(toCsv(weeklyScores, ['week', 'score'])),
+      'leaderboard_history.json': json(leaderboardHistory),
+      'leaderboard_history.csv': strToU8(
+        toCsv(leaderboardHistory, [
+          'start',
+          'end',
+          'rank',
+          'participants',
+          'percentile',
+          'score',
+          'event_count',
+        ]),
+      ),
+    };
+  }
+
+  /** Deletes archives whose download window has passed */
+  private async removeExpired(): Promise<void> {
+    const expired = await this.exportRepo.findAll({
+      where: {
+        status: DataExportStatus.READY,
+        expires_at: { [Op.lte]: new Date() },
+      },
+    });
+    for (const dataExport of expired) {
+      if (dataExport.file_path) {
+        await unlink(dataExport.file_path).catch(() => undefined);
+      }
+      await dataExport.update({
+        status: DataExportStatus.EXPIRED,
+        file_path: null,
+      });
+    }
+  }
+}
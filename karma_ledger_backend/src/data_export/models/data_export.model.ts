@@ -0,0 +1,66 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+  Default,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+  EXPIRED = 'expired',
+}
+
+/**
+ * A personal data archive requested through POST /users/me/export. Each
+ * user has at most one pending or processing export at a time.
+ */
+@Table({
+  tableName: 'data_exports',
+  timestamps: true,
+  indexes: [
+    {
+      name: 'data_exports_one_running_per_user',
+      unique: true,
+      fields: ['user_id'],
+      where: {
+        status: [DataExportStatus.PENDING, DataExportStatus.PROCESSING],
+      },
+    },
+  ],
+})
+export class DataExport extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @Default(DataExportStatus.PENDING)
+  @Column(DataType.STRING)
+  status: DataExportStatus;
+
+  /** Location of the zip in EXPORT_STORAGE_DIR once ready */
+  @Column({ type: DataType.STRING, allowNull: true })
+  file_path: string | null;
+
+  /** When the archive is deleted and the download link stops working */
+  @Column({ type: DataType.DATE, allowNull: true })
+  expires_at: Date | null;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  error: string | null;
+
+  @BelongsTo(() => User)
+  user: User;
+}
@@ -0,0 +1,24 @@
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { getSequelizeConfig } from '../config/sequelize.config';
+import { createMigrationConnection, createMigrator } from './migrator';
+
+/**
+ * Migration CLI, e.g.
+ *   npm run migrate -- up
+ *   npm run migrate -- down --to 0
+ *   npm run migrate -- pending
+ */
+async function main() {
+  await ConfigModule.forRoot({ envFilePath: '.env' });
+  const sequelize = createMigrationConnection(
+    getSequelizeConfig(new ConfigService()),
+  );
+
+  try {
+    await createMigrator(sequelize, console).runAsCLI();
+  } finally {
+    await sequelize.close();
+  }
+}
+
+void main();
@@ -0,0 +1,17 @@
+import { DataTypes } from 'sequelize';
+import { Migration, createTableIfMissing } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await createTableIfMissing(queryInterface, 'users', {
+    user_id: { type: DataTypes.UUID, primaryKey: true },
+    username: DataTypes.STRING,
+    email: DataTypes.STRING,
+    password: DataTypes.STRING,
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('users');
+};
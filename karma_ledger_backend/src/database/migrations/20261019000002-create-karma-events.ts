@@ -0,0 +1,26 @@
+import { DataTypes } from 'sequelize';
+import { Migration, createTableIfMissing } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await createTableIfMissing(queryInterface, 'karma_events', {
+    event_id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    action: DataTypes.STRING,
+    intensity: DataTypes.INTEGER,
+    reflection: DataTypes.TEXT,
+    feedback: DataTypes.TEXT,
+    feedback_generated: { type: DataTypes.BOOLEAN, defaultValue: false },
+    occurred_at: DataTypes.DATE,
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('karma_events');
+};
@@ -0,0 +1,24 @@
+import { DataTypes } from 'sequelize';
+import { Migration, createTableIfMissing } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await createTableIfMissing(queryInterface, 'karma_suggestions', {
+    id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    suggestion_text: DataTypes.TEXT,
+    week: DataTypes.INTEGER,
+    used: { type: DataTypes.BOOLEAN, defaultValue: false },
+    created_at: DataTypes.DATE,
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('karma_suggestions');
+};
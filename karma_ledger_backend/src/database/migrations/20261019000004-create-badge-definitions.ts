@@ -0,0 +1,17 @@
+import { DataTypes } from 'sequelize';
+import { Migration, createTableIfMissing } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await createTableIfMissing(queryInterface, 'badge_definitions', {
+    badge_id: { type: DataTypes.UUID, primaryKey: true },
+    code: { type: DataTypes.STRING, unique: true },
+    name: DataTypes.STRING,
+    description: DataTypes.TEXT,
+    icon: DataTypes.STRING,
+    is_active: { type: DataTypes.BOOLEAN, defaultValue: false },
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('badge_definitions');
+};
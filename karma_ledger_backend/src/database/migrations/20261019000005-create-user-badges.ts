@@ -0,0 +1,27 @@
+import { DataTypes } from 'sequelize';
+import { Migration, createTableIfMissing } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await createTableIfMissing(queryInterface, 'user_badges', {
+    user_badge_id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    badge_id: {
+      type: DataTypes.UUID,
+      references: { model: 'badge_definitions', key: 'badge_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    awarded_at: DataTypes.DATE,
+    created_at: { type: DataTypes.DATE, allowNull: false },
+    updated_at: { type: DataTypes.DATE, allowNull: false },
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('user_badges');
+};
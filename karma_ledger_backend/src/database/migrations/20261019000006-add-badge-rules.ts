@@ -0,0 +1,13 @@
+import { DataTypes } from 'sequelize';
+import { Migration, addColumnIfMissing } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await addColumnIfMissing(queryInterface, 'badge_definitions', 'rule', {
+    type: DataTypes.JSON,
+    allowNull: true,
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.removeColumn('badge_definitions', 'rule');
+};
@@ -0,0 +1,32 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  // Checked here rather than via createTableIfMissing so the index is
+  // only added alongside a freshly created table
+  if (await queryInterface.tableExists('user_active_weeks')) return;
+
+  await queryInterface.createTable('user_active_weeks', {
+    id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    week_start: DataTypes.DATE,
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex(
+    'user_active_weeks',
+    ['user_id', 'week_start'],
+    {
+      unique: true,
+    },
+  );
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('user_active_weeks');
+};
@@ -0,0 +1,39 @@
+import { DataTypes } from 'sequelize';
+import {
+  Migration,
+  addColumnIfMissing,
+  createTableIfMissing,
+} from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await addColumnIfMissing(queryInterface, 'users', 'timezone', {
+    type: DataTypes.STRING,
+    allowNull: true,
+  });
+
+  await createTableIfMissing(queryInterface, 'user_streaks', {
+    user_id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    timezone: DataTypes.STRING,
+    current_daily: { type: DataTypes.INTEGER, defaultValue: 0 },
+    longest_daily: { type: DataTypes.INTEGER, defaultValue: 0 },
+    daily_freezes_left: { type: DataTypes.INTEGER, defaultValue: 0 },
+    last_active_day: { type: DataTypes.INTEGER, allowNull: true },
+    current_weekly: { type: DataTypes.INTEGER, defaultValue: 0 },
+    longest_weekly: { type: DataTypes.INTEGER, defaultValue: 0 },
+    weekly_freezes_left: { type: DataTypes.INTEGER, defaultValue: 0 },
+    last_active_week: { type: DataTypes.INTEGER, allowNull: true },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('user_streaks');
+  await queryInterface.removeColumn('users', 'timezone');
+};
@@ -0,0 +1,27 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.createTable('refresh_tokens', {
+    id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    family_id: DataTypes.UUID,
+    token_hash: { type: DataTypes.STRING(64), unique: true },
+    expires_at: DataTypes.DATE,
+    revoked_at: { type: DataTypes.DATE, allowNull: true },
+    replaced_by: { type: DataTypes.UUID, allowNull: true },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('refresh_tokens', ['family_id']);
+  await queryInterface.addIndex('refresh_tokens', ['user_id']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('refresh_tokens');
+};
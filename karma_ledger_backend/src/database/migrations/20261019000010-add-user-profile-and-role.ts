@@ -0,0 +1,29 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.addColumn('users', 'role', {
+    type: DataTypes.STRING,
+    allowNull: false,
+    defaultValue: 'user',
+  });
+  await queryInterface.addColumn('users', 'display_name', {
+    type: DataTypes.STRING,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('users', 'bio', {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('users', 'avatar_url', {
+    type: DataTypes.STRING,
+    allowNull: true,
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.removeColumn('users', 'avatar_url');
+  await queryInterface.removeColumn('users', 'bio');
+  await queryInterface.removeColumn('users', 'display_name');
+  await queryInterface.removeColumn('users', 'role');
+};
@@ -0,0 +1,13 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.addColumn('users', 'suspended_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.removeColumn('users', 'suspended_at');
+};
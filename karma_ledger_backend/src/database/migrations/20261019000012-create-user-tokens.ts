@@ -0,0 +1,30 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.addColumn('users', 'email_verified_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+  await queryInterface.createTable('user_tokens', {
+    id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    purpose: DataTypes.STRING,
+    token_hash: { type: DataTypes.STRING(64), unique: true },
+    expires_at: DataTypes.DATE,
+    used_at: { type: DataTypes.DATE, allowNull: true },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('user_tokens', ['user_id', 'purpose']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('user_tokens');
+  await queryInterface.removeColumn('users', 'email_verified_at');
+};
@@ -0,0 +1,25 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.createTable('data_exports', {
+    id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    status: { type: DataTypes.STRING, defaultValue: 'pending' },
+    file_path: { type: DataTypes.STRING, allowNull: true },
+    expires_at: { type: DataTypes.DATE, allowNull: true },
+    error: { type: DataTypes.TEXT, allowNull: true },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('data_exports', ['user_id']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('data_exports');
+};
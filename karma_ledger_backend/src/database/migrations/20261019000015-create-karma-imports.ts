@@ -0,0 +1,27 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.createTable('karma_imports', {
+    id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    file_name: DataTypes.STRING,
+    total_rows: DataTypes.INTEGER,
+    imported_count: DataTypes.INTEGER,
+    duplicate_rows: DataTypes.JSON,
+    errors: DataTypes.JSON,
+    event_ids: DataTypes.JSON,
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('karma_imports', ['user_id']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('karma_imports');
+};
@@ -0,0 +1,50 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.addColumn('karma_events', 'category', {
+    type: DataTypes.STRING,
+    allowNull: true,
+  });
+  await queryInterface.addIndex('karma_events', ['user_id', 'category']);
+
+  await queryInterface.createTable('tags', {
+    id: { type: DataTypes.UUID, primaryKey: true },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    name: { type: DataTypes.STRING, allowNull: false },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('tags', ['user_id', 'name'], { unique: true });
+
+  await queryInterface.createTable('karma_event_tags', {
+    event_id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      references: { model: 'karma_events', key: 'event_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    tag_id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      references: { model: 'tags', key: 'id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+  });
+  await queryInterface.addIndex('karma_event_tags', ['tag_id']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('karma_event_tags');
+  await queryInterface.dropTable('tags');
+  await queryInterface.removeIndex('karma_events', ['user_id', 'category']);
+  await queryInterface.removeColumn('karma_events', 'category');
+};
@@ -0,0 +1,56 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.addColumn('karma_events', 'ai_intensity', {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('karma_events', 'user_intensity', {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('karma_events', 'user_intensity_reason', {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+  // Until now every intensity came from the AI
+  await queryInterface.sequelize.query(
+    'UPDATE karma_events SET ai_intensity = intensity',
+  );
+
+  await queryInterface.createTable('intensity_overrides', {
+    id: { type: DataTypes.UUID, primaryKey: true },
+    event_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: { model: 'karma_events', key: 'event_id' },
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    action: DataTypes.STRING,
+    ai_intensity: DataTypes.INTEGER,
+    requested_intensity: { type: DataTypes.INTEGER, allowNull: true },
+    effective_intensity: DataTypes.INTEGER,
+    reason: { type: DataTypes.TEXT, allowNull: true },
+    policy: DataTypes.STRING,
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('intensity_overrides', ['user_id']);
+  await queryInterface.addIndex('intensity_overrides', ['createdAt']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('intensity_overrides');
+  await queryInterface.removeColumn('karma_events', 'user_intensity_reason');
+  await queryInterface.removeColumn('karma_events', 'user_intensity');
+  await queryInterface.removeColumn('karma_events', 'ai_intensity');
+};
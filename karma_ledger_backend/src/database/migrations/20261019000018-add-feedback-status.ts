@@ -0,0 +1,26 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.addColumn('karma_events', 'feedback_status', {
+    type: DataTypes.STRING,
+    allowNull: false,
+    defaultValue: 'pending',
+  });
+  await queryInterface.addColumn('karma_events', 'feedback_error', {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+  await queryInterface.bulkUpdate(
+    'karma_events',
+    { feedback_status: 'done' },
+    { feedback_generated: true },
+  );
+  await queryInterface.addIndex('karma_events', ['feedback_status']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.removeIndex('karma_events', ['feedback_status']);
+  await queryInterface.removeColumn('karma_events', 'feedback_error');
+  await queryInterface.removeColumn('karma_events', 'feedback_status');
+};
@@ -0,0 +1,49 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.addColumn('users', 'suggestions_opt_out', {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  });
+  await queryInterface.createTable('suggestion_runs', {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      allowNull: false,
+    },
+    started_at: { type: DataTypes.DATE, allowNull: false },
+    finished_at: { type: DataTypes.DATE, allowNull: true },
+    users_checked: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    queued: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+    skipped_opted_out: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    skipped_inactive: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    skipped_existing: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    failed: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('suggestion_runs', ['started_at']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('suggestion_runs');
+  await queryInterface.removeColumn('users', 'suggestions_opt_out');
+};
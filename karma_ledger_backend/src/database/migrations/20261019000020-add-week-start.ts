@@ -0,0 +1,16 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.addColumn('users', 'week_start', {
+    type: DataTypes.STRING,
+    allowNull: true,
+  });
+  // Active weeks were cut at the server's local Monday; ActiveWeekService
+  // rebuilds them in each user's timezone on startup
+  await queryInterface.bulkDelete('user_active_weeks', {});
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.removeColumn('users', 'week_start');
+};
@@ -0,0 +1,62 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.createTable('leaderboard_snapshots', {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      allowNull: false,
+    },
+    period: { type: DataTypes.STRING, allowNull: false },
+    period_start: { type: DataTypes.DATE, allowNull: false },
+    period_end: { type: DataTypes.DATE, allowNull: false },
+    participants: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    min_events: { type: DataTypes.INTEGER, allowNull: false },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex(
+    'leaderboard_snapshots',
+    ['period', 'period_start'],
+    { unique: true },
+  );
+
+  await queryInterface.createTable('leaderboard_snapshot_entries', {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      allowNull: false,
+    },
+    snapshot_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'leaderboard_snapshots', key: 'id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    // Deliberately not a foreign key: snapshots outlive deleted accounts,
+    // which are anonymised instead (see LeaderboardSnapshotListener)
+    user_id: { type: DataTypes.UUID, allowNull: true },
+    username: { type: DataTypes.STRING, allowNull: true },
+    rank: { type: DataTypes.INTEGER, allowNull: false },
+    score: { type: DataTypes.INTEGER, allowNull: false },
+    event_count: { type: DataTypes.INTEGER, allowNull: false },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('leaderboard_snapshot_entries', [
+    'snapshot_id',
+    'rank',
+  ]);
+  await queryInterface.addIndex('leaderboard_snapshot_entries', ['user_id']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('leaderboard_snapshot_entries');
+  await queryInterface.dropTable('leaderboard_snapshots');
+};
@@ -0,0 +1,78 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from '../migrator';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.createTable('challenges', {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      allowNull: false,
+    },
+    group_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'groups', key: 'id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    badge_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'badge_definitions', key: 'badge_id' },
+      onUpdate: 'CASCADE',
+    },
+    title: { type: DataTypes.STRING, allowNull: false },
+    description: { type: DataTypes.TEXT, allowNull: true },
+    metric: { type: DataTypes.STRING, allowNull: false },
+    category: { type: DataTypes.STRING, allowNull: true },
+    target: { type: DataTypes.FLOAT, allowNull: false },
+    min_events: { type: DataTypes.INTEGER, allowNull: true },
+    starts_at: { type: DataTypes.DATE, allowNull: false },
+    ends_at: { type: DataTypes.DATE, allowNull: false },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex('challenges', ['group_id', 'ends_at']);
+
+  await queryInterface.createTable('challenge_participants', {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      allowNull: false,
+    },
+    challenge_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'challenges', key: 'id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: { model: 'users', key: 'user_id' },
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    },
+    progress: { type: DataTypes.FLOAT, allowNull: true },
+    event_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    completed_at: { type: DataTypes.DATE, allowNull: true },
+    createdAt: { type: DataTypes.DATE, allowNull: false },
+    updatedAt: { type: DataTypes.DATE, allowNull: false },
+  });
+  await queryInterface.addIndex(
+    'challenge_participants',
+    ['challenge_id', 'user_id'],
+    { unique: true },
+  );
+  await queryInterface.addIndex('challenge_participants', ['user_id']);
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.dropTable('challenge_participants');
+  await queryInterface.dropTable('challenges');
+};
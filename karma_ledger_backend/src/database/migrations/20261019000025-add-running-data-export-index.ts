@@ -0,0 +1,31 @@
+import { Migration } from '../migrator';
+
+const RUNNING = ['pending', 'processing'];
+const INDEX_NAME = 'data_exports_one_running_per_user';
+
+export const up: Migration = async ({ context: queryInterface }) => {
+  // Concurrent requests could each start an export; keep only the newest
+  await queryInterface.sequelize.query(
+    `UPDATE data_exports
+     SET status = 'failed', error = 'Superseded by a newer export request'
+     WHERE status IN (:running)
+       AND EXISTS (
+         SELECT 1 FROM data_exports newer
+         WHERE newer.user_id = data_exports.user_id
+           AND newer.status IN (:running)
+           AND (newer."createdAt" > data_exports."createdAt"
+             OR (newer."createdAt" = data_exports."createdAt"
+               AND newer.id > data_exports.id))
+       )`,
+    { replacements: { running: RUNNING } },
+  );
+  await queryInterface.addIndex('data_exports', ['user_id'], {
+    name: INDEX_NAME,
+    unique: true,
+    where: { status: RUNNING },
+  });
+};
+
+export const down: Migration = async ({ context: queryInterface }) => {
+  await queryInterface.removeIndex('data_exports', INDEX_NAME);
+};
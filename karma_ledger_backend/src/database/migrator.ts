@@ -0,0 +1,106 @@
+import * as path from 'path';
+import { Logger } from '@nestjs/common';
+import { SequelizeModuleOptions } from '@nestjs/sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import {
+  ModelAttributeColumnOptions,
+  ModelAttributes,
+  QueryInterface,
+} from 'sequelize';
+import { MigrationFn, SequelizeStorage, Umzug, UmzugOptions } from 'umzug';
+
+export type Migration = MigrationFn<QueryInterface>;
+
+/**
+ * Builds the Umzug instance used by both the CLI and the startup check.
+ * Executed migrations are recorded in the SequelizeMeta table. Names are
+ * stored without their extension so ts-node and the compiled build agree.
+ */
+export const createMigrator = (
+  sequelize: Sequelize,
+  logger?: UmzugOptions['logger'],
+) =>
+  new Umzug<QueryInterface>({
+    migrations: {
+      glob: [
+        'migrations/*.{js,ts}',
+        { cwd: __dirname, ignore: ['**/*.d.ts', '**/*.map'] },
+      ],
+      resolve: ({ name, path: filePath, context }) => {
+        const load = async () =>
+          (await import(filePath!)) as { up: Migration; down: Migration };
+        return {
+          name: path.basename(name, path.extname(name)),
+          up: async (params) => (await load()).up({ ...params, context }),
+          down: async (params) => (await load()).down({ ...params, context }),
+        };
+      },
+    },
+    context: sequelize.getQueryInterface(),
+    storage: new SequelizeStorage({ sequelize }),
+    logger,
+  });
+
+/** Opens a standalone connection from the same options the app module uses */
+export const createMigrationConnection = (options: SequelizeModuleOptions) =>
+  new Sequelize({ ...options, models: [], logging: false });
+
+/**
+ * Applies pending migrations before the app connects. In production it
+ * only checks, and refuses to boot if anything is pending so schema
+ * changes are always applied deliberately through the CLI.
+ */
+export const prepareDatabase = async (
+  options: SequelizeModuleOptions,
+  isProduction: boolean,
+): Promise<void> => {
+  const logger = new Logger('Migrations');
+  const sequelize = createMigrationConnection(options);
+
+  try {
+    const migrator = createMigrator(sequelize);
+    const pending = await migrator.pending();
+    if (pending.length === 0) return;
+
+    if (isProduction) {
+      throw new Error(
+        `Refusing to start with ${pending.length} pending migration(s): ${pending
+          .map((migration) => migration.name)
+          .join(', ')}. Run "npm run migrate:prod -- up" first.`,
+      );
+    }
+
+    const applied = await migrator.up();
+    logger.log(
+      `Applied ${applied.length} migration(s): ${applied
+        .map((migration) => migration.name)
+        .join(', ')}`,
+    );
+  } finally {
+    await sequelize.close();
+  }
+};
+
+/**
+ * The initial migrations baseline databases that were created with
+ * `synchronize: true`, so they skip tables and columns that already exist.
+ */
+export const createTableIfMissing = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  attributes: ModelAttributes,
+): Promise<void> => {
+  if (await queryInterface.tableExists(tableName)) return;
+  await queryInterface.createTable(tableName, attributes);
+};
+
+export const addColumnIfMissing = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  columnName: string,
+  attributes: ModelAttributeColumnOptions,
+): Promise<void> => {
+  const columns = await queryInterface.describeTable(tableName);
+  if (columns[columnName]) return;
+  await queryInterface.addColumn(tableName, columnName, attributes);
+};
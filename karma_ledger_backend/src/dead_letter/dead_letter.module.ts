@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { QueueJobOptions, QueueNames } from 'src/config/queues';
+import { DeadLetterService } from './dead_letter.service';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: QueueNames.DEAD_LETTER,
+      defaultJobOptions: QueueJobOptions[QueueNames.DEAD_LETTER],
+    }),
+  ],
+  providers: [DeadLetterService],
+  exports: [DeadLetterService],
+})
+export class DeadLetterModule {}
@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Job, Queue } from 'bullmq';
+import { QueueNames } from 'src/config/queues';
+
+const DEFAULT_LIST_SIZE = 100;
+
+export interface DeadLetter {
+  /** Owner of the failed job, so account deletion can drop it */
+  userId?: string;
+  queue: string;
+  job_id?: string;
+  job_name: string;
+  data: unknown;
+  failed_reason: string;
+  attempts_made: number;
+  failed_at: string;
+}
+
+/**
+ * Parks jobs that failed for good on the dead-letter queue. Nothing
+ * consumes it; entries stay there for admins to inspect.
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  constructor(
+    @InjectQueue(QueueNames.DEAD_LETTER)
+    private readonly deadLetterQueue: Queue<DeadLetter>,
+  ) {}
+
+  /** Whether BullMQ has given up on the job, judged from its `failed` event */
+  isFinalFailure(job: Job, error: Error): boolean {
+    return (
+      error.name === 'UnrecoverableError' ||
+      job.attemptsMade >= (job.opts.attempts ?? 1)
+    );
+  }
+
+  async add(job: Job<{ userId?: string }>, error: Error): Promise<void> {
+    await this.deadLetterQueue.add(job.name, {
+      userId: job.data.userId,
+      queue: job.queueName,
+      job_id: job.id,
+      job_name: job.name,
+      data: job.data,
+      failed_reason: error.message,
+      attempts_made: job.attemptsMade,
+      failed_at: new Date().toISOString(),
+    });
+    this.logger.warn(
+      `Job ${job.id} on ${job.queueName} moved to the dead-letter queue: ${error.message}`,
+    );
+  }
+
+  async list(
+    limit = DEFAULT_LIST_SIZE,
+  ): Promise<{ items: (DeadLetter & { id?: string })[]; total: number }> {
+    const [jobs, total] = await Promise.all([
+      this.deadLetterQueue.getWaiting(0, limit - 1),
+      this.deadLetterQueue.getWaitingCount(),
+    ]);
+    return { items: jobs.map((job) => ({ id: job.id, ...job.data })), total };
+  }
+}
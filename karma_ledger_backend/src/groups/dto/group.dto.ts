@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { GroupRole } from 'src/config/group-roles';
+
+export const MAX_GROUP_NAME_LENGTH = 60;
+export const MAX_GROUP_DESCRIPTION_LENGTH = 500;
+
+export class CreateGroupDto {
+  @ApiProperty({ example: 'Platform team' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_GROUP_NAME_LENGTH)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Friendly competition, Monday to Sunday' })
+  @IsString()
+  @MaxLength(MAX_GROUP_DESCRIPTION_LENGTH)
+  @IsOptional()
+  description?: string | null;
+}
+
+export class UpdateGroupDto extends PartialType(CreateGroupDto) {}
+
+export class JoinGroupDto {
+  @ApiProperty({ example: '3F9A1C07BE' })
+  @IsString()
+  @IsNotEmpty()
+  invite_code: string;
+}
+
+export class UpdateGroupMemberDto {
+  @ApiProperty({
+    enum: GroupRole,
+    description: 'Making someone the owner hands ownership over to them',
+  })
+  @IsEnum(GroupRole)
+  role: GroupRole;
+}
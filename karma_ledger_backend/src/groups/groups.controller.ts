@@ -0,0 +1,208 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/auth/jwt.guard';
+import { AuthenticatedRequest } from 'src/util/types';
+import { handleError } from 'src/util/error';
+import { LeaderboardQueryDto } from 'src/dashboard/dto/leaderboard.dto';
+import { GroupsService } from './groups.service';
+import {
+  CreateGroupDto,
+  JoinGroupDto,
+  UpdateGroupDto,
+  UpdateGroupMemberDto,
+} from './dto/group.dto';
+
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT')
+@Controller('groups')
+export class GroupsController {
+  constructor(private readonly groupsService: GroupsService) {}
+
+  @Post()
+  async createGroup(
+    @Body() dto: CreateGroupDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.groupsService.createGroup(req.user?.user_id ?? '', dto);
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  /** The caller's groups */
+  @Get()
+  async listGroups(@Request() req: AuthenticatedRequest) {
+    return this.groupsService.listUserGroups(req.user?.user_id ?? '');
+  }
+
+  @Post('join')
+  async joinGroup(
+    @Body() dto: JoinGroupDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.groupsService.joinGroup(
+        req.user?.user_id ?? '',
+        dto.invite_code,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Get(':id')
+  async getGroup(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.groupsService.getGroup(id, req.user?.user_id ?? '');
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
+  @Patch(':id')
+  async updateGroup(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateGroupDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.groupsService.updateGroup(
+        id,
+        req.user?.user_id ?? '',
+        dto,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Delete(':id')
+  async deleteGroup(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      await this.groupsService.deleteGroup(id, req.user?.user_id ?? '');
+      return { message: 'Group deleted' };
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Post(':id/leave')
+  async leaveGroup(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      await this.groupsService.leaveGroup(id, req.user?.user_id ?? '');
+      return { message: 'You left the group' };
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Post(':id/invite-code')
+  async regenerateInviteCode(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.groupsService.regenerateInviteCode(
+        id,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Patch(':id/members/:userId')
+  async updateMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) memberId: string,
+    @Body() dto: UpdateGroupMemberDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.groupsService.updateMemberRole(
+        id,
+        req.user?.user_id ?? '',
+        memberId,
+        dto.role,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Delete(':id/members/:userId')
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) memberId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      await this.groupsService.removeMember(
+        id,
+        req.user?.user_id ?? '',
+        memberId,
+      );
+      return { message: 'Member removed' };
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Get(':id/leaderboard')
+  async getLeaderboard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: LeaderboardQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.groupsService.getLeaderboard(
+        id,
+        req.user?.user_id ?? '',
+        query.period,
+        query.offset,
+        query.limit,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
+  @Get(':id/karma-scores')
+  async getKarmaScores(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.groupsService.getKarmaScores(
+        id,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { DashboardModule } from 'src/dashboard/dashboard.module';
+import { Group } from './models/group.model';
+import { GroupMembership } from './models/group_membership.model';
+import { GroupsService } from './groups.service';
+import { GroupsController } from './groups.controller';
+import { GroupOwnerListener } from './listeners/group-owner.listener';
+
+@Module({
+  imports: [
+    DashboardModule,
+    SequelizeModule.forFeature([Group, GroupMembership]),
+  ],
+  controllers: [GroupsController],
+  providers: [GroupsService, GroupOwnerListener],
+  exports: [GroupsService],
+})
+export class GroupsModule {}
@@ -0,0 +1,384 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Op, literal } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { randomBytes } from 'crypto';
+import { DomainEvents } from 'src/config/events';
+import { GroupRole } from 'src/config/group-roles';
+import { LeaderboardPeriod } from 'src/config/leaderboard';
+import { User } from 'src/users/models/users.model';
+import { DashboardService } from 'src/dashboard/dashboard.service';
+import {
+  Leaderboard,
+  LeaderboardService,
+} from 'src/dashboard/leaderboard.service';
+import { Group } from './models/group.model';
+import { GroupMembership } from './models/group_membership.model';
+import { CreateGroupDto, UpdateGroupDto } from './dto/group.dto';
+
+/** Lower is more privileged */
+const ROLE_RANKS: Record<GroupRole, number> = {
+  [GroupRole.OWNER]: 0,
+  [GroupRole.ADMIN]: 1,
+  [GroupRole.MEMBER]: 2,
+};
+
+export interface GroupSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  role: GroupRole;
+  member_count: number;
+}
+
+export interface GroupDetail extends GroupSummary {
+  /** Only shown to owners and admins */
+  invite_code: string | null;
+  members: {
+    userId: string;
+    username: string;
+    role: GroupRole;
+    joined_at: Date;
+  }[];
+}
+
+/**
+ * Groups let a team compete on its own leaderboard. Everything about a
+ * group is only visible to its members; to anyone else it doesn't exist.
+ */
+@Injectable()
+export class GroupsService {
+  private readonly logger = new Logger(GroupsService.name);
+
+  constructor(
+    private readonly sequelize: Sequelize,
+    @InjectModel(Group) private readonly groupRepo: typeof Group,
+    @InjectModel(GroupMembership)
+    private readonly membershipRepo: typeof GroupMembership,
+    private readonly leaderboardService: LeaderboardService,
+    private readonly dashboardService: DashboardService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async createGroup(userId: string, dto: CreateGroupDto): Promise<GroupDetail> {
+    const group = await this.sequelize.transaction(async (transaction) => {
+      const group = await this.groupRepo.create(
+        {
+          name: dto.name.trim(),
+          description: dto.description?.trim() || null,
+          invite_code: this.generateInviteCode(),
+        },
+        { transaction },
+      );
+      await this.membershipRepo.create(
+        { group_id: group.id, user_id: userId, role: GroupRole.OWNER },
+        { transaction },
+      );
+      return group;
+    });
+    return this.getGroup(group.id, userId);
+  }
+
+  /** The user's groups, most recently joined first */
+  async listUserGroups(userId: string): Promise<GroupSummary[]> {
+    const memberships = await this.membershipRepo.findAll({
+      where: { user_id: userId },
+      include: [Group],
+      order: [['createdAt', 'DESC']],
+    });
+    const counts = await this.countMembers(
+      memberships.map((membership) => membership.group_id),
+    );
+    return memberships.map(({ group, role }) => ({
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      role,
+      member_count: counts.get(group.id) ?? 0,
+    }));
+  }
+
+  async getGroup(groupId: string, userId: string): Promise<GroupDetail> {
+    const { group, role } = await this.requireMembership(groupId, userId);
+    const memberships = await this.membershipRepo.findAll({
+      where: { group_id: groupId },
+      include: [{ model: User, attributes: ['user_id', 'username'] }],
+      order: [['createdAt', 'ASC']],
+    });
+    const members = memberships
+      .map((membership) => ({
+        userId: membership.user_id,
+        username: membership.user.username,
+        role: membership.role,
+        joined_at: membership.createdAt as Date,
+      }))
+      .sort((a, b) => ROLE_RANKS[a.role] - ROLE_RANKS[b.role]);
+
+    return {
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      role,
+      member_count: members.length,
+      invite_code: this.canManage(role) ? group.invite_code : null,
+      members,
+    };
+  }
+
+  async updateGroup(
+    groupId: string,
+    userId: string,
+    dto: UpdateGroupDto,
+  ): Promise<GroupDetail> {
+    const { group } = await this.requireMembership(
+      groupId,
+      userId,
+      GroupRole.ADMIN,
+    );
+    await group.update({
+      ...(dto.name !== undefined && { name: dto.name.trim() }),
+      ...(dto.description !== undefined && {
+        description: dto.description?.trim() || null,
+      }),
+    });
+    return this.getGroup(groupId, userId);
+  }
+
+  async deleteGroup(groupId: string, userId: string): Promise<void> {
+    await this.requireMembership(groupId, userId, GroupRole.OWNER);
+    await this.destroyGroup(groupId, userId);
+  }
+
+  /** Invalidates the current invite code */
+  async regenerateInviteCode(
+    groupId: string,
+    userId: string,
+  ): Promise<GroupDetail> {
+    const { group } = await this.requireMembership(
+      groupId,
+      userId,
+      GroupRole.ADMIN,
+    );
+    await group.update({ invite_code: this.generateInviteCode() });
+    return this.getGroup(groupId, userId);
+  }
+
+  async joinGroup(userId: string, inviteCode: string): Promise<GroupDetail> {
+    const group = await this.groupRepo.findOne({
+      where: { invite_code: inviteCode.trim().toUpperCase() },
+    });
+    if (!group) throw new Error('Invalid invite code');
+
+    const existing = await this.membershipRepo.findOne({
+      where: { group_id: group.id, user_id: userId },
+    });
+    if (existing) throw new Error('You are already a member of this group');
+
+    await this.membershipRepo.create({
+      group_id: group.id,
+      user_id: userId,
+      role: GroupRole.MEMBER,
+    });
+    return this.getGroup(group.id, userId);
+  }
+
+  /**
+   * The owner has to hand ownership over before leaving, unless they're
+   * the last member, in which case the group is deleted.
+   */
+  async leaveGroup(groupId: string, userId: string): Promise<void> {
+    const { membership } = await this.requireMembership(groupId, userId);
+    if (membership.role === GroupRole.OWNER) {
+      const memberCount = await this.membershipRepo.count({
+        where: { group_id: groupId },
+      });
+      if (memberCount > 1) {
+        throw new Error('Make another member the owner before leaving');
+      }
+      await this.destroyGroup(groupId, userId);
+      return;
+    }
+    await membership.destroy();
+  }
+
+  /**
+   * Only the owner changes roles. Making a member the owner hands ownership
+   * over, and the previous owner becomes an admin.
+   */
+  async updateMemberRole(
+    groupId: string,
+    userId: string,
+    memberId: string,
+    role: GroupRole,
+  ): Promise<GroupDetail> {
+    const { membership: own } = await this.requireMembership(
+      groupId,
+      userId,
+      GroupRole.OWNER,
+    );
+    if (memberId === userId) throw new Error('You cannot change your own role');
+    const member = await this.findMembership(groupId, memberId);
+
+    await this.sequelize.transaction(async (transaction) => {
+      await member.update({ role }, { transaction });
+      if (role === GroupRole.OWNER) {
+        await own.update({ role: GroupRole.ADMIN }, { transaction });
+      }
+    });
+    return this.getGroup(groupId, userId);
+  }
+
+  /** Owners remove anyone else; admins only remove plain members */
+  async removeMember(
+    groupId: string,
+    userId: string,
+    memberId: string,
+  ): Promise<void> {
+    const { membership: own } = await this.requireMembership(
+      groupId,
+      userId,
+      GroupRole.ADMIN,
+    );
+    if (memberId === userId) {
+      throw new Error('Leave the group instead of removing yourself');
+    }
+    const member = await this.findMembership(groupId, memberId);
+    if (ROLE_RANKS[member.role] <= ROLE_RANKS[own.role]) {
+      throw new Error(`You cannot remove a group ${member.role}`);
+    }
+    await member.destroy();
+  }
+
+  /** The group's own leaderboard, ranked the same way as the global one */
+  async getLeaderboard(
+    groupId: string,
+    userId: string,
+    period?: LeaderboardPeriod,
+    offset?: number,
+    limit?: number,
+  ): Promise<Leaderboard> {
+    await this.requireMembership(groupId, userId);
+    return this.leaderboardService.getLeaderboard(
+      userId,
+      period,
+      offset,
+      limit,
+      groupId,
+    );
+  }
+
+  /** The members' combined karma score, overall and week by week */
+  async getKarmaScores(groupId: string, userId: string) {
+    await this.requireMembership(groupId, userId);
+    const memberships = await this.membershipRepo.findAll({
+      attributes: ['user_id'],
+      where: { group_id: groupId },
+    });
+    return this.dashboardService.getAggregateKarmaScores(
+      memberships.map((membership) => membership.user_id),
+    );
+  }
+
+  /**
+   * Hands every group left without an owner (its owner's account was
+   * deleted) to its longest-standing admin, or else member, and deletes
+   * groups nobody is left in.
+   */
+  async reassignOrphanedGroups(deletedUserId: string): Promise<void> {
+    const orphans = await this.groupRepo.findAll({
+      where: {
+        id: {
+          [Op.notIn]: literal(
+            `(SELECT group_id FROM group_memberships WHERE role = '${GroupRole.OWNER}')`,
+          ),
+        },
+      },
+    });
+
+    for (const group of orphans) {
+      const [successor] = (
+        await this.membershipRepo.findAll({
+          where: { group_id: group.id },
+          order: [['createdAt', 'ASC']],
+        })
+      ).sort((a, b) => ROLE_RANKS[a.role] - ROLE_RANKS[b.role]);
+
+      if (successor) {
+        await successor.update({ role: GroupRole.OWNER });
+        this.logger.log(
+          `Group ${group.id} handed to ${successor.user_id} after its owner was deleted`,
+        );
+      } else {
+        await this.destroyGroup(group.id, deletedUserId);
+        this.logger.log(`Deleted group ${group.id}, which had no members left`);
+      }
+    }
+  }
+
+  /**
+   * The user's membership of the group, which must be at least
+   * `minimumRole`. Non-members are told the group doesn't exist.
+   */
+  async requireMembership(
+    groupId: string,
+    userId: string,
+    minimumRole: GroupRole = GroupRole.MEMBER,
+  ): Promise<{ group: Group; membership: GroupMembership; role: GroupRole }> {
+    const membership = await this.membershipRepo.findOne({
+      where: { group_id: groupId, user_id: userId },
+      include: [Group],
+    });
+    if (!membership) throw new Error(`Group with ID ${groupId} not found`);
+    if (ROLE_RANKS[membership.role] > ROLE_RANKS[minimumRole]) {
+      throw new Error(
+        minimumRole === GroupRole.OWNER
+          ? 'Only the group owner can do this'
+          : 'Only group owners and admins can do this',
+      );
+    }
+    return { group: membership.group, membership, role: membership.role };
+  }
+
+  private async findMembership(
+    groupId: string,
+    userId: string,
+  ): Promise<GroupMembership> {
+    const membership = await this.membershipRepo.findOne({
+      where: { group_id: groupId, user_id: userId },
+    });
+    if (!membership) throw new Error('That user is not a member of this group');
+    return membership;
+  }
+
+  private async countMembers(groupIds: string[]): Promise<Map<string, number>> {
+    const rows = (await this.membershipRepo.count({
+      where: { group_id: { [Op.in]: groupIds } },
+      group: ['group_id'],
+    })) as unknown as { group_id: string; count: number }[];
+    return new Map(rows.map((row) => [row.group_id, Number(row.count)]));
+  }
+
+  /**
+   * Memberships are deleted explicitly, as SQLite doesn't cascade.
+   * `userId` is whoever's action deleted the group.
+   */
+  private async destroyGroup(groupId: string, userId: string): Promise<void> {
+    await this.sequelize.transaction(async (transaction) => {
+      await this.membershipRepo.destroy({
+        where: { group_id: groupId },
+        transaction,
+      });
+      await this.groupRepo.destroy({ where: { id: groupId }, transaction });
+    });
+    this.eventEmitter.emit(DomainEvents.GROUP_DELETED, { userId, groupId });
+  }
+
+  private canManage(role: GroupRole): boolean {
+    return ROLE_RANKS[role] <= ROLE_RANKS[GroupRole.ADMIN];
+  }
+
+  private generateInviteCode(): string {
+    return randomBytes(5).toString('hex').toUpperCase();
+  }
+}
@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DomainEventPayload, DomainEvents } from 'src/config/events';
+import { GroupsService } from '../groups.service';
+
+/** Finds new owners for groups whose owner deleted their account */
+@Injectable()
+export class GroupOwnerListener {
+  constructor(private readonly groupsService: GroupsService) {}
+
+  @OnEvent(DomainEvents.USER_DELETED)
+  async handleUserDeleted({ userId }: DomainEventPayload) {
+    await this.groupsService.reassignOrphanedGroups(userId);
+  }
+}
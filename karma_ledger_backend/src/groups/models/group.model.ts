@@ -0,0 +1,32 @@
+import {
+  Column,
+  DataType,
+  Default,
+  HasMany,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+import { GroupMembership } from './group_membership.model';
+
+/** A team of users competing on their own leaderboard */
+@Table({ tableName: 'groups', timestamps: true })
+export class Group extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @Column(DataType.STRING)
+  name: string;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  description: string | null;
+
+  /** Shared to let others join; owners and admins can replace it */
+  @Column({ type: DataType.STRING, unique: true })
+  invite_code: string;
+
+  @HasMany(() => GroupMembership)
+  memberships: GroupMembership[];
+}
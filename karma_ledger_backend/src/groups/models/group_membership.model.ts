@@ -0,0 +1,43 @@
+import {
+  BelongsTo,
+  Column,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+import { GroupRole } from 'src/config/group-roles';
+import { User } from 'src/users/models/users.model';
+import { Group } from './group.model';
+
+/** A user's membership of a group; `createdAt` is when they joined */
+@Table({
+  tableName: 'group_memberships',
+  timestamps: true,
+  indexes: [{ unique: true, fields: ['group_id', 'user_id'] }],
+})
+export class GroupMembership extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => Group)
+  @Column(DataType.UUID)
+  group_id: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @Column(DataType.STRING)
+  role: GroupRole;
+
+  @BelongsTo(() => Group)
+  group: Group;
+
+  @BelongsTo(() => User)
+  user: User;
+}
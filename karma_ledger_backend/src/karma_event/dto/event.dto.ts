@@ -1,6 +1,16 @@
 // src/karma-events/dto/create-karma-event.dto.ts
-import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional, IsDateString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsDateString,
+  IsEnum,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { KarmaCategory } from 'src/config/categories';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_EVENT } from '../tag.service';
 
 export class CreateKarmaEventDto {
   @ApiProperty({
@@ -21,4 +31,26 @@ export class CreateKarmaEventDto {
   @IsDateString()
   @IsOptional()
   occurred_at?: string; // optional; default is now
+
+  @ApiPropertyOptional({
+    enum: KarmaCategory,
+    description: 'Proposed by the AI when left out',
+  })
+  @IsEnum(KarmaCategory)
+  @IsOptional()
+  category?: KarmaCategory | null;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['weekend', 'neighbours'],
+    description: 'Proposed by the AI when left out',
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS_PER_EVENT)
+  @IsString({ each: true })
+  @MaxLength(MAX_TAG_LENGTH, { each: true })
+  @IsOptional()
+  tags?: string[];
 }
+
+export class UpdateKarmaEventDto extends PartialType(CreateKarmaEventDto) {}
@@ -0,0 +1,17 @@
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { ListKarmaEventsQueryDto } from './list-events.dto';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ics'] as const;
+export type KarmaEventExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Same filters as GET /karma-events/me, without pagination */
+export class ExportKarmaEventsQueryDto extends OmitType(
+  ListKarmaEventsQueryDto,
+  ['cursor', 'limit'] as const,
+) {
+  @ApiPropertyOptional({ enum: EXPORT_FORMATS, default: 'csv' })
+  @IsIn(EXPORT_FORMATS)
+  @IsOptional()
+  format?: KarmaEventExportFormat;
+}
@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+/** Multipart fields sent alongside the uploaded `file` */
+export class ImportKarmaEventsDto {
+  @ApiPropertyOptional({
+    description: 'Validate and report without importing anything',
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    value === undefined ? undefined : value === true || value === 'true',
+  )
+  @IsBoolean()
+  @IsOptional()
+  dry_run?: boolean;
+}
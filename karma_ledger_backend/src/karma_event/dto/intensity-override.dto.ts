@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { MAX_INTENSITY, MIN_INTENSITY } from 'src/config/intensity';
+
+export class OverrideIntensityDto {
+  @ApiProperty({
+    minimum: MIN_INTENSITY,
+    maximum: MAX_INTENSITY,
+    example: 7,
+    description: "The user's own assessment of the action's intensity",
+  })
+  @IsInt()
+  @Min(MIN_INTENSITY)
+  @Max(MAX_INTENSITY)
+  intensity: number;
+
+  @ApiProperty({
+    example: 'I spent the whole weekend helping, not just an hour',
+    description:
+      'Why the AI score is wrong; shown to admins reviewing overrides',
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(500)
+  reason: string;
+}
+
+export class ListIntensityOverridesQueryDto {
+  @ApiPropertyOptional({ description: 'Only overrides made by this user' })
+  @IsUUID()
+  @IsOptional()
+  user_id?: string;
+
+  @ApiPropertyOptional({ default: 50, minimum: 1, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+
+  @ApiPropertyOptional({ default: 0, minimum: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  offset?: number;
+}
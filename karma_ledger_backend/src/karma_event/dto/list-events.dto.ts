@@ -0,0 +1,84 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { KarmaCategory } from 'src/config/categories';
+import { FeedbackStatus } from 'src/config/feedback-status';
+
+export class ListKarmaEventsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Opaque cursor returned as nextCursor by the previous page',
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+
+  @ApiPropertyOptional({ example: '2025-01-01T00:00:00.000Z' })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2025-12-31T23:59:59.999Z' })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({ example: 4 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  intensity_min?: number;
+
+  @ApiPropertyOptional({ example: 10 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  intensity_max?: number;
+
+  @ApiPropertyOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === undefined ? undefined : value === true || value === 'true',
+  )
+  @IsBoolean()
+  @IsOptional()
+  feedback_generated?: boolean;
+
+  @ApiPropertyOptional({ enum: FeedbackStatus })
+  @IsEnum(FeedbackStatus)
+  @IsOptional()
+  feedback_status?: FeedbackStatus;
+
+  @ApiPropertyOptional({
+    description: 'Free-text search over action and reflection',
+    example: 'volunteer',
+  })
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({ enum: KarmaCategory })
+  @IsEnum(KarmaCategory)
+  @IsOptional()
+  category?: KarmaCategory;
+
+  @ApiPropertyOptional({ description: 'Only events carrying this tag' })
+  @IsString()
+  @IsOptional()
+  tag?: string;
+}
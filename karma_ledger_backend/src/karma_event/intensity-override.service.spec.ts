@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { User } from 'src/users/models/users.model';
+import { IntensityOverridePolicy } from 'src/config/intensity';
+import { IntensityOverride } from './models/intensity_override.model';
+import { KarmaEvent } from './models/karma_event.model';
+import { IntensityOverrideService } from './intensity-override.service';
+
+describe('IntensityOverrideService', () => {
+  let service: IntensityOverrideService;
+  let config: Record<string, string>;
+  const overrideModel = { create: jest.fn() };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IntensityOverrideService,
+        { provide: getModelToken(IntensityOverride), useValue: overrideModel },
+        { provide: getModelToken(User), useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    service = module.get(IntensityOverrideService);
+  };
+
+  const withPolicy = async (
+    policy: IntensityOverridePolicy | string,
+    maxDeviation?: string,
+  ) => {
+    config = { INTENSITY_OVERRIDE_POLICY: policy };
+    if (maxDeviation !== undefined) {
+      config.INTENSITY_OVERRIDE_MAX_DEVIATION = maxDeviation;
+    }
+    await createService();
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {};
+    await createService();
+  });
+
+  describe('resolve', () => {
+    it('has no effective intensity before the AI has scored the event', () => {
+      expect(service.resolve(null, 8)).toBeNull();
+    });
+
+    it('uses the AI score when there is no override', () => {
+      expect(service.resolve(4, null)).toBe(4);
+    });
+
+    it('caps overrides at two points from the AI score by default', () => {
+      expect(service.resolve(4, 9)).toBe(6);
+      expect(service.resolve(4, -1)).toBe(2);
+      expect(service.resolve(4, 5)).toBe(5);
+    });
+
+    it('honours INTENSITY_OVERRIDE_MAX_DEVIATION, including zero', async () => {
+      await withPolicy(IntensityOverridePolicy.CAPPED, '3');
+      expect(service.resolve(4, 9)).toBe(7);
+
+      await withPolicy(IntensityOverridePolicy.CAPPED, '0');
+      expect(service.resolve(4, 9)).toBe(4);
+    });
+
+    it('ignores the user score under ai_only', async () => {
+      await withPolicy(IntensityOverridePolicy.AI_ONLY);
+
+      expect(service.resolve(4, 9)).toBe(4);
+    });
+
+    it('takes the user score as-is under user', async () => {
+      await withPolicy(IntensityOverridePolicy.USER);
+
+      expect(service.resolve(4, 9)).toBe(9);
+    });
+
+    it('rounds the mean of both scores under average', async () => {
+      await withPolicy(IntensityOverridePolicy.AVERAGE);
+
+      expect(service.resolve(4, 9)).toBe(7);
+      expect(service.resolve(2, 5)).toBe(4);
+    });
+
+    it('keeps the result within the intensity range', async () => {
+      await withPolicy(IntensityOverridePolicy.CAPPED, '5');
+
+      expect(service.resolve(10, 10)).toBe(10);
+      expect(service.resolve(-1, -1)).toBe(-1);
+    });
+
+    it('falls back to capped for an unknown policy', async () => {
+      await withPolicy('generous');
+
+      expect(service.resolve(4, 9)).toBe(6);
+    });
+  });
+
+  it('audits overrides with the policy that was applied', async () => {
+    await withPolicy(IntensityOverridePolicy.USER);
+
+    await service.record({
+      event_id: 'event-1',
+      user_id: 'user-1',
+      action: 'Helped a neighbour',
+      ai_intensity: 4,
+      user_intensity: 9,
+      intensity: 9,
+      user_intensity_reason: 'It took all afternoon',
+    } as KarmaEvent);
+
+    expect(overrideModel.create).toHaveBeenCalledWith({
+      event_id: 'event-1',
+      user_id: 'user-1',
+      action: 'Helped a neighbour',
+      ai_intensity: 4,
+      requested_intensity: 9,
+      effective_intensity: 9,
+      reason: 'It took all afternoon',
+      policy: IntensityOverridePolicy.USER,
+    });
+  });
+});
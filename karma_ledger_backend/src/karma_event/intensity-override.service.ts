@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { ConfigService } from '@nestjs/config';
+import { Op, col, fn, literal } from 'sequelize';
+import { User } from 'src/users/models/users.model';
+import {
+  IntensityOverridePolicy,
+  MAX_INTENSITY,
+  MIN_INTENSITY,
+} from 'src/config/intensity';
+import { IntensityOverride } from './models/intensity_override.model';
+import { KarmaEvent } from './models/karma_event.model';
+import { ListIntensityOverridesQueryDto } from './dto/intensity-override.dto';
+
+const DEFAULT_MAX_DEVIATION = 2;
+const DEFAULT_PAGE_SIZE = 50;
+const SUMMARY_SIZE = 50;
+
+export interface IntensityOverrideSummary {
+  user_id: string;
+  username: string | null;
+  override_count: number;
+  /** Overrides that scored the action higher than the AI did */
+  raised_count: number;
+  /** Mean of requested minus AI intensity; consistently high values suggest gaming */
+  average_deviation: number;
+  last_override_at: Date;
+}
+
+/**
+ * Applies INTENSITY_OVERRIDE_POLICY to users' disputed scores and keeps the
+ * audit trail admins review for gaming.
+ */
+@Injectable()
+export class IntensityOverrideService {
+  private readonly policy: IntensityOverridePolicy;
+  private readonly maxDeviation: number;
+
+  constructor(
+    @InjectModel(IntensityOverride)
+    private readonly overrideModel: typeof IntensityOverride,
+    @InjectModel(User) private readonly userModel: typeof User,
+    configService: ConfigService,
+  ) {
+    const policy = configService.get<string>('INTENSITY_OVERRIDE_POLICY');
+    this.policy = Object.values(IntensityOverridePolicy).includes(
+      policy as IntensityOverridePolicy,
+    )
+      ? (policy as IntensityOverridePolicy)
+      : IntensityOverridePolicy.CAPPED;
+
+    const deviation = Number(
+      configService.get<string>('INTENSITY_OVERRIDE_MAX_DEVIATION'),
+    );
+    this.maxDeviation =
+      Number.isFinite(deviation) && deviation >= 0
+        ? deviation
+        : DEFAULT_MAX_DEVIATION;
+  }
+
+  /**
+   * The intensity that counts for an event. Unscored events have none, even
+   * when the user has kept an override from before a re-score.
+   */
+  resolve(
+    aiIntensity: number | null,
+    userIntensity: number | null,
+  ): number | null {
+    if (aiIntensity === null || aiIntensity === undefined) return null;
+    if (userIntensity === null || userIntensity === undefined) {
+      return aiIntensity;
+    }
+
+    let effective: number;
+    switch (this.policy) {
+      case IntensityOverridePolicy.AI_ONLY:
+        effective = aiIntensity;
+        break;
+      case IntensityOverridePolicy.USER:
+        effective = userIntensity;
+        break;
+      case IntensityOverridePolicy.AVERAGE:
+        effective = Math.round((aiIntensity + userIntensity) / 2);
+        break;
+      case IntensityOverridePolicy.CAPPED:
+        effective = Math.min(
+          Math.max(userIntensity, aiIntensity - this.maxDeviation),
+          aiIntensity + this.maxDeviation,
+        );
+        break;
+    }
+    return Math.min(Math.max(effective, MIN_INTENSITY), MAX_INTENSITY);
+  }
+
+  /** Records an override, or its withdrawal, after it was applied to the event */
+  async record(event: KarmaEvent): Promise<IntensityOverride> {
+    return this.overrideModel.create({
+      event_id: event.event_id,
+      user_id: event.user_id,
+      action: event.action,
+      ai_intensity: event.ai_intensity,
+      requested_intensity: event.user_intensity,
+      effective_intensity: event.intensity,
+      reason: event.user_intensity_reason,
+      policy: this.policy,
+    });
+  }
+
+  async listOverrides(
+    query: ListIntensityOverridesQueryDto,
+  ): Promise<{ items: IntensityOverride[]; total: number }> {
+    const { rows, count } = await this.overrideModel.findAndCountAll({
+      where: query.user_id ? { user_id: query.user_id } : {},
+      include: [{ model: User, attributes: ['user_id', 'username'] }],
+      order: [['createdAt', 'DESC']],
+      limit: query.limit ?? DEFAULT_PAGE_SIZE,
+      offset: query.offset ?? 0,
+    });
+    return { items: rows, total: count };
+  }
+
+  /** Users with the most overrides, with how far they tend to push the score */
+  async summarizeByUser(): Promise<IntensityOverrideSummary[]> {
+    const rows = (await this.overrideModel.findAll({
+      attributes: [
+        'user_id',
+        [fn('COUNT', col('id')), 'override_count'],
+        [
+          fn(
+            'SUM',
+            literal(
+              'CASE WHEN requested_intensity > ai_intensity THEN 1 ELSE 0 END',
+            ),
+          ),
+          'raised_count',
+        ],
+        [
+          fn('AVG', literal('requested_intensity - ai_intensity')),
+          'average_deviation',
+        ],
+        [fn('MAX', col('createdAt')), 'last_override_at'],
+      ],
+      where: { requested_intensity: { [Op.ne]: null } },
+      group: ['user_id'],
+      order: [[literal('override_count'), 'DESC']],
+      limit: SUMMARY_SIZE,
+      raw: true,
+    })) as unknown as (Record<string, unknown> & { user_id: string })[];
+
+    const usernames = await this.findUsernames(rows.map((row) => row.user_id));
+    return rows.map((row) => ({
+      user_id: row.user_id,
+      username: usernames.get(row.user_id) ?? null,
+      override_count: Number(row.override_count),
+      raised_count: Number(row.raised_count),
+      average_deviation: Math.round(Number(row.average_deviation) * 100) / 100,
+      last_override_at: new Date(row.last_override_at as string),
+    }));
+  }
+
+  private async findUsernames(userIds: string[]) {
+    const users = await this.userModel.findAll({
+      where: { user_id: { [Op.in]: userIds } },
+      attributes: ['user_id', 'username'],
+    });
+    return new Map(users.map((user) => [user.user_id, user.username]));
+  }
+}
@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { FeedbackStatus } from 'src/config/feedback-status';
+import { User } from 'src/users/models/users.model';
+import { parseCsv } from 'src/util/csv';
+import { KarmaEvent } from './models/karma_event.model';
+import { KarmaEventService } from './karma_event.service';
+import { KarmaEventExportService } from './karma-event-export.service';
+
+const karmaEvent = (overrides: Partial<KarmaEvent> = {}) =>
+  ({
+    event_id: 'event-1',
+    action: 'Helped a neighbour',
+    reflection: null,
+    intensity: 7,
+    ai_intensity: 6,
+    user_intensity: 8,
+    user_intensity_reason: 'It took all afternoon',
+    feedback: 'Kind of you',
+    feedback_status: FeedbackStatus.DONE,
+    category: 'community',
+    tags: [{ name: 'home' }, { name: 'weekend' }],
+    occurred_at: new Date('2026-10-19T22:30:00.000Z'),
+    updatedAt: new Date('2026-10-20T08:00:00.000Z'),
+    ...overrides,
+  }) as unknown as KarmaEvent;
+
+const collect = async (chunks: AsyncIterable<string>): Promise<string> => {
+  let text = '';
+  for await (const chunk of chunks) text += chunk;
+  return text;
+};
+
+describe('KarmaEventExportService', () => {
+  let service: KarmaEventExportService;
+  const userModel = { findByPk: jest.fn() };
+  const karmaEventService = { iterateUserEvents: jest.fn() };
+
+  const exportAs = async (
+    format: 'csv' | 'json' | 'ics',
+    events: KarmaEvent[],
+  ) => {
+    // for await also walks a plain array, standing in for the batched reads
+    karmaEventService.iterateUserEvents.mockReturnValue(events);
+    const result = await service.exportEvents('user-1', { format });
+    return { ...result, text: await collect(result.chunks) };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    userModel.findByPk.mockResolvedValue({
+      username: 'amani',
+      timezone: 'Africa/Nairobi',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KarmaEventExportService,
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: KarmaEventService, useValue: karmaEventService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+    service = module.get(KarmaEventExportService);
+  });
+
+  it('throws for an unknown user', async () => {
+    userModel.findByPk.mockResolvedValue(null);
+
+    await expect(
+      service.exportEvents('user-1', { format: 'csv' }),
+    ).rejects.toThrow('User with ID user-1 not found');
+  });
+
+  describe('CSV', () => {
+    it('writes a header and one quoted-as-needed line per event', async () => {
+      const { text, contentType } = await exportAs('csv', [
+        karmaEvent({ reflection: 'Said "hi", then\nleft' }),
+      ]);
+
+      expect(contentType).toBe('text/csv; charset=utf-8');
+      expect(text.endsWith('\r\n')).toBe(true);
+      const [header, row] = parseCsv(text);
+      expect(header[0]).toBe('event_id');
+      const record = Object.fromEntries(
+        header.map((column, i) => [column, row[i]]),
+      );
+      expect(record).toMatchObject({
+        action: 'Helped a neighbour',
+        reflection: 'Said "hi", then\nleft',
+        intensity: '7',
+        user_intensity: '8',
+        user_intensity_reason: 'It took all afternoon',
+        feedback_status: FeedbackStatus.DONE,
+        tags: 'home;weekend',
+        occurred_at: '2026-10-19T22:30:00.000Z',
+      });
+    });
+
+    it('neutralises cells a spreadsheet would run as a formula', async () => {
+      const { text } = await exportAs('csv', [
+        karmaEvent({ action: '=HYPERLINK("http://x")', intensity: -1 }),
+      ]);
+
+      const [header, row] = parseCsv(text);
+      expect(row[header.indexOf('action')]).toBe('\'=HYPERLINK("http://x")');
+      expect(row[header.indexOf('intensity')]).toBe('-1');
+    });
+  });
+
+  describe('JSON', () => {
+    it('streams a valid JSON array', async () => {
+      const { text } = await exportAs('json', [
+        karmaEvent(),
+        karmaEvent({ event_id: 'event-2' }),
+      ]);
+
+      const records = JSON.parse(text) as { event_id: string }[];
+      expect(records.map((record) => record.event_id)).toEqual([
+        'event-1',
+        'event-2',
+      ]);
+      expect(records[0]).toMatchObject({
+        user_intensity_reason: 'It took all afternoon',
+        feedback_status: FeedbackStatus.DONE,
+      });
+    });
+
+    it('streams an empty array when there are no events', async () => {
+      const { text } = await exportAs('json', []);
+
+      expect(JSON.parse(text)).toEqual([]);
+    });
+  });
+
+  describe('iCalendar', () => {
+    it("dates each event as an all-day event in the user's timezone", async () => {
+      const { text } = await exportAs('ics', [karmaEvent()]);
+
+      // 22:30 UTC is already the next day in Nairobi (UTC+3)
+      expect(text).toContain('DTSTART;VALUE=DATE:20261020\r\n');
+      expect(text).toContain('DTEND;VALUE=DATE:20261021\r\n');
+      expect(text).toContain('DTSTAMP:20261020T080000Z\r\n');
+      expect(text).toContain('UID:event-1@karma-ledger\r\n');
+      expect(text).toContain('CATEGORIES:community,home,weekend\r\n');
+      expect(text.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('escapes reserved characters in text values', async () => {
+      const { text } = await exportAs('ics', [
+        karmaEvent({ action: 'Tea; cake, and\\more' }),
+      ]);
+
+      expect(text).toContain('SUMMARY:Tea\\; cake\\, and\\\\more\r\n');
+    });
+
+    it('folds long lines at 75 octets without splitting characters', async () => {
+      const { text } = await exportAs('ics', [
+        karmaEvent({ reflection: 'Karibu sana 🙏 '.repeat(20) }),
+      ]);
+
+      const lines = text.split('\r\n');
+      for (const line of lines) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+      const unfolded = text.replace(/\r\n /g, '');
+      expect(unfolded).toContain(`DESCRIPTION:${'Karibu sana 🙏 '.repeat(20)}`);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { ConfigService } from '@nestjs/config';
+import { User } from 'src/users/models/users.model';
+import { toCsvLine } from 'src/util/csv';
+import { icsCalendarEnd, icsCalendarStart, toIcsEvent } from 'src/util/ics';
+import { getDayIndexInTimezone, isValidTimezone } from 'src/util/date.util';
+import {
+  ExportKarmaEventsQueryDto,
+  KarmaEventExportFormat,
+} from './dto/export-events.dto';
+import { KarmaEvent } from './models/karma_event.model';
+import { KarmaEventService } from './karma_event.service';
+
+const EXPORT_COLUMNS = [
+  'event_id',
+  'action',
+  'reflection',
+  'intensity',
+  'ai_intensity',
+  'user_intensity',
+  'user_intensity_reason',
+  'feedback',
+  'feedback_status',
+  'category',
+  'tags',
+  'occurred_at',
+] as const;
+
+const CONTENT_TYPES: Record<KarmaEventExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ics: 'text/calendar; charset=utf-8',
+};
+
+export interface KarmaEventExport {
+  contentType: string;
+  fileName: string;
+  chunks: AsyncGenerator<string>;
+}
+
+const toExportRecord = (event: KarmaEvent) => ({
+  event_id: event.event_id,
+  action: event.action,
+  reflection: event.reflection ?? null,
+  intensity: event.intensity ?? null,
+  ai_intensity: event.ai_intensity ?? null,
+  user_intensity: event.user_intensity ?? null,
+  user_intensity_reason: event.user_intensity_reason ?? null,
+  feedback: event.feedback ?? null,
+  feedback_status: event.feedback_status,
+  category: event.category ?? null,
+  tags: (event.tags ?? []).map((tag) => tag.name),
+  occurred_at: new Date(event.occurred_at).toISOString(),
+});
+
+/**
+ * Streams a user's karma history as CSV, JSON or iCalendar. Events are read
+ * in batches so exports of long histories don't load everything at once.
+ */
+@Injectable()
+export class KarmaEventExportService {
+  private readonly defaultTimezone: string;
+
+  constructor(
+    @InjectModel(User) private readonly userModel: typeof User,
+    private readonly karmaEventService: KarmaEventService,
+    configService: ConfigService,
+  ) {
+    const timezone = configService.get<string>('DEFAULT_TIMEZONE') ?? 'UTC';
+    this.defaultTimezone = isValidTimezone(timezone) ? timezone : 'UTC';
+  }
+
+  async exportEvents(
+    userId: string,
+    { format = 'csv', ...filters }: ExportKarmaEventsQueryDto,
+  ): Promise<KarmaEventExport> {
+    const user = await this.userModel.findByPk(userId, {
+      attributes: ['username', 'timezone'],
+    });
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    const events = this.karmaEventService.iterateUserEvents(userId, filters);
+    const chunks =
+      format === 'json'
+        ? this.toJson(events)
+        : format === 'ics'
+          ? this.toIcs(events, user)
+          : this.toCsv(events);
+
+    return {
+      contentType: CONTENT_TYPES[format],
+      fileName: `karma-events-${new Date().toISOString().slice(0, 10)}.${format}`,
+      chunks,
+    };
+  }
+
+  private async *toCsv(
+    events: AsyncIterable<KarmaEvent>,
+  ): AsyncGenerator<string> {
+    yield toCsvLine([...EXPORT_COLUMNS]);
+    for await (const event of events) {
+      const record = toExportRecord(event);
+      yield toCsvLine(
+        EXPORT_COLUMNS.map((column) =>
+          column === 'tags' ? record.tags.join(';') : record[column],
+        ),
+      );
+    }
+  }
+
+  private async *toJson(
+    events: AsyncIterable<KarmaEvent>,
+  ): AsyncGenerator<string> {
+    let separator = '\n';
+    yield '[';
+    for await (const event of events) {
+      yield separator + JSON.stringify(toExportRecord(event));
+      separator = ',\n';
+    }
+    yield '\n]\n';
+  }
+
+  /** One all-day VEVENT per karma event, dated in the user's timezone */
+  private async *toIcs(
+    events: AsyncIterable<KarmaEvent>,
+    user: User,
+  ): AsyncGenerator<string> {
+    const timezone =
+      user.timezone && isValidTimezone(user.timezone)
+        ? user.timezone
+        : this.defaultTimezone;
+
+    yield icsCalendarStart(`${user.username}'s Karma Ledger`);
+    for await (const event of events) {
+      const details = [
+        event.reflection,
+        event.intensity !== null && event.intensity !== undefined
+          ? `Intensity: ${event.intensity}`
+          : null,
+        event.feedback,
+      ].filter(Boolean);
+
+      yield toIcsEvent({
+        uid: `${event.event_id}@karma-ledger`,
+        dayIndex: getDayIndexInTimezone(event.occurred_at, timezone),
+        summary: event.action,
+        description: details.join('\n\n'),
+        categories: [
+          ...(event.category ? [event.category] : []),
+          ...(event.tags ?? []).map((tag) => tag.name),
+        ],
+        stamp: event.updatedAt as Date,
+      });
+    }
+    yield icsCalendarEnd();
+  }
+}
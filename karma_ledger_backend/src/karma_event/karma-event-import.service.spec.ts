@@ -0,0 +1,230 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Sequelize } from 'sequelize-typescript';
+import { DomainEvents } from 'src/config/events';
+import { FeedbackStatus } from 'src/config/feedback-status';
+import { ActiveWeekService } from 'src/dashboard/active-week.service';
+import { KarmaEvent } from './models/karma_event.model';
+import { KarmaImport } from './models/karma_import.model';
+import { KarmaEventService } from './karma_event.service';
+import {
+  ImportFile,
+  KarmaEventImportService,
+} from './karma-event-import.service';
+
+const csvFile = (text: string): ImportFile => ({
+  originalname: 'events.csv',
+  mimetype: 'text/csv',
+  buffer: Buffer.from(text),
+});
+
+const jsonFile = (data: unknown): ImportFile => ({
+  originalname: 'events.json',
+  mimetype: 'application/json',
+  buffer: Buffer.from(JSON.stringify(data)),
+});
+
+describe('KarmaEventImportService', () => {
+  let service: KarmaEventImportService;
+  let config: Record<string, string>;
+  const transaction = { id: 'transaction' };
+  const sequelize = {
+    transaction: jest.fn((work: (t: unknown) => unknown) => work(transaction)),
+  };
+  const karmaEventModel = { findAll: jest.fn(), bulkCreate: jest.fn() };
+  const karmaImportModel = { findOne: jest.fn(), create: jest.fn() };
+  const karmaEventService = { enqueueFeedbackInBatches: jest.fn() };
+  const activeWeekService = { syncUser: jest.fn() };
+  const eventEmitter = { emit: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {};
+    karmaEventModel.findAll.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KarmaEventImportService,
+        { provide: Sequelize, useValue: sequelize },
+        { provide: getModelToken(KarmaEvent), useValue: karmaEventModel },
+        { provide: getModelToken(KarmaImport), useValue: karmaImportModel },
+        { provide: KarmaEventService, useValue: karmaEventService },
+        { provide: ActiveWeekService, useValue: activeWeekService },
+        { provide: EventEmitter2, useValue: eventEmitter },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    service = module.get(KarmaEventImportService);
+  });
+
+  describe('preview', () => {
+    it('reports invalid rows by their 1-based position and keeps the rest', async () => {
+      const preview = await service.preview(
+        'user-1',
+        csvFile(
+          'action,reflection,occurred_at\n' +
+            'Helped a neighbour,felt good,2026-10-01T10:00:00.000Z\n' +
+            ',,\n' +
+            ' ,empty action,\n' +
+            'Fed the cat,,not a date\n',
+        ),
+      );
+
+      expect(preview.total_rows).toBe(3);
+      expect(preview.rows).toEqual([
+        {
+          row: 1,
+          action: 'Helped a neighbour',
+          reflection: 'felt good',
+          occurred_at: '2026-10-01T10:00:00.000Z',
+        },
+      ]);
+      expect(preview.errors.map((error) => error.row)).toEqual([2, 3]);
+      expect(preview.errors[0].messages).toContain(
+        'action should not be empty',
+      );
+    });
+
+    it('skips rows repeating an earlier row or an existing event', async () => {
+      karmaEventModel.findAll.mockResolvedValue([
+        {
+          action: 'Gave blood',
+          occurred_at: new Date('2026-10-02T09:00:00.000Z'),
+        },
+      ]);
+
+      const preview = await service.preview(
+        'user-1',
+        jsonFile([
+          { action: 'Gave blood', occurred_at: '2026-10-02T09:00:00.000Z' },
+          { action: 'Planted a tree', occurred_at: '2026-10-03T09:00:00Z' },
+          { action: ' planted a TREE', occurred_at: '2026-10-03T09:00:00Z' },
+        ]),
+      );
+
+      expect(preview.rows.map((row) => row.row)).toEqual([2]);
+      expect(preview.duplicate_rows).toEqual([1, 3]);
+    });
+
+    it('accepts the { events: [...] } shape of the JSON export', async () => {
+      const preview = await service.preview(
+        'user-1',
+        jsonFile({ events: [{ action: 'Called grandma' }] }),
+      );
+
+      expect(preview.rows).toHaveLength(1);
+    });
+
+    it('rejects files over the row limit', async () => {
+      config.IMPORT_MAX_ROWS = '2';
+
+      await expect(
+        service.preview(
+          'user-1',
+          jsonFile([{ action: 'a' }, { action: 'b' }, { action: 'c' }]),
+        ),
+      ).rejects.toThrow('Imports are limited to 2 events per file');
+    });
+
+    it('rejects malformed and empty files', async () => {
+      await expect(
+        service.preview('user-1', {
+          ...jsonFile([]),
+          buffer: Buffer.from('{'),
+        }),
+      ).rejects.toThrow('The file is not valid JSON');
+      await expect(service.preview('user-1', jsonFile([]))).rejects.toThrow(
+        'The file contains no events',
+      );
+    });
+  });
+
+  describe('importEvents', () => {
+    it('inserts only the valid, new rows and queues them for scoring', async () => {
+      const created = [{ event_id: 'event-1' }];
+      karmaEventModel.bulkCreate.mockResolvedValue(created);
+      karmaImportModel.create.mockResolvedValue({ id: 'import-1' });
+
+      await service.importEvents(
+        'user-1',
+        jsonFile([{ action: 'Recycled' }, { action: 42 }]),
+      );
+
+      const [rows] = karmaEventModel.bulkCreate.mock.calls[0] as [
+        { action: string }[],
+      ];
+      expect(rows.map((row) => row.action)).toEqual(['Recycled']);
+      expect(karmaImportModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          total_rows: 2,
+          imported_count: 1,
+          event_ids: ['event-1'],
+        }),
+        { transaction },
+      );
+      expect(karmaEventService.enqueueFeedbackInBatches).toHaveBeenCalledWith(
+        created,
+        expect.any(Number),
+        expect.any(Number),
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        DomainEvents.KARMA_CREATED,
+        { userId: 'user-1' },
+      );
+    });
+  });
+
+  describe('getImportStatus', () => {
+    const karmaImport = (eventIds: string[]) => ({
+      imported_count: eventIds.length,
+      get: () => ({ id: 'import-1', event_ids: eventIds }),
+    });
+
+    it('keeps scoring while events are still pending', async () => {
+      karmaImportModel.findOne.mockResolvedValue(karmaImport(['a', 'b']));
+      karmaEventModel.findAll.mockResolvedValue([
+        { feedback_status: FeedbackStatus.DONE, count: 1 },
+        { feedback_status: FeedbackStatus.PENDING, count: 1 },
+      ]);
+
+      const status = await service.getImportStatus('import-1', 'user-1');
+
+      expect(status).toMatchObject({
+        scored_count: 1,
+        failed_count: 0,
+        deleted_count: 0,
+        status: 'scoring',
+      });
+    });
+
+    it('completes once every remaining event is scored or has failed', async () => {
+      karmaImportModel.findOne.mockResolvedValue(karmaImport(['a', 'b', 'c']));
+      karmaEventModel.findAll.mockResolvedValue([
+        { feedback_status: FeedbackStatus.DONE, count: 1 },
+        { feedback_status: FeedbackStatus.FAILED, count: 1 },
+      ]);
+
+      const status = await service.getImportStatus('import-1', 'user-1');
+
+      expect(status).toMatchObject({
+        scored_count: 1,
+        failed_count: 1,
+        deleted_count: 1,
+        status: 'completed',
+      });
+    });
+
+    it('throws for imports of other users', async () => {
+      karmaImportModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.getImportStatus('import-1', 'user-2'),
+      ).rejects.toThrow('Import with ID import-1 not found');
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Sequelize } from 'sequelize-typescript';
+import { Op, col, fn } from 'sequelize';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { DomainEvents } from 'src/config/events';
+import { FeedbackStatus } from 'src/config/feedback-status';
+import { parseCsvRecords } from 'src/util/csv';
+import { ActiveWeekService } from 'src/dashboard/active-week.service';
+import { CreateKarmaEventDto } from './dto/event.dto';
+import { KarmaEvent } from './models/karma_event.model';
+import { ImportRowError, KarmaImport } from './models/karma_import.model';
+import { KarmaEventService } from './karma_event.service';
+
+const DEFAULT_MAX_ROWS = 1000;
+const DEFAULT_SCORING_BATCH_SIZE = 20;
+const DEFAULT_SCORING_BATCH_INTERVAL_MS = 60000;
+
+export interface ImportFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+export interface ImportPreviewRow {
+  row: number;
+  action: string;
+  reflection: string | null;
+  occurred_at: string | null;
+}
+
+/** Validation outcome, returned as-is for dry runs */
+export interface ImportPreview {
+  total_rows: number;
+  rows: ImportPreviewRow[];
+  duplicate_rows: number[];
+  errors: ImportRowError[];
+}
+
+interface ValidRow {
+  row: number;
+  dto: CreateKarmaEventDto;
+}
+
+const collectMessages = (errors: ValidationError[]): string[] =>
+  errors.flatMap((error) => Object.values(error.constraints ?? {}));
+
+/** Events count as duplicates when action and timestamp match */
+const dedupeKey = (action: string, occurredAt: Date | string | null) =>
+  `${action.trim().toLowerCase()}|${
+    occurredAt ? new Date(occurredAt).toISOString() : ''
+  }`;
+
+/**
+ * Imports karma events from CSV or JSON files. Rows are validated with
+ * the same rules as POST /karma-events/create; invalid and duplicate rows
+ * are reported and skipped, the rest are inserted in one transaction.
+ */
+@Injectable()
+export class KarmaEventImportService {
+  constructor(
+    private readonly sequelize: Sequelize,
+    @InjectModel(KarmaEvent)
+    private readonly karmaEventModel: typeof KarmaEvent,
+    @InjectModel(KarmaImport)
+    private readonly karmaImportModel: typeof KarmaImport,
+    private readonly karmaEventService: KarmaEventService,
+    private readonly activeWeekService: ActiveWeekService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /** Validates and deduplicates the file without writing anything */
+  async preview(userId: string, file: ImportFile): Promise<ImportPreview> {
+    const records = this.parseFile(file);
+    const errors: ImportRowError[] = [];
+    const valid: ValidRow[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const row = index + 1;
+      const messages = await this.validateRecord(record);
+      if (messages.length > 0) {
+        errors.push({ row, messages });
+      } else {
+        valid.push({ row, dto: this.toDto(record) });
+      }
+    }
+
+    const existingKeys = await this.findExistingKeys(userId, valid);
+    const seen = new Set<string>();
+    const duplicate_rows: number[] = [];
+    const rows: ImportPreviewRow[] = [];
+    for (const { row, dto } of valid) {
+      const key = dedupeKey(dto.action, dto.occurred_at ?? null);
+      if (existingKeys.has(key) || seen.has(key)) {
+        duplicate_rows.push(row);
+        continue;
+      }
+      seen.add(key);
+      rows.push({
+        row,
+        action: dto.action,
+        reflection: dto.reflection ?? null,
+        occurred_at: dto.occurred_at ?? null,
+      });
+    }
+
+    return { total_rows: records.length, rows, duplicate_rows, errors };
+  }
+
+  /** Inserts the valid, non-duplicate rows and queues them for scoring */
+  async importEvents(userId: string, file: ImportFile): Promise<KarmaImport> {
+    const { total_rows, rows, duplicate_rows, errors } = await this.preview(
+      userId,
+      file,
+    );
+
+    const now = new Date();
+    const { events, karmaImport } = await this.sequelize.transaction(
+      async (transaction) => {
+        const events = await this.karmaEventModel.bulkCreate(
+          rows.map((row) => ({
+            user_id: userId,
+            action: row.action,
+            reflection: row.reflection,
+            occurred_at: row.occurred_at ? new Date(row.occurred_at) : now,
+          })),
+          { transaction },
+        );
+        const karmaImport = await this.karmaImportModel.create(
+          {
+            user_id: userId,
+            file_name: file.originalname,
+            total_rows,
+            imported_count: events.length,
+            duplicate_rows,
+            errors,
+            event_ids: events.map((event) => event.event_id),
+          },
+          { transaction },
+        );
+        return { events, karmaImport };
+      },
+    );
+
+    if (events.length > 0) {
+      await this.karmaEventService.enqueueFeedbackInBatches(
+        events,
+        Number(this.configService.get<string>('IMPORT_SCORING_BATCH_SIZE')) ||
+          DEFAULT_SCORING_BATCH_SIZE,
+        Number(
+          this.configService.get<string>('IMPORT_SCORING_BATCH_INTERVAL_MS'),
+        ) || DEFAULT_SCORING_BATCH_INTERVAL_MS,
+      );
+      this.eventEmitter.emit(DomainEvents.KARMA_CREATED, { userId });
+      await this.activeWeekService.syncUser(userId);
+    }
+
+    return karmaImport;
+  }
+
+  /**
+   * The import with how far scoring has got. Failed events count as
+   * finished, and events deleted since the import no longer count at all.
+   */
+  async getImportStatus(importId: string, userId: string) {
+    const karmaImport = await this.karmaImportModel.findOne({
+      where: { id: importId, user_id: userId },
+    });
+    if (!karmaImport) {
+      throw new Error(`Import with ID ${importId} not found`);
+    }
+
+    const { event_ids, ...details } = karmaImport.get({ plain: true }) as {
+      event_ids: string[];
+    } & Record<string, unknown>;
+    const counts =
+      event_ids.length === 0
+        ? []
+        : ((await this.karmaEventModel.findAll({
+            attributes: [
+              'feedback_status',
+              [fn('COUNT', col('event_id')), 'count'],
+            ],
+            where: { event_id: { [Op.in]: event_ids } },
+            group: ['feedback_status'],
+            raw: true,
+          })) as unknown as {
+            feedback_status: FeedbackStatus;
+            count: number;
+          }[]);
+
+    const countOf = (status?: FeedbackStatus) =>
+      counts
+        .filter((row) => !status || row.feedback_status === status)
+        .reduce((sum, row) => sum + Number(row.count), 0);
+    const remaining = countOf();
+    const scored_count = countOf(FeedbackStatus.DONE);
+    const failed_count = countOf(FeedbackStatus.FAILED);
+
+    return {
+      ...details,
+      scored_count,
+      failed_count,
+      deleted_count: event_ids.length - remaining,
+      status:
+        scored_count + failed_count >= remaining ? 'completed' : 'scoring',
+    };
+  }
+
+  private parseFile(file: ImportFile): Record<string, unknown>[] {
+    const text = file.buffer.toString('utf8');
+    const isJson =
+      file.mimetype === 'application/json' ||
+      file.originalname.toLowerCase().endsWith('.json');
+
+    let records: unknown;
+    if (isJson) {
+      try {
+        records = JSON.parse(text);
+      } catch {
+        throw new Error('The file is not valid JSON');
+      }
+      // Also accept { "events": [...] }, e.g. from our own JSON export
+      if (
+        records &&
+        typeof records === 'object' &&
+        !Array.isArray(records) &&
+        Array.isArray((records as { events?: unknown }).events)
+      ) {
+        records = (records as { events: unknown[] }).events;
+      }
+      if (!Array.isArray(records)) {
+        throw new Error('JSON imports must be an array of events');
+      }
+    } else {
+      records = parseCsvRecords(text);
+    }
+
+    const list = records as Record<string, unknown>[];
+    if (list.length === 0) {
+      throw new Error('The file contains no events');
+    }
+    const maxRows =
+      Number(this.configService.get<string>('IMPORT_MAX_ROWS')) ||
+      DEFAULT_MAX_ROWS;
+    if (list.length > maxRows) {
+      throw new Error(`Imports are limited to ${maxRows} events per file`);
+    }
+    return list;
+  }
+
+  private async validateRecord(record: unknown): Promise<string[]> {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      return ['Each event must be an object'];
+    }
+
+    const dto = plainToInstance(
+      CreateKarmaEventDto,
+      this.toDto(record as Record<string, unknown>),
+    );
+    const messages = collectMessages(await validate(dto));
+    if (typeof dto.action === 'string' && dto.action.trim() === '') {
+      messages.push('action should not be empty');
+    }
+    return messages;
+  }
+
+  /** Picks the importable fields; empty CSV cells count as missing */
+  private toDto(record: Record<string, unknown>): CreateKarmaEventDto {
+    const optional = (value: unknown) =>
+      value === '' || value === null ? undefined : value;
+    return {
+      action: (typeof record.action === 'string'
+        ? record.action.trim()
+        : record.action) as string,
+      reflection: optional(record.reflection) as string | undefined,
+      occurred_at: optional(record.occurred_at) as string | undefined,
+    };
+  }
+
+  private async findExistingKeys(
+    userId: string,
+    rows: ValidRow[],
+  ): Promise<Set<string>> {
+    const dates = rows
+      .map(({ dto }) => dto.occurred_at)
+      .filter((date): date is string => !!date)
+      .map((date) => new Date(date));
+    if (dates.length === 0) return new Set();
+
+    const existing = await this.karmaEventModel.findAll({
+      attributes: ['action', 'occurred_at'],
+      where: { user_id: userId, occurred_at: { [Op.in]: dates } },
+    });
+    return new Set(
+      existing.map((event) => dedupeKey(event.action, event.occurred_at)),
+    );
+  }
+}
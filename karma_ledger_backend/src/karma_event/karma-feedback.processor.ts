@@ -1,11 +1,17 @@
 import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
 import { QueueNames } from 'src/config/queues';
 import { Job } from 'bullmq';
-import { Logger } from '@nestjs/common';
-import { AiService } from './gemini.service';
+import { Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AI_PROVIDER, AiProvider } from 'src/ai/ai-provider.interface';
+import { toAiJobError } from 'src/ai/ai.errors';
+import { FeedbackStatus } from 'src/config/feedback-status';
+import { DeadLetterService } from 'src/dead_letter/dead_letter.service';
 import { KarmaEventService } from './karma_event.service';
 import { handleError } from 'src/util/error';
 
+const DEFAULT_INVALID_RESPONSE_ATTEMPTS = 2;
+
 interface JobData {
   userId: string;
   karmaEventId: string;
@@ -15,29 +21,62 @@ interface JobData {
 @Processor(QueueNames.KARMA_FEEDBACK)
 export class KarmaFeedbackProcessor extends WorkerHost {
   private readonly logger: Logger = new Logger('KarmaFeedbackProcessor');
+  private readonly maxInvalidAttempts: number;
+
   constructor(
-    private readonly AiService: AiService,
+    @Inject(AI_PROVIDER) private readonly aiProvider: AiProvider,
     private readonly karmaService: KarmaEventService,
+    private readonly deadLetterService: DeadLetterService,
+    configService: ConfigService,
   ) {
     super();
+    this.maxInvalidAttempts =
+      Number(configService.get<string>('AI_INVALID_RESPONSE_MAX_ATTEMPTS')) ||
+      DEFAULT_INVALID_RESPONSE_ATTEMPTS;
   }
 
   async process(job: Job<JobData>) {
     const { userId, karmaEventId, action } = job.data;
 
     try {
-      const processedData = await this.AiService.processKarmaAction({
-        userId,
+      // The event may have been deleted or edited since this job was queued
+      const event = await this.karmaService.findEventById(karmaEventId);
+      if (!event || event.action !== action) {
+        this.logger.log(
+          `Skipping stale feedback job ${job.id} for event ${karmaEventId}`,
+        );
+        return;
+      }
+      await this.karmaService.setFeedbackStatus(
         karmaEventId,
-        action,
-      });
+        FeedbackStatus.PROCESSING,
+      );
+
+      // Only classify what the user left out
+      const { category, tags, intensity, ...processedData } =
+        await this.aiProvider.processKarmaAction({
+          userId,
+          karmaEventId,
+          action,
+          suggestCategory: !event.category,
+          suggestTags: !event.tags?.length,
+        });
       this.logger.log(`event id was ${karmaEventId}`);
-      await this.karmaService.updateKarmaEvent(karmaEventId, processedData);
+      if (tags?.length) {
+        await this.karmaService.applySuggestedTags(karmaEventId, tags);
+      }
+      await this.karmaService.updateKarmaEvent(karmaEventId, {
+        ...processedData,
+        ai_intensity: intensity,
+        feedback_status: FeedbackStatus.DONE,
+        feedback_error: null,
+        ...(category && !event.category && { category }),
+      });
     } catch (error) {
       this.logger.error(
         `Job ${job.id} failed with error: ${handleError(error)}`,
       );
-      throw error;
+      throw toAiJobError(error, job.attemptsMade + 1, this.maxInvalidAttempts);
     }
   }
 
@@ -48,8 +87,30 @@ export class KarmaFeedbackProcessor extends WorkerHost {
     );
   }
 
+  /** Fires after every failed attempt; only the last one marks the event failed */
   @OnWorkerEvent('failed')
-  onFailed(job: Job<JobData>, error: Error) {
+  async onFailed(job: Job<JobData>, error: Error) {
     this.logger.error(`Job ${job.id} failed with error: ${error.message}`);
+
+    try {
+      if (this.deadLetterService.isFinalFailure(job, error)) {
+        await this.karmaService.setFeedbackStatus(
+          job.data.karmaEventId,
+          FeedbackStatus.FAILED,
+          error.message,
+        );
+        await this.deadLetterService.add(job, error);
+      } else {
+        await this.karmaService.setFeedbackStatus(
+          job.data.karmaEventId,
+          FeedbackStatus.PENDING,
+          error.message,
+        );
+      }
+    } catch (err) {
+      this.logger.error(
+        `Could not record failure of job ${job.id}: ${handleError(err)}`,
+      );
+    }
   }
 }
@@ -2,24 +2,49 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
+  Put,
+  Delete,
+  Param,
+  Query,
   UseGuards,
   Request,
   Body,
   HttpException,
   HttpStatus,
+  UploadedFile,
+  UseInterceptors,
+  ParseUUIDPipe,
+  StreamableFile,
 } from '@nestjs/common';
-import { CreateKarmaEventDto } from './dto/event.dto';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Readable } from 'stream';
+import { CreateKarmaEventDto, UpdateKarmaEventDto } from './dto/event.dto';
+import { ListKarmaEventsQueryDto } from './dto/list-events.dto';
 import { KarmaEventService } from './karma_event.service';
 import { AuthenticatedRequest } from 'src/util/types';
 import { JwtAuthGuard } from 'src/auth/jwt.guard';
-import { handleError } from 'src/util/error';
-import { ApiBearerAuth } from '@nestjs/swagger';
+import { errorStatus, handleError } from 'src/util/error';
+import { ApiBearerAuth, ApiBody, ApiConsumes } from '@nestjs/swagger';
+import { ImportKarmaEventsDto } from './dto/import-events.dto';
+import { KarmaEventImportService } from './karma-event-import.service';
+import { ExportKarmaEventsQueryDto } from './dto/export-events.dto';
+import { KarmaEventExportService } from './karma-event-export.service';
+import { TagService } from './tag.service';
+import { OverrideIntensityDto } from './dto/intensity-override.dto';
+
+const MAX_IMPORT_FILE_BYTES = 2 * 1024 * 1024;
 
 @Controller('karma-events')
 @ApiBearerAuth('JWT')
 @UseGuards(JwtAuthGuard)
 export class KarmaEventController {
-  constructor(private readonly karmaEventService: KarmaEventService) {}
+  constructor(
+    private readonly karmaEventService: KarmaEventService,
+    private readonly karmaEventImportService: KarmaEventImportService,
+    private readonly karmaEventExportService: KarmaEventExportService,
+    private readonly tagService: TagService,
+  ) {}
 
   @Post('create')
   logEvent(
@@ -39,10 +64,73 @@ export class KarmaEventController {
     }
   }
 
+  /** Imports a CSV or JSON file; with dry_run it only reports what would happen */
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description:
+            'CSV with action, reflection and occurred_at columns, or a JSON array of objects with those fields',
+        },
+        dry_run: { type: 'boolean' },
+      },
+    },
+  })
+  async importEvents(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: ImportKarmaEventsDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    if (!file) {
+      throw new HttpException('A file is required', HttpStatus.BAD_REQUEST);
+    }
+    try {
+      const userId = req.user?.user_id ?? '';
+      return dto.dry_run
+        ? await this.karmaEventImportService.preview(userId, file)
+        : await this.karmaEventImportService.getImportStatus(
+            (await this.karmaEventImportService.importEvents(userId, file)).id,
+            userId,
+          );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Get('import/:id')
+  async getImportStatus(
+    @Param('id', ParseUUIDPipe) importId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.karmaEventImportService.getImportStatus(
+        importId,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.NOT_FOUND);
+    }
+  }
+
   @Get('me')
-  getUserEvents(@Request() req: AuthenticatedRequest) {
+  async getUserEvents(
+    @Query() query: ListKarmaEventsQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
     try {
-      return this.karmaEventService.findUserEvents(req.user?.user_id ?? '');
+      return await this.karmaEventService.findUserEvents(
+        req.user?.user_id ?? '',
+        query,
+      );
     } catch (error) {
       throw new HttpException(
         {
@@ -54,6 +142,37 @@ export class KarmaEventController {
     }
   }
 
+  /** The user's tags with their usage counts, for filters and autocomplete */
+  @Get('me/tags')
+  async getUserTags(@Request() req: AuthenticatedRequest) {
+    try {
+      return await this.tagService.listUserTags(req.user?.user_id ?? '');
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  /** Streams the filtered events as a CSV, JSON or iCalendar download */
+  @Get('me/export')
+  async exportEvents(
+    @Query() query: ExportKarmaEventsQueryDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      const { contentType, fileName, chunks } =
+        await this.karmaEventExportService.exportEvents(
+          req.user?.user_id ?? '',
+          query,
+        );
+      return new StreamableFile(Readable.from(chunks), {
+        type: contentType,
+        disposition: `attachment; filename="${fileName}"`,
+      });
+    } catch (error) {
+      throw new HttpException(handleError(error), HttpStatus.BAD_REQUEST);
+    }
+  }
+
   @Get('me/score')
   async getUserKarmaScore(@Request() req: AuthenticatedRequest) {
     try {
@@ -73,4 +192,104 @@ export class KarmaEventController {
       );
     }
   }
+
+  @Get(':id')
+  async getUserEvent(
+    @Param('id', ParseUUIDPipe) eventId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.karmaEventService.findUserEvent(
+        eventId,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      const status = errorStatus(error);
+      throw new HttpException({ status, message: handleError(error) }, status);
+    }
+  }
+
+  @Patch(':id')
+  async updateEvent(
+    @Param('id', ParseUUIDPipe) eventId: string,
+    @Body() dto: UpdateKarmaEventDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.karmaEventService.updateUserEvent(
+        eventId,
+        req.user?.user_id ?? '',
+        dto,
+      );
+    } catch (error) {
+      const status = errorStatus(error);
+      throw new HttpException({ status, message: handleError(error) }, status);
+    }
+  }
+
+  /** Queues an event whose AI analysis failed for another attempt */
+  @Post(':id/retry-feedback')
+  async retryFeedback(
+    @Param('id', ParseUUIDPipe) eventId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.karmaEventService.retryFeedback(
+        eventId,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), errorStatus(error));
+    }
+  }
+
+  /** Disputes the AI's intensity with the user's own score and a reason */
+  @Put(':id/intensity')
+  async overrideIntensity(
+    @Param('id', ParseUUIDPipe) eventId: string,
+    @Body() dto: OverrideIntensityDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.karmaEventService.overrideIntensity(
+        eventId,
+        req.user?.user_id ?? '',
+        dto,
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), errorStatus(error));
+    }
+  }
+
+  @Delete(':id/intensity')
+  async clearIntensityOverride(
+    @Param('id', ParseUUIDPipe) eventId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      return await this.karmaEventService.clearIntensityOverride(
+        eventId,
+        req.user?.user_id ?? '',
+      );
+    } catch (error) {
+      throw new HttpException(handleError(error), errorStatus(error));
+    }
+  }
+
+  @Delete(':id')
+  async deleteEvent(
+    @Param('id', ParseUUIDPipe) eventId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    try {
+      await this.karmaEventService.deleteUserEvent(
+        eventId,
+        req.user?.user_id ?? '',
+      );
+      return { message: 'Karma event deleted successfully' };
+    } catch (error) {
+      const status = errorStatus(error);
+      throw new HttpException({ status, message: handleError(error) }, status);
+    }
+  }
 }
@@ -4,27 +4,56 @@ import { KarmaEventService } from './karma_event.service';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { User } from 'src/users/models/users.model';
 import { KarmaEvent } from './models/karma_event.model';
+import { KarmaImport } from './models/karma_import.model';
+import { Tag } from './models/tag.model';
+import { KarmaEventTag } from './models/karma_event_tag.model';
+import { IntensityOverride } from './models/intensity_override.model';
+import { TagService } from './tag.service';
+import { IntensityOverrideService } from './intensity-override.service';
+import { KarmaEventImportService } from './karma-event-import.service';
+import { KarmaEventExportService } from './karma-event-export.service';
 import { BullModule } from '@nestjs/bullmq';
-import { QueueNames } from 'src/config/queues';
+import { QueueJobOptions, QueueNames } from 'src/config/queues';
 import { KarmaFeedbackProcessor } from './karma-feedback.processor';
-import { AiService } from './gemini.service';
 import { BadgeListener } from './listeners/badge.listener';
+import { StreakListener } from './listeners/streak.listener';
+import { ActiveWeekListener } from './listeners/active-week.listener';
+import { LeaderboardSnapshotListener } from './listeners/leaderboard-snapshot.listener';
 import { DashboardModule } from 'src/dashboard/dashboard.module';
+import { AiModule } from 'src/ai/ai.module';
+import { DeadLetterModule } from 'src/dead_letter/dead_letter.module';
 
 @Module({
   imports: [
     DashboardModule,
-    SequelizeModule.forFeature([User, KarmaEvent]),
+    AiModule,
+    DeadLetterModule,
+    SequelizeModule.forFeature([
+      User,
+      KarmaEvent,
+      KarmaImport,
+      Tag,
+      KarmaEventTag,
+      IntensityOverride,
+    ]),
     BullModule.registerQueue({
       name: QueueNames.KARMA_FEEDBACK,
+      defaultJobOptions: QueueJobOptions[QueueNames.KARMA_FEEDBACK],
     }),
   ],
   controllers: [KarmaEventController],
   providers: [
     KarmaEventService,
+    TagService,
+    IntensityOverrideService,
+    KarmaEventImportService,
+    KarmaEventExportService,
     KarmaFeedbackProcessor,
-    AiService,
     BadgeListener,
+    StreakListener,
+    ActiveWeekListener,
+    LeaderboardSnapshotListener,
   ],
+  exports: [KarmaEventService, IntensityOverrideService],
 })
 export class KarmaEventModule {}
@@ -1,13 +1,23 @@
 import { Injectable } from '@nestjs/common';
 import { KarmaEvent } from './models/karma_event.model';
 import { InjectModel } from '@nestjs/sequelize';
-import { CreateKarmaEventDto } from './dto/event.dto';
+import { CreateKarmaEventDto, UpdateKarmaEventDto } from './dto/event.dto';
+import { ListKarmaEventsQueryDto } from './dto/list-events.dto';
+import { Op, WhereOptions, col, fn, literal, where } from 'sequelize';
+import { PaginatedResult } from 'src/util/types';
 import { Sequelize } from 'sequelize-typescript';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
-import { BadgeEvents } from 'src/config/events';
+import { DomainEvents } from 'src/config/events';
 import { QueueNames } from 'src/config/queues';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { toKarmaScore } from 'src/config/intensity';
+import { FeedbackStatus } from 'src/config/feedback-status';
+import { ActiveWeekService } from 'src/dashboard/active-week.service';
+import { TAGS_INCLUDE, TagService, normalizeTagNames } from './tag.service';
+import { IntensityOverrideService } from './intensity-override.service';
+import { OverrideIntensityDto } from './dto/intensity-override.dto';
+import { NotFoundError } from 'src/util/error';
 
 @Injectable()
 export class KarmaEventService {
@@ -15,52 +25,341 @@ export class KarmaEventService {
     @InjectModel(KarmaEvent) private karmaEventModel: typeof KarmaEvent,
     @InjectQueue(QueueNames.KARMA_FEEDBACK) private karmaFeedbackQueue: Queue,
     private eventEmitter: EventEmitter2,
+    private activeWeekService: ActiveWeekService,
+    private tagService: TagService,
+    private intensityOverrideService: IntensityOverrideService,
   ) {}
 
   async createEvent(
     dto: CreateKarmaEventDto,
     userId: string,
   ): Promise<KarmaEvent> {
+    const { tags, ...fields } = dto;
     const result = await this.karmaEventModel.create({
-      ...dto,
+      ...fields,
       user_id: userId,
       occurred_at: dto.occurred_at || new Date(),
     });
+    if (tags?.length) {
+      await this.tagService.setEventTags(result, tags);
+    }
+    await result.reload({ include: [TAGS_INCLUDE] });
 
     // Send job to background for AI feedback
-    await this.karmaFeedbackQueue.add('get_feedback', {
-      userId,
-      karmaEventId: result.event_id,
-      action: result.action,
+    await this.enqueueFeedback(result);
+
+    this.eventEmitter.emit(DomainEvents.KARMA_CREATED, { userId });
+    await this.activeWeekService.recordActivity(userId, result.occurred_at);
+
+    return result;
+  }
+
+  /** Updates a user's own event, re-scoring it when the action changes */
+  async updateUserEvent(
+    eventId: string,
+    userId: string,
+    dto: UpdateKarmaEventDto,
+  ): Promise<KarmaEvent> {
+    const event = await this.findUserEvent(eventId, userId);
+
+    const actionChanged =
+      dto.action !== undefined && dto.action !== event.action;
+    const dateChanged = dto.occurred_at !== undefined;
+
+    const { tags, ...fields } = dto;
+    await event.update({
+      ...fields,
+      // An override disputed the old action's score, so it goes too
+      ...(actionChanged && {
+        intensity: null,
+        ai_intensity: null,
+        user_intensity: null,
+        user_intensity_reason: null,
+        feedback: null,
+        feedback_generated: false,
+        feedback_status: FeedbackStatus.PENDING,
+        feedback_error: null,
+      }),
     });
 
-    // Badge Emission Logic
-    const totalEvents = await this.karmaEventModel.count({
-      where: { user_id: userId },
+    if (tags !== undefined) {
+      await this.tagService.setEventTags(event, tags);
+    }
+    await event.reload({ include: [TAGS_INCLUDE] });
+
+    if (actionChanged) {
+      await this.enqueueFeedback(event);
+    }
+
+    this.eventEmitter.emit(DomainEvents.KARMA_UPDATED, { userId });
+    if (dateChanged) {
+      await this.activeWeekService.syncUser(userId);
+    }
+
+    return event;
+  }
+
+  /** Deletes a user's own event; badge rules are re-evaluated on the emitted event */
+  async deleteUserEvent(eventId: string, userId: string): Promise<void> {
+    const deleted = await this.karmaEventModel.destroy({
+      where: { event_id: eventId, user_id: userId },
     });
+    if (deleted === 0) {
+      throw new NotFoundError(`Karma event with ID ${eventId} not found`);
+    }
 
-    if (totalEvents === 1) {
-      this.eventEmitter.emit(BadgeEvents.FIRST_ACTION, { userId });
+    this.eventEmitter.emit(DomainEvents.KARMA_DELETED, { userId });
+    await this.activeWeekService.syncUser(userId);
+  }
+
+  /**
+   * Clears an event's AI result and queues it for scoring again. A user
+   * override is kept and applied to the new score.
+   */
+  async rescoreEvent(eventId: string): Promise<KarmaEvent> {
+    const event = await this.karmaEventModel.findByPk(eventId);
+    if (!event) {
+      throw new NotFoundError(`Karma event with ID ${eventId} not found`);
     }
 
-    if (totalEvents === 5) {
-      this.eventEmitter.emit(BadgeEvents.KARMA_5, { userId });
+    await event.update({
+      intensity: null,
+      ai_intensity: null,
+      feedback: null,
+      feedback_generated: false,
+      feedback_status: FeedbackStatus.PENDING,
+      feedback_error: null,
+    });
+    await this.enqueueFeedback(event);
+    return event;
+  }
+
+  /** Queues a user's event whose scoring failed for another attempt */
+  async retryFeedback(eventId: string, userId: string): Promise<KarmaEvent> {
+    const event = await this.findUserEvent(eventId, userId);
+    if (event.feedback_status !== FeedbackStatus.FAILED) {
+      throw new Error('Only events whose AI analysis failed can be retried');
     }
 
-    return result;
+    await event.update({ feedback_status: FeedbackStatus.PENDING });
+    await this.enqueueFeedback(event);
+    return event;
   }
 
-  async findUserEvents(userId: string): Promise<KarmaEvent[]> {
-    return this.karmaEventModel.findAll({
-      where: { user_id: userId },
-      order: [['occurred_at', 'DESC']],
+  /** Queues every event whose scoring failed, e.g. after an AI outage */
+  async retryAllFailedFeedback(): Promise<number> {
+    const events = await this.karmaEventModel.findAll({
+      where: { feedback_status: FeedbackStatus.FAILED },
     });
+    if (events.length === 0) return 0;
+
+    await this.karmaEventModel.update(
+      { feedback_status: FeedbackStatus.PENDING },
+      {
+        where: { event_id: { [Op.in]: events.map((e) => e.event_id) } },
+      },
+    );
+    await this.karmaFeedbackQueue.addBulk(
+      events.map((event) => ({
+        name: 'get_feedback',
+        data: this.feedbackJobData(event),
+      })),
+    );
+    return events.length;
   }
 
-  async getUserKarmaScore(userId: string): Promise<number> {
-    const MIN_INTENSITY = -1;
-    const MAX_INTENSITY = 10;
+  /**
+   * Tracks a scoring job's progress. `error` is kept until scoring
+   * succeeds so the user can see why an attempt failed.
+   */
+  async setFeedbackStatus(
+    eventId: string,
+    status: FeedbackStatus,
+    error?: string,
+  ): Promise<void> {
+    await this.karmaEventModel.update(
+      {
+        feedback_status: status,
+        ...(error !== undefined && { feedback_error: error }),
+      },
+      { where: { event_id: eventId } },
+    );
+
+    if (status === FeedbackStatus.FAILED) {
+      const event = await this.karmaEventModel.findByPk(eventId, {
+        attributes: ['user_id'],
+      });
+      if (event) {
+        this.eventEmitter.emit(DomainEvents.KARMA_FEEDBACK_FAILED, {
+          userId: event.user_id,
+          eventId,
+        });
+      }
+    }
+  }
 
+  /**
+   * Records the user's own intensity for a scored event. What counts is
+   * decided by INTENSITY_OVERRIDE_POLICY, and every override is audited.
+   */
+  async overrideIntensity(
+    eventId: string,
+    userId: string,
+    dto: OverrideIntensityDto,
+  ): Promise<KarmaEvent> {
+    const event = await this.findUserEvent(eventId, userId);
+    if (event.ai_intensity === null || event.ai_intensity === undefined) {
+      throw new Error('This event has not been scored yet');
+    }
+
+    await event.update({
+      user_intensity: dto.intensity,
+      user_intensity_reason: dto.reason.trim(),
+      intensity: this.intensityOverrideService.resolve(
+        event.ai_intensity,
+        dto.intensity,
+      ),
+    });
+    await this.intensityOverrideService.record(event);
+
+    this.eventEmitter.emit(DomainEvents.KARMA_UPDATED, { userId });
+    return event;
+  }
+
+  /** Withdraws the user's override so the AI score counts again */
+  async clearIntensityOverride(
+    eventId: string,
+    userId: string,
+  ): Promise<KarmaEvent> {
+    const event = await this.findUserEvent(eventId, userId);
+    if (event.user_intensity === null || event.user_intensity === undefined) {
+      throw new Error('This event has no intensity override');
+    }
+
+    await event.update({
+      user_intensity: null,
+      user_intensity_reason: null,
+      intensity: event.ai_intensity,
+    });
+    await this.intensityOverrideService.record(event);
+
+    this.eventEmitter.emit(DomainEvents.KARMA_UPDATED, { userId });
+    return event;
+  }
+
+  async findEventById(eventId: string): Promise<KarmaEvent | null> {
+    return this.karmaEventModel.findByPk(eventId, { include: [TAGS_INCLUDE] });
+  }
+
+  /**
+   * Tags an event with names proposed by the AI, unless the user tagged it
+   * in the meantime.
+   */
+  async applySuggestedTags(eventId: string, names: string[]): Promise<void> {
+    const event = await this.findEventById(eventId);
+    if (!event || (event.tags?.length ?? 0) > 0) return;
+    await this.tagService.setEventTags(event, names);
+  }
+
+  /**
+   * Returns one page of a user's events, newest first. The cursor encodes the
+   * (occurred_at, event_id) of the last item so pages stay stable while new
+   * events are being logged.
+   */
+  async findUserEvents(
+    userId: string,
+    query: ListKarmaEventsQueryDto = {},
+  ): Promise<PaginatedResult<KarmaEvent>> {
+    const limit = query.limit ?? 20;
+    const filters = this.buildFilters(userId, query);
+
+    const total = await this.karmaEventModel.count({
+      where: { [Op.and]: filters },
+    });
+
+    if (query.cursor) {
+      const { occurredAt, eventId } = this.decodeCursor(query.cursor);
+      filters.push({
+        [Op.or]: [
+          { occurred_at: { [Op.lt]: occurredAt } },
+          { occurred_at: occurredAt, event_id: { [Op.lt]: eventId } },
+        ],
+      });
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await this.karmaEventModel.findAll({
+      where: { [Op.and]: filters },
+      include: [TAGS_INCLUDE],
+      order: [
+        ['occurred_at', 'DESC'],
+        ['event_id', 'DESC'],
+      ],
+      limit: limit + 1,
+    });
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    const nextCursor =
+      rows.length > limit && last ? this.encodeCursor(last) : null;
+
+    return { items, nextCursor, total };
+  }
+
+  /**
+   * Yields every event matching the list filters, newest first, loading
+   * `batchSize` rows at a time so large histories can be streamed.
+   */
+  async *iterateUserEvents(
+    userId: string,
+    query: Omit<ListKarmaEventsQueryDto, 'cursor' | 'limit'> = {},
+    batchSize = 500,
+  ): AsyncGenerator<KarmaEvent> {
+    const filters = this.buildFilters(userId, query);
+    let last: KarmaEvent | undefined;
+
+    do {
+      const keyset: WhereOptions[] = last
+        ? [
+            {
+              [Op.or]: [
+                { occurred_at: { [Op.lt]: last.occurred_at } },
+                {
+                  occurred_at: last.occurred_at,
+                  event_id: { [Op.lt]: last.event_id },
+                },
+              ],
+            },
+          ]
+        : [];
+      const rows = await this.karmaEventModel.findAll({
+        where: { [Op.and]: [...filters, ...keyset] },
+        include: [TAGS_INCLUDE],
+        order: [
+          ['occurred_at', 'DESC'],
+          ['event_id', 'DESC'],
+        ],
+        limit: batchSize,
+      });
+
+      yield* rows;
+      last = rows.length === batchSize ? rows[rows.length - 1] : undefined;
+    } while (last);
+  }
+
+  async findUserEvent(eventId: string, userId: string): Promise<KarmaEvent> {
+    const event = await this.karmaEventModel.findOne({
+      where: { event_id: eventId, user_id: userId },
+      include: [TAGS_INCLUDE],
+    });
+    if (!event) {
+      throw new NotFoundError(`Karma event with ID ${eventId} not found`);
+    }
+    return event;
+  }
+
+  /** Average effective intensity, so user overrides count as the policy allows */
+  async getUserKarmaScore(userId: string): Promise<number> {
     const results = await this.karmaEventModel.findAll({
       attributes: [
         [Sequelize.fn('AVG', Sequelize.col('intensity')), 'averageIntensity'],
@@ -74,20 +373,139 @@ export class KarmaEventService {
 
     if (averageIntensity === undefined || averageIntensity === null) return 0;
 
-    const normalized =
-      (Number(averageIntensity) - MIN_INTENSITY) /
-      (MAX_INTENSITY - MIN_INTENSITY);
-    return Math.round(normalized * 100);
+    return toKarmaScore(averageIntensity as number | string);
   }
 
+  /**
+   * Saves the AI's result. A new `ai_intensity` is combined with any user
+   * override into the effective intensity.
+   */
   async updateKarmaEvent(
     eventId: string,
     updateData: Partial<KarmaEvent>,
   ): Promise<KarmaEvent> {
     const event = await this.karmaEventModel.findByPk(eventId);
     if (!event) {
-      throw new Error(`Karma event with ID ${eventId} not found`);
+      throw new NotFoundError(`Karma event with ID ${eventId} not found`);
+    }
+    await event.update({
+      ...updateData,
+      ...(updateData.ai_intensity !== undefined && {
+        intensity: this.intensityOverrideService.resolve(
+          updateData.ai_intensity,
+          event.user_intensity,
+        ),
+      }),
+    });
+
+    if (updateData.feedback_generated) {
+      this.eventEmitter.emit(DomainEvents.KARMA_SCORED, {
+        userId: event.user_id,
+        eventId: event.event_id,
+      });
+    }
+
+    return event;
+  }
+
+  /**
+   * Queues scoring for many events at once, releasing `batchSize` jobs every
+   * `intervalMs` so a bulk import can't flood the AI provider.
+   */
+  async enqueueFeedbackInBatches(
+    events: KarmaEvent[],
+    batchSize: number,
+    intervalMs: number,
+  ): Promise<void> {
+    await this.karmaFeedbackQueue.addBulk(
+      events.map((event, index) => ({
+        name: 'get_feedback',
+        data: this.feedbackJobData(event),
+        opts: { delay: Math.floor(index / batchSize) * intervalMs },
+      })),
+    );
+  }
+
+  private buildFilters(
+    userId: string,
+    query: Omit<ListKarmaEventsQueryDto, 'cursor' | 'limit'>,
+  ): WhereOptions[] {
+    const filters: WhereOptions[] = [{ user_id: userId }];
+
+    if (query.from) {
+      filters.push({ occurred_at: { [Op.gte]: new Date(query.from) } });
+    }
+    if (query.to) {
+      filters.push({ occurred_at: { [Op.lte]: new Date(query.to) } });
+    }
+    if (query.intensity_min !== undefined) {
+      filters.push({ intensity: { [Op.gte]: query.intensity_min } });
+    }
+    if (query.intensity_max !== undefined) {
+      filters.push({ intensity: { [Op.lte]: query.intensity_max } });
+    }
+    if (query.feedback_generated !== undefined) {
+      filters.push({ feedback_generated: query.feedback_generated });
     }
-    return event.update(updateData);
+    if (query.feedback_status) {
+      filters.push({ feedback_status: query.feedback_status });
+    }
+    if (query.search?.trim()) {
+      const term = `%${query.search.trim().toLowerCase()}%`;
+      filters.push({
+        [Op.or]: [
+          where(fn('LOWER', col('action')), Op.like, term),
+          where(fn('LOWER', col('reflection')), Op.like, term),
+        ],
+      });
+    }
+    if (query.category) {
+      filters.push({ category: query.category });
+    }
+    const [tag] = normalizeTagNames(query.tag ? [query.tag] : []);
+    if (tag) {
+      const escape = (value: string) =>
+        this.karmaEventModel.sequelize!.escape(value);
+      filters.push({
+        event_id: {
+          [Op.in]: literal(
+            `(SELECT ket.event_id FROM karma_event_tags ket JOIN tags t ON t.id = ket.tag_id WHERE t.user_id = ${escape(userId)} AND t.name = ${escape(tag)})`,
+          ),
+        },
+      });
+    }
+    return filters;
+  }
+
+  private encodeCursor(event: KarmaEvent): string {
+    return Buffer.from(
+      `${new Date(event.occurred_at).toISOString()}|${event.event_id}`,
+    ).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): { occurredAt: Date; eventId: string } {
+    const [occurredAt, eventId] = Buffer.from(cursor, 'base64url')
+      .toString('utf8')
+      .split('|');
+    const date = new Date(occurredAt);
+    if (!eventId || isNaN(date.getTime())) {
+      throw new Error('Invalid pagination cursor');
+    }
+    return { occurredAt: date, eventId };
+  }
+
+  private async enqueueFeedback(event: KarmaEvent) {
+    await this.karmaFeedbackQueue.add(
+      'get_feedback',
+      this.feedbackJobData(event),
+    );
+  }
+
+  private feedbackJobData(event: KarmaEvent) {
+    return {
+      userId: event.user_id,
+      karmaEventId: event.event_id,
+      action: event.action,
+    };
   }
 }
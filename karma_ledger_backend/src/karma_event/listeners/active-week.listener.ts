@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DomainEventPayload, DomainEvents } from 'src/config/events';
+import { ActiveWeekService } from 'src/dashboard/active-week.service';
+
+/** Rebuilds a user's active weeks when their week boundaries move */
+@Injectable()
+export class ActiveWeekListener {
+  constructor(private readonly activeWeekService: ActiveWeekService) {}
+
+  @OnEvent(DomainEvents.USER_WEEK_SETTINGS_CHANGED)
+  async handleWeekSettingsChanged({ userId }: DomainEventPayload) {
+    await this.activeWeekService.syncUser(userId);
+  }
+}
@@ -1,40 +1,58 @@
 import { Injectable } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
-import { BadgeEvents, BadgeCode } from 'src/config/events';
-import { BadgeService } from 'src/dashboard/badge.service';
+import { DomainEventPayload, DomainEvents } from 'src/config/events';
+import { BadgeRuleEngine } from 'src/dashboard/badge-rule.engine';
 
 @Injectable()
 export class BadgeListener {
-  constructor(private readonly badgeService: BadgeService) {}
+  constructor(private readonly badgeRuleEngine: BadgeRuleEngine) {}
 
-  @OnEvent(BadgeEvents.FIRST_ACTION)
-  async handleFirstAction({ userId }: { userId: string }) {
-    await this.badgeService.awardBadgeToUser(userId, BadgeCode.FIRST_ACTION);
+  @OnEvent(DomainEvents.KARMA_CREATED)
+  async handleKarmaCreated(payload: DomainEventPayload) {
+    await this.badgeRuleEngine.evaluate(DomainEvents.KARMA_CREATED, payload);
   }
 
-  @OnEvent(BadgeEvents.FIRST_SUGGESTION)
-  async handleFirstSuggestion({ userId }: { userId: string }) {
-    await this.badgeService.awardBadgeToUser(
-      userId,
-      BadgeCode.FIRST_SUGGESTION,
+  @OnEvent(DomainEvents.KARMA_UPDATED)
+  async handleKarmaUpdated(payload: DomainEventPayload) {
+    await this.badgeRuleEngine.evaluate(DomainEvents.KARMA_UPDATED, payload);
+  }
+
+  @OnEvent(DomainEvents.KARMA_SCORED)
+  async handleKarmaScored(payload: DomainEventPayload) {
+    await this.badgeRuleEngine.evaluate(DomainEvents.KARMA_SCORED, payload);
+  }
+
+  @OnEvent(DomainEvents.KARMA_DELETED)
+  async handleKarmaDeleted(payload: DomainEventPayload) {
+    await this.badgeRuleEngine.evaluate(DomainEvents.KARMA_DELETED, payload);
+  }
+
+  @OnEvent(DomainEvents.ACTIVE_WEEKS_CHANGED)
+  async handleActiveWeeksChanged(payload: DomainEventPayload) {
+    await this.badgeRuleEngine.evaluate(
+      DomainEvents.ACTIVE_WEEKS_CHANGED,
+      payload,
     );
   }
 
-  @OnEvent(BadgeEvents.KARMA_5)
-  async handleKarma5({ userId }: { userId: string }) {
-    await this.badgeService.awardBadgeToUser(userId, BadgeCode.KARMA_5);
+  @OnEvent(DomainEvents.STREAK_UPDATED)
+  async handleStreakUpdated(payload: DomainEventPayload) {
+    await this.badgeRuleEngine.evaluate(DomainEvents.STREAK_UPDATED, payload);
   }
 
-  @OnEvent(BadgeEvents.WEEKLY_CHECKIN_3)
-  async handleWeeklyCheckin3({ userId }: { userId: string }) {
-    await this.badgeService.awardBadgeToUser(
-      userId,
-      BadgeCode.WEEKLY_CHECKIN_3,
+  @OnEvent(DomainEvents.SUGGESTIONS_CREATED)
+  async handleSuggestionsCreated(payload: DomainEventPayload) {
+    await this.badgeRuleEngine.evaluate(
+      DomainEvents.SUGGESTIONS_CREATED,
+      payload,
     );
   }
 
-  @OnEvent(BadgeEvents.TOP10_RANKED)
-  async handleTop10({ userId }: { userId: string }) {
-    await this.badgeService.awardBadgeToUser(userId, BadgeCode.TOP10);
+  @OnEvent(DomainEvents.LEADERBOARD_RANKED)
+  async handleLeaderboardRanked(payload: DomainEventPayload) {
+    await this.badgeRuleEngine.evaluate(
+      DomainEvents.LEADERBOARD_RANKED,
+      payload,
+    );
   }
 }
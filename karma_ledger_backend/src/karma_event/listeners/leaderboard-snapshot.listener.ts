@@ -0,0 +1,17 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DomainEventPayload, DomainEvents } from 'src/config/events';
+import { LeaderboardSnapshotService } from 'src/dashboard/leaderboard-snapshot.service';
+
+/** Anonymises deleted accounts in past leaderboards */
+@Injectable()
+export class LeaderboardSnapshotListener {
+  constructor(
+    private readonly leaderboardSnapshotService: LeaderboardSnapshotService,
+  ) {}
+
+  @OnEvent(DomainEvents.USER_DELETED)
+  async handleUserDeleted({ userId }: DomainEventPayload) {
+    await this.leaderboardSnapshotService.anonymiseUser(userId);
+  }
+}
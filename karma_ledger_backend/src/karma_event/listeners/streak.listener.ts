@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DomainEventPayload, DomainEvents } from 'src/config/events';
+import { StreakService } from 'src/dashboard/streak.service';
+
+/** Keeps persisted streaks in step with the user's karma events and week settings */
+@Injectable()
+export class StreakListener {
+  constructor(private readonly streakService: StreakService) {}
+
+  @OnEvent(DomainEvents.KARMA_CREATED)
+  @OnEvent(DomainEvents.KARMA_UPDATED)
+  @OnEvent(DomainEvents.KARMA_DELETED)
+  @OnEvent(DomainEvents.USER_WEEK_SETTINGS_CHANGED)
+  async handleKarmaChanged({ userId }: DomainEventPayload) {
+    await this.streakService.recalculate(userId);
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+  Default,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+import { IntensityOverridePolicy } from 'src/config/intensity';
+import { KarmaEvent } from './karma_event.model';
+
+/**
+ * Audit entry for each time a user overrides or withdraws their intensity
+ * for an event. Entries outlive the event so deleted events still show up
+ * when reviewing a user's overrides.
+ */
+@Table({ tableName: 'intensity_overrides', timestamps: true })
+export class IntensityOverride extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => KarmaEvent)
+  @Column({ type: DataType.UUID, allowNull: true })
+  event_id: string | null;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  /** The event's action when the override was made */
+  @Column(DataType.STRING)
+  action: string;
+
+  @Column(DataType.INTEGER)
+  ai_intensity: number;
+
+  /** Null when the user withdrew their override */
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  requested_intensity: number | null;
+
+  @Column(DataType.INTEGER)
+  effective_intensity: number;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  reason: string | null;
+
+  @Column(DataType.STRING)
+  policy: IntensityOverridePolicy;
+
+  @BelongsTo(() => User)
+  user: User;
+}
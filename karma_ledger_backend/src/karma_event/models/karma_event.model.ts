@@ -9,8 +9,13 @@ import {
   PrimaryKey,
   Default,
   BelongsTo,
+  BelongsToMany,
 } from 'sequelize-typescript';
 import { User } from '../../users/models/users.model';
+import { KarmaCategory } from 'src/config/categories';
+import { FeedbackStatus } from 'src/config/feedback-status';
+import { Tag } from './tag.model';
+import { KarmaEventTag } from './karma_event_tag.model';
 
 @Table({ tableName: 'karma_events', timestamps: true })
 export class KarmaEvent extends Model {
@@ -26,9 +31,23 @@ export class KarmaEvent extends Model {
   @Column(DataType.STRING)
   action: string;
 
+  /**
+   * Effective intensity used by scores and leaderboards, derived from the
+   * AI's score and the user's override by INTENSITY_OVERRIDE_POLICY
+   */
   @Column(DataType.INTEGER)
   intensity: number;
 
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  ai_intensity: number | null;
+
+  /** The user's self-assessed intensity when they dispute the AI's */
+  @Column({ type: DataType.INTEGER, allowNull: true })
+  user_intensity: number | null;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  user_intensity_reason: string | null;
+
   @Column(DataType.TEXT)
   reflection: string;
 
@@ -41,7 +60,24 @@ export class KarmaEvent extends Model {
   @Column({ type: DataType.BOOLEAN, defaultValue: false })
   feedback_generated: boolean;
 
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+    defaultValue: FeedbackStatus.PENDING,
+  })
+  feedback_status: FeedbackStatus;
+
+  /** Why scoring last failed, kept until it succeeds */
+  @Column({ type: DataType.TEXT, allowNull: true })
+  feedback_error: string | null;
+
   @Default(DataType.NOW)
   @Column(DataType.DATE)
   occurred_at: Date;
+
+  @Column({ type: DataType.STRING, allowNull: true })
+  category: KarmaCategory | null;
+
+  @BelongsToMany(() => Tag, () => KarmaEventTag)
+  tags?: Tag[];
 }
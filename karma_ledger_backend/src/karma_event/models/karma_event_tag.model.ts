@@ -0,0 +1,24 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+} from 'sequelize-typescript';
+import { KarmaEvent } from './karma_event.model';
+import { Tag } from './tag.model';
+
+/** Join table between karma events and tags */
+@Table({ tableName: 'karma_event_tags', timestamps: false })
+export class KarmaEventTag extends Model {
+  @PrimaryKey
+  @ForeignKey(() => KarmaEvent)
+  @Column(DataType.UUID)
+  event_id: string;
+
+  @PrimaryKey
+  @ForeignKey(() => Tag)
+  @Column(DataType.UUID)
+  tag_id: string;
+}
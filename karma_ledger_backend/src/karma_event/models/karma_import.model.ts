@@ -0,0 +1,52 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+  Default,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+
+export interface ImportRowError {
+  /** 1-based position of the record in the file, not counting the CSV header */
+  row: number;
+  messages: string[];
+}
+
+/** Outcome of a POST /karma-events/import, kept for the status endpoint */
+@Table({ tableName: 'karma_imports', timestamps: true })
+export class KarmaImport extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @Column(DataType.STRING)
+  file_name: string;
+
+  @Column(DataType.INTEGER)
+  total_rows: number;
+
+  @Column(DataType.INTEGER)
+  imported_count: number;
+
+  @Column(DataType.JSON)
+  duplicate_rows: number[];
+
+  @Column(DataType.JSON)
+  errors: ImportRowError[];
+
+  /** Created events, used to report scoring progress */
+  @Column(DataType.JSON)
+  event_ids: string[];
+
+  @BelongsTo(() => User)
+  user: User;
+}
@@ -0,0 +1,36 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  PrimaryKey,
+  Default,
+  BelongsTo,
+  BelongsToMany,
+} from 'sequelize-typescript';
+import { User } from 'src/users/models/users.model';
+import { KarmaEvent } from './karma_event.model';
+import { KarmaEventTag } from './karma_event_tag.model';
+
+/** A user-defined label; names are stored lowercased and unique per user */
+@Table({ tableName: 'tags', timestamps: true })
+export class Tag extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @Column(DataType.STRING)
+  name: string;
+
+  @BelongsTo(() => User)
+  user: User;
+
+  @BelongsToMany(() => KarmaEvent, () => KarmaEventTag)
+  events?: KarmaEvent[];
+}
@@ -0,0 +1,95 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, col, fn } from 'sequelize';
+import { KarmaEvent } from './models/karma_event.model';
+import { Tag } from './models/tag.model';
+
+export const MAX_TAGS_PER_EVENT = 10;
+export const MAX_TAG_LENGTH = 32;
+
+/** Loads an event's tags as `{ id, name }` without the join row */
+export const TAGS_INCLUDE = {
+  model: Tag,
+  attributes: ['id', 'name'],
+  through: { attributes: [] },
+};
+
+/** Lowercases, trims and de-duplicates tag names, dropping empty ones */
+export const normalizeTagNames = (names: string[]): string[] => [
+  ...new Set(
+    names
+      .map((name) =>
+        name.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH),
+      )
+      .filter((name) => name !== ''),
+  ),
+];
+
+/** Manages each user's own tag vocabulary and the tags on their events */
+@Injectable()
+export class TagService {
+  constructor(@InjectModel(Tag) private readonly tagModel: typeof Tag) {}
+
+  /**
+   * The tags on the user's events with how many events carry each, most
+   * used first. Tags no event carries any more are left out.
+   */
+  async listUserTags(
+    userId: string,
+  ): Promise<{ id: string; name: string; event_count: number }[]> {
+    const tags = (await this.tagModel.findAll({
+      attributes: [
+        'id',
+        'name',
+        [fn('COUNT', col('events.event_id')), 'event_count'],
+      ],
+      where: { user_id: userId },
+      include: [
+        {
+          model: KarmaEvent,
+          attributes: [],
+          through: { attributes: [] },
+          required: true,
+        },
+      ],
+      group: ['Tag.id'],
+      order: [
+        [fn('COUNT', col('events.event_id')), 'DESC'],
+        ['name', 'ASC'],
+      ],
+      raw: true,
+    })) as unknown as { id: string; name: string; event_count: number }[];
+
+    return tags.map((tag) => ({
+      ...tag,
+      event_count: Number(tag.event_count),
+    }));
+  }
+
+  /** Replaces the event's tags, creating any the user hasn't used before */
+  async setEventTags(event: KarmaEvent, names: string[]): Promise<void> {
+    const tags = await this.findOrCreateTags(
+      event.user_id,
+      normalizeTagNames(names).slice(0, MAX_TAGS_PER_EVENT),
+    );
+    await event.$set('tags', tags);
+  }
+
+  private async findOrCreateTags(
+    userId: string,
+    names: string[],
+  ): Promise<Tag[]> {
+    if (names.length === 0) return [];
+
+    const existing = await this.tagModel.findAll({
+      where: { user_id: userId, name: { [Op.in]: names } },
+    });
+    const known = new Set(existing.map((tag) => tag.name));
+    const created = await Promise.all(
+      names
+        .filter((name) => !known.has(name))
+        .map((name) => this.tagModel.create({ user_id: userId, name })),
+    );
+    return [...existing, ...created];
+  }
+}
@@ -0,0 +1,20 @@
+/** Injection token for the configured MailTransport implementation */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers a rendered message. MailerService builds the messages, the
+ * concrete transport is picked by `MAIL_TRANSPORT`.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,47 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  MAIL_TRANSPORT,
+  MailTransport,
+  MailTransportName,
+} from './mail-transport.interface';
+import { MailerService } from './mailer.service';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { ConsoleMailTransport } from './transports/console.transport';
+
+export const createMailTransport = (
+  configService: ConfigService,
+): MailTransport => {
+  const name = configService.get<MailTransportName>(
+    'MAIL_TRANSPORT',
+    'console',
+  );
+
+  switch (name) {
+    case 'smtp':
+      return new SmtpMailTransport(configService);
+    case 'file':
+      return new FileMailTransport(configService);
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(
+        `Unknown MAIL_TRANSPORT "${String(name)}" (expected smtp, file or console)`,
+      );
+  }
+};
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: createMailTransport,
+    },
+    MailerService,
+  ],
+  exports: [MailerService],
+})
+export class MailerModule {}
@@ -0,0 +1,75 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+
+/** Builds the transactional emails and hands them to the configured transport */
+@Injectable()
+export class MailerService {
+  private readonly logger = new Logger(MailerService.name);
+  private readonly from: string;
+  private readonly clientUrl: string;
+  private readonly serverUrl: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    configService: ConfigService,
+  ) {
+    this.from = configService.get<string>(
+      'MAIL_FROM',
+      'Karma Ledger <no-reply@karmaledger.local>',
+    );
+    this.clientUrl = configService.get<string>(
+      'CLIENT_URL',
+      'http://localhost:5173',
+    );
+    this.serverUrl = configService.get<string>(
+      'SERVER_URL',
+      'http://localhost:3000',
+    );
+  }
+
+  async sendPasswordReset(
+    to: string,
+    username: string,
+    token: string,
+    expiresInMinutes: number,
+  ): Promise<void> {
+    const link = `${this.clientUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    await this.send(
+      to,
+      'Reset your Karma Ledger password',
+      [
+        `Hi ${username},`,
+        '',
+        'Someone asked to reset the password for your Karma Ledger account.',
+        `Choose a new password here (valid for ${expiresInMinutes} minutes):`,
+        link,
+        '',
+        "If this wasn't you, you can ignore this email.",
+      ].join('\n'),
+    );
+  }
+
+  async sendEmailVerification(
+    to: string,
+    username: string,
+    token: string,
+  ): Promise<void> {
+    const link = `${this.serverUrl}/auth/verify-email?token=${encodeURIComponent(token)}`;
+    await this.send(
+      to,
+      'Confirm your Karma Ledger email address',
+      [
+        `Hi ${username},`,
+        '',
+        'Please confirm this is your email address by opening the link below:',
+        link,
+      ].join('\n'),
+    );
+  }
+
+  private async send(to: string, subject: string, text: string) {
+    await this.transport.send({ from: this.from, to, subject, text });
+    this.logger.debug(`Sent "${subject}" to ${to}`);
+  }
+}
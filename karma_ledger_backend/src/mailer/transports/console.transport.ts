@@ -0,0 +1,14 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/** Logs messages instead of sending them */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Mail to ${message.to}: ${message.subject}\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
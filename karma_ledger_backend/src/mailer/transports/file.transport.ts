@@ -0,0 +1,35 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/**
+ * Writes each message as JSON into `MAIL_OUTPUT_DIR` instead of sending it,
+ * so local development and tests can read the links out of the files.
+ */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+  private readonly outputDir: string;
+
+  constructor(configService: ConfigService) {
+    this.outputDir = configService.get<string>(
+      'MAIL_OUTPUT_DIR',
+      'mail-outbox',
+    );
+    this.logger.log(`Writing outgoing mail to ${this.outputDir}/`);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outputDir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.json`;
+    await writeFile(
+      join(this.outputDir, fileName),
+      JSON.stringify(
+        { ...message, sent_at: new Date().toISOString() },
+        null,
+        2,
+      ),
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly logger = new Logger(SmtpMailTransport.name);
+  private readonly transporter: Transporter;
+
+  constructor(configService: ConfigService) {
+    const host = configService.get<string>('SMTP_HOST');
+    if (!host) {
+      throw new Error('SMTP_HOST is not defined in environment variables.');
+    }
+
+    const user = configService.get<string>('SMTP_USER');
+    this.transporter = createTransport({
+      host,
+      port: Number(configService.get<string>('SMTP_PORT')) || 587,
+      secure: configService.get<string>('SMTP_SECURE') === 'true',
+      auth: user
+        ? { user, pass: configService.get<string>('SMTP_PASSWORD') }
+        : undefined,
+    });
+    this.logger.log(`Initialized SMTP mail transport via ${host}`);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
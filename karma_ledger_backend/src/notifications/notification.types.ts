@@ -0,0 +1,14 @@
+/** Message types pushed to clients over GET /notifications/stream */
+export enum NotificationTypes {
+  FEEDBACK_READY = 'feedback.ready',
+  FEEDBACK_FAILED = 'feedback.failed',
+  BADGE_AWARDED = 'badge.awarded',
+  SUGGESTIONS_READY = 'suggestions.ready',
+  LEADERBOARD_CHANGED = 'leaderboard.changed',
+  EXPORT_READY = 'export.ready',
+}
+
+export interface Notification {
+  type: NotificationTypes;
+  data: Record<string, unknown>;
+}
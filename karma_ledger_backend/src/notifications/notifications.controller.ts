@@ -0,0 +1,29 @@
+import {
+  Controller,
+  MessageEvent,
+  Request,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiQuery } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { JwtQueryAuthGuard } from 'src/auth/jwt.guard';
+import { AuthenticatedRequest } from 'src/util/types';
+import { NotificationsService } from './notifications.service';
+
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * Server-Sent Events stream of feedback.ready, badge.awarded,
+   * suggestions.ready and leaderboard.changed messages. EventSource can't
+   * set headers, so the JWT is passed as the `token` query parameter.
+   */
+  @Sse('stream')
+  @UseGuards(JwtQueryAuthGuard)
+  @ApiQuery({ name: 'token', description: 'JWT access token' })
+  stream(@Request() req: AuthenticatedRequest): Observable<MessageEvent> {
+    return this.notificationsService.streamFor(req.user?.user_id ?? '');
+  }
+}
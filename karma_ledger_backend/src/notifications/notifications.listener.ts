@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectModel } from '@nestjs/sequelize';
+import { DomainEventPayload, DomainEvents } from 'src/config/events';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { TAGS_INCLUDE } from 'src/karma_event/tag.service';
+import { Badge } from 'src/dashboard/models/badge.model';
+import { NotificationsService } from './notifications.service';
+import { NotificationTypes } from './notification.types';
+
+/** Turns domain events into messages for the user's open streams */
+@Injectable()
+export class NotificationsListener {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    @InjectModel(KarmaEvent) private readonly karmaEventRepo: typeof KarmaEvent,
+    @InjectModel(Badge) private readonly badgeRepo: typeof Badge,
+  ) {}
+
+  @OnEvent(DomainEvents.KARMA_SCORED)
+  async handleKarmaScored({ userId, eventId }: DomainEventPayload) {
+    const event = eventId
+      ? await this.karmaEventRepo.findByPk(eventId, {
+          include: [TAGS_INCLUDE],
+        })
+      : null;
+    if (event) {
+      this.notificationsService.notifyUser(
+        userId,
+        NotificationTypes.FEEDBACK_READY,
+        event.toJSON(),
+      );
+    }
+    this.notificationsService.leaderboardChanged();
+  }
+
+  @OnEvent(DomainEvents.KARMA_FEEDBACK_FAILED)
+  async handleFeedbackFailed({ userId, eventId }: DomainEventPayload) {
+    const event = await this.karmaEventRepo.findByPk(eventId, {
+      include: [TAGS_INCLUDE],
+    });
+    if (event) {
+      this.notificationsService.notifyUser(
+        userId,
+        NotificationTypes.FEEDBACK_FAILED,
+        event.toJSON(),
+      );
+    }
+  }
+
+  @OnEvent(DomainEvents.KARMA_UPDATED)
+  @OnEvent(DomainEvents.KARMA_DELETED)
+  handleKarmaChanged() {
+    this.notificationsService.leaderboardChanged();
+  }
+
+  @OnEvent(DomainEvents.BADGE_AWARDED)
+  async handleBadgeAwarded({ userId, badgeCode }: DomainEventPayload) {
+    const badge = await this.badgeRepo.findOne({ where: { code: badgeCode } });
+    if (!badge) return;
+
+    this.notificationsService.notifyUser(
+      userId,
+      NotificationTypes.BADGE_AWARDED,
+      badge.toJSON(),
+    );
+  }
+
+  @OnEvent(DomainEvents.SUGGESTIONS_CREATED)
+  handleSuggestionsCreated({ userId }: DomainEventPayload) {
+    this.notificationsService.notifyUser(
+      userId,
+      NotificationTypes.SUGGESTIONS_READY,
+      {},
+    );
+  }
+
+  @OnEvent(DomainEvents.DATA_EXPORT_READY)
+  handleDataExportReady({ userId, exportId }: DomainEventPayload) {
+    this.notificationsService.notifyUser(
+      userId,
+      NotificationTypes.EXPORT_READY,
+      { id: exportId },
+    );
+  }
+
+  @OnEvent(DomainEvents.USER_SUSPENDED)
+  handleUserSuspended({ userId }: DomainEventPayload) {
+    this.notificationsService.closeStreams(userId);
+  }
+}
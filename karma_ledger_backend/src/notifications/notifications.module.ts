@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
+import { Badge } from 'src/dashboard/models/badge.model';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+import { NotificationsListener } from './notifications.listener';
+
+@Module({
+  imports: [SequelizeModule.forFeature([KarmaEvent, Badge])],
+  controllers: [NotificationsController],
+  providers: [NotificationsService, NotificationsListener],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,88 @@
+import { Injectable, MessageEvent, OnModuleDestroy } from '@nestjs/common';
+import {
+  Observable,
+  Subject,
+  filter,
+  interval,
+  map,
+  merge,
+  takeUntil,
+} from 'rxjs';
+import { Notification, NotificationTypes } from './notification.types';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const LEADERBOARD_THROTTLE_MS = 5000;
+
+interface Envelope {
+  /** Recipient, or null for every connected user */
+  userId: string | null;
+  notification: Notification;
+}
+
+/**
+ * In-process fan-out of notifications to open SSE streams. Workers run in
+ * the same process as the API, so no external pub/sub is needed.
+ */
+@Injectable()
+export class NotificationsService implements OnModuleDestroy {
+  private readonly messages$ = new Subject<Envelope>();
+  /** User ids whose open streams should end */
+  private readonly closed$ = new Subject<string>();
+  private leaderboardTimer: NodeJS.Timeout | null = null;
+
+  onModuleDestroy() {
+    if (this.leaderboardTimer) clearTimeout(this.leaderboardTimer);
+    this.messages$.complete();
+    this.closed$.complete();
+  }
+
+  /**
+   * Messages for one user, plus broadcasts and a keep-alive heartbeat, until
+   * the user's streams are closed
+   */
+  streamFor(userId: string): Observable<MessageEvent> {
+    const messages = this.messages$.pipe(
+      filter(
+        (envelope) => envelope.userId === null || envelope.userId === userId,
+      ),
+      map(({ notification }) => ({
+        type: notification.type,
+        data: notification.data,
+      })),
+    );
+    const heartbeat = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map(() => ({ type: 'heartbeat', data: {} })),
+    );
+    return merge(messages, heartbeat).pipe(
+      takeUntil(this.closed$.pipe(filter((closedId) => closedId === userId))),
+    );
+  }
+
+  /** Ends every open stream of the user, e.g. once they are suspended */
+  closeStreams(userId: string) {
+    this.closed$.next(userId);
+  }
+
+  notifyUser(
+    userId: string,
+    type: NotificationTypes,
+    data: Record<string, unknown>,
+  ) {
+    this.messages$.next({ userId, notification: { type, data } });
+  }
+
+  /**
+   * Tells every client the leaderboard may have moved. Scoring bursts
+   * (e.g. a queue backlog draining) collapse into one message.
+   */
+  leaderboardChanged() {
+    if (this.leaderboardTimer) return;
+    this.leaderboardTimer = setTimeout(() => {
+      this.leaderboardTimer = null;
+      this.messages$.next({
+        userId: null,
+        notification: { type: NotificationTypes.LEADERBOARD_CHANGED, data: {} },
+      });
+    }, LEADERBOARD_THROTTLE_MS);
+  }
+}
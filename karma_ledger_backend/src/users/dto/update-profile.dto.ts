@@ -0,0 +1,70 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  MaxLength,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WeekStart } from 'src/config/week-start';
+
+export class UpdateProfileDto {
+  @ApiPropertyOptional({ example: 'john_doe' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  @IsOptional()
+  username?: string;
+
+  @ApiPropertyOptional({ example: 'John Doe', nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  display_name?: string | null;
+
+  @ApiPropertyOptional({ example: 'Trying to do one kind thing a day.' })
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  bio?: string | null;
+
+  @ApiPropertyOptional({ example: 'Africa/Nairobi', nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string | null;
+
+  @ApiPropertyOptional({
+    enum: WeekStart,
+    nullable: true,
+    description: 'Day weeks begin on; DEFAULT_WEEK_START when null',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsEnum(WeekStart)
+  @IsOptional()
+  week_start?: WeekStart | null;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Stop suggestions being generated every week',
+  })
+  @IsBoolean()
+  @IsOptional()
+  suggestions_opt_out?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'https://example.com/avatar.png',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUrl({ protocols: ['https', 'http'], require_protocol: true })
+  @MaxLength(500)
+  @IsOptional()
+  avatar_url?: string | null;
+}
@@ -9,6 +9,8 @@ import {
 import { KarmaEvent } from 'src/karma_event/models/karma_event.model';
 import { HasMany } from 'sequelize-typescript';
 import { UserBadge } from './user_badges.model';
+import { UserRole } from 'src/config/roles';
+import { WeekStart } from 'src/config/week-start';
 
 @Table({ tableName: 'users', timestamps: true })
 export class User extends Model {
@@ -26,6 +28,48 @@ export class User extends Model {
   @Column
   password: string;
 
+  @Default(UserRole.USER)
+  @Column(DataType.STRING)
+  role: UserRole;
+
+  @Column({ type: DataType.STRING, allowNull: true })
+  display_name: string | null;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  bio: string | null;
+
+  @Column({ type: DataType.STRING, allowNull: true })
+  avatar_url: string | null;
+
+  /** Set while an admin has suspended the account; suspended users can't sign in */
+  @Column({ type: DataType.DATE, allowNull: true })
+  suspended_at: Date | null;
+
+  /** When the account will be erased; cleared if the user logs in before then */
+  @Column({ type: DataType.DATE, allowNull: true })
+  deletion_scheduled_at: Date | null;
+
+  /** Set once the user opened the link from the verification email */
+  @Column({ type: DataType.DATE, allowNull: true })
+  email_verified_at: Date | null;
+
+  /** IANA timezone used for day/week boundaries, e.g. 'Africa/Nairobi' */
+  @Column({ type: DataType.STRING, allowNull: true })
+  timezone: string | null;
+
+  /** Day the user's weeks begin on; DEFAULT_WEEK_START when unset */
+  @Column({ type: DataType.STRING, allowNull: true })
+  week_start: WeekStart | null;
+
+  /** Set when the user doesn't want suggestions generated every week */
+  @Default(false)
+  @Column(DataType.BOOLEAN)
+  suggestions_opt_out: boolean;
+
+  /** Last manual suggestion run, for the cooldown in DashboardService */
+  @Column({ type: DataType.DATE, allowNull: true })
+  suggestions_triggered_at: Date | null;
+
   @HasMany(() => KarmaEvent)
   karmaEvents: KarmaEvent[];
 
@@ -0,0 +1,51 @@
+import { WeekStart } from 'src/config/week-start';
+import { User } from './models/users.model';
+
+export interface PublicProfile {
+  user_id: string;
+  username: string;
+  display_name: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  createdAt: Date;
+}
+
+export interface PrivateProfile extends PublicProfile {
+  email: string;
+  email_verified: boolean;
+  timezone: string | null;
+  week_start: WeekStart | null;
+  suggestions_opt_out: boolean;
+  role: string;
+  deletion_scheduled_at: Date | null;
+}
+
+/** What other users may see. Never includes email or password. */
+export const toPublicProfile = (user: User): PublicProfile => ({
+  user_id: user.user_id,
+  username: user.username,
+  display_name: user.display_name,
+  bio: user.bio,
+  avatar_url: user.avatar_url,
+  createdAt: user.createdAt as Date,
+});
+
+/** What the user (or an admin) sees about their own account */
+export const toPrivateProfile = (user: User): PrivateProfile => ({
+  ...toPublicProfile(user),
+  email: user.email,
+  email_verified: !!user.email_verified_at,
+  timezone: user.timezone,
+  week_start: user.week_start,
+  suggestions_opt_out: user.suggestions_opt_out,
+  role: user.role,
+  deletion_scheduled_at: user.deletion_scheduled_at,
+});
+
+/** Account state shown in the admin API */
+export const toAdminProfile = (
+  user: User,
+): PrivateProfile & { suspended_at: Date | null } => ({
+  ...toPrivateProfile(user),
+  suspended_at: user.suspended_at,
+});
@@ -1,55 +1,82 @@
 import {
+  Body,
   Controller,
   Get,
   Param,
-  Query,
+  ParseUUIDPipe,
+  Patch,
+  Request,
+  UseGuards,
   HttpException,
   HttpStatus,
 } from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
 import { UsersService } from './users.service';
 import { handleError } from 'src/util/error';
+import { JwtAuthGuard } from 'src/auth/jwt.guard';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { UserRole } from 'src/config/roles';
+import { AuthenticatedRequest } from 'src/util/types';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { toPrivateProfile, toPublicProfile } from './user.serializer';
 
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT')
 @Controller('users')
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
   @Get()
-  findAll() {
-    return this.usersService.findAll();
+  @Roles(UserRole.ADMIN)
+  async findAll() {
+    const users = await this.usersService.findAll();
+    return users.map((user) => ({
+      ...toPrivateProfile(user),
+      badges: user.badges,
+    }));
   }
-  @Get('/lookup')
-  async findByEmail(@Query('email') email: string) {
+
+  @Get('me')
+  async getMe(@Request() req: AuthenticatedRequest) {
+    try {
+      const user = await this.usersService.findById(req.user?.user_id ?? '');
+      return toPrivateProfile(user);
+    } catch (error) {
+      throw new HttpException(
+        { status: HttpStatus.NOT_FOUND, message: handleError(error) },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+  }
+
+  @Patch('me')
+  async updateMe(
+    @Request() req: AuthenticatedRequest,
+    @Body() dto: UpdateProfileDto,
+  ) {
     try {
-      const user = await this.usersService.findByEmail(email);
-      if (!user) {
-        throw new HttpException(
-          { status: HttpStatus.NOT_FOUND, message: 'User not found' },
-          HttpStatus.NOT_FOUND,
-        );
-      }
-      return user;
+      const user = await this.usersService.updateProfile(
+        req.user?.user_id ?? '',
+        dto,
+      );
+      return toPrivateProfile(user);
     } catch (error) {
       throw new HttpException(
-        {
-          status: HttpStatus.BAD_REQUEST,
-          message: handleError(error),
-        },
+        { status: HttpStatus.BAD_REQUEST, message: handleError(error) },
         HttpStatus.BAD_REQUEST,
       );
     }
   }
 
   @Get(':id')
-  async findById(@Param('id') id: string) {
+  async findById(@Param('id', ParseUUIDPipe) id: string) {
     try {
-      return await this.usersService.findById(id);
+      return toPublicProfile(await this.usersService.findById(id));
     } catch (error) {
       throw new HttpException(
-        {
-          status: HttpStatus.BAD_REQUEST,
-          message: handleError(error),
-        },
-        HttpStatus.BAD_REQUEST,
+        { status: HttpStatus.NOT_FOUND, message: handleError(error) },
+        HttpStatus.NOT_FOUND,
       );
     }
   }
@@ -1,15 +1,22 @@
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
 import { User } from './models/users.model';
 import { CreateUserDto } from './dto/createUser';
 import { hashPassword } from 'src/util/password';
 import { handleError } from 'src/util/error';
 import { UserBadge } from './models/user_badges.model';
 import { Badge } from 'src/dashboard/models/badge.model';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DomainEvents } from 'src/config/events';
 
 @Injectable()
 export class UsersService {
-  constructor(@InjectModel(User) private userModel: typeof User) {}
+  constructor(
+    @InjectModel(User) private userModel: typeof User,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
 
   async createUser(createUserDto: CreateUserDto): Promise<User> {
     const { email, username, password } = createUserDto;
@@ -52,4 +59,45 @@ export class UsersService {
     }
     return userRecord;
   }
+
+  /** Callers are responsible for ending the user's existing sessions */
+  async updatePassword(userId: string, password: string): Promise<void> {
+    const user = await this.findById(userId);
+    await user.update({ password: await hashPassword(password) });
+  }
+
+  /** Returns true if a pending deletion was cancelled */
+  async cancelScheduledDeletion(userId: string): Promise<boolean> {
+    const [cancelled] = await this.userModel.update(
+      { deletion_scheduled_at: null },
+      { where: { user_id: userId, deletion_scheduled_at: { [Op.ne]: null } } },
+    );
+    return cancelled > 0;
+  }
+
+  async markEmailVerified(userId: string): Promise<User> {
+    const user = await this.findById(userId);
+    if (!user.email_verified_at) {
+      await user.update({ email_verified_at: new Date() });
+    }
+    return user;
+  }
+
+  async updateProfile(userId: string, dto: UpdateProfileDto): Promise<User> {
+    const user = await this.findById(userId);
+    const previousTimezone = user.timezone;
+    const previousWeekStart = user.week_start;
+    await user.update(dto);
+
+    // Day and week boundaries moved, so streaks and active weeks need recomputing
+    if (
+      (dto.timezone !== undefined && dto.timezone !== previousTimezone) ||
+      (dto.week_start !== undefined && dto.week_start !== previousWeekStart)
+    ) {
+      this.eventEmitter.emit(DomainEvents.USER_WEEK_SETTINGS_CHANGED, {
+        userId,
+      });
+    }
+    return user;
+  }
 }
@@ -0,0 +1,86 @@
+/** Leading characters that make spreadsheets evaluate a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value as string | number | boolean);
+  // User text like "=HYPERLINK(...)" is shown as text, not run; numbers stay numbers
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  // RFC 4180: quote cells containing separators, quotes or line breaks
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Renders one CSV record, including its line break, for streamed output */
+export const toCsvLine = (cells: unknown[]): string =>
+  cells.map(formatCell).join(',') + '\r\n';
+
+/** Renders rows as RFC 4180 CSV with a header line of `columns` */
+export const toCsv = <T extends object>(
+  rows: T[],
+  columns: (keyof T & string)[],
+): string =>
+  [
+    toCsvLine(columns),
+    ...rows.map((row) => toCsvLine(columns.map((column) => row[column]))),
+  ].join('');
+
+/** Splits RFC 4180 CSV into rows of cells; rows with only empty cells are skipped */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+/** Parses CSV with a header line into one object per row, keyed by header */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((column) => column.trim().toLowerCase());
+  return rows.map((cells) =>
+    Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])),
+  );
+};
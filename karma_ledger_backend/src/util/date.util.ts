@@ -1,61 +1,107 @@
 /**
- * Utility functions for date and time calculations
+ * Utility functions for date and time calculations. Week boundaries are
+ * decided by WeekService, which builds on these.
  */
+import { WEEK_START_DAYS, WeekStart } from 'src/config/week-start';
 
 /**
- * Get the current calendar week boundaries (Monday to Sunday)
- * This provides consistent week calculation across the entire application
+ * Whether `timezone` is an IANA zone name the runtime understands
  */
-export function getCurrentCalendarWeek(): { start: Date; end: Date } {
-  const now = new Date();
-  const dayOfWeek = now.getDay(); // Sunday = 0, Monday = 1, ..., Saturday = 6
-  
-  // Calculate days since Monday
-  const daysSinceMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-  
-  // Start of current week (Monday at 00:00:00)
-  const weekStart = new Date(now);
-  weekStart.setDate(now.getDate() - daysSinceMonday);
-  weekStart.setHours(0, 0, 0, 0);
-  
-  // End of current week (Sunday at 23:59:59)
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
-  
-  return { start: weekStart, end: weekEnd };
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 /**
- * Get calendar week boundaries for a specific date
+ * Number of days since 1970-01-01 for the calendar date `date` falls on in
+ * `timezone`. Consecutive local days always differ by exactly one.
  */
-export function getCalendarWeekForDate(date: Date): { start: Date; end: Date } {
-  const targetDate = new Date(date);
-  const dayOfWeek = targetDate.getDay(); // Sunday = 0, Monday = 1, ..., Saturday = 6
-  
-  // Calculate days since Monday
-  const daysSinceMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-  
-  // Start of week (Monday at 00:00:00)
-  const weekStart = new Date(targetDate);
-  weekStart.setDate(targetDate.getDate() - daysSinceMonday);
-  weekStart.setHours(0, 0, 0, 0);
-  
-  // End of week (Sunday at 23:59:59)
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
-  
-  return { start: weekStart, end: weekEnd };
+export function getDayIndexInTimezone(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(new Date(date));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day')) / 86400000;
 }
 
 /**
- * Calculate how many weeks have passed since a join date
+ * Week number for a day index from getDayIndexInTimezone, counting weeks
+ * that begin on `weekStart`. Day 0 (1970-01-01) was a Thursday, so e.g.
+ * Monday-based weeks are offset by 3 days.
  */
-export function getWeeksSinceJoin(joinedAt: Date): number {
-  const now = new Date();
-  const diffDays = Math.floor(
-    (now.getTime() - joinedAt.getTime()) / (1000 * 60 * 60 * 24),
+export function getWeekIndexForDayIndex(
+  dayIndex: number,
+  weekStart: WeekStart = WeekStart.MONDAY,
+): number {
+  return Math.floor((dayIndex + getWeekOffset(weekStart)) / 7);
+}
+
+/** Day index of the first day of a week from getWeekIndexForDayIndex */
+export function getFirstDayOfWeekIndex(
+  weekIndex: number,
+  weekStart: WeekStart = WeekStart.MONDAY,
+): number {
+  return weekIndex * 7 - getWeekOffset(weekStart);
+}
+
+/**
+ * The instant the local day `dayIndex` begins in `timezone`. That is
+ * midnight, except where a DST change skips midnight, when the day starts
+ * at the transition.
+ */
+export function getStartOfDayInTimezone(
+  dayIndex: number,
+  timezone: string,
+): Date {
+  const utcMidnight = dayIndex * 86400000;
+  // UTC offsets either side of the day; they differ if a DST change is near
+  const offsets = new Set(
+    [utcMidnight - 50400000, utcMidnight + 50400000].map((time) =>
+      getTimezoneOffsetMs(new Date(time), timezone),
+    ),
   );
-  return Math.max(1, Math.ceil(diffDays / 7));
-}
\ No newline at end of file
+  const candidates = [...offsets]
+    .map((offset) => utcMidnight - offset)
+    .filter(
+      (time) => getDayIndexInTimezone(new Date(time), timezone) === dayIndex,
+    );
+  return new Date(Math.min(...candidates));
+}
+
+/** Days from the Thursday of 1970-01-01 back to the previous `weekStart` */
+function getWeekOffset(weekStart: WeekStart): number {
+  return (11 - WEEK_START_DAYS[weekStart]) % 7;
+}
+
+/** How far local time in `timezone` is ahead of UTC at `date`, in ms */
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const localAsUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+  return localAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
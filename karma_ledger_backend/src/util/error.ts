@@ -1,6 +1,22 @@
+import { HttpStatus } from '@nestjs/common';
+
+/** Thrown by services when the requested record does not exist */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
 export const handleError = (error: any): string => {
   if (error instanceof Error) {
     return error.message;
   }
   return 'An unknown error occurred';
 };
+
+/** 404 for a missing record, 400 for anything else */
+export const errorStatus = (error: unknown): HttpStatus =>
+  error instanceof NotFoundError
+    ? HttpStatus.NOT_FOUND
+    : HttpStatus.BAD_REQUEST;
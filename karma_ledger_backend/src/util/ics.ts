@@ -0,0 +1,84 @@
+/** Minimal RFC 5545 (iCalendar) writer for all-day events */
+
+export interface IcsAllDayEvent {
+  uid: string;
+  /** Days since 1970-01-01, as returned by getDayIndexInTimezone */
+  dayIndex: number;
+  summary: string;
+  description?: string | null;
+  categories?: string[];
+  /** When the event was last changed, written as DTSTAMP */
+  stamp: Date;
+}
+
+const formatIcsDate = (dayIndex: number): string =>
+  new Date(dayIndex * 86400000).toISOString().slice(0, 10).replace(/-/g, '');
+
+const formatIcsDateTime = (date: Date): string =>
+  new Date(date)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+/** Escapes the characters TEXT values reserve: backslash, ; , and newlines */
+const escapeIcsText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/** Folds a content line into 75-octet chunks, continuing with a leading space */
+const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines spend one octet on the leading space
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ') + '\r\n';
+};
+
+export const icsCalendarStart = (name: string): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Karma Ledger//Karma Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ]
+    .map(foldIcsLine)
+    .join('');
+
+export const icsCalendarEnd = (): string => foldIcsLine('END:VCALENDAR');
+
+export const toIcsEvent = (event: IcsAllDayEvent): string =>
+  [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDateTime(event.stamp)}`,
+    `DTSTART;VALUE=DATE:${formatIcsDate(event.dayIndex)}`,
+    `DTEND;VALUE=DATE:${formatIcsDate(event.dayIndex + 1)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description
+      ? [`DESCRIPTION:${escapeIcsText(event.description)}`]
+      : []),
+    ...(event.categories?.length
+      ? [`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`]
+      : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ]
+    .map(foldIcsLine)
+    .join('');
@@ -1,7 +1,15 @@
 import { Request } from 'express';
+import { UserRole } from 'src/config/roles';
 export interface AuthenticatedRequest extends Request {
   user?: {
     user_id: string;
+    role?: UserRole;
     [key: string]: any;
   };
 }
+
+export interface PaginatedResult<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { User } from 'src/users/models/users.model';
+import { WeekService } from './week.service';
+
+@Module({
+  imports: [SequelizeModule.forFeature([User])],
+  providers: [WeekService],
+  exports: [WeekService],
+})
+export class WeekModule {}
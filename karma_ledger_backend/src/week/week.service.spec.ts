@@ -0,0 +1,275 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { User } from 'src/users/models/users.model';
+import { WeekStart } from 'src/config/week-start';
+import { WeekPreferences, WeekService, WeekWindow } from './week.service';
+
+const hoursIn = ({ start, end }: WeekWindow) =>
+  (end.getTime() - start.getTime()) / 3600000;
+
+describe('WeekService', () => {
+  let service: WeekService;
+  let config: Record<string, string>;
+  const userRepo = { findByPk: jest.fn() };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WeekService,
+        { provide: getModelToken(User), useValue: userRepo },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    service = module.get(WeekService);
+  };
+
+  beforeEach(async () => {
+    config = {};
+    userRepo.findByPk.mockReset();
+    await createService();
+  });
+
+  describe('getWeek across DST transitions', () => {
+    it('gives a 167 hour week when New York springs forward', () => {
+      const preferences: WeekPreferences = {
+        timezone: 'America/New_York',
+        weekStart: WeekStart.MONDAY,
+      };
+      const week = service.getWeek(
+        new Date('2026-03-05T12:00:00Z'),
+        preferences,
+      );
+
+      expect(week.start.toISOString()).toBe('2026-03-02T05:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+      expect(hoursIn(week)).toBe(167);
+    });
+
+    it('starts a Sunday week at local midnight on the day clocks change', () => {
+      const preferences: WeekPreferences = {
+        timezone: 'America/New_York',
+        weekStart: WeekStart.SUNDAY,
+      };
+      const week = service.getWeek(
+        new Date('2026-03-10T12:00:00Z'),
+        preferences,
+      );
+
+      expect(week.start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2026-03-15T04:00:00.000Z');
+    });
+
+    it('gives a 169 hour week when London falls back', () => {
+      const preferences: WeekPreferences = {
+        timezone: 'Europe/London',
+        weekStart: WeekStart.MONDAY,
+      };
+      const week = service.getWeek(
+        new Date('2026-10-22T12:00:00Z'),
+        preferences,
+      );
+
+      expect(week.start.toISOString()).toBe('2026-10-18T23:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2026-10-26T00:00:00.000Z');
+      expect(hoursIn(week)).toBe(169);
+    });
+
+    it('handles southern hemisphere DST starting mid-week', () => {
+      const preferences: WeekPreferences = {
+        timezone: 'Australia/Sydney',
+        weekStart: WeekStart.MONDAY,
+      };
+      const week = service.getWeek(
+        new Date('2026-10-01T00:00:00Z'),
+        preferences,
+      );
+
+      expect(week.start.toISOString()).toBe('2026-09-27T14:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2026-10-04T13:00:00.000Z');
+      expect(hoursIn(week)).toBe(167);
+    });
+
+    it('starts the week at the transition when DST skips midnight', () => {
+      // Santiago moves from 00:00 straight to 01:00 on 6 September 2026
+      const preferences: WeekPreferences = {
+        timezone: 'America/Santiago',
+        weekStart: WeekStart.SUNDAY,
+      };
+      const week = service.getWeek(
+        new Date('2026-09-08T12:00:00Z'),
+        preferences,
+      );
+      const previous = service.getWeek(
+        new Date('2026-09-05T12:00:00Z'),
+        preferences,
+      );
+
+      expect(week.start.toISOString()).toBe('2026-09-06T04:00:00.000Z');
+      expect(previous.end).toEqual(week.start);
+      expect(week.index).toBe(previous.index + 1);
+    });
+  });
+
+  describe('getWeekIndex', () => {
+    it('puts the last minutes of a fall-back Sunday in the same week', () => {
+      const preferences: WeekPreferences = {
+        timezone: 'Europe/London',
+        weekStart: WeekStart.MONDAY,
+      };
+      const monday = service.getWeekIndex(
+        new Date('2026-10-19T00:30:00+01:00'),
+        preferences,
+      );
+
+      expect(
+        service.getWeekIndex(new Date('2026-10-25T23:59:00Z'), preferences),
+      ).toBe(monday);
+      expect(
+        service.getWeekIndex(new Date('2026-10-26T00:00:00Z'), preferences),
+      ).toBe(monday + 1);
+    });
+
+    it('follows the week start for dates around midnight', () => {
+      // 23:30 on Saturday 7 March in New York, then 00:30 on Sunday
+      const saturdayNight = new Date('2026-03-08T04:30:00Z');
+      const sundayMorning = new Date('2026-03-08T05:30:00Z');
+      const timezone = 'America/New_York';
+
+      const sunday = { timezone, weekStart: WeekStart.SUNDAY };
+      expect(service.getWeekIndex(sundayMorning, sunday)).toBe(
+        service.getWeekIndex(saturdayNight, sunday) + 1,
+      );
+
+      const monday = { timezone, weekStart: WeekStart.MONDAY };
+      expect(service.getWeekIndex(sundayMorning, monday)).toBe(
+        service.getWeekIndex(saturdayNight, monday),
+      );
+    });
+  });
+
+  describe('getWeekNumberSinceJoin', () => {
+    it('counts from the week the user joined in their timezone', () => {
+      const joinedAt = new Date('2026-03-08T04:00:00Z'); // Saturday, 23:00 EST
+      const event = new Date('2026-03-08T06:00:00Z'); // Sunday, 02:00 EDT
+      const timezone = 'America/New_York';
+
+      expect(
+        service.getWeekNumberSinceJoin(joinedAt, event, {
+          timezone,
+          weekStart: WeekStart.SUNDAY,
+        }),
+      ).toBe(2);
+      expect(
+        service.getWeekNumberSinceJoin(joinedAt, event, {
+          timezone,
+          weekStart: WeekStart.MONDAY,
+        }),
+      ).toBe(1);
+    });
+
+    it('never returns less than 1 for dates before joining', () => {
+      expect(
+        service.getWeekNumberSinceJoin(
+          new Date('2026-03-20T00:00:00Z'),
+          new Date('2026-01-01T00:00:00Z'),
+          { timezone: 'UTC', weekStart: WeekStart.MONDAY },
+        ),
+      ).toBe(1);
+    });
+  });
+
+  describe('preferences', () => {
+    it('falls back to the configured defaults', async () => {
+      config = {
+        DEFAULT_TIMEZONE: 'Africa/Nairobi',
+        DEFAULT_WEEK_START: WeekStart.SUNDAY,
+      };
+      await createService();
+
+      expect(
+        service.preferencesFor({
+          timezone: 'Not/AZone',
+          week_start: null,
+        } as User),
+      ).toEqual({ timezone: 'Africa/Nairobi', weekStart: WeekStart.SUNDAY });
+
+      userRepo.findByPk.mockResolvedValue(null);
+      await expect(service.getUserPreferences('missing')).resolves.toEqual({
+        timezone: 'Africa/Nairobi',
+        weekStart: WeekStart.SUNDAY,
+      });
+    });
+
+    it("uses the user's own timezone and week start", async () => {
+      userRepo.findByPk.mockResolvedValue({
+        timezone: 'Asia/Tokyo',
+        week_start: WeekStart.SATURDAY,
+      });
+
+      await expect(service.getUserPreferences('user-1')).resolves.toEqual({
+        timezone: 'Asia/Tokyo',
+        weekStart: WeekStart.SATURDAY,
+      });
+    });
+  });
+
+  describe('getMonth and getYear', () => {
+    it('spans a month that contains a DST change', () => {
+      const preferences: WeekPreferences = {
+        timezone: 'Europe/London',
+        weekStart: WeekStart.MONDAY,
+      };
+      const month = service.getMonth(
+        new Date('2026-03-31T23:30:00Z'),
+        preferences,
+      );
+
+      // 00:30 on 1 April in London (BST) is already the next month
+      expect(month.start.toISOString()).toBe('2026-03-31T23:00:00.000Z');
+      expect(month.end.toISOString()).toBe('2026-04-30T23:00:00.000Z');
+    });
+
+    it('rolls over into the next year in December', () => {
+      const preferences: WeekPreferences = {
+        timezone: 'Asia/Tokyo',
+        weekStart: WeekStart.MONDAY,
+      };
+      const date = new Date('2026-12-15T00:00:00Z');
+
+      expect(service.getMonth(date, preferences).end.toISOString()).toBe(
+        '2026-12-31T15:00:00.000Z',
+      );
+      expect(service.getYear(date, preferences)).toEqual({
+        start: new Date('2025-12-31T15:00:00Z'),
+        end: new Date('2026-12-31T15:00:00Z'),
+      });
+    });
+  });
+
+  describe('getLeagueWeek', () => {
+    it('cuts the leaderboard week in the league timezone', async () => {
+      config = {
+        LEAGUE_TIMEZONE: 'Pacific/Auckland',
+        LEAGUE_WEEK_START: WeekStart.MONDAY,
+      };
+      await createService();
+
+      // 01:00 on Monday 19 October in Auckland (NZDT, UTC+13)
+      const week = service.getLeagueWeek(new Date('2026-10-18T12:00:00Z'));
+
+      expect(week.start.toISOString()).toBe('2026-10-18T11:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2026-10-25T11:00:00.000Z');
+    });
+
+    it('defaults to UTC weeks starting on Monday', () => {
+      const week = service.getLeagueWeek(new Date('2026-10-21T12:00:00Z'));
+
+      expect(week.start.toISOString()).toBe('2026-10-19T00:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2026-10-26T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { ConfigService } from '@nestjs/config';
+import { User } from 'src/users/models/users.model';
+import { WEEK_STARTS, WeekStart } from 'src/config/week-start';
+import {
+  getDayIndexInTimezone,
+  getFirstDayOfWeekIndex,
+  getStartOfDayInTimezone,
+  getWeekIndexForDayIndex,
+  isValidTimezone,
+} from 'src/util/date.util';
+
+export interface WeekPreferences {
+  timezone: string;
+  weekStart: WeekStart;
+}
+
+export interface CalendarWindow {
+  /** Local midnight at the start of the first day */
+  start: Date;
+  /** Start of the following period, exclusive. Not a whole number of days after `start` across a DST change */
+  end: Date;
+}
+
+export interface WeekWindow extends CalendarWindow {
+  /** Weeks since 1970; only comparable between windows with the same preferences */
+  index: number;
+}
+
+/**
+ * The one place that decides where weeks begin and end. Users' weeks follow
+ * their own timezone and week start; the leaderboard's follow the league's
+ * (LEAGUE_TIMEZONE, LEAGUE_WEEK_START), so everyone competes in the same
+ * window.
+ */
+@Injectable()
+export class WeekService {
+  private readonly defaults: WeekPreferences;
+  private readonly league: WeekPreferences;
+
+  constructor(
+    @InjectModel(User) private readonly userRepo: typeof User,
+    configService: ConfigService,
+  ) {
+    this.defaults = {
+      timezone: this.toTimezone(
+        configService.get<string>('DEFAULT_TIMEZONE'),
+        'UTC',
+      ),
+      weekStart: this.toWeekStart(
+        configService.get<string>('DEFAULT_WEEK_START'),
+        WeekStart.MONDAY,
+      ),
+    };
+    this.league = {
+      timezone: this.toTimezone(
+        configService.get<string>('LEAGUE_TIMEZONE'),
+        this.defaults.timezone,
+      ),
+      weekStart: this.toWeekStart(
+        configService.get<string>('LEAGUE_WEEK_START'),
+        this.defaults.weekStart,
+      ),
+    };
+  }
+
+  /** A user's preferences, with unset or unknown values replaced by the defaults */
+  preferencesFor(user: Pick<User, 'timezone' | 'week_start'>): WeekPreferences {
+    return {
+      timezone: this.toTimezone(user.timezone, this.defaults.timezone),
+      weekStart: this.toWeekStart(user.week_start, this.defaults.weekStart),
+    };
+  }
+
+  async getUserPreferences(userId: string): Promise<WeekPreferences> {
+    const user = await this.userRepo.findByPk(userId, {
+      attributes: ['timezone', 'week_start'],
+    });
+    return user ? this.preferencesFor(user) : { ...this.defaults };
+  }
+
+  get leaguePreferences(): WeekPreferences {
+    return { ...this.league };
+  }
+
+  /** Days since 1970 of the local date `date` falls on */
+  getDayIndex(date: Date, { timezone }: WeekPreferences): number {
+    return getDayIndexInTimezone(date, timezone);
+  }
+
+  getWeekIndexForDay(dayIndex: number, { weekStart }: WeekPreferences) {
+    return getWeekIndexForDayIndex(dayIndex, weekStart);
+  }
+
+  getWeekIndex(date: Date, preferences: WeekPreferences): number {
+    return this.getWeekIndexForDay(
+      this.getDayIndex(date, preferences),
+      preferences,
+    );
+  }
+
+  /** The week `date` falls in */
+  getWeek(date: Date, preferences: WeekPreferences): WeekWindow {
+    const index = this.getWeekIndex(date, preferences);
+    const firstDay = getFirstDayOfWeekIndex(index, preferences.weekStart);
+    return {
+      index,
+      start: getStartOfDayInTimezone(firstDay, preferences.timezone),
+      end: getStartOfDayInTimezone(firstDay + 7, preferences.timezone),
+    };
+  }
+
+  /** The leaderboard week `date` (by default now) falls in */
+  getLeagueWeek(date: Date = new Date()): WeekWindow {
+    return this.getWeek(date, this.league);
+  }
+
+  /** The calendar month `date` falls in */
+  getMonth(date: Date, { timezone }: WeekPreferences): CalendarWindow {
+    const local = new Date(getDayIndexInTimezone(date, timezone) * 86400000);
+    const year = local.getUTCFullYear();
+    const month = local.getUTCMonth();
+    return {
+      start: this.startOfDate(year, month, timezone),
+      end: this.startOfDate(year, month + 1, timezone),
+    };
+  }
+
+  /** The calendar year `date` falls in */
+  getYear(date: Date, { timezone }: WeekPreferences): CalendarWindow {
+    const local = new Date(getDayIndexInTimezone(date, timezone) * 86400000);
+    const year = local.getUTCFullYear();
+    return {
+      start: this.startOfDate(year, 0, timezone),
+      end: this.startOfDate(year + 1, 0, timezone),
+    };
+  }
+
+  /**
+   * 1-based number of the user's week `date` falls in, counting the week
+   * they joined as week 1
+   */
+  getWeekNumberSinceJoin(
+    joinedAt: Date,
+    date: Date,
+    preferences: WeekPreferences,
+  ): number {
+    return Math.max(
+      1,
+      this.getWeekIndex(date, preferences) -
+        this.getWeekIndex(joinedAt, preferences) +
+        1,
+    );
+  }
+
+  /** Start of the first day of `month` (0-based, may overflow into the next year) */
+  private startOfDate(year: number, month: number, timezone: string) {
+    return getStartOfDayInTimezone(
+      Date.UTC(year, month, 1) / 86400000,
+      timezone,
+    );
+  }
+
+  private toTimezone(value: string | null | undefined, fallback: string) {
+    return value && isValidTimezone(value) ? value : fallback;
+  }
+
+  private toWeekStart(
+    value: string | null | undefined,
+    fallback: WeekStart,
+  ): WeekStart {
+    return WEEK_STARTS.includes(value as WeekStart)
+      ? (value as WeekStart)
+      : fallback;
+  }
+}